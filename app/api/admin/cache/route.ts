@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { purgeCache } from '@/app/lib/flask/cache';
+
+// Purge cached Flask sections. Narrow the purge with one of:
+//   ?suburb=Bondi      - every suburb graph for a suburb
+//   ?gnafId=GANSW123   - every property graph for an address
+//   ?pattern=<glob>    - raw key pattern (lowercased endpoint|sorted params), e.g. /suburb_report/graphs/msp/*
+// With no filter the whole cache is cleared.
+export const DELETE = withAuth({ admin: true }, async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const suburb = searchParams.get('suburb');
+    const gnafId = searchParams.get('gnafId');
+
+    // Keys are `endpoint` alone or `endpoint|sorted params`, so match both forms
+    let patterns = [searchParams.get('pattern') || '*'];
+    if (suburb) {
+      const endpoint = `/suburb_report/graphs/*/${encodeURIComponent(suburb).toLowerCase()}`;
+      patterns = [endpoint, `${endpoint}|*`];
+    } else if (gnafId) {
+      // Anchor the ID so GANSW1 does not also purge GANSW12
+      patterns = [`/property/graphs/*gnaf_id=${gnafId}`, `/property/graphs/*gnaf_id=${gnafId}&*`];
+    }
+
+    let deleted = 0;
+    for (const pattern of patterns) {
+      deleted += await purgeCache(pattern);
+    }
+    console.log('[Cache] Purged', deleted, 'entries matching', patterns.join(', '), 'by', user.email);
+
+    return NextResponse.json({
+      success: true,
+      patterns,
+      deleted,
+    });
+  } catch (error) {
+    console.error('Cache purge error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to purge cache' },
+      { status: 500 }
+    );
+  }
+});
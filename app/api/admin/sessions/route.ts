@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { endMemberSessions } from '@/app/lib/auth/session';
+import { getMemberstackClient, getMemberstackEnv } from '@/app/lib/auth/memberstack';
+
+// Force-logout a member everywhere, e.g. when their account is compromised.
+// Identify them with ?memberId=mem_... or ?email=...
+export const DELETE = withAuth({ admin: true }, async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const email = searchParams.get('email');
+    let memberId = searchParams.get('memberId');
+    if (!memberId && email) {
+      const member = await getMemberstackClient(getMemberstackEnv()).getMember(email);
+      memberId = member?.id ?? null;
+    }
+
+    if (!memberId) {
+      return NextResponse.json(
+        { success: false, error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    const revoked = await endMemberSessions(memberId);
+    console.log('[Session] Force-logout of', memberId, 'ended', revoked, 'sessions, by', user.email);
+
+    return NextResponse.json({
+      success: true,
+      memberId,
+      revoked,
+    });
+  } catch (error) {
+    console.error('Force logout error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to end sessions' },
+      { status: 500 }
+    );
+  }
+});
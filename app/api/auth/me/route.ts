@@ -1,17 +1,8 @@
 import { NextResponse } from 'next/server';
-import { getCurrentUser } from '@/app/lib/auth/session';
+import { withAuth } from '@/app/lib/auth/guard';
 
-export async function GET(): Promise<NextResponse> {
+export const GET = withAuth({}, async (_request, user) => {
   try {
-    const user = await getCurrentUser();
-
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     return NextResponse.json({
       success: true,
       user,
@@ -23,4 +14,4 @@ export async function GET(): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
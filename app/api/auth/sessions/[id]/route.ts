@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { revokeUserSession } from '@/app/lib/auth/session';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Sign out one of the member's other devices
+export const DELETE = withAuth({}, async (_request, user, context: RouteContext) => {
+  try {
+    const { id } = await context.params;
+    if (id === user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Use Sign out to end this session' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await revokeUserSession(user, id))) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log('[Session] Revoked session', id, 'for', user.email);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Session revoke error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { endMemberSessions, listUserSessions } from '@/app/lib/auth/session';
+
+// The member's live logins, for the Devices panel
+export const GET = withAuth({}, async (_request, user) => {
+  try {
+    const sessions = await listUserSessions(user);
+    return NextResponse.json({ success: true, sessions });
+  } catch (error) {
+    console.error('Session list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Sign out every other device, keeping the session making the request
+export const DELETE = withAuth({}, async (_request, user) => {
+  try {
+    const revoked = await endMemberSessions(user.memberstackId, user.id);
+    console.log('[Session] Revoked', revoked, 'other sessions for', user.email);
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Session revoke error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getMemberstackClient } from '@/app/lib/auth/memberstack';
+import { getMemberstackClient, getMemberstackEnv, verifyMember } from '@/app/lib/auth/memberstack';
 import { createSession } from '@/app/lib/auth/session';
 import type { SignupRequest, AuthResponse, User } from '@/app/lib/auth/types';
 
 export async function POST(request: NextRequest): Promise<NextResponse<AuthResponse>> {
   try {
     const body: SignupRequest = await request.json();
-    const { email, firstName, lastName, plan, memberstackToken, env = 'staging' } = body;
+    const { email, firstName, lastName, memberstackToken } = body;
 
     if (!email || !memberstackToken) {
       return NextResponse.json(
@@ -15,44 +15,31 @@ export async function POST(request: NextRequest): Promise<NextResponse<AuthRespo
       );
     }
 
-    // Get member from Memberstack (account was created client-side)
-    const client = getMemberstackClient(env);
-    const member = await client.getMember(email);
-
-    if (!member) {
-      // For signup, if we can't fetch the member yet, create a temporary user
-      // This handles the case where Memberstack hasn't synced yet
-      const user: User = {
-        id: `temp_${Date.now()}`,
-        email,
-        firstName: firstName || '',
-        lastName: lastName || '',
-        activePlans: plan ? [plan] : ['pln_basic--n5180oor'],
-        bestPlanId: plan || 'pln_basic--n5180oor',
-        memberstackId: '',
-      };
-
-      await createSession(user);
-
-      return NextResponse.json({
-        success: true,
-        user,
-        redirectUrl: '/members-area',
-      });
+    // The account was created client-side; its token proves which member it is
+    const verification = await verifyMember(memberstackToken, { email });
+    if (!verification.ok) {
+      console.warn('[Signup] Refused signup for email:', email, '-', verification.error);
+      return NextResponse.json(
+        { success: false, error: verification.error },
+        { status: verification.status }
+      );
     }
 
-    // Get active plans
+    const { member } = verification;
+
+    // Plans come from Memberstack only; a new member starts on Free until checkout completes
+    const client = getMemberstackClient(getMemberstackEnv());
     const activePlans = client.getActivePlanIds(member);
     const bestPlanId = client.getBestPlanId(activePlans);
 
-    // Create user object
+    // Create user object; names typed into the form are used until Memberstack has them
     const user: User = {
       id: member.id,
       email: member.auth.email,
-      firstName: member.customFields['first-name'] || firstName || '',
-      lastName: member.customFields['last-name'] || lastName || '',
-      activePlans: activePlans.length > 0 ? activePlans : (plan ? [plan] : ['pln_basic--n5180oor']),
-      bestPlanId: bestPlanId || plan || 'pln_basic--n5180oor',
+      firstName: member.customFields?.['first-name'] || firstName || '',
+      lastName: member.customFields?.['last-name'] || lastName || '',
+      activePlans: activePlans.length > 0 ? activePlans : ['pln_basic--n5180oor'],
+      bestPlanId: bestPlanId || 'pln_basic--n5180oor',
       memberstackId: member.id,
     };
 
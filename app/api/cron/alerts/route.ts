@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/app/lib/auth/session';
+import { checkAccess } from '@/app/lib/auth/guard';
+import { runAlertJob } from '@/app/lib/alerts/job';
+
+// A run snapshots every watched item, so give it longer than a page request
+export const maxDuration = 300;
+
+// Run watchlist alerts. Called daily by the scheduler in vercel.json, which sends
+// CRON_SECRET as a bearer token; admins can also trigger a run by hand.
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const secret = process.env.CRON_SECRET;
+    const authorized = !!secret && request.headers.get('authorization') === `Bearer ${secret}`;
+
+    if (!authorized) {
+      const denied = checkAccess(await getCurrentUser(), { admin: true });
+      if (denied) return denied;
+    }
+
+    const summary = await runAlertJob();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Alert job error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFragmentDocument } from '@/app/lib/reports/fragments';
+import { buildFragmentCsp } from '@/app/lib/security/csp';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// A Flask frame document, framed by report pages in place of its srcdoc
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const html = /^[0-9a-f]{64}$/.test(id) ? await getFragmentDocument(id) : null;
+    if (!html) {
+      return NextResponse.json(
+        { success: false, error: 'Fragment not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Security-Policy': buildFragmentCsp(),
+        'X-Content-Type-Options': 'nosniff',
+        // Content-addressed, so a stored document never changes
+        'Cache-Control': 'private, max-age=86400, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Fragment fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+}
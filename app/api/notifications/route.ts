@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { resolveReportEntitlement } from '@/app/lib/auth/entitlements';
+import { listAlerts, markAlertsRead } from '@/app/lib/alerts/store';
+import type { AlertEvent } from '@/app/lib/types/alerts';
+
+// The member's alerts, newest first. Before and after figures are only included
+// for reports the member sees in full (plan and unlock, as on the report itself);
+// the messages themselves quote no figures.
+export const GET = withAuth({}, async (_request, user) => {
+  try {
+    const stored = await listAlerts(user.email);
+
+    // One entitlement check per watched item, however many alerts it has
+    const visible = new Map<string, Promise<boolean>>();
+    const showFigures = (alert: AlertEvent): Promise<boolean> => {
+      const key = `${alert.itemType}:${alert.itemKey.toLowerCase()}`;
+      let check = visible.get(key);
+      if (!check) {
+        check = resolveReportEntitlement(alert.itemType, alert.itemKey).then(entitlement => entitlement.hasFullAccess);
+        visible.set(key, check);
+      }
+      return check;
+    };
+
+    const alerts = await Promise.all(stored.map(async alert =>
+      (await showFigures(alert)) ? alert : { ...alert, from: undefined, to: undefined }
+    ));
+
+    return NextResponse.json({
+      success: true,
+      alerts,
+      unread: alerts.filter(alert => !alert.read).length,
+    });
+  } catch (error) {
+    console.error('Notifications error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Mark alerts read: { ids: [...] } for some, {} for all
+export const PATCH = withAuth({}, async (request, user) => {
+  try {
+    const body: { ids?: unknown } = await request.json().catch(() => ({}));
+    if (body.ids !== undefined && (!Array.isArray(body.ids) || body.ids.some(id => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'ids must be a list of alert ids' },
+        { status: 400 }
+      );
+    }
+
+    const unread = await markAlertsRead(user.email, body.ids as string[] | undefined);
+    return NextResponse.json({ success: true, unread });
+  } catch (error) {
+    console.error('Notifications update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { getAllOrders } from '@/app/lib/orders/credits';
+import { getOrderSnapshot } from '@/app/lib/orders/snapshots';
+import type { OrderDetailResponse } from '@/app/lib/types/orders';
+
+interface RouteContext {
+  params: Promise<{ orderId: string }>;
+}
+
+// One of the member's orders, with the report snapshot stored when it was placed
+export const GET = withAuth({}, async (_request, user, context: RouteContext) => {
+  try {
+    const { orderId } = await context.params;
+    const orders = await getAllOrders(user.email);
+    const order = orders.find(o => o.order_id === orderId);
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const response: OrderDetailResponse = {
+      success: true,
+      order,
+      snapshot: await getOrderSnapshot(order.order_id),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Order detail error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,9 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser } from '@/app/lib/auth/session';
+import { NextResponse } from 'next/server';
+import { accessDenied, canAccessEmail, withAuth } from '@/app/lib/auth/guard';
+import { getLocalOrders } from '@/app/lib/orders/store';
+import { flaskJson, getFlaskUrl } from '@/app/lib/flask/client';
+import { getReportEntitlement } from '@/app/lib/auth/entitlements';
+import { exportDenied, exportResponse, type ExportFormat } from '@/app/lib/export/response';
+import { ordersTable } from '@/app/lib/export/tables';
+import type { Order } from '@/app/lib/types/orders';
 
-// Flask backend URL - matches other API routes
-const FLASK_BACKEND_URL = process.env.FLASK_BACKEND_URL || 'http://localhost:2025';
-const FLASK_API_KEY = process.env.FLASK_API_KEY || 'mib_internal_cbf2508cf8';
 
 // Sample orders for fallback when Flask backend is not available
 const SAMPLE_ORDERS = [
@@ -13,7 +16,7 @@ const SAMPLE_ORDERS = [
     client: 'Direct',
     report_category: 'Suburb' as const,
     location: 'Parramatta, NSW',
-    pdf_report: `${FLASK_BACKEND_URL}/pdf_suburb_report?order_id=ORD-2024-001`,
+    pdf_report: getFlaskUrl('/pdf_suburb_report?order_id=ORD-2024-001'),
     url: '/suburb-reports/Parramatta',
     date: '15-01-2024',
   },
@@ -23,7 +26,7 @@ const SAMPLE_ORDERS = [
     client: 'Premium',
     report_category: 'Property' as const,
     location: '123 Main Street, Sydney NSW 2000',
-    pdf_report: `${FLASK_BACKEND_URL}/pdf_property_report?order_id=ORD-2024-002`,
+    pdf_report: getFlaskUrl('/pdf_property_report?order_id=ORD-2024-002'),
     url: '/property-reports/GANSW123456789',
     date: '12-01-2024',
   },
@@ -33,7 +36,7 @@ const SAMPLE_ORDERS = [
     client: 'Direct',
     report_category: 'Suburb' as const,
     location: 'Bondi, NSW',
-    pdf_report: `${FLASK_BACKEND_URL}/pdf_suburb_report?order_id=ORD-2024-003`,
+    pdf_report: getFlaskUrl('/pdf_suburb_report?order_id=ORD-2024-003'),
     url: '/suburb-reports/Bondi',
     date: '10-01-2024',
   },
@@ -43,7 +46,7 @@ const SAMPLE_ORDERS = [
     client: 'Direct',
     report_category: 'Property' as const,
     location: '45 Ocean View Drive, Bondi NSW 2026',
-    pdf_report: `${FLASK_BACKEND_URL}/pdf_property_report?order_id=ORD-2024-004`,
+    pdf_report: getFlaskUrl('/pdf_property_report?order_id=ORD-2024-004'),
     url: '/property-reports/GANSW987654321',
     date: '08-01-2024',
   },
@@ -53,83 +56,90 @@ const SAMPLE_ORDERS = [
     client: 'Premium',
     report_category: 'Suburb' as const,
     location: 'Manly, NSW',
-    pdf_report: `${FLASK_BACKEND_URL}/pdf_suburb_report?order_id=ORD-2024-005`,
+    pdf_report: getFlaskUrl('/pdf_suburb_report?order_id=ORD-2024-005'),
     url: '/suburb-reports/Manly',
     date: '05-01-2024',
   },
 ];
 
-export async function GET(request: NextRequest): Promise<NextResponse> {
+// ?email= lists another member's orders, for staff only
+export const GET = withAuth({}, async (request, user) => {
   try {
-    // Check if user is authenticated
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const email = searchParams.get('email') || user.email;
+    if (!canAccessEmail(user, email)) {
+      return accessDenied('forbidden', { error: 'You can only view your own orders' });
+    }
     const reportCategory = searchParams.get('report_category');
 
-    // Always try Flask backend first
-    try {
-      const params = new URLSearchParams();
-      if (email) params.append('email', email);
-      if (reportCategory && reportCategory !== 'All') {
-        params.append('report_category', reportCategory);
-      }
-      params.append('token', FLASK_API_KEY);
+    // ?export=csv|xlsx downloads the order list instead (Advanced plans and above)
+    const exportFormat = searchParams.get('export');
+    if (exportFormat) {
+      const denied = exportDenied(exportFormat, getReportEntitlement(user));
+      if (denied) return denied;
+    }
 
-      const flaskUrl = `${FLASK_BACKEND_URL}/user-orders?${params.toString()}`;
-      console.log('[Orders API] Fetching from Flask:', flaskUrl);
+    // Reports unlocked in this app are stored locally and listed alongside Flask orders
+    let localOrders: Order[] = await getLocalOrders(email);
+    if (reportCategory && reportCategory !== 'All') {
+      localOrders = localOrders.filter(o => o.report_category === reportCategory);
+    }
+    const localIds = new Set(localOrders.map(o => o.order_id));
 
-      const response = await fetch(flaskUrl, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${FLASK_API_KEY}`,
-        },
-      });
+    // Always try Flask backend first
+    const params: Record<string, string> = {};
+    if (email) params.email = email;
+    if (reportCategory && reportCategory !== 'All') {
+      params.report_category = reportCategory;
+    }
 
-      if (response.ok) {
-        const data = await response.json();
-        const orders = Array.isArray(data) ? data : (data.orders || []);
+    console.log('[Orders API] Fetching from Flask for:', email);
+    const result = await flaskJson<Order[] | { orders?: Order[] }>('/user-orders', params);
 
-        console.log(`[Orders API] Got ${orders.length} orders from Flask`);
+    if (result.ok || result.error.kind === 'not_found') {
+      const data = result.ok ? result.data : [];
+      const flaskOrders: Order[] = Array.isArray(data) ? data : (data.orders || []);
 
-        return NextResponse.json({
-          success: true,
-          orders,
-        });
-      } else {
-        console.warn(`[Orders API] Flask returned ${response.status}`);
+      console.log(`[Orders API] Got ${flaskOrders.length} orders from Flask`);
+
+      const orders = [...localOrders, ...flaskOrders.filter(o => !localIds.has(o.order_id))];
+      if (exportFormat) {
+        return exportResponse([ordersTable(orders)], exportFormat as ExportFormat, 'orders');
       }
-    } catch (flaskError) {
-      console.warn('[Orders API] Flask backend not available:', flaskError);
+
+      return NextResponse.json({
+        success: true,
+        orders,
+      });
     }
 
+    console.warn('[Orders API] Flask backend not available:', result.error.message);
+
     // Fallback to sample data if Flask is unavailable
     console.log('[Orders API] Using sample data fallback');
 
-    let orders = SAMPLE_ORDERS;
+    let orders: Order[] = SAMPLE_ORDERS;
 
     // Filter by report category
     if (reportCategory && reportCategory !== 'All') {
       orders = orders.filter(o => o.report_category === reportCategory);
     }
 
-    // Update sample data to use the actual user's email
+    // Update sample data to use the requested member's email
     orders = orders.map(o => ({
       ...o,
-      user_email: user.email,
+      user_email: email,
     }));
 
+    if (exportFormat) {
+      return exportResponse([ordersTable([...localOrders, ...orders])], exportFormat as ExportFormat, 'orders');
+    }
+
     return NextResponse.json({
       success: true,
-      orders,
+      orders: [...localOrders, ...orders],
       _fallback: true, // Indicator that this is sample data
+      reason: result.error.kind,
     });
   } catch (error) {
     console.error('Orders API error:', error);
@@ -138,4 +148,4 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { getErrorStatus } from '@/app/lib/flask/client';
+import { getMatchUsage, meterMatches } from '@/app/lib/finder/matches';
+import { findProperties, parseFinderCriteria, withholdLockedFigures } from '@/app/lib/finder/properties';
+import type { PropertyFinderResponse } from '@/app/lib/types/finder';
+
+// This period's AI property match usage
+export const GET = withAuth({}, async (_request, user) => {
+  try {
+    return NextResponse.json({ success: true, usage: await getMatchUsage(user) });
+  } catch (error) {
+    console.error('Property finder usage error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Find matching properties; new matches count against the plan's monthly allowance
+export const POST = withAuth({}, async (request, user) => {
+  try {
+    const { criteria, error } = parseFinderCriteria(await request.json().catch(() => null));
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await findProperties(criteria);
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          error: result.error.kind === 'not_found'
+            ? 'No properties were found in one of these suburbs; check the suburb names'
+            : 'Property finder is temporarily unavailable',
+          reason: result.error.kind,
+        },
+        { status: getErrorStatus(result.error) }
+      );
+    }
+
+    const { allowed, withheld, usage } = await meterMatches(user, result.data);
+    const response: PropertyFinderResponse = {
+      matches: await withholdLockedFigures(allowed, criteria),
+      total: result.data.length,
+      withheld,
+      usage,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Property finder API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to find properties' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveReportEntitlement } from '@/app/lib/auth/entitlements';
+import { SESSION_COOKIE_NAME } from '@/app/lib/auth/types';
+import { getErrorStatus } from '@/app/lib/flask/client';
+import { fetchPropertySection } from '@/app/lib/reports/property-sections';
+import { renderReportPdf } from '@/app/lib/export/render-pdf';
+import { pdfDenied, pdfResponse, pdfUnavailable } from '@/app/lib/export/response';
+
+interface RouteContext {
+  params: Promise<{ gnafId: string }>;
+}
+
+interface PropertyAddress {
+  street?: string;
+  with_suburb?: string;
+}
+
+// The property report as a PDF, printed from the report page rather than by the Flask PDF service
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { gnafId } = await context.params;
+
+    const entitlement = await resolveReportEntitlement('property', gnafId);
+    const denied = pdfDenied(entitlement);
+    if (denied) return denied;
+
+    // Basic info carries the address; without it there is no property to report on
+    const info = await fetchPropertySection('info', gnafId, entitlement.blur);
+    if (!info?.ok) {
+      const error = info?.error ?? { kind: 'not_found' as const, message: 'No property info' };
+      return NextResponse.json(
+        { error: error.kind === 'not_found' ? 'Property not found' : 'Property data is temporarily unavailable', reason: error.kind },
+        { status: getErrorStatus(error) }
+      );
+    }
+
+    const address: PropertyAddress = (info.data as { address?: PropertyAddress }).address || {};
+    const title = address.street || address.with_suburb || gnafId;
+
+    const result = await renderReportPdf({
+      path: `/property-reports/${encodeURIComponent(gnafId)}`,
+      sessionId: request.cookies.get(SESSION_COOKIE_NAME)?.value,
+    });
+    if (!result.ok) return pdfUnavailable(result);
+
+    return pdfResponse(result.pdf, `property-report-${title}`);
+  } catch (error) {
+    console.error('Property PDF API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate property PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,227 +1,99 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Flask backend URL and API key
-const FLASK_BACKEND_URL = process.env.FLASK_BACKEND_URL || 'http://localhost:2025';
-const FLASK_API_KEY = process.env.FLASK_API_KEY || 'mib_internal_cbf2508cf8';
+import { resolveReportEntitlement, getReportAccess } from '@/app/lib/auth/entitlements';
+import { flaskGraph, getErrorStatus } from '@/app/lib/flask/client';
+import { fetchPropertySection } from '@/app/lib/reports/property-sections';
+import {
+  fetchSection,
+  fetchSectionBatch,
+  MAX_BATCH_SECTIONS,
+  parseSectionList,
+  sectionStreamResponse,
+  streamSectionBatch,
+  type SectionFetcher,
+} from '@/app/lib/reports/sections';
+import { parseSectionFormat, withSectionFormat } from '@/app/lib/reports/section-data';
+import { exportDenied, exportResponse, type ExportFormat } from '@/app/lib/export/response';
+import { reportTables } from '@/app/lib/export/tables';
+import { resolveSharedEntitlement, shareUnavailable } from '@/app/lib/shares/access';
 
 interface RouteContext {
   params: Promise<{ gnafId: string }>;
 }
 
-// Endpoints that return JSON (not HTML/text)
-const JSON_ENDPOINTS = [
-  '/property/graphs/basic-info',
-  '/property/graphs/avm',
-  '/property/graphs/house_img',
-];
-
-// Endpoints that return plain text (not HTML)
-const TEXT_ENDPOINTS = [
-  '/property/graphs/summary',
-];
-
-// Fetch data from Flask backend
-async function fetchFromFlask(endpoint: string, params: Record<string, string> = {}) {
-  const url = new URL(`${FLASK_BACKEND_URL}${endpoint}`);
-
-  // Add token as query parameter (Flask property endpoints use token param, not Bearer header)
-  url.searchParams.append('token', FLASK_API_KEY);
-
-  Object.entries(params).forEach(([key, value]) => {
-    url.searchParams.append(key, value);
-  });
-
+export async function GET(request: NextRequest, context: RouteContext) {
   try {
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Accept': '*/*',
-      },
-    });
-
-    if (!response.ok) {
-      console.warn(`[Property API] ${endpoint} returned ${response.status}`);
-      return null;
-    }
-
-    // Get the response as text first
-    const text = await response.text();
+    const { gnafId } = await context.params;
+    const { searchParams } = new URL(request.url);
+    const section = searchParams.get('section');
+    const sections = searchParams.get('sections');
+
+    // Blur is derived from the session's plan and unlocked reports; a client-supplied ?blur= is ignored
+    // Requests through a share link (?share=) are served at the level the link was shared with
+    const shareToken = searchParams.get('share');
+    const shared = shareToken ? await resolveSharedEntitlement(shareToken, 'property', gnafId) : null;
+    if (typeof shared === 'string') return shareUnavailable(shared);
+    const entitlement = shared ?? await resolveReportEntitlement('property', gnafId);
+    const blur = entitlement.blur;
+
+    // ?export=csv|xlsx downloads the batch as a spreadsheet, built from the typed section data
+    const exportFormat = searchParams.get('export');
+
+    // ?format=data returns typed series and tables for the sections that support it
+    const format = exportFormat ? 'data' : parseSectionFormat(searchParams.get('format'));
+    const fetcher: SectionFetcher = withSectionFormat(name => fetchPropertySection(name, gnafId, blur), format);
+
+    // Batch mode: fetch several sections in parallel, each with its own status
+    if (sections) {
+      const names = parseSectionList(sections);
+      if (names.length === 0 || names.length > MAX_BATCH_SECTIONS) {
+        return NextResponse.json(
+          { error: `Request between 1 and ${MAX_BATCH_SECTIONS} sections` },
+          { status: 400 }
+        );
+      }
 
-    if (!text || text.trim() === '') {
-      return null;
-    }
+      if (exportFormat) {
+        const denied = exportDenied(exportFormat, entitlement);
+        if (denied) return denied;
 
-    // Check if this endpoint returns JSON
-    if (JSON_ENDPOINTS.includes(endpoint)) {
-      try {
-        return JSON.parse(text);
-      } catch {
-        // If JSON parsing fails, wrap as html
-        return { html: text };
+        const batch = await fetchSectionBatch(names, fetcher, entitlement, 'property');
+        return exportResponse(reportTables(`Property report: ${gnafId}`, batch), exportFormat as ExportFormat, `property-report-${gnafId}`);
       }
-    }
-
-    // Check if this endpoint returns plain text (not HTML)
-    if (TEXT_ENDPOINTS.includes(endpoint)) {
-      return { summary_short: text, text: text };
-    }
 
-    // For all other endpoints, try JSON first, then wrap as HTML
-    try {
-      const json = JSON.parse(text);
-      // If it's already an object with html property, return as-is
-      if (json && typeof json === 'object') {
-        return json;
+      // ?stream=1 sends each section as an NDJSON line as soon as it resolves
+      if (searchParams.get('stream') === '1') {
+        return sectionStreamResponse(streamSectionBatch(names, fetcher, entitlement, 'property'));
       }
-      return { html: text };
-    } catch {
-      // Not JSON, wrap HTML content
-      return { html: text };
-    }
-  } catch (error) {
-    console.error(`[Property API] Error fetching ${endpoint}:`, error);
-    return null;
-  }
-}
 
-export async function GET(request: NextRequest, context: RouteContext) {
-  try {
-    const { gnafId } = await context.params;
-    const { searchParams } = new URL(request.url);
-    const section = searchParams.get('section');
-    const blur = searchParams.get('blur') || 'false';
+      const batch = await fetchSectionBatch(names, fetcher, entitlement, 'property');
+      return NextResponse.json({ sections: batch });
+    }
 
     // If requesting a specific section, return only that data
     if (section) {
-      let data = null;
-
-      switch (section) {
-        case 'info':
-          data = await fetchFromFlask('/property/graphs/basic-info', { gnaf_id: gnafId, blur });
-          break;
-        case 'image':
-          data = await fetchFromFlask('/property/graphs/house_img', { gnaf_id: gnafId });
-          break;
-        case 'history':
-          data = await fetchFromFlask('/property/graphs/history', { gnaf_id: gnafId, blur });
-          break;
-        case 'sales':
-          data = await fetchFromFlask('/property/graphs/sales', { gnaf_id: gnafId, blur });
-          break;
-        case 'rent':
-          data = await fetchFromFlask('/property/graphs/rent', { gnaf_id: gnafId, blur });
-          break;
-        case 'yield':
-          data = await fetchFromFlask('/property/graphs/yield', { gnaf_id: gnafId, blur });
-          break;
-        case 'risk':
-          data = await fetchFromFlask('/property/graphs/risk', { gnaf_id: gnafId, blur });
-          break;
-        case 'amenities':
-          data = await fetchFromFlask('/property/graphs/amenities', { gnaf_id: gnafId });
-          break;
-        case 'schools':
-          // Fetch both private and public schools
-          const [privateSchools, publicSchools] = await Promise.all([
-            fetchFromFlask('/property/graphs/private_schools', { gnaf_id: gnafId }),
-            fetchFromFlask('/property/graphs/public_schools', { gnaf_id: gnafId }),
-          ]);
-          data = { private_schools: privateSchools, public_schools: publicSchools };
-          break;
-        case 'demographics':
-          data = await fetchFromFlask('/property/graphs/demographics', { gnaf_id: gnafId, blur });
-          break;
-        case 'zoning':
-          // Fetch both zoning map and chart
-          const [zoningMap, zoningChart] = await Promise.all([
-            fetchFromFlask('/property/graphs/zoning_map', { gnaf_id: gnafId, blur }),
-            fetchFromFlask('/property/graphs/zoning_chart', { gnaf_id: gnafId, blur }),
-          ]);
-          data = { map: zoningMap, chart: zoningChart };
-          break;
-        case 'development':
-          // Fetch both DA map and table
-          const [dasMap, dasTable] = await Promise.all([
-            fetchFromFlask('/property/graphs/das_map', { gnaf_id: gnafId, blur }),
-            fetchFromFlask('/property/graphs/das_table', { gnaf_id: gnafId, blur }),
-          ]);
-          data = { map: dasMap, table: dasTable };
-          break;
-        case 'das_table':
-          data = await fetchFromFlask('/property/graphs/das_table', { gnaf_id: gnafId, blur });
-          break;
-        case 'das_map':
-          data = await fetchFromFlask('/property/graphs/das_map', { gnaf_id: gnafId, blur });
-          break;
-        case 'summary':
-          data = await fetchFromFlask('/property/graphs/summary', { gnaf_id: gnafId, blur });
-          break;
-        case 'avm':
-          data = await fetchFromFlask('/property/graphs/avm', { gnaf_id: gnafId, blur });
-          break;
-        case 'noise':
-          data = await fetchFromFlask('/property/graphs/noise', { gnaf_id: gnafId, blur });
-          break;
-        case 'easements':
-          data = await fetchFromFlask('/property/graphs/easement_map', { gnaf_id: gnafId, blur });
-          break;
-        case 'pocket':
-          data = await fetchFromFlask('/property/graphs/pocket', { gnaf_id: gnafId, blur });
-          break;
-        case 'neighbors':
-          data = await fetchFromFlask('/property/graphs/neighbors', { gnaf_id: gnafId, blur });
-          break;
-        case 'nearby':
-          data = await fetchFromFlask('/property/graphs/nearby-properties', { gnaf_id: gnafId, blur });
-          break;
-        case 'ethnicity':
-          // Fetch both ethnicity map and chart
-          const [ethnicityMap, ethnicityChart] = await Promise.all([
-            fetchFromFlask('/property/graphs/ethnicity', { gnaf_id: gnafId, blur }),
-            fetchFromFlask('/property/graphs/ethnicity_chart', { gnaf_id: gnafId, blur }),
-          ]);
-          data = { map: ethnicityMap, chart: ethnicityChart };
-          break;
-        case 'income':
-          data = await fetchFromFlask('/property/graphs/income', { gnaf_id: gnafId, blur });
-          break;
-        case 'base_map':
-          data = await fetchFromFlask('/property/graphs/base_map', { gnaf_id: gnafId });
-          break;
-        case 'thresholds':
-          data = await fetchFromFlask('/property/graphs/thresholds', { gnaf_id: gnafId, blur });
-          break;
-        case 'cma':
-          data = await fetchFromFlask('/property/graphs/cma', { gnaf_id: gnafId, blur });
-          break;
-        case 'sal_insights':
-          data = await fetchFromFlask('/property/graphs/sal_insights', { gnaf_id: gnafId, blur });
-          break;
-        case 'public_schools':
-          data = await fetchFromFlask('/property/graphs/public_schools', { gnaf_id: gnafId });
-          break;
-        case 'private_schools':
-          data = await fetchFromFlask('/property/graphs/private_schools', { gnaf_id: gnafId });
-          break;
-        default:
-          return NextResponse.json({ error: 'Unknown section' }, { status: 400 });
+      const { status, reason, ...body } = await fetchSection(section, fetcher, entitlement, 'property');
+      if (reason === 'unknown_section') {
+        return NextResponse.json({ error: 'Unknown section' }, { status });
       }
 
-      return NextResponse.json({ data, section });
+      return NextResponse.json({ ...body, reason, section }, { status });
     }
 
     // Fetch basic property info for initial load
-    const propertyInfo = await fetchFromFlask('/property/graphs/basic-info', { gnaf_id: gnafId, blur });
+    const infoResult = await flaskGraph('/property/graphs/basic-info', { gnaf_id: gnafId, blur });
 
-    if (!propertyInfo) {
+    if (!infoResult.ok) {
+      const notFound = infoResult.error.kind === 'not_found';
       return NextResponse.json(
-        { error: 'Property not found' },
-        { status: 404 }
+        { error: notFound ? 'Property not found' : 'Property data is temporarily unavailable', reason: infoResult.error.kind },
+        { status: getErrorStatus(infoResult.error) }
       );
     }
 
     return NextResponse.json({
       gnaf_id: gnafId,
-      ...propertyInfo,
+      ...infoResult.data,
+      access: getReportAccess(entitlement),
     });
   } catch (error) {
     console.error('Property API error:', error);
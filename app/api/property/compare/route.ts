@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { resolveReportEntitlement, getReportAccess, getPlanDetails } from '@/app/lib/auth/entitlements';
+import { getCurrentUser } from '@/app/lib/auth/session';
+import { getMonthlyUsage, getUnlockFailureStatus, unlockReports } from '@/app/lib/orders/credits';
+import { fetchSectionBatch, type SectionFetcher } from '@/app/lib/reports/sections';
+import { fetchPropertySection } from '@/app/lib/reports/property-sections';
+import {
+  buildMetrics,
+  parseCompareList,
+  parseLeadingNumber,
+  readPath,
+  type CompareSections,
+  type MetricDefinition,
+} from '@/app/lib/reports/compare';
+import type { CompareProperty, PropertyCompareResponse } from '@/app/lib/types/compare';
+
+// Sections fetched for every compared property, from the same fetches as the property report
+const COMPARE_SECTIONS = ['info', 'avm', 'yield', 'risk', 'noise', 'zoning', 'schools'];
+
+// Sections returned for display rather than reduced to metrics
+const DISPLAY_SECTIONS = ['yield', 'risk', 'noise', 'zoning', 'schools'];
+
+// A formatted string field, with its leading number used to pick the winner
+function readText(sections: CompareSections, section: string, path: string[], key: string) {
+  const value = readPath(sections, section, path)?.[key];
+  if (value === undefined || value === null || value === '') return null;
+  const display = String(value);
+  return { value: typeof value === 'number' ? value : parseLeadingNumber(display), display };
+}
+
+const STRUCTURE_METRICS: MetricDefinition[] = [
+  { id: 'bedrooms', label: 'Bedrooms', key: 'bedrooms' },
+  { id: 'bathrooms', label: 'Bathrooms', key: 'bathrooms' },
+  { id: 'garage_spaces', label: 'Car spaces', key: 'garage_spaces' },
+  { id: 'land_size', label: 'Land size', key: 'land_size' },
+].map(({ key, ...metric }) => ({
+  ...metric,
+  group: 'Property',
+  section: 'info',
+  better: 'higher' as const,
+  read: (sections: CompareSections) => readText(sections, 'info', ['structural_vars'], key),
+}));
+
+// Valuation ranges have no winner; a cheaper property is not a better one
+const VALUATION_METRICS: MetricDefinition[] = [
+  { id: 'price_low', label: 'Estimated value (low)', key: 'price_low' },
+  { id: 'predicted_price', label: 'Estimated value', key: 'predicted_price' },
+  { id: 'price_high', label: 'Estimated value (high)', key: 'price_high' },
+  { id: 'rent_low', label: 'Rent estimate (low)', key: 'rent_low' },
+  { id: 'rent_value', label: 'Rent estimate', key: 'rent_value' },
+  { id: 'rent_high', label: 'Rent estimate (high)', key: 'rent_high' },
+].map(({ key, ...metric }) => ({
+  ...metric,
+  group: 'Valuation',
+  section: 'avm',
+  read: (sections: CompareSections) => readText(sections, 'avm', [], key),
+}));
+
+interface LoadedProperty {
+  property: CompareProperty;
+  sections: CompareSections;
+}
+
+async function loadProperty(gnafId: string): Promise<LoadedProperty> {
+  // Same entitlement as the single report: blurred unless this property is unlocked
+  const entitlement = await resolveReportEntitlement('property', gnafId);
+  const fetcher: SectionFetcher = section => fetchPropertySection(section, gnafId, entitlement.blur);
+  const sections = await fetchSectionBatch(COMPARE_SECTIONS, fetcher, entitlement, 'property');
+
+  const info = sections.info;
+  if (!info?.data) {
+    return {
+      property: { gnafId, address: gnafId, error: info?.reason ?? 'not_found', sections: {} },
+      sections: {},
+    };
+  }
+
+  const address = readPath(sections, 'info', ['address']);
+  return {
+    property: {
+      gnafId,
+      address: String(address?.formatted || address?.with_suburb || address?.street || gnafId),
+      propertyType: readPath(sections, 'info', ['structural_vars'])?.property_type as string | undefined
+        ?? (info.data as { property_type?: string }).property_type,
+      access: getReportAccess(entitlement),
+      sections: Object.fromEntries(DISPLAY_SECTIONS.map(section => [section, sections[section]])),
+    },
+    sections,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { items: gnafIds, error } = parseCompareList(searchParams.get('ids'));
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const [loaded, user] = await Promise.all([
+      Promise.all(gnafIds.map(loadProperty)),
+      getCurrentUser(),
+    ]);
+    const reports = loaded.map(entry => entry.sections);
+    const properties = loaded.map(entry => entry.property);
+
+    const response: PropertyCompareResponse = {
+      properties,
+      metrics: buildMetrics([...STRUCTURE_METRICS, ...VALUATION_METRICS], reports),
+    };
+
+    // Members on a paid plan can unlock the compared properties, one credit each
+    if (user && getPlanDetails(user.bestPlanId).tier >= 1) {
+      const usage = await getMonthlyUsage(user);
+      response.credits = {
+        needed: properties.filter(property => property.access?.reason === 'unlock_required').length,
+        left: usage.propertyReportsLeft,
+      };
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Property compare API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare properties' },
+      { status: 500 }
+    );
+  }
+}
+
+// Unlock every compared property, spending one property credit for each not yet unlocked
+export const POST = withAuth({}, async (request, user) => {
+  try {
+    const body: { gnafIds?: string[] } = await request.json();
+    const { items: gnafIds, error } = parseCompareList(Array.isArray(body.gnafIds) ? body.gnafIds.join(',') : null);
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    // Orders record the address, as when unlocking from the property report
+    const loaded = await Promise.all(gnafIds.map(loadProperty));
+    const missing = loaded.filter(entry => entry.property.error);
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Could not load ${missing.map(entry => entry.property.gnafId).join(', ')}` },
+        { status: 404 }
+      );
+    }
+
+    const result = await unlockReports(
+      user,
+      'Property',
+      loaded.map(({ property }) => ({ id: property.gnafId, location: property.address }))
+    );
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getUnlockFailureStatus(result.code) });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Property compare unlock error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,9 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Flask backend URL for property API
-const FLASK_BACKEND_URL = process.env.FLASK_BACKEND_URL || 'http://localhost:2025';
-// API key for Flask backend authentication
-const FLASK_API_KEY = process.env.FLASK_API_KEY || 'mib_internal_cbf2508cf8';
+import { flaskJson, getErrorStatus } from '@/app/lib/flask/client';
 
 // Helper to extract suburb from display name (e.g., "123 Main St, Parramatta" -> "Parramatta")
 function parseSuburbFromAddress(displayName: string): string {
@@ -67,40 +63,34 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
 
     // Try to fetch from Flask backend
-    try {
-      const response = await fetch(
-        `${FLASK_BACKEND_URL}/api/property/address?address=${encodeURIComponent(query)}`,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${FLASK_API_KEY}`,
-          },
-        }
-      );
+    const result = await flaskJson<{ results?: Record<string, unknown>[]; suggestions?: Record<string, unknown>[] }>(
+      '/api/property/address',
+      { address: query }
+    );
 
-      if (response.ok) {
-        const data = await response.json();
-        // Flask returns { results: [...] } with address objects
-        // Fields: id, name, display_name, abbr, property_type, typ
-        const results = data.results || data.suggestions || [];
-        return NextResponse.json({
-          suggestions: results.map((item: Record<string, unknown>) => ({
-            gnaf_id: item.id,
-            address: item.display_name || item.name,
-            // Parse suburb from the display name (last part after comma)
-            suburb: parseSuburbFromAddress(item.display_name as string || item.name as string || ''),
-            state: parseStateFromId(item.id as string || ''),
-            postcode: '',
-            property_type: item.property_type,
-          })),
-        });
-      }
+    if (result.ok) {
+      // Flask returns { results: [...] } with address objects
+      // Fields: id, name, display_name, abbr, property_type, typ
+      const results = result.data.results || result.data.suggestions || [];
+      return NextResponse.json({
+        suggestions: results.map((item: Record<string, unknown>) => ({
+          gnaf_id: item.id,
+          address: item.display_name || item.name,
+          // Parse suburb from the display name (last part after comma)
+          suburb: parseSuburbFromAddress(item.display_name as string || item.name as string || ''),
+          state: parseStateFromId(item.id as string || ''),
+          postcode: '',
+          property_type: item.property_type,
+        })),
+      });
+    }
 
-      console.warn('[Property Search] Flask backend returned:', response.status, await response.text());
-    } catch (flaskError) {
-      console.warn('[Property Search] Flask backend not available:', flaskError);
+    if (result.error.kind === 'not_found') {
+      return NextResponse.json({ suggestions: [] });
     }
 
+    console.warn('[Property Search] Flask backend not available:', result.error.message);
+
     // Only fall back to sample data if explicitly enabled
     const useSampleFallback = process.env.USE_SAMPLE_FALLBACK === 'true';
 
@@ -120,10 +110,14 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
 
     // Return empty if backend unavailable and sample fallback disabled
-    return NextResponse.json({
-      suggestions: [],
-      error: 'Property search service unavailable',
-    });
+    return NextResponse.json(
+      {
+        suggestions: [],
+        error: 'Property search service unavailable',
+        reason: result.error.kind,
+      },
+      { status: getErrorStatus(result.error) }
+    );
   } catch (error) {
     console.error('Property search error:', error);
     return NextResponse.json(
@@ -1,230 +1,188 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const FLASK_BACKEND_URL = process.env.FLASK_BACKEND_URL || 'http://localhost:2025';
-const FLASK_API_KEY = process.env.FLASK_API_KEY || 'mib_internal_cbf2508cf8';
+import { resolveReportEntitlement, getReportAccess } from '@/app/lib/auth/entitlements';
+import {
+  getErrorStatus,
+  suburbGraph,
+  type FlaskResult,
+  type GraphPayload,
+} from '@/app/lib/flask/client';
+import {
+  fetchSection,
+  fetchSectionBatch,
+  MAX_BATCH_SECTIONS,
+  parseSectionList,
+  sectionStreamResponse,
+  streamSectionBatch,
+  type SectionFetcher,
+} from '@/app/lib/reports/sections';
+import { parseSectionFormat, withSectionFormat } from '@/app/lib/reports/section-data';
+import { exportDenied, exportResponse, type ExportFormat } from '@/app/lib/export/response';
+import { reportTables } from '@/app/lib/export/tables';
+import {
+  aggregateMetrics,
+  aggregateSupply,
+  buildLeaderboard,
+  fetchRegionFigures,
+  getChartSuburb,
+  PROPERTY_TYPES,
+  resolveRegionMembers,
+  type MemberFigures,
+  type RegionMembers,
+} from '@/app/lib/reports/region';
 
 interface RouteContext {
   params: Promise<{ name: string }>;
 }
 
-// Fetch from Flask API endpoints (use Bearer auth)
-async function fetchFromFlaskAPI(endpoint: string, params: Record<string, string> = {}) {
-  const url = new URL(`${FLASK_BACKEND_URL}${endpoint}`);
-  Object.entries(params).forEach(([key, value]) => {
-    url.searchParams.append(key, value);
-  });
-
-  try {
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Authorization': `Bearer ${FLASK_API_KEY}`,
-      },
-    });
+// Sections only available as charts for a single suburb; served from the region's busiest suburb
+const CHART_SECTIONS = ['volume', 'vacancy', 'growth', 'demographics', 'income', 'population', 'risk'];
 
-    if (!response.ok) {
-      console.warn(`[Region API] ${endpoint} returned ${response.status}`);
-      return null;
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error(`[Region API] Error fetching ${endpoint}:`, error);
-    return null;
-  }
+// Keep Flask's own SA3 block from a member suburb's payload, alongside its chart
+function extractSA3Data(data: GraphPayload): GraphPayload {
+  return Object.fromEntries(PROPERTY_TYPES.map(type => {
+    const typeData = (data[type] || {}) as Record<string, unknown>;
+    return [type, { sa3: typeData.sa3 || {}, html: typeData.html }];
+  }));
 }
 
-// Fetch from Flask graph endpoints (use token param)
-async function fetchFromFlaskGraph(endpoint: string, suburb: string, params: Record<string, string> = {}) {
-  const url = new URL(`${FLASK_BACKEND_URL}/suburb_report/graphs/${endpoint}/${encodeURIComponent(suburb)}`);
-  url.searchParams.append('token', FLASK_API_KEY);
-  Object.entries(params).forEach(([key, value]) => {
-    url.searchParams.append(key, value);
-  });
-
-  try {
-    const response = await fetch(url.toString());
-
-    if (!response.ok) {
-      console.warn(`[Region Graph] ${endpoint} returned ${response.status}`);
-      return null;
+// Fetch one region section; null if the section is unknown
+async function fetchRegionSection(
+  section: string,
+  regionName: string,
+  getFigures: () => Promise<MemberFigures[]>,
+  blur: string
+): Promise<FlaskResult<GraphPayload> | null> {
+  switch (section) {
+    case 'msp':
+    case 'mrp': {
+      // Aggregated across every member suburb; the chart is the busiest suburb's, which plots the SA3 line too
+      const figures = await getFigures();
+      const chart = await suburbGraph(section, getChartSuburb(figures), { blur });
+      const charts = chart.ok ? chart.data : {};
+      return {
+        ok: true,
+        data: Object.fromEntries(PROPERTY_TYPES.map(type => [type, {
+          sa3: aggregateMetrics(regionName, figures, type),
+          html: (charts[type] as { html?: string } | undefined)?.html,
+        }])),
+      };
     }
-
-    const text = await response.text();
-    if (!text || text.trim() === '') return null;
-
-    try {
-      return JSON.parse(text);
-    } catch {
-      return { html: text };
+    case 'market_insights': {
+      const figures = await getFigures();
+      return {
+        ok: true,
+        data: Object.fromEntries(PROPERTY_TYPES.map(type => [type, aggregateSupply(figures, type)])),
+      };
     }
-  } catch (error) {
-    console.error(`[Region Graph] Error fetching ${endpoint}:`, error);
-    return null;
+    case 'leaderboard':
+      // Every member suburb's own figures, for ranking within the region
+      return { ok: true, data: { ...buildLeaderboard(await getFigures()) } };
+    case 'yield': {
+      const result = await suburbGraph(section, getChartSuburb(await getFigures()), { blur });
+      return result.ok ? { ok: true, data: extractSA3Data(result.data) } : result;
+    }
+    default:
+      if (!CHART_SECTIONS.includes(section)) return null;
+      return suburbGraph(section, getChartSuburb(await getFigures()), { blur });
   }
 }
 
-// Find a representative suburb for the region
-async function findSuburbInRegion(regionName: string): Promise<string | null> {
+export async function GET(request: NextRequest, context: RouteContext) {
   try {
-    const url = new URL(`${FLASK_BACKEND_URL}/api/suburb/suburbs`);
-    url.searchParams.append('suburb', regionName.split(' - ')[0]); // Use first part of region name as search
-    url.searchParams.append('token', FLASK_API_KEY);
-    url.searchParams.append('limit', '50');
-
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Authorization': `Bearer ${FLASK_API_KEY}`,
-      },
-    });
+    const { name } = await context.params;
+    const regionName = decodeURIComponent(name);
+    const { searchParams } = new URL(request.url);
+    const section = searchParams.get('section');
+    const sections = searchParams.get('sections');
 
-    if (!response.ok) return null;
+    // Blur is derived from the session's plan and unlocked reports; a client-supplied ?blur= is ignored
+    const entitlement = await resolveReportEntitlement('region', regionName);
+    const blur = entitlement.blur;
 
-    const data = await response.json();
-    const suburbs = data.results || [];
+    // Every suburb in this SA3; an unknown region fails here instead of borrowing another area's data
+    const membersResult = await resolveRegionMembers(regionName);
 
-    // Find a suburb that belongs to this SA3 region
-    for (const suburb of suburbs) {
-      if (suburb.information?.sa3 === regionName) {
-        return suburb.name;
-      }
+    if (!membersResult.ok) {
+      const notFound = membersResult.error.kind === 'not_found';
+      return NextResponse.json(
+        { error: notFound ? `No suburbs found in SA3 region ${regionName}` : 'Region data is temporarily unavailable', reason: membersResult.error.kind },
+        { status: getErrorStatus(membersResult.error) }
+      );
     }
 
-    // If not found, try broader search
-    const broaderUrl = new URL(`${FLASK_BACKEND_URL}/api/suburb/suburbs`);
-    broaderUrl.searchParams.append('suburb', 'a'); // Generic search
-    broaderUrl.searchParams.append('token', FLASK_API_KEY);
-    broaderUrl.searchParams.append('limit', '200');
-
-    const broaderResponse = await fetch(broaderUrl.toString(), {
-      headers: {
-        'Authorization': `Bearer ${FLASK_API_KEY}`,
-      },
-    });
-
-    if (broaderResponse.ok) {
-      const broaderData = await broaderResponse.json();
-      const broaderSuburbs = broaderData.results || [];
+    const members: RegionMembers = membersResult.data;
 
-      for (const suburb of broaderSuburbs) {
-        if (suburb.information?.sa3 === regionName) {
-          return suburb.name;
-        }
-      }
-    }
+    // Member figures are shared by every section in this request
+    let figures: Promise<MemberFigures[]> | null = null;
+    const getFigures = () => (figures ??= fetchRegionFigures(members, blur));
 
-    return null;
-  } catch (error) {
-    console.error('Error finding suburb in region:', error);
-    return null;
-  }
-}
+    // ?export=csv|xlsx downloads the batch as a spreadsheet, built from the typed section data
+    const exportFormat = searchParams.get('export');
 
-// Extract SA3-level data from MSP response
-function extractSA3Data(data: Record<string, unknown>) {
-  if (!data) return null;
+    // ?format=data returns typed series and tables for the sections that support it
+    const format = exportFormat ? 'data' : parseSectionFormat(searchParams.get('format'));
+    const fetcher: SectionFetcher = withSectionFormat(name => fetchRegionSection(name, regionName, getFigures, blur), format);
 
-  const result: Record<string, unknown> = {};
+    // Suburb whose charts stand in for the region, once any section has needed the figures
+    const getChartSuburbName = async () => (figures ? getChartSuburb(await figures) : undefined);
 
-  // Extract SA3 data from house and unit sections
-  if (data.house && typeof data.house === 'object') {
-    const houseData = data.house as Record<string, unknown>;
-    result.house = {
-      sa3: houseData.sa3 || {},
-      html: houseData.html,
-    };
-  }
-
-  if (data.unit && typeof data.unit === 'object') {
-    const unitData = data.unit as Record<string, unknown>;
-    result.unit = {
-      sa3: unitData.sa3 || {},
-      html: unitData.html,
-    };
-  }
+    // Batch mode: fetch several sections in parallel, each with its own status
+    if (sections) {
+      const names = parseSectionList(sections);
+      if (names.length === 0 || names.length > MAX_BATCH_SECTIONS) {
+        return NextResponse.json(
+          { error: `Request between 1 and ${MAX_BATCH_SECTIONS} sections` },
+          { status: 400 }
+        );
+      }
 
-  return result;
-}
+      if (exportFormat) {
+        const denied = exportDenied(exportFormat, entitlement);
+        if (denied) return denied;
 
-export async function GET(request: NextRequest, context: RouteContext) {
-  try {
-    const { name } = await context.params;
-    const regionName = decodeURIComponent(name);
-    const { searchParams } = new URL(request.url);
-    const section = searchParams.get('section');
-    const blur = searchParams.get('blur') || 'false';
+        const batch = await fetchSectionBatch(names, fetcher, entitlement, 'region');
+        return exportResponse(reportTables(`Region report: ${regionName}`, batch), exportFormat as ExportFormat, `region-report-${regionName}`);
+      }
 
-    // Find a suburb in this region to fetch data from
-    const representativeSuburb = await findSuburbInRegion(regionName);
+      // ?stream=1 sends each section as an NDJSON line as soon as it resolves
+      if (searchParams.get('stream') === '1') {
+        return sectionStreamResponse(streamSectionBatch(names, fetcher, entitlement, 'region'));
+      }
 
-    if (!representativeSuburb) {
-      return NextResponse.json(
-        { error: 'Could not find suburbs in this region' },
-        { status: 404 }
-      );
+      const batch = await fetchSectionBatch(names, fetcher, entitlement, 'region');
+      return NextResponse.json({
+        sections: batch,
+        region: regionName,
+        suburbCount: members.suburbs.length,
+        chartSuburb: await getChartSuburbName(),
+      });
     }
 
     // If requesting a specific section, return that data with SA3 focus
     if (section) {
-      let data = null;
-
-      switch (section) {
-        case 'msp':
-          const mspData = await fetchFromFlaskGraph('msp', representativeSuburb, { blur });
-          data = extractSA3Data(mspData) || mspData;
-          break;
-        case 'mrp':
-          const mrpData = await fetchFromFlaskGraph('mrp', representativeSuburb, { blur });
-          data = extractSA3Data(mrpData) || mrpData;
-          break;
-        case 'yield':
-          const yieldData = await fetchFromFlaskGraph('yield', representativeSuburb, { blur });
-          data = extractSA3Data(yieldData) || yieldData;
-          break;
-        case 'volume':
-          data = await fetchFromFlaskGraph('volume', representativeSuburb, { blur });
-          break;
-        case 'vacancy':
-          data = await fetchFromFlaskGraph('vacancy', representativeSuburb, { blur });
-          break;
-        case 'growth':
-          data = await fetchFromFlaskGraph('growth', representativeSuburb, { blur });
-          break;
-        case 'demographics':
-          data = await fetchFromFlaskGraph('demographics', representativeSuburb, { blur });
-          break;
-        case 'income':
-          data = await fetchFromFlaskGraph('income', representativeSuburb, { blur });
-          break;
-        case 'population':
-          data = await fetchFromFlaskGraph('population', representativeSuburb, { blur });
-          break;
-        case 'market_insights':
-          data = await fetchFromFlaskGraph('market_insights', representativeSuburb, { blur });
-          break;
-        case 'risk':
-          data = await fetchFromFlaskGraph('risk', representativeSuburb, { blur });
-          break;
-        default:
-          return NextResponse.json({ error: 'Unknown section' }, { status: 400 });
+      const { status, reason, ...body } = await fetchSection(section, fetcher, entitlement, 'region');
+      if (reason === 'unknown_section') {
+        return NextResponse.json({ error: 'Unknown section' }, { status });
       }
 
       return NextResponse.json({
-        data,
+        ...body,
+        reason,
         section,
         region: regionName,
-        representativeSuburb
-      });
+        suburbCount: members.suburbs.length,
+        chartSuburb: await getChartSuburbName(),
+      }, { status });
     }
 
     // Return basic region info
-    const suburbInfo = await fetchFromFlaskAPI('/api/suburb/info', { suburb: representativeSuburb });
-
     return NextResponse.json({
       name: regionName,
       type: 'SA3',
-      representativeSuburb,
-      state: suburbInfo?.information?.state || '',
-      suburbCount: 1, // Could be expanded to count suburbs in region
+      state: members.state,
+      suburbCount: members.suburbs.length,
+      suburbs: members.suburbs,
+      access: getReportAccess(entitlement),
     });
   } catch (error) {
     console.error('Region API error:', error);
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { flaskJson } from '@/app/lib/flask/client';
 
-const FLASK_BACKEND_URL = process.env.FLASK_BACKEND_URL || 'http://localhost:2025';
-const FLASK_API_KEY = process.env.FLASK_API_KEY || 'mib_internal_cbf2508cf8';
 
 // Known regions (SA3 areas) - these can be expanded
 const KNOWN_REGIONS: Record<string, { state: string; type: string }> = {
@@ -162,52 +161,47 @@ export async function GET(request: NextRequest) {
       .slice(0, 20);
 
     // Also try to get regions from suburb search results
-    try {
-      const suburbUrl = new URL(`${FLASK_BACKEND_URL}/api/suburb/suburbs`);
-      suburbUrl.searchParams.append('suburb', query);
-      suburbUrl.searchParams.append('token', FLASK_API_KEY);
-      suburbUrl.searchParams.append('limit', '50');
+    const suburbResult = await flaskJson<{
+      results?: Array<{ information?: { sa3?: string; state?: string } }>;
+    }>('/api/suburb/suburbs', { suburb: query, limit: '50' });
 
-      const response = await fetch(suburbUrl.toString(), {
-        headers: {
-          'Authorization': `Bearer ${FLASK_API_KEY}`,
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        const suburbs = data.results || [];
+    if (suburbResult.ok) {
+      const suburbs = suburbResult.data.results || [];
 
-        // Extract unique SA3 regions from suburb results
-        const sa3Regions = new Set<string>();
-        suburbs.forEach((suburb: { information?: { sa3?: string; state?: string } }) => {
-          if (suburb.information?.sa3) {
-            const sa3Name = suburb.information.sa3;
-            const regionState = suburb.information.state?.includes('New South Wales') ? 'NSW' :
-                               suburb.information.state?.includes('Victoria') ? 'VIC' :
-                               suburb.information.state?.includes('Queensland') ? 'QLD' :
-                               suburb.information.state?.includes('Western Australia') ? 'WA' :
-                               suburb.information.state?.includes('South Australia') ? 'SA' :
-                               suburb.information.state?.includes('Tasmania') ? 'TAS' :
-                               suburb.information.state?.includes('Northern Territory') ? 'NT' :
-                               suburb.information.state?.includes('Australian Capital') ? 'ACT' : '';
+      // Extract unique SA3 regions from suburb results
+      const sa3Regions = new Set<string>();
+      suburbs.forEach(suburb => {
+        if (suburb.information?.sa3) {
+          const sa3Name = suburb.information.sa3;
+          const regionState = suburb.information.state?.includes('New South Wales') ? 'NSW' :
+                             suburb.information.state?.includes('Victoria') ? 'VIC' :
+                             suburb.information.state?.includes('Queensland') ? 'QLD' :
+                             suburb.information.state?.includes('Western Australia') ? 'WA' :
+                             suburb.information.state?.includes('South Australia') ? 'SA' :
+                             suburb.information.state?.includes('Tasmania') ? 'TAS' :
+                             suburb.information.state?.includes('Northern Territory') ? 'NT' :
+                             suburb.information.state?.includes('Australian Capital') ? 'ACT' : '';
 
-            if (!matchingRegions.find(r => r.name === sa3Name)) {
-              sa3Regions.add(JSON.stringify({ name: sa3Name, type: 'SA3', state: regionState }));
-            }
+          if (!matchingRegions.find(r => r.name === sa3Name)) {
+            sa3Regions.add(JSON.stringify({ name: sa3Name, type: 'SA3', state: regionState }));
           }
-        });
+        }
+      });
 
-        // Add unique SA3 regions from suburb search
-        sa3Regions.forEach(regionJson => {
-          const region = JSON.parse(regionJson);
-          if (!matchingRegions.find(r => r.name === region.name)) {
-            matchingRegions.push(region);
-          }
-        });
-      }
-    } catch (error) {
-      console.error('Error fetching suburb data for regions:', error);
+      // Add unique SA3 regions from suburb search
+      sa3Regions.forEach(regionJson => {
+        const region = JSON.parse(regionJson);
+        if (!matchingRegions.find(r => r.name === region.name)) {
+          matchingRegions.push(region);
+        }
+      });
+    } else if (suburbResult.error.kind !== 'not_found') {
+      // Known regions still answer the search; flag that backend results are missing
+      console.warn('[Region Search] Suburb lookup failed:', suburbResult.error.message);
+      return NextResponse.json({
+        results: matchingRegions,
+        reason: suburbResult.error.kind,
+      });
     }
 
     return NextResponse.json({
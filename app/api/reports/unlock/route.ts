@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { getUnlockFailureStatus, unlockReport } from '@/app/lib/orders/credits';
+
+interface UnlockRequest {
+  type: 'property' | 'suburb';
+  id: string;
+  location?: string;
+}
+
+export const POST = withAuth({}, async (request, user) => {
+  try {
+    const body: UnlockRequest = await request.json();
+    const { type, id, location = '' } = body;
+
+    if (!id || (type !== 'property' && type !== 'suburb')) {
+      return NextResponse.json(
+        { success: false, error: 'Report type and ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const category = type === 'property' ? 'Property' : 'Suburb';
+    const result = await unlockReport(user, category, id, location);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getUnlockFailureStatus(result.code) });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Report unlock error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
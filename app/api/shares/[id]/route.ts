@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { revokeShare } from '@/app/lib/shares/store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Revoke a link; it stays listed, with its views, until the record lapses
+export const DELETE = withAuth({}, async (_request, user, context: RouteContext) => {
+  try {
+    const { id } = await context.params;
+    const share = await revokeShare(user.email, id);
+    if (!share) {
+      return NextResponse.json(
+        { success: false, error: 'Share link not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, share });
+  } catch (error) {
+    console.error('Share revoke error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
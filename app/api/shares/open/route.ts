@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openShare, shareUnavailable } from '@/app/lib/shares/access';
+import type { ShareOpenResponse } from '@/app/lib/types/shares';
+
+// The caller's address as the hosting proxy reports it, for password rate limiting
+function clientAddress(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || request.headers.get('x-real-ip') || 'unknown';
+}
+
+// Open a share link for a recipient: checks the password and view limit, counts
+// the view and lets this browser load the report with ?share=
+export async function POST(request: NextRequest) {
+  try {
+    const body: { token?: unknown; password?: unknown } = await request.json();
+    if (typeof body.token !== 'string' || !body.token) {
+      return NextResponse.json(
+        { success: false, error: 'token is required' },
+        { status: 400 }
+      );
+    }
+
+    const share = await openShare(
+      body.token,
+      clientAddress(request),
+      typeof body.password === 'string' ? body.password : undefined
+    );
+    if (typeof share === 'string') return shareUnavailable(share);
+
+    const response: ShareOpenResponse = {
+      success: true,
+      reportType: share.reportType,
+      reportKey: share.reportKey,
+      label: share.label,
+      expiresAt: share.expiresAt,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Share open error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+}
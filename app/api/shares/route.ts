@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { FULL_ACCESS_TIER, getReportAccess, resolveReportEntitlement } from '@/app/lib/auth/entitlements';
+import {
+  createShare,
+  listShares,
+  MAX_SHARE_VIEWS,
+  SHARE_EXPIRY_DAYS,
+} from '@/app/lib/shares/store';
+import type { ShareReportType } from '@/app/lib/types/shares';
+
+const REPORT_TYPES: ShareReportType[] = ['property', 'suburb'];
+
+const MAX_LABEL_LENGTH = 200;
+const MIN_PASSWORD_LENGTH = 4;
+const MAX_PASSWORD_LENGTH = 128;
+
+// The member's share links with their view counts, newest first
+export const GET = withAuth({}, async (_request, user) => {
+  try {
+    const shares = await listShares(user.email);
+    return NextResponse.json({ success: true, shares });
+  } catch (error) {
+    console.error('Shares error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Create a signed link to a report the member has full access to
+export const POST = withAuth({ minTier: FULL_ACCESS_TIER }, async (request, user) => {
+  try {
+    const body: {
+      type?: unknown;
+      key?: unknown;
+      label?: unknown;
+      expiresInDays?: unknown;
+      password?: unknown;
+      maxViews?: unknown;
+    } = await request.json();
+
+    const type = body.type as ShareReportType;
+    const key = typeof body.key === 'string' ? body.key.trim() : '';
+    if (!REPORT_TYPES.includes(type) || !key) {
+      return NextResponse.json(
+        { success: false, error: `Provide a type (${REPORT_TYPES.join(' or ')}) and key` },
+        { status: 400 }
+      );
+    }
+
+    const expiresInDays = body.expiresInDays ?? 7;
+    if (!(SHARE_EXPIRY_DAYS as readonly unknown[]).includes(expiresInDays)) {
+      return NextResponse.json(
+        { success: false, error: `expiresInDays must be one of ${SHARE_EXPIRY_DAYS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const password = body.password || undefined;
+    if (password !== undefined && (
+      typeof password !== 'string'
+      || password.length < MIN_PASSWORD_LENGTH
+      || password.length > MAX_PASSWORD_LENGTH
+    )) {
+      return NextResponse.json(
+        { success: false, error: `Passwords must be ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const maxViews = body.maxViews ?? null;
+    if (maxViews !== null && (!Number.isInteger(maxViews) || (maxViews as number) < 1 || (maxViews as number) > MAX_SHARE_VIEWS)) {
+      return NextResponse.json(
+        { success: false, error: `maxViews must be a whole number from 1 to ${MAX_SHARE_VIEWS}` },
+        { status: 400 }
+      );
+    }
+
+    // Recipients see what the sharer sees, so a blurred report can't be shared
+    const entitlement = await resolveReportEntitlement(type, key);
+    if (!entitlement.hasFullAccess) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Unlock this report before sharing it',
+          reason: getReportAccess(entitlement).reason,
+        },
+        { status: 403 }
+      );
+    }
+
+    const share = await createShare(user.email, {
+      reportType: type,
+      reportKey: key,
+      label: typeof body.label === 'string' && body.label.trim() ? body.label.trim().slice(0, MAX_LABEL_LENGTH) : key,
+      expiresInDays: expiresInDays as number,
+      password: password as string | undefined,
+      maxViews: maxViews as number | null,
+    }, entitlement);
+
+    return NextResponse.json({ success: true, share }, { status: 201 });
+  } catch (error) {
+    console.error('Share create error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
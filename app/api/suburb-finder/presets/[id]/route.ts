@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { deletePreset } from '@/app/lib/finder/presets';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const DELETE = withAuth({}, async (_request, user, context: RouteContext) => {
+  try {
+    const { id } = await context.params;
+    if (!(await deletePreset(user.email, id))) {
+      return NextResponse.json(
+        { success: false, error: 'Preset not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Finder preset delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { getPlanFeatures } from '@/app/lib/auth/entitlements';
+import { getAdvancedFiltersUsed, parseFinderFilters } from '@/app/lib/finder/filters';
+import { listPresets, MAX_PRESET_NAME_LENGTH, PRESET_LIMITS, savePreset } from '@/app/lib/finder/presets';
+
+export const GET = withAuth({}, async (_request, user) => {
+  try {
+    const presets = await listPresets(user.email);
+    const access = getPlanFeatures(user.bestPlanId).suburbFinder;
+    return NextResponse.json({ success: true, presets, limit: PRESET_LIMITS[access] });
+  } catch (error) {
+    console.error('Finder presets error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Save the filters from a finder query string under a name
+export const POST = withAuth({}, async (request, user) => {
+  try {
+    const body: { name?: string; query?: string } = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_PRESET_NAME_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Preset name must be 1 to ${MAX_PRESET_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { filters, error } = parseFinderFilters(new URLSearchParams(typeof body.query === 'string' ? body.query : ''));
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    const access = getPlanFeatures(user.bestPlanId).suburbFinder;
+    if (access === 'limited' && getAdvancedFiltersUsed(filters).length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Yield, vacancy, supply and score filters need the Advanced plan' },
+        { status: 403 }
+      );
+    }
+
+    const existing = await listPresets(user.email);
+    if (existing.length >= PRESET_LIMITS[access]) {
+      return NextResponse.json(
+        { success: false, error: `Your plan can save up to ${PRESET_LIMITS[access]} ${PRESET_LIMITS[access] === 1 ? 'preset' : 'presets'}` },
+        { status: 403 }
+      );
+    }
+
+    const preset = await savePreset(user.email, name, filters);
+    return NextResponse.json({ success: true, preset });
+  } catch (error) {
+    console.error('Finder preset save error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
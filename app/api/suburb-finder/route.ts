@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { getPlanFeatures } from '@/app/lib/auth/entitlements';
+import { getErrorStatus } from '@/app/lib/flask/client';
+import { getAdvancedFiltersUsed, parseFinderFilters } from '@/app/lib/finder/filters';
+import {
+  blurLockedRows,
+  matchesFilters,
+  rankRows,
+  resolveCandidates,
+  screenCandidates,
+  withholdAdvancedFigures,
+} from '@/app/lib/finder/suburbs';
+import type { SuburbFinderResponse } from '@/app/lib/types/finder';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// The limited finder shows the top results only, on a single page
+const LIMITED_RESULTS = 10;
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export const GET = withAuth({}, async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { filters, error } = parseFinderFilters(searchParams);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    // A whole state is too many suburbs to screen in one request
+    if (!filters.sa3 && !filters.lga) {
+      return NextResponse.json({ error: 'Choose an SA3 or LGA to search' }, { status: 400 });
+    }
+
+    const limited = getPlanFeatures(user.bestPlanId).suburbFinder === 'limited';
+    const advancedUsed = getAdvancedFiltersUsed(filters);
+    if (limited && advancedUsed.length > 0) {
+      return NextResponse.json(
+        { error: 'Yield, vacancy, supply and score filters need the Advanced plan', reason: 'upgrade_required', filters: advancedUsed },
+        { status: 403 }
+      );
+    }
+
+    const candidates = await resolveCandidates(filters);
+    if (!candidates.ok) {
+      const notFound = candidates.error.kind === 'not_found';
+      return NextResponse.json(
+        { error: notFound ? 'No suburbs found in this area' : 'Suburb finder is temporarily unavailable', reason: candidates.error.kind },
+        { status: getErrorStatus(candidates.error) }
+      );
+    }
+
+    const { rows, scoreNames } = await screenCandidates(candidates.data.suburbs, filters.propertyType);
+    const matches = rankRows(rows.filter(row => matchesFilters(row, filters)), filters.sort, filters.direction);
+
+    const pageSize = limited ? LIMITED_RESULTS : Math.min(parsePositiveInt(searchParams.get('pageSize'), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const available = limited ? Math.min(matches.length, LIMITED_RESULTS) : matches.length;
+    const totalPages = Math.max(1, Math.ceil(available / pageSize));
+    const page = Math.min(limited ? 1 : parsePositiveInt(searchParams.get('page'), 1), totalPages);
+    const results = await blurLockedRows(
+      matches.slice((page - 1) * pageSize, Math.min(page * pageSize, available)),
+      filters.propertyType
+    );
+
+    const response: SuburbFinderResponse = {
+      results: limited ? results.map(withholdAdvancedFigures) : results,
+      page,
+      pageSize,
+      total: matches.length,
+      totalPages,
+      limited,
+      candidatesCapped: candidates.data.capped || undefined,
+      scoreNames: limited ? {} : scoreNames,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Suburb finder API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to search suburbs' },
+      { status: 500 }
+    );
+  }
+});
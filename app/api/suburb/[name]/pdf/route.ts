@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveReportEntitlement } from '@/app/lib/auth/entitlements';
+import { SESSION_COOKIE_NAME } from '@/app/lib/auth/types';
+import { flaskJson, getErrorStatus } from '@/app/lib/flask/client';
+import { renderReportPdf } from '@/app/lib/export/render-pdf';
+import { pdfDenied, pdfResponse, pdfUnavailable } from '@/app/lib/export/response';
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// The suburb report as a PDF, printed from the report page rather than by the Flask PDF service
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { name } = await context.params;
+    const suburbName = decodeURIComponent(name);
+
+    const entitlement = await resolveReportEntitlement('suburb', suburbName);
+    const denied = pdfDenied(entitlement);
+    if (denied) return denied;
+
+    const infoResult = await flaskJson<{ information?: Record<string, unknown>; error?: string }>(
+      '/api/suburb/info',
+      { suburb: suburbName }
+    );
+
+    if (!infoResult.ok) {
+      const notFound = infoResult.error.kind === 'not_found';
+      return NextResponse.json(
+        { error: notFound ? 'Suburb not found' : 'Suburb data is temporarily unavailable', reason: infoResult.error.kind },
+        { status: getErrorStatus(infoResult.error) }
+      );
+    }
+
+    if (infoResult.data.error) {
+      return NextResponse.json(
+        { error: 'Suburb not found', reason: 'not_found' },
+        { status: 404 }
+      );
+    }
+
+    const information = infoResult.data.information || {};
+    const title = typeof information.area_name === 'string' && information.area_name ? information.area_name : suburbName;
+
+    const result = await renderReportPdf({
+      path: `/suburb-reports/${encodeURIComponent(suburbName)}`,
+      sessionId: request.cookies.get(SESSION_COOKIE_NAME)?.value,
+    });
+    if (!result.ok) return pdfUnavailable(result);
+
+    return pdfResponse(result.pdf, `suburb-report-${title}`);
+  } catch (error) {
+    console.error('Suburb PDF API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate suburb PDF' },
+      { status: 500 }
+    );
+  }
+}
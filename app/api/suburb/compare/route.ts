@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveReportEntitlement, getReportAccess } from '@/app/lib/auth/entitlements';
+import { flaskJson, suburbGraph } from '@/app/lib/flask/client';
+import { fetchSectionBatch, type SectionFetcher } from '@/app/lib/reports/sections';
+import {
+  buildMetrics,
+  parseCompareList,
+  parseLeadingNumber,
+  readFormatted,
+  readPath,
+  type CompareSections,
+  type MetricDefinition,
+} from '@/app/lib/reports/compare';
+import type { CompareSuburb, SuburbCompareResponse } from '@/app/lib/types/compare';
+
+// Sections fetched for every compared suburb
+const COMPARE_SECTIONS = ['msp', 'mrp', 'yield', 'growth', 'insights', 'market_insights', 'demographics'];
+
+// Sections returned for display rather than reduced to metrics
+const DISPLAY_SECTIONS = ['demographics'];
+
+const PROPERTY_TYPES = [
+  { id: 'house', label: 'Houses' },
+  { id: 'unit', label: 'Units' },
+] as const;
+
+// Suburb-level figures from the market graphs, per property type
+const MARKET_METRICS: MetricDefinition[] = PROPERTY_TYPES.flatMap(({ id, label }) => [
+  {
+    id: `msp_${id}`,
+    label: `Median sale price (${label})`,
+    group: 'Prices',
+    section: 'msp',
+    better: 'lower' as const, // More affordable
+    read: (sections: CompareSections) => readFormatted(readPath(sections, 'msp', [id, 'suburb']), 'msp'),
+  },
+  {
+    id: `mrp_${id}`,
+    label: `Median weekly rent (${label})`,
+    group: 'Prices',
+    section: 'mrp',
+    better: 'higher' as const,
+    read: (sections: CompareSections) => readFormatted(readPath(sections, 'mrp', [id, 'suburb']), 'mrp'),
+  },
+  {
+    id: `yield_${id}`,
+    label: `Gross rental yield (${label})`,
+    group: 'Prices',
+    section: 'yield',
+    better: 'higher' as const,
+    read: (sections: CompareSections) => readFormatted(readPath(sections, 'yield', [id, 'suburb']), 'yield'),
+  },
+  {
+    id: `growth_1y_${id}`,
+    label: `1 year growth (${label})`,
+    group: 'Growth',
+    section: 'growth',
+    better: 'higher' as const,
+    // The growth graph carries the figure too, but msp always has it
+    read: (sections: CompareSections) =>
+      readFormatted(readPath(sections, 'growth', [id, 'suburb']), '1y_g')
+      ?? readFormatted(readPath(sections, 'msp', [id, 'suburb']), '1y_g'),
+  },
+]);
+
+// Supply and demand from market_insights; lower supply and faster sales favour sellers
+const SUPPLY_METRICS: MetricDefinition[] = [
+  { id: 'months_of_supply', label: 'Months of supply', key: 'months_of_supply', better: 'lower' as const },
+  { id: 'time_on_market', label: 'Days on market', key: 'time_on_market', better: 'lower' as const },
+  { id: 'stock_on_market', label: 'Stock on market', key: 'stock_on_market', better: 'lower' as const },
+  { id: 'sold_count', label: 'Sales (12 months)', key: 'sold_count', better: 'higher' as const },
+].map(({ key, ...metric }) => ({
+  ...metric,
+  group: 'Supply & demand',
+  section: 'market_insights',
+  read: (sections: CompareSections) => readFormatted(readPath(sections, 'market_insights', [key, 'all'])),
+}));
+
+// Insight scores vary by suburb, so rows are built from the scores any suburb has
+function getScoreMetrics(reports: CompareSections[]): MetricDefinition[] {
+  const scores = new Map<string, string>();
+  reports.forEach(sections => {
+    const score = readPath(sections, 'insights', ['score']);
+    Object.entries(score ?? {}).forEach(([id, item]) => {
+      const name = (item as { name?: unknown })?.name;
+      if (!scores.has(id)) scores.set(id, typeof name === 'string' ? name : id);
+    });
+  });
+
+  return Array.from(scores, ([id, label]) => ({
+    id: `score_${id}`,
+    label,
+    group: 'Scores',
+    section: 'insights',
+    better: 'higher' as const,
+    read: (sections: CompareSections) => {
+      const item = readPath(sections, 'insights', ['score', id]);
+      const display = typeof item?.value === 'string' ? item.value : null;
+      return display ? { value: parseLeadingNumber(display), display } : null;
+    },
+  }));
+}
+
+async function loadSuburb(name: string): Promise<{ suburb: CompareSuburb; sections: CompareSections }> {
+  // Same entitlement as the single report, including per-suburb unlocks
+  const entitlement = await resolveReportEntitlement('suburb', name);
+  const fetcher: SectionFetcher = section => suburbGraph(section, name, { blur: entitlement.blur });
+
+  const [info, sections] = await Promise.all([
+    flaskJson<{ information?: { area_name?: string; state_abr?: string }; error?: string }>(
+      '/api/suburb/info',
+      { suburb: name }
+    ),
+    fetchSectionBatch(COMPARE_SECTIONS, fetcher, entitlement, 'suburb'),
+  ]);
+
+  if (!info.ok || info.data.error) {
+    return {
+      suburb: { name, displayName: name, error: info.ok ? 'not_found' : info.error.kind, sections: {} },
+      sections: {},
+    };
+  }
+
+  const information = info.data.information;
+  return {
+    suburb: {
+      name,
+      displayName: information?.area_name || name,
+      state: information?.state_abr,
+      access: getReportAccess(entitlement),
+      sections: Object.fromEntries(DISPLAY_SECTIONS.map(section => [section, sections[section]])),
+    },
+    sections,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { items: names, error } = parseCompareList(searchParams.get('names'));
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const loaded = await Promise.all(names.map(loadSuburb));
+    const reports = loaded.map(entry => entry.sections);
+
+    const response: SuburbCompareResponse = {
+      suburbs: loaded.map(entry => entry.suburb),
+      metrics: buildMetrics([...MARKET_METRICS, ...SUPPLY_METRICS, ...getScoreMetrics(reports)], reports),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Suburb compare API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare suburbs' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const FLASK_BACKEND_URL = process.env.FLASK_BACKEND_URL || 'http://localhost:2025';
-const FLASK_API_KEY = process.env.FLASK_API_KEY || 'mib_internal_cbf2508cf8';
+import { flaskJson, getErrorStatus } from '@/app/lib/flask/client';
+
+interface SuburbSearchItem {
+  area_name: string;
+  area_level: string;
+  information: {
+    state: string;
+    poa: string;
+    lga: string;
+    sa3: string;
+  };
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,37 +24,25 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ results: [] });
     }
 
-    const url = new URL(`${FLASK_BACKEND_URL}/api/suburb/suburbs`);
-    url.searchParams.append('suburb', query);
-    url.searchParams.append('token', FLASK_API_KEY);
-    if (state) url.searchParams.append('state', state);
-    url.searchParams.append('page', page);
-    url.searchParams.append('limit', limit);
+    const params: Record<string, string> = { suburb: query, page, limit };
+    if (state) params.state = state;
 
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Authorization': `Bearer ${FLASK_API_KEY}`,
-      },
-    });
+    const result = await flaskJson<{ results?: SuburbSearchItem[]; page?: number }>('/api/suburb/suburbs', params);
 
-    if (!response.ok) {
-      console.warn(`[Suburb Search] Flask returned ${response.status}`);
-      return NextResponse.json({ results: [] });
+    if (!result.ok) {
+      if (result.error.kind === 'not_found') {
+        return NextResponse.json({ results: [] });
+      }
+      return NextResponse.json(
+        { results: [], error: 'Suburb search is temporarily unavailable', reason: result.error.kind },
+        { status: getErrorStatus(result.error) }
+      );
     }
 
-    const data = await response.json();
+    const data = result.data;
 
     // Transform results for frontend
-    const results = (data.results || []).map((item: {
-      area_name: string;
-      area_level: string;
-      information: {
-        state: string;
-        poa: string;
-        lga: string;
-        sa3: string;
-      };
-    }) => ({
+    const results = (data.results || []).map(item => ({
       name: item.area_name,
       level: item.area_level,
       state: item.information?.state || '',
@@ -1,9 +1,9 @@
 import { NextResponse } from 'next/server';
-import { getCurrentUser } from '@/app/lib/auth/session';
-import { PLANS, type PlanId } from '@/app/lib/auth/types';
-
-const FLASK_BACKEND_URL = process.env.FLASK_BACKEND_URL || 'http://localhost:2025';
-const FLASK_API_KEY = process.env.FLASK_API_KEY || 'mib_internal_cbf2508cf8';
+import { withAuth } from '@/app/lib/auth/guard';
+import { getPlanDetails, getPlanFeatures, type PlanFeatures } from '@/app/lib/auth/entitlements';
+import { getMonthlyUsage, type ReportUsage } from '@/app/lib/orders/credits';
+import { getMatchUsage } from '@/app/lib/finder/matches';
+import type { PropertyMatchUsage } from '@/app/lib/types/finder';
 
 interface SubscriptionData {
   plan: {
@@ -12,46 +12,9 @@ interface SubscriptionData {
     tier: number;
     description: string;
   };
-  usage: {
-    propertyReportsUsed: number;
-    propertyReportsLimit: number;
-    propertyReportsLeft: number;
-    suburbReportsUsed: number;
-    suburbReportsLimit: number;
-    suburbReportsLeft: number;
-  };
-  features: {
-    suburbFinder: 'unlimited' | 'limited';
-    propertyFinder: 'unlimited' | 'limited';
-    csvExport: boolean;
-    prioritySupport: boolean;
-  };
-}
-
-// Helper to get plan details
-function getPlanDetails(planId: string | null) {
-  if (!planId) {
-    return PLANS['pln_basic--n5180oor'];
-  }
-
-  // Check if it's a known plan ID
-  if (planId in PLANS) {
-    return PLANS[planId as PlanId];
-  }
-
-  // Try to match by name fragment
-  if (planId.includes('portfolio')) {
-    return PLANS['pln_portfolio-builder-fb6b0fzp'];
-  }
-  if (planId.includes('advanced')) {
-    return PLANS['pln_advanced-ni690fz3'];
-  }
-  if (planId.includes('essentials')) {
-    return PLANS['pln_essentials-vb1k04zy'];
-  }
-
-  // Default to free plan
-  return PLANS['pln_basic--n5180oor'];
+  usage: ReportUsage;
+  matches: PropertyMatchUsage;
+  features: PlanFeatures;
 }
 
 // Get plan description
@@ -68,69 +31,15 @@ function getPlanDescription(planName: string): string {
   }
 }
 
-export async function GET(): Promise<NextResponse> {
+export const GET = withAuth({}, async (_request, user) => {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     // Get user's plan details
     console.log('[Subscription API] User:', user.email, 'bestPlanId:', user.bestPlanId, 'activePlans:', user.activePlans);
     const planDetails = getPlanDetails(user.bestPlanId);
     console.log('[Subscription API] Resolved plan:', planDetails.name, 'tier:', planDetails.tier);
 
-    // Try to fetch usage from Flask backend
-    let propertyReportsUsed = 0;
-    let suburbReportsUsed = 0;
-
-    // Always try to fetch usage from Flask backend
-    try {
-      const response = await fetch(
-        `${FLASK_BACKEND_URL}/user-orders?email=${encodeURIComponent(user.email)}&token=${FLASK_API_KEY}`
-      );
-      if (response.ok) {
-        const orders = await response.json();
-
-        // Count reports used this month
-        const now = new Date();
-        const currentMonth = now.getMonth();
-        const currentYear = now.getFullYear();
-
-        orders.forEach((order: { report_category: string; date: string }) => {
-          // Parse date (DD-MM-YYYY format)
-          const [, month, year] = order.date.split('-').map(Number);
-          if (year === currentYear && month - 1 === currentMonth) {
-            if (order.report_category === 'Property') {
-              propertyReportsUsed++;
-            } else if (order.report_category === 'Suburb') {
-              suburbReportsUsed++;
-            }
-          }
-        });
-      }
-    } catch (error) {
-      console.warn('[Subscription API] Failed to fetch usage from Flask:', error);
-    }
-
-    // Calculate remaining reports
-    const propertyReportsLimit = planDetails.propertyReports;
-    const suburbReportsLimit = planDetails.suburbReports;
-
-    const propertyReportsLeft = propertyReportsLimit === -1
-      ? -1 // Unlimited
-      : Math.max(0, propertyReportsLimit - propertyReportsUsed);
-
-    const suburbReportsLeft = suburbReportsLimit === -1
-      ? -1 // Unlimited
-      : Math.max(0, suburbReportsLimit - suburbReportsUsed);
-
-    // Determine feature access based on plan tier
-    const isUnlimited = planDetails.tier >= 3;
-    const hasAdvancedFeatures = planDetails.tier >= 2;
+    // Usage counts orders from Flask plus reports unlocked in this app
+    const [usage, matches] = await Promise.all([getMonthlyUsage(user), getMatchUsage(user)]);
 
     const subscriptionData: SubscriptionData = {
       plan: {
@@ -139,20 +48,10 @@ export async function GET(): Promise<NextResponse> {
         tier: planDetails.tier,
         description: getPlanDescription(planDetails.name),
       },
-      usage: {
-        propertyReportsUsed,
-        propertyReportsLimit,
-        propertyReportsLeft,
-        suburbReportsUsed,
-        suburbReportsLimit,
-        suburbReportsLeft,
-      },
-      features: {
-        suburbFinder: isUnlimited || hasAdvancedFeatures ? 'unlimited' : 'limited',
-        propertyFinder: isUnlimited || hasAdvancedFeatures ? 'unlimited' : 'limited',
-        csvExport: hasAdvancedFeatures,
-        prioritySupport: isUnlimited,
-      },
+      usage,
+      matches,
+      // Feature access is based on plan tier
+      features: getPlanFeatures(user.bestPlanId),
     };
 
     return NextResponse.json({
@@ -166,4 +65,4 @@ export async function GET(): Promise<NextResponse> {
       { status: 500 }
     );
   }
-}
+});
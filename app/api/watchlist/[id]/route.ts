@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { watchlistHref } from '@/app/lib/watchlist/metrics';
+import { MAX_NOTES_LENGTH, removeWatchlistItem, updateWatchlistItem } from '@/app/lib/watchlist/store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Edit an item's notes and tags
+export const PATCH = withAuth({}, async (request, user, context: RouteContext) => {
+  try {
+    const body: { notes?: unknown; tags?: unknown } = await request.json();
+    if (body.notes !== undefined && (typeof body.notes !== 'string' || body.notes.length > MAX_NOTES_LENGTH)) {
+      return NextResponse.json(
+        { success: false, error: `Notes must be text of up to ${MAX_NOTES_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    if (body.tags !== undefined && (!Array.isArray(body.tags) || body.tags.some(tag => typeof tag !== 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'tags must be a list of strings' },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const item = await updateWatchlistItem(user.email, id, {
+      notes: body.notes as string | undefined,
+      tags: body.tags as string[] | undefined,
+    });
+    if (!item) {
+      return NextResponse.json(
+        { success: false, error: 'Watchlist item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, item: { ...item, href: watchlistHref(item) } });
+  } catch (error) {
+    console.error('Watchlist update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth({}, async (_request, user, context: RouteContext) => {
+  try {
+    const { id } = await context.params;
+    if (!(await removeWatchlistItem(user.email, id))) {
+      return NextResponse.json(
+        { success: false, error: 'Watchlist item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Watchlist delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
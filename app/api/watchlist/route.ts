@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/app/lib/auth/guard';
+import { watchlistHref, withMetrics } from '@/app/lib/watchlist/metrics';
+import {
+  addWatchlistItem,
+  listWatchlist,
+  MAX_NOTES_LENGTH,
+  MAX_WATCHLIST_ITEMS,
+} from '@/app/lib/watchlist/store';
+import type { WatchlistItemType } from '@/app/lib/types/watchlist';
+
+const ITEM_TYPES: WatchlistItemType[] = ['property', 'suburb'];
+
+const MAX_LABEL_LENGTH = 200;
+
+// ?metrics=1 adds each item's current headline figures; ?type=&key= narrows to one item
+export const GET = withAuth({}, async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type');
+    const key = searchParams.get('key');
+
+    let items = await listWatchlist(user.email);
+    if (type) items = items.filter(item => item.type === type);
+    if (key) items = items.filter(item => item.key.toLowerCase() === key.toLowerCase());
+
+    const entries = searchParams.get('metrics') === '1'
+      ? await withMetrics(items)
+      : items.map(item => ({ ...item, href: watchlistHref(item) }));
+
+    return NextResponse.json({ success: true, items: entries, limit: MAX_WATCHLIST_ITEMS });
+  } catch (error) {
+    console.error('Watchlist error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Save a property or suburb; saving one twice updates the existing item
+export const POST = withAuth({}, async (request, user) => {
+  try {
+    const body: { type?: unknown; key?: unknown; label?: unknown; notes?: unknown; tags?: unknown } = await request.json();
+    const type = body.type as WatchlistItemType;
+    const key = typeof body.key === 'string' ? body.key.trim() : '';
+    if (!ITEM_TYPES.includes(type) || !key) {
+      return NextResponse.json(
+        { success: false, error: `Provide a type (${ITEM_TYPES.join(' or ')}) and key` },
+        { status: 400 }
+      );
+    }
+
+    const label = typeof body.label === 'string' ? body.label.trim().slice(0, MAX_LABEL_LENGTH) : '';
+    if (body.notes !== undefined && (typeof body.notes !== 'string' || body.notes.length > MAX_NOTES_LENGTH)) {
+      return NextResponse.json(
+        { success: false, error: `Notes must be text of up to ${MAX_NOTES_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    if (body.tags !== undefined && (!Array.isArray(body.tags) || body.tags.some(tag => typeof tag !== 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'tags must be a list of strings' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await listWatchlist(user.email);
+    const alreadySaved = existing.some(item => item.type === type && item.key.toLowerCase() === key.toLowerCase());
+    if (!alreadySaved && existing.length >= MAX_WATCHLIST_ITEMS) {
+      return NextResponse.json(
+        { success: false, error: `Your watchlist can hold up to ${MAX_WATCHLIST_ITEMS} items` },
+        { status: 403 }
+      );
+    }
+
+    const { item, created } = await addWatchlistItem(user.email, {
+      type,
+      key,
+      label,
+      notes: body.notes as string | undefined,
+      tags: body.tags as string[] | undefined,
+    });
+    return NextResponse.json(
+      { success: true, item: { ...item, href: watchlistHref(item) } },
+      { status: created ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error('Watchlist save error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleMemberstackEvent, parseWebhookEvent, verifyWebhookSignature } from '@/app/lib/auth/webhooks';
+
+// Member and plan events from Memberstack. Every live session of the member is
+// brought up to date, so upgrades and cancellations apply without logging in again.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // The signature covers the exact bytes sent, so read the body as text
+    const body = await request.text();
+    const headers = {
+      id: request.headers.get('svix-id'),
+      timestamp: request.headers.get('svix-timestamp'),
+      signature: request.headers.get('svix-signature'),
+    };
+
+    if (!verifyWebhookSignature(body, headers)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    const event = parseWebhookEvent(body);
+    if (!event) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid payload' },
+        { status: 400 }
+      );
+    }
+
+    const result = await handleMemberstackEvent(headers.id as string, event);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Memberstack webhook error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An error occurred' },
+      { status: 500 }
+    );
+  }
+}
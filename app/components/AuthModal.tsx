@@ -112,10 +112,9 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
       // Create server-side session with full member data
       const success = await login({
         email,
-        token: msResult.token || 'sdk-auth-success',
+        token: msResult.token || '',
         memberstackId: msResult.member?.id,
-        firstName: msResult.member?.customFields?.['first-name'],
-        lastName: msResult.member?.customFields?.['last-name'],
+        rememberMe,
       });
       if (success) {
         const userName = msResult.member?.customFields?.['first-name'] || email.split('@')[0];
@@ -163,8 +162,7 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
         email,
         firstName,
         lastName,
-        selectedPlan?.id || 'pln_basic--n5180oor',
-        msResult.token || 'sdk-auth-success'
+        msResult.token || ''
       );
 
       if (success) {
@@ -223,10 +221,9 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
       // Create server-side session with full member data
       const success = await login({
         email: msResult.member.auth.email,
-        token: msResult.token || 'sdk-auth-success',
+        token: msResult.token || '',
         memberstackId: msResult.member.id,
-        firstName: msResult.member.customFields?.['first-name'],
-        lastName: msResult.member.customFields?.['last-name'],
+        rememberMe,
       });
 
       if (success) {
@@ -242,7 +239,7 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
     } finally {
       setIsLoading(false);
     }
-  }, [login, onClose, showToast]);
+  }, [login, onClose, rememberMe, showToast]);
 
   const handleForgotPassword = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import type { DataTable as DataTableData } from '@/app/lib/types/section-data';
+
+interface DataTableProps<Row extends object> {
+  table: DataTableData<Row>;
+  formatters?: Partial<Record<keyof Row, (value: number) => string>>;
+}
+
+type SortState = { key: string; direction: 'asc' | 'desc' } | null;
+
+// Sortable table for structured section rows; missing values sort last
+export default function DataTable<Row extends object>({ table, formatters = {} }: DataTableProps<Row>) {
+  const [sort, setSort] = useState<SortState>(null);
+
+  const rows = sort
+    ? [...table.rows].sort((a, b) => {
+        const av = (a as Record<string, unknown>)[sort.key];
+        const bv = (b as Record<string, unknown>)[sort.key];
+        if (av === null || av === undefined) return 1;
+        if (bv === null || bv === undefined) return -1;
+        const order = typeof av === 'number' && typeof bv === 'number'
+          ? av - bv
+          : String(av).localeCompare(String(bv));
+        return sort.direction === 'asc' ? order : -order;
+      })
+    : table.rows;
+
+  const toggleSort = (key: string) => {
+    setSort(prev => prev?.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: 'asc' });
+  };
+
+  const renderCell = (column: DataTableData<Row>['columns'][number], row: Row) => {
+    const value = (row as Record<string, unknown>)[column.key];
+    if (value === null || value === undefined || value === '') return '-';
+    const format = formatters[column.key];
+    if (typeof value === 'number') {
+      return format ? format(value) : value.toLocaleString('en-AU');
+    }
+    return String(value);
+  };
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-gray-200">
+          {table.columns.map(column => (
+            <th
+              key={column.key}
+              className={`py-2 px-3 font-semibold text-gray-600 ${column.numeric ? 'text-right' : 'text-left'}`}
+            >
+              <button onClick={() => toggleSort(column.key)} className="inline-flex items-center gap-1 hover:text-[#4475e6]">
+                {column.label}
+                {sort?.key === column.key && <span>{sort.direction === 'asc' ? '▲' : '▼'}</span>}
+              </button>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, i) => (
+          <tr key={i} className="border-b border-gray-100 hover:bg-white">
+            {table.columns.map(column => (
+              <td key={column.key} className={`py-2 px-3 text-gray-700 ${column.numeric ? 'text-right' : ''}`}>
+                {renderCell(column, row)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useToast } from '@/app/components/Toast';
+import type { ActiveSession } from '@/app/lib/auth/types';
+
+// Checked in order; Edge and Opera identify as Chrome too, and Chrome as Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// "Chrome on macOS" from a user agent string
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || 'Unknown device';
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// Where the member is signed in, with sign-out for other devices
+export default function DevicesPanel() {
+  const { showToast } = useToast();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/auth/sessions')
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load devices');
+        if (!cancelled) setSessions(data.sessions || []);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load devices');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const revoke = async (id: string) => {
+    try {
+      const response = await fetch(`/api/auth/sessions/${id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to sign out device');
+      setSessions(prev => prev.filter(session => session.id !== id));
+      showToast('Device signed out', 'info');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to sign out device', 'error');
+    }
+  };
+
+  const revokeOthers = async () => {
+    try {
+      const response = await fetch('/api/auth/sessions', { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to sign out other devices');
+      setSessions(prev => prev.filter(session => session.current));
+      showToast(`Signed out ${data.revoked} other device${data.revoked === 1 ? '' : 's'}`, 'info');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to sign out other devices', 'error');
+    }
+  };
+
+  const hasOthers = sessions.some(session => !session.current);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Devices</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Browsers signed in to your account. Sign out any you don&apos;t recognise.
+          </p>
+        </div>
+        {hasOthers && (
+          <button
+            onClick={revokeOthers}
+            className="px-4 py-2 border border-red-200 text-red-600 text-sm font-medium rounded-lg hover:bg-red-50"
+          >
+            Sign out all other devices
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="p-12 text-center text-gray-500">
+          <div className="w-8 h-8 border-4 border-[#4475e6] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          Loading devices...
+        </div>
+      ) : error ? (
+        <div className="p-12 text-center text-red-600">{error}</div>
+      ) : sessions.length === 0 ? (
+        <div className="p-12 text-center text-gray-500">No active sessions.</div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {sessions.map(session => (
+            <li key={session.id} className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-semibold text-gray-800">{describeDevice(session.userAgent)}</span>
+                  {session.current && (
+                    <span className="inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                      This device
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {session.location || 'Location unknown'} · Signed in {formatDateTime(session.createdAt)} · Last active {formatDateTime(session.lastAccessed)}
+                </p>
+                {session.userAgent && (
+                  <p className="text-xs text-gray-400 mt-1 truncate" title={session.userAgent}>{session.userAgent}</p>
+                )}
+              </div>
+              {!session.current && (
+                <button onClick={() => revoke(session.id)} className="text-sm text-red-600 hover:underline self-start md:self-auto">
+                  Sign out
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
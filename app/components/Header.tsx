@@ -4,6 +4,7 @@ import Link from 'next/link';
 import { useState } from 'react';
 import { useAuth } from '@/app/lib/auth/context';
 import AuthModal from './AuthModal';
+import NotificationBell from './NotificationBell';
 
 export default function Header() {
   const { user, isAuthenticated, isLoading, logout } = useAuth();
@@ -93,41 +94,44 @@ export default function Header() {
             {isLoading ? (
               <div className="w-20 h-8 bg-gray-200 animate-pulse rounded-md" />
             ) : isAuthenticated && user ? (
-              <div className="relative">
-                <button
-                  onClick={() => setUserMenuOpen(!userMenuOpen)}
-                  onBlur={() => setTimeout(() => setUserMenuOpen(false), 150)}
-                  className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-[#383941] hover:text-[#4475e6] hover:bg-[#4475e60d] rounded-md transition-colors"
-                >
-                  <div className="w-8 h-8 bg-[#4475e6] text-white rounded-full flex items-center justify-center text-sm font-semibold">
-                    {user.firstName?.[0] || user.email[0].toUpperCase()}
-                  </div>
-                  <span>{user.firstName || 'Account'}</span>
-                  <svg className={`w-4 h-4 transition-transform ${userMenuOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                  </svg>
-                </button>
-                {userMenuOpen && (
-                  <div className="absolute top-full right-0 mt-1 w-48 bg-white rounded-lg shadow-lg border border-gray-100 py-2">
-                    <div className="px-4 py-2 border-b border-gray-100">
-                      <p className="text-sm font-medium text-gray-900">{user.firstName} {user.lastName}</p>
-                      <p className="text-xs text-gray-500">{user.email}</p>
+              <>
+                <NotificationBell />
+                <div className="relative">
+                  <button
+                    onClick={() => setUserMenuOpen(!userMenuOpen)}
+                    onBlur={() => setTimeout(() => setUserMenuOpen(false), 150)}
+                    className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-[#383941] hover:text-[#4475e6] hover:bg-[#4475e60d] rounded-md transition-colors"
+                  >
+                    <div className="w-8 h-8 bg-[#4475e6] text-white rounded-full flex items-center justify-center text-sm font-semibold">
+                      {user.firstName?.[0] || user.email[0].toUpperCase()}
                     </div>
-                    <Link href="/members-area" className="block px-4 py-2 text-sm text-[#383941] hover:bg-gray-50 hover:text-[#4475e6]">
-                      Dashboard
-                    </Link>
-                    <Link href="/account" className="block px-4 py-2 text-sm text-[#383941] hover:bg-gray-50 hover:text-[#4475e6]">
-                      Account Settings
-                    </Link>
-                    <button
-                      onClick={handleLogout}
-                      className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50"
-                    >
-                      Log Out
-                    </button>
-                  </div>
-                )}
-              </div>
+                    <span>{user.firstName || 'Account'}</span>
+                    <svg className={`w-4 h-4 transition-transform ${userMenuOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
+                  {userMenuOpen && (
+                    <div className="absolute top-full right-0 mt-1 w-48 bg-white rounded-lg shadow-lg border border-gray-100 py-2">
+                      <div className="px-4 py-2 border-b border-gray-100">
+                        <p className="text-sm font-medium text-gray-900">{user.firstName} {user.lastName}</p>
+                        <p className="text-xs text-gray-500">{user.email}</p>
+                      </div>
+                      <Link href="/members-area" className="block px-4 py-2 text-sm text-[#383941] hover:bg-gray-50 hover:text-[#4475e6]">
+                        Dashboard
+                      </Link>
+                      <Link href="/account" className="block px-4 py-2 text-sm text-[#383941] hover:bg-gray-50 hover:text-[#4475e6]">
+                        Account Settings
+                      </Link>
+                      <button
+                        onClick={handleLogout}
+                        className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+                      >
+                        Log Out
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </>
             ) : (
               <>
                 <button
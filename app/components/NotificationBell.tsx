@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { AlertEvent, NotificationsResponse } from '@/app/lib/types/alerts';
+
+// How often an open page checks for alerts from the latest run
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+}
+
+// Notification centre for watchlist alerts: an unread badge and a dropdown list
+export default function NotificationBell() {
+  const [alerts, setAlerts] = useState<AlertEvent[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      fetch('/api/notifications')
+        .then(res => (res.ok ? res.json() : null))
+        .then((data: NotificationsResponse | null) => {
+          if (cancelled || !data) return;
+          setAlerts(data.alerts);
+          setUnread(data.unread);
+        })
+        .catch(() => {});
+    };
+
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      setUnread(data.unread);
+      setAlerts(prev => prev.map(alert => (!ids || ids.includes(alert.id) ? { ...alert, read: true } : alert)));
+    } catch {
+      // Stays unread; the next poll shows the server's state
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={unread > 0 ? `${unread} unread notifications` : 'Notifications'}
+        className="relative p-2 text-[#383941] hover:text-[#4475e6] hover:bg-[#4475e60d] rounded-md transition-colors"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-semibold rounded-full flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-80 bg-white rounded-lg shadow-lg border border-gray-100">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <span className="text-sm font-semibold text-gray-900">Notifications</span>
+            {unread > 0 && (
+              <button onClick={() => markRead()} className="text-xs text-[#4475e6] hover:underline">
+                Mark all read
+              </button>
+            )}
+          </div>
+          {alerts.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">
+              No alerts yet. Changes to items on your watchlist will show up here.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {alerts.map(alert => (
+                <li key={alert.id}>
+                  <Link
+                    href={alert.href}
+                    onClick={() => {
+                      if (!alert.read) markRead([alert.id]);
+                      setIsOpen(false);
+                    }}
+                    className={`block px-4 py-3 hover:bg-gray-50 ${alert.read ? '' : 'bg-[#4475e60d]'}`}
+                  >
+                    <p className="text-sm text-[#383941]">{alert.message}</p>
+                    {alert.from?.display && alert.to?.display && (
+                      <p className="text-xs text-gray-600 mt-1">{alert.from.display} → {alert.to.display}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">{formatDate(alert.createdAt)}</p>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+interface PrintCoverProps {
+  reportType: 'Property' | 'Suburb';
+  title: string; // Address or suburb name
+  subtitle?: string;
+  sections: { id: string; label: string }[]; // Report sections in page order, by element id
+}
+
+// Cover page and contents for the printed report (PDF export); hidden on screen.
+// Contents entries link to each section, and each section starts on a new page.
+export default function PrintCover({ reportType, title, subtitle, sections }: PrintCoverProps) {
+  const generated = new Date().toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+
+  return (
+    <div className="hidden print:block">
+      <div className="flex flex-col min-h-[270mm] break-after-page">
+        <div className="bg-[#0f1938] text-white px-10 py-12">
+          <div className="text-3xl font-bold">Microburbs</div>
+          <div className="text-lg mt-1">{reportType} Report</div>
+        </div>
+        <div className="px-10 pt-16 flex-1">
+          <h1 className="text-4xl font-bold text-gray-800">{title}</h1>
+          {subtitle && <p className="text-lg text-gray-500 mt-2">{subtitle}</p>}
+          <div className="w-32 h-0.5 bg-[#4475e6] mt-6 mb-4" />
+          <p className="text-sm text-gray-500">Generated {generated}</p>
+        </div>
+        <p className="px-10 text-xs text-gray-400">
+          Estimates and forecasts are indicative only and are not financial advice.
+        </p>
+      </div>
+
+      <nav className="px-10 pt-6 break-after-page" aria-label="Contents">
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">Contents</h2>
+        <ol className="space-y-3">
+          {sections.map((section, i) => (
+            <li key={section.id} className="flex items-baseline gap-3 border-b border-gray-200 pb-2">
+              <span className="text-gray-400 w-6">{i + 1}</span>
+              <a href={`#${section.id}`} className="text-gray-800">{section.label}</a>
+            </li>
+          ))}
+        </ol>
+      </nav>
+    </div>
+  );
+}
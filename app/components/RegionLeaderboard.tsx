@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { LeaderboardRow, RegionLeaderboard as RegionLeaderboardData } from '@/app/lib/types/region';
+
+interface RegionLeaderboardProps {
+  leaderboard: RegionLeaderboardData;
+}
+
+type PropertyType = keyof RegionLeaderboardData;
+type SortKey = 'suburb' | 'msp' | 'mrp' | 'yield' | '1y_g' | 'time_on_market';
+type SortState = { key: SortKey; direction: 'asc' | 'desc' };
+
+const COLUMNS: { key: SortKey; label: string; display?: keyof LeaderboardRow; suffix?: string }[] = [
+  { key: 'suburb', label: 'Suburb' },
+  { key: 'msp', label: 'Median price', display: 'msp_f' },
+  { key: 'mrp', label: 'Median rent', display: 'mrp_f' },
+  { key: 'yield', label: 'Yield', display: 'yield_f' },
+  { key: '1y_g', label: '1Y growth', display: '1y_g_f' },
+  { key: 'time_on_market', label: 'Days on market', display: 'time_on_market_f', suffix: ' days' },
+];
+
+// Ranked, sortable table of a region's suburbs; missing values sort last
+export default function RegionLeaderboard({ leaderboard }: RegionLeaderboardProps) {
+  const [propertyType, setPropertyType] = useState<PropertyType>('house');
+  const [sort, setSort] = useState<SortState>({ key: 'msp', direction: 'desc' });
+
+  const rows = [...leaderboard[propertyType]].sort((a, b) => {
+    const av = a[sort.key];
+    const bv = b[sort.key];
+    if (av === null || av === undefined) return 1;
+    if (bv === null || bv === undefined) return -1;
+    const order = typeof av === 'number' && typeof bv === 'number'
+      ? av - bv
+      : String(av).localeCompare(String(bv));
+    return sort.direction === 'asc' ? order : -order;
+  });
+
+  // Names sort A-Z first; figures sort highest first
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'suburb' ? 'asc' : 'desc' });
+  };
+
+  const renderValue = (row: LeaderboardRow, column: typeof COLUMNS[number]) => {
+    const display = column.display ? row[column.display] : undefined;
+    if (typeof display === 'string') return display;
+    const value = row[column.key];
+    if (value === undefined || value === null) return '-';
+    return typeof value === 'number' ? `${value.toLocaleString('en-AU')}${column.suffix ?? ''}` : value;
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-[#898787]">
+          {rows.length} {rows.length === 1 ? 'suburb' : 'suburbs'} with {propertyType} data
+        </p>
+        <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+          {(['house', 'unit'] as const).map(type => (
+            <button
+              key={type}
+              onClick={() => setPropertyType(type)}
+              className={`px-3 py-1 text-sm rounded-md ${
+                propertyType === type ? 'bg-white text-[#4475e6] font-medium shadow-sm' : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              {type === 'house' ? 'Houses' : 'Units'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center text-gray-400 py-8">No {propertyType} data available</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="py-2 px-3 font-semibold text-gray-600 text-left w-12">#</th>
+                {COLUMNS.map(column => (
+                  <th
+                    key={column.key}
+                    className={`py-2 px-3 font-semibold text-gray-600 ${column.key === 'suburb' ? 'text-left' : 'text-right'}`}
+                  >
+                    <button onClick={() => toggleSort(column.key)} className="inline-flex items-center gap-1 hover:text-[#4475e6]">
+                      {column.label}
+                      {sort.key === column.key && <span>{sort.direction === 'asc' ? '▲' : '▼'}</span>}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={row.suburb} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-2 px-3 text-gray-400">{index + 1}</td>
+                  {COLUMNS.map(column => (
+                    <td key={column.key} className={`py-2 px-3 ${column.key === 'suburb' ? '' : 'text-right text-gray-700'}`}>
+                      {column.key === 'suburb' ? (
+                        <Link
+                          href={`/suburb-reports/${encodeURIComponent(row.suburb)}`}
+                          className="font-medium text-[#383941] hover:text-[#4475e6]"
+                        >
+                          {row.suburb}
+                        </Link>
+                      ) : renderValue(row, column)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { useToast } from '@/app/components/Toast';
+import type { ShareLink, ShareReportType } from '@/app/lib/types/shares';
+
+interface ShareLinkFormProps {
+  type: ShareReportType;
+  itemKey: string; // gnaf_id or suburb name
+  label: string;
+}
+
+// Report pages differ in accent colour
+const BUTTON_CLASSES: Record<ShareReportType, string> = {
+  suburb: 'bg-[#4475e6] hover:bg-[#3a63c7]',
+  property: 'bg-[#5675df] hover:bg-[#4a67c7]',
+};
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+// Private link section of the share popup: a signed link that shows the report
+// as the member sees it, with an expiry and optional password and view limit
+export default function ShareLinkForm({ type, itemKey, label }: ShareLinkFormProps) {
+  const { showToast } = useToast();
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [password, setPassword] = useState('');
+  const [maxViews, setMaxViews] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [link, setLink] = useState<string | null>(null);
+
+  const createLink = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          key: itemKey,
+          label,
+          expiresInDays,
+          password: password || undefined,
+          maxViews: maxViews ? Number(maxViews) : null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create link');
+      setLink(`${window.location.origin}${(data.share as ShareLink).url}`);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to create link', 'error');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const copyLink = () => {
+    if (!link) return;
+    navigator.clipboard.writeText(link).then(() => showToast('Link copied', 'success'));
+  };
+
+  return (
+    <div className="border-t border-gray-100 mt-4 pt-4">
+      <h4 className="text-sm font-semibold text-gray-800 mb-1">Private link</h4>
+      <p className="text-xs text-gray-500 mb-3">
+        Anyone with the link sees the full report, read-only, until it expires. Manage your links in the members area.
+      </p>
+      {link ? (
+        <div className="space-y-2">
+          <input
+            type="text"
+            readOnly
+            value={link}
+            onFocus={(e) => e.target.select()}
+            className="w-full px-3 py-2 border border-gray-300 rounded text-sm bg-gray-50"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={copyLink}
+              className={`px-4 py-2 text-white text-sm font-medium rounded-lg ${BUTTON_CLASSES[type]}`}
+            >
+              Copy link
+            </button>
+            <button
+              onClick={() => setLink(null)}
+              className="px-4 py-2 border border-gray-200 text-sm font-medium rounded-lg hover:bg-gray-50"
+            >
+              New link
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              Expires after
+              <select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded text-sm"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.days} value={option.days}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              View limit
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={maxViews}
+                onChange={(e) => setMaxViews(e.target.value)}
+                placeholder="No limit"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded text-sm"
+              />
+            </label>
+          </div>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password (optional)"
+            autoComplete="new-password"
+            className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+          />
+          <button
+            onClick={createLink}
+            disabled={isCreating}
+            className={`w-full px-4 py-2 text-white text-sm font-medium rounded-lg disabled:opacity-50 ${BUTTON_CLASSES[type]}`}
+          >
+            {isCreating ? 'Creating...' : 'Create private link'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
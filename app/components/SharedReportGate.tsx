@@ -0,0 +1,107 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { ShareOpenResponse } from '@/app/lib/types/shares';
+
+interface SharedReportGateProps {
+  token: string;
+  onOpen: (share: ShareOpenResponse) => void; // Should be stable, e.g. a state setter
+}
+
+async function openShareLink(token: string, password?: string): Promise<ShareOpenResponse> {
+  try {
+    const response = await fetch('/api/shares/open', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, password }),
+    });
+    const data: ShareOpenResponse = await response.json();
+    return response.ok ? data : { ...data, success: false };
+  } catch {
+    return { success: false, error: 'Failed to open this share link' };
+  }
+}
+
+// Shown while a report page opens its share link: asks for the password when the
+// link has one, and explains links that are expired, revoked or used up
+export default function SharedReportGate({ token, onOpen }: SharedReportGateProps) {
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [error, setError] = useState('');
+  const [isOpening, setIsOpening] = useState(false);
+
+  const handleResult = useCallback((data: ShareOpenResponse) => {
+    if (data.success) {
+      onOpen(data);
+    } else if (data.reason === 'password_required' || data.reason === 'wrong_password' || data.reason === 'too_many_attempts') {
+      setNeedsPassword(true);
+      setPasswordError(data.reason === 'password_required' ? '' : data.error || 'Incorrect password');
+    } else {
+      setError(data.error || 'This share link is not available');
+    }
+  }, [onOpen]);
+
+  useEffect(() => {
+    let cancelled = false;
+    openShareLink(token).then(data => {
+      if (!cancelled) handleResult(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, handleResult]);
+
+  const submitPassword = async () => {
+    setIsOpening(true);
+    handleResult(await openShareLink(token, password));
+    setIsOpening(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#f8fafc] flex items-center justify-center p-4">
+      <div className="text-center bg-white p-8 rounded-xl shadow-sm max-w-md w-full">
+        {error ? (
+          <>
+            <h2 className="text-xl font-bold text-gray-800 mb-2">Link unavailable</h2>
+            <p className="text-gray-600 mb-6">{error}</p>
+            <Link href="/" className="inline-block px-6 py-3 bg-[#4475e6] text-white rounded-lg font-medium hover:bg-[#3a63c7] transition-colors">
+              Go to Microburbs
+            </Link>
+          </>
+        ) : needsPassword ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitPassword();
+            }}
+          >
+            <h2 className="text-xl font-bold text-gray-800 mb-2">Password protected report</h2>
+            <p className="text-gray-600 mb-4">Enter the password you were given with this link.</p>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-300 rounded text-sm mb-2 focus:outline-none focus:border-[#4475e6]"
+            />
+            {passwordError && <p className="text-sm text-red-600 mb-2">{passwordError}</p>}
+            <button
+              type="submit"
+              disabled={isOpening || !password}
+              className="w-full px-6 py-3 bg-[#4475e6] text-white rounded-lg font-medium hover:bg-[#3a63c7] transition-colors disabled:opacity-50"
+            >
+              {isOpening ? 'Checking...' : 'View report'}
+            </button>
+          </form>
+        ) : (
+          <>
+            <div className="w-12 h-12 border-4 border-[#4475e6] border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-gray-600">Opening shared report...</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useToast } from '@/app/components/Toast';
+import type { ShareLink } from '@/app/lib/types/shares';
+
+// Days of view history shown per link
+const HISTORY_DAYS = 14;
+
+type ShareStatus = 'active' | 'expired' | 'revoked' | 'used_up';
+
+const STATUS_BADGES: Record<ShareStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-600' },
+  revoked: { label: 'Revoked', className: 'bg-red-100 text-red-700' },
+  used_up: { label: 'View limit reached', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+function shareStatus(share: ShareLink): ShareStatus {
+  if (share.revoked) return 'revoked';
+  if (Date.parse(share.expiresAt) <= Date.now()) return 'expired';
+  if (share.maxViews !== null && share.views >= share.maxViews) return 'used_up';
+  return 'active';
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+// Views per day for the last HISTORY_DAYS days, oldest first
+function recentViews(share: ShareLink): { day: string; views: number }[] {
+  return Array.from({ length: HISTORY_DAYS }, (_, i) => {
+    const day = new Date(Date.now() - (HISTORY_DAYS - 1 - i) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    return { day, views: share.viewsByDay[day] ?? 0 };
+  });
+}
+
+// The member's private report links, with views and revoke
+export default function SharesPanel() {
+  const { showToast } = useToast();
+  const [shares, setShares] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/shares')
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load share links');
+        if (!cancelled) setShares(data.shares || []);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load share links');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const copyLink = (share: ShareLink) => {
+    navigator.clipboard.writeText(`${window.location.origin}${share.url}`)
+      .then(() => showToast('Link copied', 'success'));
+  };
+
+  const revoke = async (id: string) => {
+    try {
+      const response = await fetch(`/api/shares/${id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to revoke link');
+      setShares(prev => prev.map(share => (share.id === id ? data.share : share)));
+      showToast('Link revoked', 'info');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to revoke link', 'error');
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-800">Shared links</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Private links to your reports. Recipients see the report as you do, read-only, until the link expires or you revoke it.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="p-12 text-center text-gray-500">
+          <div className="w-8 h-8 border-4 border-[#4475e6] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          Loading share links...
+        </div>
+      ) : error ? (
+        <div className="p-12 text-center text-red-600">{error}</div>
+      ) : shares.length === 0 ? (
+        <div className="p-12 text-center text-gray-500">
+          No share links yet. Use Share on a report you have unlocked to create one.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {shares.map(share => {
+            const status = shareStatus(share);
+            const history = recentViews(share);
+            const peak = Math.max(1, ...history.map(entry => entry.views));
+
+            return (
+              <li key={share.id} className="p-6">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span
+                        className={`inline-block px-2 py-1 text-xs font-medium uppercase rounded tracking-wide ${
+                          share.reportType === 'suburb' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                        }`}
+                      >
+                        {share.reportType}
+                      </span>
+                      <span className="font-semibold text-gray-800 truncate">{share.label}</span>
+                      <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_BADGES[status].className}`}>
+                        {STATUS_BADGES[status].label}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Created {formatDate(share.createdAt)} · {status === 'expired' ? 'Expired' : 'Expires'} {formatDate(share.expiresAt)}
+                      {share.hasPassword && ' · Password protected'}
+                    </p>
+                  </div>
+
+                  <div className="text-right">
+                    <div className="text-xs text-gray-500">Views</div>
+                    <div className="text-sm font-semibold text-gray-800">
+                      {share.views}{share.maxViews !== null && ` of ${share.maxViews}`}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {share.lastViewedAt ? `Last viewed ${formatDate(share.lastViewedAt)}` : 'Not viewed yet'}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex items-end gap-0.5 h-8 mt-4" aria-label={`Views over the last ${HISTORY_DAYS} days`}>
+                  {history.map(entry => (
+                    <div
+                      key={entry.day}
+                      title={`${entry.day}: ${entry.views} view${entry.views === 1 ? '' : 's'}`}
+                      className={`flex-1 rounded-sm ${entry.views > 0 ? 'bg-[#4475e6]' : 'bg-gray-100'}`}
+                      style={{ height: `${Math.max(8, (entry.views / peak) * 100)}%` }}
+                    />
+                  ))}
+                </div>
+
+                <div className="flex gap-4 mt-4 text-sm">
+                  {status === 'active' && (
+                    <button onClick={() => copyLink(share)} className="text-[#4475e6] hover:underline">
+                      Copy link
+                    </button>
+                  )}
+                  {!share.revoked && (
+                    <button onClick={() => revoke(share.id)} className="text-red-600 hover:underline">
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Series } from '@/app/lib/types/section-data';
+
+interface TimeSeriesChartProps {
+  series: Series[];
+  formatValue?: (value: number) => string;
+  height?: number;
+}
+
+const WIDTH = 800;
+const PADDING = { top: 16, right: 16, bottom: 36, left: 72 };
+const COLORS = ['#4475e6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#64748b'];
+const Y_TICKS = 5;
+const MAX_X_LABELS = 6;
+
+export function formatPrice(value: number): string {
+  if (Math.abs(value) >= 1_000_000) return `$${(value / 1_000_000).toFixed(2)}m`;
+  if (Math.abs(value) >= 1_000) return `$${Math.round(value / 1_000)}k`;
+  return `$${Math.round(value)}`;
+}
+
+// Line chart for structured section series; gaps in the data break the line
+export default function TimeSeriesChart({ series, formatValue = formatPrice, height = 360 }: TimeSeriesChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  // Series may not share dates, so plot against the union of their labels in order
+  const dates = useMemo(() => {
+    const seen = new Set<string>();
+    series.forEach(s => s.points.forEach(point => seen.add(point.date)));
+    return Array.from(seen);
+  }, [series]);
+
+  const values = series.flatMap(s => s.points.map(point => point.value)).filter((v): v is number => v !== null);
+
+  if (dates.length === 0 || values.length === 0) {
+    return <div className="flex items-center justify-center h-64 text-gray-400">No data available</div>;
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || Math.abs(max) || 1;
+  const yMin = min - span * 0.05;
+  const yMax = max + span * 0.05;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (dates.length === 1 ? plotWidth / 2 : (index / (dates.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+  const dateIndex = new Map(dates.map((date, i) => [date, i]));
+
+  // One path per series, lifting the pen over missing values
+  const paths = series.map(s => {
+    let d = '';
+    let penDown = false;
+    s.points.forEach(point => {
+      if (point.value === null) {
+        penDown = false;
+        return;
+      }
+      const px = x(dateIndex.get(point.date) ?? 0);
+      d += `${penDown ? 'L' : 'M'}${px.toFixed(1)},${y(point.value).toFixed(1)}`;
+      penDown = true;
+    });
+    return d;
+  });
+
+  const yTicks = Array.from({ length: Y_TICKS }, (_, i) => yMin + ((yMax - yMin) * i) / (Y_TICKS - 1));
+  const xStep = Math.max(1, Math.ceil(dates.length / MAX_X_LABELS));
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const ratio = (svgX - PADDING.left) / plotWidth;
+    const index = Math.round(ratio * (dates.length - 1));
+    setHoverIndex(index >= 0 && index < dates.length ? index : null);
+  };
+
+  const hoverDate = hoverIndex !== null ? dates[hoverIndex] : null;
+
+  return (
+    <div className="w-full">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={series.map(s => s.name).join(', ')}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" fontSize={12} fill="#6b7280">
+              {formatValue(tick)}
+            </text>
+          </g>
+        ))}
+
+        {dates.map((date, i) => (i % xStep === 0 || i === dates.length - 1) && (
+          <text key={date} x={x(i)} y={height - 12} textAnchor="middle" fontSize={12} fill="#6b7280">
+            {date}
+          </text>
+        ))}
+
+        {paths.map((d, i) => (
+          <path key={series[i].name} d={d} fill="none" stroke={COLORS[i % COLORS.length]} strokeWidth={2} />
+        ))}
+
+        {hoverIndex !== null && (
+          <line x1={x(hoverIndex)} x2={x(hoverIndex)} y1={PADDING.top} y2={height - PADDING.bottom} stroke="#9ca3af" strokeDasharray="4 4" />
+        )}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-4 mt-2 text-sm">
+        {series.map((s, i) => {
+          const point = hoverDate ? s.points.find(p => p.date === hoverDate) : s.points[s.points.length - 1];
+          return (
+            <span key={s.name} className="flex items-center gap-2 text-gray-700">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+              {s.name}
+              {point?.value !== null && point?.value !== undefined && (
+                <span className="font-semibold">{formatValue(point.value)}</span>
+              )}
+            </span>
+          );
+        })}
+        {hoverDate && <span className="text-gray-400">{hoverDate}</span>}
+      </div>
+    </div>
+  );
+}
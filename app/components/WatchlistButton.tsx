@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/app/lib/auth/context';
+import { useToast } from '@/app/components/Toast';
+import type { WatchlistItemType } from '@/app/lib/types/watchlist';
+
+interface WatchlistButtonProps {
+  type: WatchlistItemType;
+  itemKey: string; // gnaf_id or suburb name
+  label: string;
+}
+
+// Report pages differ in accent colour
+const BUTTON_CLASSES: Record<WatchlistItemType, string> = {
+  suburb: 'flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#4475e6] hover:text-[#4475e6] transition-colors',
+  property: 'flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#5675df] hover:text-[#5675df] transition-colors',
+};
+
+// Save / Saved toggle for a report header; signed-out visitors are sent to sign in
+export default function WatchlistButton({ type, itemKey, label }: WatchlistButtonProps) {
+  const { isAuthenticated } = useAuth();
+  const { showToast } = useToast();
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let cancelled = false;
+
+    fetch(`/api/watchlist?type=${type}&key=${encodeURIComponent(itemKey)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!cancelled) setSavedId(data?.items?.[0]?.id ?? null);
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, type, itemKey]);
+
+  const toggle = async () => {
+    setIsBusy(true);
+    try {
+      if (savedId) {
+        const response = await fetch(`/api/watchlist/${savedId}`, { method: 'DELETE' });
+        if (!response.ok) throw new Error('Failed to remove from watchlist');
+        setSavedId(null);
+        showToast('Removed from your watchlist', 'info');
+      } else {
+        const response = await fetch('/api/watchlist', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ type, key: itemKey, label }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to save to watchlist');
+        setSavedId(data.item.id);
+        showToast('Saved to your watchlist', 'success');
+      }
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update watchlist', 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const icon = (
+    <svg className="w-4 h-4" fill={savedId ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+    </svg>
+  );
+
+  if (!isAuthenticated) {
+    return (
+      <Link href="/?login=true" className={BUTTON_CLASSES[type]}>
+        {icon}
+        Save
+      </Link>
+    );
+  }
+
+  return (
+    <button
+      onClick={toggle}
+      disabled={isBusy}
+      className={`${BUTTON_CLASSES[type]} disabled:opacity-50 ${savedId ? 'text-[#4475e6] border-[#4475e6]' : ''}`}
+    >
+      {icon}
+      {savedId ? 'Saved' : 'Save'}
+    </button>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useToast } from '@/app/components/Toast';
+import type { WatchlistEntry, WatchlistItemType } from '@/app/lib/types/watchlist';
+
+type TypeFilter = WatchlistItemType | 'all';
+
+interface EditState {
+  id: string;
+  notes: string;
+  tags: string; // Comma separated while editing
+}
+
+// Saved properties and suburbs with their current headline figures, notes and tags
+export default function WatchlistPanel() {
+  const { showToast } = useToast();
+  const [items, setItems] = useState<WatchlistEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [tagFilter, setTagFilter] = useState('');
+  const [editing, setEditing] = useState<EditState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/watchlist?metrics=1')
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load watchlist');
+        if (!cancelled) setItems(data.items || []);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load watchlist');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const tags = useMemo(
+    () => Array.from(new Set(items.flatMap(item => item.tags))).sort((a, b) => a.localeCompare(b)),
+    [items]
+  );
+
+  const visible = items.filter(item =>
+    (typeFilter === 'all' || item.type === typeFilter)
+    && (!tagFilter || item.tags.includes(tagFilter))
+  );
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    try {
+      const response = await fetch(`/api/watchlist/${editing.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          notes: editing.notes,
+          tags: editing.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update item');
+      setItems(prev => prev.map(item => (item.id === editing.id ? { ...item, ...data.item, metrics: item.metrics } : item)));
+      setEditing(null);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update item', 'error');
+    }
+  };
+
+  const removeItem = async (id: string) => {
+    try {
+      const response = await fetch(`/api/watchlist/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to remove item');
+      setItems(prev => prev.filter(item => item.id !== id));
+      showToast('Removed from your watchlist', 'info');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to remove item', 'error');
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-800">Watchlist</h2>
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          {(['all', 'property', 'suburb'] as TypeFilter[]).map(type => (
+            <button
+              key={type}
+              onClick={() => setTypeFilter(type)}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                typeFilter === type
+                  ? 'bg-[#4475e6] text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {type === 'all' ? 'All' : type === 'property' ? 'Properties' : 'Suburbs'}
+            </button>
+          ))}
+          {tags.length > 0 && (
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="ml-auto px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#4475e6]"
+            >
+              <option value="">All tags</option>
+              {tags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="p-12 text-center text-gray-500">
+          <div className="w-8 h-8 border-4 border-[#4475e6] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          Loading watchlist...
+        </div>
+      ) : error ? (
+        <div className="p-12 text-center text-red-600">{error}</div>
+      ) : visible.length === 0 ? (
+        <div className="p-12 text-center text-gray-500">
+          {items.length === 0
+            ? 'Nothing saved yet. Use Save on a property or suburb report to track it here.'
+            : 'No saved items match these filters.'}
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {visible.map(item => (
+            <li key={item.id} className="p-6">
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span
+                      className={`inline-block px-2 py-1 text-xs font-medium uppercase rounded tracking-wide ${
+                        item.type === 'suburb' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                      }`}
+                    >
+                      {item.type}
+                    </span>
+                    <Link href={item.href} className="font-semibold text-gray-800 hover:text-[#4475e6] truncate">
+                      {item.label}
+                    </Link>
+                  </div>
+                  {item.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {item.tags.map(tag => (
+                        <button
+                          key={tag}
+                          onClick={() => setTagFilter(tag)}
+                          className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-full hover:bg-gray-200"
+                        >
+                          {tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {item.notes && editing?.id !== item.id && (
+                    <p className="text-sm text-gray-600 mt-2 whitespace-pre-line">{item.notes}</p>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-6 md:justify-end">
+                  {(item.metrics || []).map(metric => (
+                    <div key={metric.id} className="text-right">
+                      <div className="text-xs text-gray-500">{metric.label}</div>
+                      <div className="text-sm font-semibold text-gray-800">
+                        {metric.value.locked ? (
+                          <span className="text-gray-400">Locked</span>
+                        ) : (
+                          metric.value.display ?? '–'
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {editing?.id === item.id ? (
+                <div className="mt-4 space-y-2">
+                  <textarea
+                    value={editing.notes}
+                    onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                    placeholder="Notes"
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:border-[#4475e6]"
+                  />
+                  <input
+                    type="text"
+                    value={editing.tags}
+                    onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                    placeholder="Tags, separated by commas"
+                    className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:border-[#4475e6]"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={saveEdit}
+                      className="px-4 py-2 bg-[#4475e6] text-white text-sm font-medium rounded-lg hover:bg-[#3361d1]"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditing(null)}
+                      className="px-4 py-2 border border-gray-200 text-sm font-medium rounded-lg hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex gap-4 mt-4 text-sm">
+                  <button
+                    onClick={() => setEditing({ id: item.id, notes: item.notes, tags: item.tags.join(', ') })}
+                    className="text-[#4475e6] hover:underline"
+                  >
+                    Edit notes &amp; tags
+                  </button>
+                  <button onClick={() => removeItem(item.id)} className="text-red-600 hover:underline">
+                    Remove
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+// Turns two snapshots of a watched item into alert-worthy changes
+import type { CompareValue } from '@/app/lib/types/compare';
+import type { AlertKind, WatchSnapshot } from '@/app/lib/types/alerts';
+
+// Smallest moves worth an alert
+export const ALERT_THRESHOLDS = {
+  avmPercent: 3, // Estimated value, percent change
+  mspPercent: 2, // Suburb median price, percent change
+  vacancyPoints: 0.5, // Vacancy rate, percentage points
+};
+
+export interface SnapshotChange {
+  kind: AlertKind;
+  message: string; // Without figures; they are attached separately
+  from?: CompareValue | null;
+  to?: CompareValue | null;
+}
+
+function percentChange(from: CompareValue | null | undefined, to: CompareValue | null | undefined): number | null {
+  if (from?.value == null || to?.value == null || from.value === 0) return null;
+  return ((to.value - from.value) / Math.abs(from.value)) * 100;
+}
+
+/**
+ * Changes between the previous and current snapshot. Figures missing from either
+ * snapshot are skipped, so a backend outage never reads as a price move.
+ */
+export function diffSnapshots(previous: WatchSnapshot, current: WatchSnapshot, label: string): SnapshotChange[] {
+  const changes: SnapshotChange[] = [];
+
+  if (previous.saleCount != null && current.saleCount != null && current.saleCount > previous.saleCount) {
+    const sales = current.saleCount - previous.saleCount;
+    changes.push({
+      kind: 'new_sale',
+      message: `${sales === 1 ? 'A new sale has' : `${sales} new sales have`} been recorded for ${label}`,
+    });
+  }
+
+  const avmChange = percentChange(previous.avm, current.avm);
+  if (avmChange !== null && Math.abs(avmChange) >= ALERT_THRESHOLDS.avmPercent) {
+    changes.push({
+      kind: 'avm_change',
+      message: `The estimated value of ${label} has ${avmChange > 0 ? 'risen' : 'fallen'}`,
+      from: previous.avm,
+      to: current.avm,
+    });
+  }
+
+  const mspChange = percentChange(previous.msp, current.msp);
+  if (mspChange !== null && Math.abs(mspChange) >= ALERT_THRESHOLDS.mspPercent) {
+    changes.push({
+      kind: 'msp_change',
+      message: `The median house price in ${label} has ${mspChange > 0 ? 'risen' : 'fallen'}`,
+      from: previous.msp,
+      to: current.msp,
+    });
+  }
+
+  const fromVacancy = previous.vacancy?.value;
+  const toVacancy = current.vacancy?.value;
+  if (fromVacancy != null && toVacancy != null && Math.abs(toVacancy - fromVacancy) >= ALERT_THRESHOLDS.vacancyPoints) {
+    changes.push({
+      kind: 'vacancy_change',
+      message: `Rental vacancy in ${label} has ${toVacancy > fromVacancy ? 'risen' : 'fallen'}`,
+      from: previous.vacancy,
+      to: current.vacancy,
+    });
+  }
+
+  if (previous.daIds && current.daIds) {
+    const known = new Set(previous.daIds);
+    const added = current.daIds.filter(id => !known.has(id)).length;
+    if (added > 0) {
+      changes.push({
+        kind: 'new_da',
+        message: `${added === 1 ? 'A new development application has' : `${added} new development applications have`} been lodged near ${label}`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+// Figures a snapshot tracks; any may be null when the backend could not supply it
+const SNAPSHOT_FIGURES = ['avm', 'saleCount', 'msp', 'vacancy', 'daIds'] as const;
+
+/**
+ * The snapshot to store after a run: current figures, with the previous ones kept
+ * where the backend returned nothing, so one failed read doesn't reset the baseline
+ * and report the same change again once it recovers.
+ */
+export function mergeSnapshots(previous: WatchSnapshot | null, current: WatchSnapshot): WatchSnapshot {
+  const merged: WatchSnapshot = { ...current };
+  for (const figure of SNAPSHOT_FIGURES) {
+    if (merged[figure] == null && previous?.[figure] != null) {
+      Object.assign(merged, { [figure]: previous[figure] });
+    }
+  }
+  return merged;
+}
+
+// Whether a snapshot holds any figure at all, i.e. is worth keeping as a baseline
+export function hasSnapshotFigures(snapshot: WatchSnapshot): boolean {
+  return SNAPSHOT_FIGURES.some(figure => snapshot[figure] != null);
+}
@@ -0,0 +1,114 @@
+// Alert emails over SMTP with TLS required: implicit TLS on port 465 (SMTP_SECURE=true),
+// STARTTLS otherwise, and credentials are never sent unencrypted. Configure SMTP_HOST
+// (and optionally SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD); without it emails
+// are only logged, in full outside production, so alert runs can be checked locally.
+// For a local catcher speaking plain SMTP (`npm run smtp:dev`, Mailpit, MailHog), set
+// SMTP_REQUIRE_TLS=false; that is ignored in production.
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { AlertEvent } from '@/app/lib/types/alerts';
+
+const SMTP_TIMEOUT_MS = 15000;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+function getFromAddress(): string {
+  return process.env.ALERTS_FROM_EMAIL || 'alerts@microburbs.com.au';
+}
+
+function getAppUrl(): string {
+  return (process.env.APP_URL || 'https://www.microburbs.com.au').replace(/\/$/, '');
+}
+
+// TLS may only be waived outside production, for a local catcher
+function isTlsRequired(): boolean {
+  if (process.env.SMTP_REQUIRE_TLS !== 'false') return true;
+  if (process.env.NODE_ENV === 'production') {
+    console.error('[Email] SMTP_REQUIRE_TLS=false is ignored in production');
+    return true;
+  }
+  return false;
+}
+
+// One transport per process, so a run reuses its pooled connections
+const GLOBAL_TRANSPORT_KEY = '__MIB_SMTP_TRANSPORT__' as const;
+
+function getTransport(): Transporter | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const g = globalThis as typeof globalThis & { [GLOBAL_TRANSPORT_KEY]?: Transporter };
+  if (!g[GLOBAL_TRANSPORT_KEY]) {
+    const secure = process.env.SMTP_SECURE === 'true';
+    const user = process.env.SMTP_USER;
+    const pass = process.env.SMTP_PASSWORD;
+    const requireTLS = isTlsRequired();
+    g[GLOBAL_TRANSPORT_KEY] = nodemailer.createTransport({
+      host,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      requireTLS, // Fail rather than fall back to plaintext when STARTTLS is missing
+      ignoreTLS: !requireTLS && !secure,
+      tls: { minVersion: 'TLSv1.2', servername: host },
+      auth: user && pass ? { user, pass } : undefined,
+      pool: true,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+  }
+  return g[GLOBAL_TRANSPORT_KEY];
+}
+
+/**
+ * Send one email. Returns false rather than throwing when delivery fails, so one
+ * bad address does not stop the rest of an alert run.
+ */
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  const mail = {
+    from: { name: 'Microburbs', address: getFromAddress() },
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+  };
+
+  const transport = getTransport();
+  if (!transport) {
+    console.log('[Email] SMTP not configured, skipping email to', message.to, '-', message.subject);
+    if (process.env.NODE_ENV !== 'production') {
+      const preview = await nodemailer.createTransport({ streamTransport: true, buffer: true }).sendMail(mail);
+      console.log(preview.message.toString());
+    }
+    return false;
+  }
+
+  try {
+    await transport.sendMail(mail);
+    return true;
+  } catch (error) {
+    console.error('[Email] Failed to send to', message.to, error);
+    return false;
+  }
+}
+
+// One email per member per run, listing every new alert
+export function alertDigest(email: string, alerts: AlertEvent[]): EmailMessage {
+  const appUrl = getAppUrl();
+  const lines = alerts.map(alert => `- ${alert.message}\n  ${appUrl}${alert.href}`);
+  return {
+    to: email,
+    subject: alerts.length === 1
+      ? `Watchlist alert: ${alerts[0].label}`
+      : `${alerts.length} new watchlist alerts`,
+    text: [
+      'There is news on properties and suburbs you are watching:',
+      '',
+      ...lines,
+      '',
+      `See the details in your notifications: ${appUrl}/members-area`,
+    ].join('\n'),
+  };
+}
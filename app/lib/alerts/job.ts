@@ -0,0 +1,100 @@
+// Scheduled alert run: snapshot every watched item, diff against the last run,
+// store alert events for each member watching it and email them a digest
+import { mapWithConcurrency } from '@/app/lib/flask/client';
+import { listWatchlist, listWatchlistMembers } from '@/app/lib/watchlist/store';
+import { watchlistHref } from '@/app/lib/watchlist/metrics';
+import type { AlertEvent } from '@/app/lib/types/alerts';
+import type { WatchlistItem } from '@/app/lib/types/watchlist';
+import { diffSnapshots, hasSnapshotFigures, mergeSnapshots, type SnapshotChange } from './diff';
+import { alertDigest, sendEmail } from './email';
+import { getSnapshot, saveSnapshot, takeSnapshot } from './snapshots';
+import { addAlerts } from './store';
+
+// Watched items snapshotted at once; each snapshot is two or three backend calls
+const SNAPSHOT_CONCURRENCY = 4;
+
+const LABEL_PLACEHOLDER = '{label}';
+
+export interface AlertRunSummary {
+  members: number;
+  items: number;
+  baselined: number; // Items seen for the first time; their snapshot is the baseline
+  changes: number;
+  alerts: number;
+  emailsSent: number;
+}
+
+interface WatchedItem {
+  item: Pick<WatchlistItem, 'type' | 'key'>;
+  watchers: { email: string; label: string }[];
+}
+
+export async function runAlertJob(): Promise<AlertRunSummary> {
+  const members = await listWatchlistMembers();
+
+  // Members watching the same item share one snapshot
+  const watched = new Map<string, WatchedItem>();
+  for (const email of members) {
+    for (const item of await listWatchlist(email)) {
+      const key = `${item.type}:${item.key.toLowerCase()}`;
+      const entry = watched.get(key) ?? { item: { type: item.type, key: item.key }, watchers: [] };
+      entry.watchers.push({ email, label: item.label });
+      watched.set(key, entry);
+    }
+  }
+
+  let baselined = 0;
+  const changed = await mapWithConcurrency(Array.from(watched.values()), SNAPSHOT_CONCURRENCY, async entry => {
+    let changes: SnapshotChange[] = [];
+    try {
+      const [previous, current] = await Promise.all([getSnapshot(entry.item), takeSnapshot(entry.item)]);
+      if (previous) {
+        // Each watcher sees the item under their own label, filled in below
+        changes = diffSnapshots(previous, current, LABEL_PLACEHOLDER);
+        await saveSnapshot(mergeSnapshots(previous, current));
+      } else if (hasSnapshotFigures(current)) {
+        // Nothing came back for a new item: try for a baseline on the next run
+        await saveSnapshot(current);
+        baselined++;
+      }
+    } catch (error) {
+      console.error('[Alerts] Snapshot failed for', entry.item.type, entry.item.key, error);
+    }
+    return { entry, changes };
+  });
+
+  // Group new alerts by member
+  const pending = new Map<string, Omit<AlertEvent, 'id' | 'createdAt' | 'read'>[]>();
+  let changes = 0;
+  changed.forEach(({ entry, changes: itemChanges }) => {
+    changes += itemChanges.length;
+    itemChanges.forEach(change => {
+      entry.watchers.forEach(({ email, label }) => {
+        const events = pending.get(email) ?? [];
+        events.push({
+          kind: change.kind,
+          itemType: entry.item.type,
+          itemKey: entry.item.key,
+          label,
+          message: change.message.replace(LABEL_PLACEHOLDER, label),
+          from: change.from,
+          to: change.to,
+          href: watchlistHref(entry.item),
+        });
+        pending.set(email, events);
+      });
+    });
+  });
+
+  let alerts = 0;
+  let emailsSent = 0;
+  for (const [email, events] of pending) {
+    const added = await addAlerts(email, events);
+    alerts += added.length;
+    if (await sendEmail(alertDigest(email, added))) emailsSent++;
+  }
+
+  const summary = { members: members.length, items: watched.size, baselined, changes, alerts, emailsSent };
+  console.log('[Alerts] Run complete', summary);
+  return summary;
+}
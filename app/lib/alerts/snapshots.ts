@@ -0,0 +1,133 @@
+// Snapshots of the figures alerts watch, one per watched property or suburb
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { kv } from '@vercel/kv';
+import { suburbGraph } from '@/app/lib/flask/client';
+import { fetchPropertySection } from '@/app/lib/reports/property-sections';
+import { parseLeadingNumber, readFormatted } from '@/app/lib/reports/compare';
+import { withSectionFormat } from '@/app/lib/reports/section-data';
+import { isStructuredSection } from '@/app/lib/types/section-data';
+import type { CompareValue } from '@/app/lib/types/compare';
+import type { WatchSnapshot } from '@/app/lib/types/alerts';
+import type { WatchlistItem } from '@/app/lib/types/watchlist';
+
+const SNAPSHOT_PREFIX = 'watch-snapshot:';
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+// In-memory fallback for local development
+const GLOBAL_SNAPSHOT_KEY = '__MIB_WATCH_SNAPSHOT_STORE__' as const;
+
+function getInMemoryStore(): Map<string, WatchSnapshot> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_SNAPSHOT_KEY]?: Map<string, WatchSnapshot>;
+  };
+  if (!g[GLOBAL_SNAPSHOT_KEY]) {
+    g[GLOBAL_SNAPSHOT_KEY] = new Map<string, WatchSnapshot>();
+  }
+  return g[GLOBAL_SNAPSHOT_KEY];
+}
+
+// Shared by every member watching the item, e.g. suburb:bondi
+function snapshotKey(item: Pick<WatchlistItem, 'type' | 'key'>): string {
+  return `${item.type}:${item.key.toLowerCase()}`;
+}
+
+export async function getSnapshot(item: Pick<WatchlistItem, 'type' | 'key'>): Promise<WatchSnapshot | null> {
+  const key = snapshotKey(item);
+  if (isKVConfigured) {
+    const data = await kv.get<string | WatchSnapshot>(`${SNAPSHOT_PREFIX}${key}`);
+    if (!data) return null;
+    return typeof data === 'string' ? JSON.parse(data) : data;
+  }
+  return getInMemoryStore().get(key) || null;
+}
+
+export async function saveSnapshot(snapshot: WatchSnapshot): Promise<void> {
+  const key = snapshotKey(snapshot);
+  if (isKVConfigured) {
+    await kv.set(`${SNAPSHOT_PREFIX}${key}`, JSON.stringify(snapshot));
+  } else {
+    getInMemoryStore().set(key, snapshot);
+  }
+}
+
+function pathAt(data: unknown, path: string[]): Record<string, unknown> | null {
+  let current: unknown = data;
+  for (const key of path) {
+    if (!current || typeof current !== 'object') return null;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current && typeof current === 'object' ? current as Record<string, unknown> : null;
+}
+
+// Percent figures are tracked on the number Flask displays, e.g. "2.1%" -> 2.1
+function readPercent(source: Record<string, unknown> | null, key: string): CompareValue | null {
+  const value = readFormatted(source, key);
+  if (!value?.display?.includes('%')) return value;
+  return { ...value, value: parseLeadingNumber(value.display) };
+}
+
+// A formatted avm field, with its leading number kept for the diff
+function readAvm(data: unknown, key: string): CompareValue | null {
+  const value = pathAt(data, [])?.[key];
+  if (value === undefined || value === null || value === '') return null;
+  const display = String(value);
+  return { value: typeof value === 'number' ? value : parseLeadingNumber(display), display };
+}
+
+// History is only sent as a fragment; each sale is a table row after the header
+function countSales(data: unknown): number | null {
+  const html = pathAt(data, [])?.html;
+  if (typeof html !== 'string') return null;
+  const rows = html.match(/<tr[\s>]/gi)?.length ?? 0;
+  return Math.max(rows - 1, 0);
+}
+
+// DAs are identified by address, lodgement date and description, as das_table has no ids
+function readDaIds(data: unknown): string[] | null {
+  if (!isStructuredSection(data) || data.kind !== 'table') return null;
+  return data.rows.map(row => {
+    const { address, lodged, description } = row as { address?: string; lodged?: string; description?: string };
+    return [address, lodged, description].map(part => (part || '').trim().toLowerCase()).join('|');
+  });
+}
+
+/**
+ * Current figures for a watched item, read unblurred. Figures the backend could not
+ * supply are null, and the diff leaves them alone rather than reporting a change.
+ * Members only see these figures through app/api/notifications, for reports they
+ * have full access to.
+ */
+export async function takeSnapshot(item: Pick<WatchlistItem, 'type' | 'key'>): Promise<WatchSnapshot> {
+  const takenAt = new Date().toISOString();
+
+  if (item.type === 'property') {
+    const fetcher = withSectionFormat(section => fetchPropertySection(section, item.key, 'false'), 'data');
+    const [avm, history, das] = await Promise.all(['avm', 'history', 'das_table'].map(fetcher));
+    return {
+      type: item.type,
+      key: item.key,
+      takenAt,
+      avm: avm?.ok ? readAvm(avm.data, 'predicted_price') : null,
+      saleCount: history?.ok ? countSales(history.data) : null,
+      daIds: das?.ok ? readDaIds(das.data) : null,
+    };
+  }
+
+  // msp is read from its graph payload, so only das_table is structured
+  const das = withSectionFormat(section => suburbGraph(section, item.key, { blur: 'false' }), 'data')('das_table');
+  const [msp, vacancy, daTable] = await Promise.all([
+    suburbGraph('msp', item.key, { blur: 'false' }),
+    suburbGraph('vacancy', item.key, { blur: 'false' }),
+    das,
+  ]);
+  return {
+    type: item.type,
+    key: item.key,
+    takenAt,
+    msp: msp.ok ? readFormatted(pathAt(msp.data, ['house', 'suburb']), 'msp') : null,
+    vacancy: vacancy.ok ? readPercent(pathAt(vacancy.data, ['house', 'suburb']), 'vacancy') : null,
+    daIds: daTable?.ok ? readDaIds(daTable.data) : null,
+  };
+}
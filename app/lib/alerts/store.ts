@@ -0,0 +1,67 @@
+// Alert events per member, for the notification centre
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { v4 as uuidv4 } from 'uuid';
+import { kv } from '@vercel/kv';
+import type { AlertEvent } from '@/app/lib/types/alerts';
+
+const ALERTS_PREFIX = 'alerts:';
+
+// Older alerts drop off the end
+export const MAX_ALERTS = 100;
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+// In-memory fallback for local development
+const GLOBAL_ALERTS_KEY = '__MIB_ALERT_STORE__' as const;
+
+function getInMemoryStore(): Map<string, AlertEvent[]> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_ALERTS_KEY]?: Map<string, AlertEvent[]>;
+  };
+  if (!g[GLOBAL_ALERTS_KEY]) {
+    g[GLOBAL_ALERTS_KEY] = new Map<string, AlertEvent[]>();
+  }
+  return g[GLOBAL_ALERTS_KEY];
+}
+
+async function writeAlerts(key: string, alerts: AlertEvent[]): Promise<void> {
+  if (isKVConfigured) {
+    await kv.set(`${ALERTS_PREFIX}${key}`, JSON.stringify(alerts));
+  } else {
+    getInMemoryStore().set(key, alerts);
+  }
+}
+
+// Alerts are kept newest first
+export async function listAlerts(email: string): Promise<AlertEvent[]> {
+  const key = email.toLowerCase();
+  if (isKVConfigured) {
+    const data = await kv.get<string | AlertEvent[]>(`${ALERTS_PREFIX}${key}`);
+    if (!data) return [];
+    return typeof data === 'string' ? JSON.parse(data) : data;
+  }
+  return getInMemoryStore().get(key) || [];
+}
+
+export async function addAlerts(
+  email: string,
+  events: Omit<AlertEvent, 'id' | 'createdAt' | 'read'>[]
+): Promise<AlertEvent[]> {
+  const key = email.toLowerCase();
+  const createdAt = new Date().toISOString();
+  const added = events.map(event => ({ ...event, id: uuidv4(), createdAt, read: false }));
+  await writeAlerts(key, [...added, ...(await listAlerts(key))].slice(0, MAX_ALERTS));
+  return added;
+}
+
+// Mark the given alerts read, or all of them when no ids are given; returns the unread count left
+export async function markAlertsRead(email: string, ids?: string[]): Promise<number> {
+  const key = email.toLowerCase();
+  const targets = ids ? new Set(ids) : null;
+  const alerts = (await listAlerts(key)).map(alert =>
+    !targets || targets.has(alert.id) ? { ...alert, read: true } : alert
+  );
+  await writeAlerts(key, alerts);
+  return alerts.filter(alert => !alert.read).length;
+}
@@ -0,0 +1,14 @@
+// Staff access - admins are configured by email in ADMIN_EMAILS (comma-separated)
+import type { User } from './types';
+
+function getAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function isAdmin(user: User | null): boolean {
+  if (!user) return false;
+  return getAdminEmails().includes(user.email.toLowerCase());
+}
@@ -7,8 +7,7 @@ interface LoginParams {
   email: string;
   token: string;
   memberstackId?: string;
-  firstName?: string;
-  lastName?: string;
+  rememberMe?: boolean;
 }
 
 interface AuthContextType {
@@ -16,7 +15,7 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   login: (params: LoginParams) => Promise<boolean>;
-  signup: (email: string, firstName: string, lastName: string, plan: string, token: string) => Promise<boolean>;
+  signup: (email: string, firstName: string, lastName: string, token: string) => Promise<boolean>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
 }
@@ -60,8 +59,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           email: params.email,
           memberstackToken: params.token,
           memberstackId: params.memberstackId,
-          firstName: params.firstName,
-          lastName: params.lastName,
+          rememberMe: params.rememberMe,
         }),
       });
       const data = await response.json();
@@ -80,14 +78,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     email: string,
     firstName: string,
     lastName: string,
-    plan: string,
     token: string
   ): Promise<boolean> => {
     try {
       const response = await fetch('/api/auth/signup', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, firstName, lastName, plan, memberstackToken: token }),
+        body: JSON.stringify({ email, firstName, lastName, memberstackToken: token }),
       });
       const data = await response.json();
       if (data.success && data.user) {
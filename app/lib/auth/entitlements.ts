@@ -0,0 +1,144 @@
+// Report entitlements - decides server-side what the current session may see
+// Report routes use this instead of trusting a client-supplied `blur` flag
+import { getCurrentUser } from './session';
+import { PLANS, type LockReason, type PlanId, type SectionAccess, type User } from './types';
+import { hasUnlockedReport } from '@/app/lib/orders/store';
+
+export type ReportType = 'property' | 'suburb' | 'region';
+
+// Minimum plan tier that unlocks full (unblurred) report data
+export const FULL_ACCESS_TIER = 1;
+
+// Sections shown to everyone; Flask still masks values when blur is on
+const OPEN_SECTIONS: Record<ReportType, string[]> = {
+  property: ['info', 'image', 'summary', 'avm'],
+  suburb: [
+    'msp', 'mrp', 'yield', 'volume', 'vacancy', 'growth',
+    'demographics', 'income', 'industry', 'ethnicity_ts',
+    'insights', 'market_insights', 'summary', 'gpt_summary',
+  ],
+  region: ['msp', 'mrp', 'yield', 'growth', 'market_insights'],
+};
+
+// Property and suburb reports also need to be unlocked (one credit) per billing period
+const CREDIT_REPORTS: Partial<Record<ReportType, 'Property' | 'Suburb'>> = {
+  property: 'Property',
+  suburb: 'Suburb',
+};
+
+export interface ReportEntitlement {
+  isAuthenticated: boolean;
+  planId: string;
+  planName: string;
+  tier: number;
+  hasPlanAccess: boolean;
+  hasFullAccess: boolean;
+  blur: 'true' | 'false';
+}
+
+// Resolve a plan ID (possibly a raw Memberstack ID) to its PLANS entry
+export function getPlanDetails(planId: string | null) {
+  if (!planId) {
+    return PLANS['pln_basic--n5180oor'];
+  }
+
+  // Check if it's a known plan ID
+  if (planId in PLANS) {
+    return PLANS[planId as PlanId];
+  }
+
+  // Try to match by name fragment
+  if (planId.includes('portfolio')) {
+    return PLANS['pln_portfolio-builder-fb6b0fzp'];
+  }
+  if (planId.includes('advanced')) {
+    return PLANS['pln_advanced-ni690fz3'];
+  }
+  if (planId.includes('essentials')) {
+    return PLANS['pln_essentials-vb1k04zy'];
+  }
+
+  // Default to free plan
+  return PLANS['pln_basic--n5180oor'];
+}
+
+// Plan features beyond report access, as shown on the pricing table
+export interface PlanFeatures {
+  suburbFinder: 'unlimited' | 'limited';
+  propertyFinder: 'unlimited' | 'limited';
+  csvExport: boolean;
+  prioritySupport: boolean;
+}
+
+export function getPlanFeatures(planId: string | null): PlanFeatures {
+  const { tier, propertyMatches } = getPlanDetails(planId);
+  const isUnlimited = tier >= 3;
+  const hasAdvancedFeatures = tier >= 2;
+
+  return {
+    suburbFinder: isUnlimited || hasAdvancedFeatures ? 'unlimited' : 'limited',
+    // Follows the plan's AI property match allowance
+    propertyFinder: propertyMatches === -1 ? 'unlimited' : 'limited',
+    csvExport: hasAdvancedFeatures,
+    prioritySupport: isUnlimited,
+  };
+}
+
+export function getReportEntitlement(user: User | null, unlocked: boolean = true): ReportEntitlement {
+  const plan = getPlanDetails(user?.bestPlanId ?? null);
+  const hasPlanAccess = !!user && plan.tier >= FULL_ACCESS_TIER;
+  const hasFullAccess = hasPlanAccess && unlocked;
+
+  return {
+    isAuthenticated: !!user,
+    planId: plan.id,
+    planName: plan.name,
+    tier: plan.tier,
+    hasPlanAccess,
+    hasFullAccess,
+    blur: hasFullAccess ? 'false' : 'true',
+  };
+}
+
+// Entitlement for the session making the current request, for a specific report
+export async function resolveReportEntitlement(
+  reportType: ReportType,
+  reportId: string
+): Promise<ReportEntitlement> {
+  const user = await getCurrentUser();
+  const category = CREDIT_REPORTS[reportType];
+
+  if (!user || !category) {
+    return getReportEntitlement(user);
+  }
+
+  const unlocked = await hasUnlockedReport(user.email, category, reportId);
+  return getReportEntitlement(user, unlocked);
+}
+
+// Report-level marker, used on the initial info responses
+export function getReportAccess(entitlement: ReportEntitlement): SectionAccess {
+  if (entitlement.hasFullAccess) {
+    return { locked: false };
+  }
+
+  let reason: LockReason = 'login_required';
+  if (entitlement.hasPlanAccess) {
+    reason = 'unlock_required';
+  } else if (entitlement.isAuthenticated) {
+    reason = 'upgrade_required';
+  }
+
+  return { locked: true, reason, requiredTier: FULL_ACCESS_TIER };
+}
+
+export function getSectionAccess(
+  entitlement: ReportEntitlement,
+  reportType: ReportType,
+  section: string
+): SectionAccess {
+  if (OPEN_SECTIONS[reportType].includes(section)) {
+    return { locked: false };
+  }
+  return getReportAccess(entitlement);
+}
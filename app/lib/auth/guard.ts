@@ -0,0 +1,80 @@
+// Route guards. A route declares what it needs - a signed-in member, a minimum
+// plan tier or a staff account - and every refusal has the same shape:
+//   401 { success: false, error, reason: 'login_required' }
+//   403 { success: false, error, reason: 'upgrade_required', requiredTier }
+//   403 { success: false, error, reason: 'forbidden' }
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from './session';
+import { isAdmin } from './admin';
+import { getPlanDetails } from './entitlements';
+import type { User } from './types';
+
+// {} admits any signed-in member
+export interface RouteAccess {
+  minTier?: number; // Lowest plan tier allowed, as in PLANS
+  admin?: boolean;  // Staff only (ADMIN_EMAILS)
+}
+
+export type AccessDeniedReason = 'login_required' | 'upgrade_required' | 'forbidden';
+
+const DEFAULT_ERRORS: Record<AccessDeniedReason, string> = {
+  login_required: 'Not authenticated',
+  upgrade_required: 'Your plan does not include this feature',
+  forbidden: 'Admin access required',
+};
+
+export function accessDenied(
+  reason: AccessDeniedReason,
+  options: { error?: string; requiredTier?: number } = {}
+): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: options.error || DEFAULT_ERRORS[reason],
+      reason,
+      ...(options.requiredTier !== undefined && { requiredTier: options.requiredTier }),
+    },
+    { status: reason === 'login_required' ? 401 : 403 }
+  );
+}
+
+// The refusal for this user, or null when they meet the requirement
+export function checkAccess(user: User | null, access: RouteAccess = {}): NextResponse | null {
+  if (!user) return accessDenied('login_required');
+  if (access.admin && !isAdmin(user)) return accessDenied('forbidden');
+  if (access.minTier !== undefined && getPlanDetails(user.bestPlanId).tier < access.minTier) {
+    return accessDenied('upgrade_required', { requiredTier: access.minTier });
+  }
+  return null;
+}
+
+// Staff may act on any member's data; everyone else only on their own
+export function canAccessEmail(user: User, email: string): boolean {
+  return email.trim().toLowerCase() === user.email.toLowerCase() || isAdmin(user);
+}
+
+/**
+ * Wrap a route handler so it only runs for a session meeting `access`; the
+ * handler receives the signed-in user after the request.
+ */
+export function withAuth<C>(
+  access: RouteAccess,
+  handler: (request: NextRequest, user: User, context: C) => Promise<NextResponse>
+): (request: NextRequest, context: C) => Promise<NextResponse> {
+  return async (request, context) => {
+    let user: User | null;
+    try {
+      user = await getCurrentUser();
+    } catch (error) {
+      console.error('Session lookup error:', error);
+      return NextResponse.json(
+        { success: false, error: 'An error occurred' },
+        { status: 500 }
+      );
+    }
+
+    const denied = checkAccess(user, access);
+    if (denied || !user) return denied ?? accessDenied('login_required');
+    return handler(request, user, context);
+  };
+}
@@ -1,4 +1,7 @@
 // Auth module exports
 export * from './types';
 export * from './session';
+export * from './entitlements';
+export * from './admin';
+export * from './guard';
 export { getMemberstackClient, MemberstackClient } from './memberstack';
@@ -117,7 +117,7 @@ export async function loginWithEmail(email: string, password: string): Promise<{
       return {
         success: true,
         member: result.data.member,
-        token: result.data.tokens?.accessToken || 'sdk-auth-success',
+        token: result.data.tokens?.accessToken,
       };
     }
 
@@ -202,7 +202,7 @@ export async function signupWithEmail(
       return {
         success: true,
         member: result.data.member,
-        token: result.data.tokens?.accessToken || 'sdk-auth-success',
+        token: result.data.tokens?.accessToken,
       };
     }
 
@@ -256,7 +256,7 @@ export async function loginWithGoogle(): Promise<{
         return {
           success: true,
           member: loginResult.data.member,
-          token: loginResult.data.tokens?.accessToken || 'sdk-auth-success',
+          token: loginResult.data.tokens?.accessToken,
         };
       }
 
@@ -277,7 +277,7 @@ export async function loginWithGoogle(): Promise<{
         return {
           success: true,
           member: signupResult.data.member,
-          token: signupResult.data.tokens?.accessToken || 'sdk-auth-success',
+          token: signupResult.data.tokens?.accessToken,
         };
       }
 
@@ -1,4 +1,10 @@
 // Memberstack API client for server-side operations
+//
+// Local mode: with MEMBERSTACK_LOCAL_AUTH=true outside production, sign-ins are not
+// checked against Memberstack. Any token is accepted for the email given, and the
+// member gets the plan in MEMBERSTACK_LOCAL_PLAN (a plan ID from PLANS; free if unset).
+// It is refused in production builds, whatever the environment says.
+import { createHash } from 'crypto';
 
 const MEMBERSTACK_API_URL = 'https://admin.memberstack.com/members';
 
@@ -17,6 +23,11 @@ interface MemberstackMember {
   }>;
 }
 
+// Why a token could not be verified: a bad token, or a problem on our side or Memberstack's
+export type TokenVerification =
+  | { ok: true; memberId: string }
+  | { ok: false; reason: 'invalid' | 'not_configured' | 'unavailable' };
+
 export class MemberstackClient {
   private apiKey: string;
   private env: 'staging' | 'production';
@@ -107,6 +118,43 @@ export class MemberstackClient {
     }
   }
 
+  // The member ID a Memberstack access token was issued to. Only a rejection by
+  // Memberstack makes a token invalid; a missing key or failed request is reported as such.
+  async verifyToken(token: string): Promise<TokenVerification> {
+    if (!this.apiKey) {
+      console.error('Memberstack API key not configured');
+      return { ok: false, reason: 'not_configured' };
+    }
+
+    try {
+      const response = await fetch(`${MEMBERSTACK_API_URL}/verify-token`, {
+        method: 'POST',
+        headers: {
+          'X-API-KEY': this.apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token }),
+      });
+
+      if (response.status >= 500 || response.status === 429) {
+        console.error('[Memberstack API] Token check failed:', response.status);
+        return { ok: false, reason: 'unavailable' };
+      }
+      if (!response.ok) {
+        console.warn('[Memberstack API] Token rejected:', response.status);
+        return { ok: false, reason: 'invalid' };
+      }
+
+      const data = await response.json();
+      return typeof data.data?.id === 'string'
+        ? { ok: true, memberId: data.data.id }
+        : { ok: false, reason: 'invalid' };
+    } catch (error) {
+      console.error('Error verifying token with Memberstack:', error);
+      return { ok: false, reason: 'unavailable' };
+    }
+  }
+
   getActivePlanIds(member: MemberstackMember): string[] {
     return member.planConnections
       .filter(conn => conn.status === 'ACTIVE')
@@ -151,6 +199,83 @@ export class MemberstackClient {
   }
 }
 
+// The Memberstack app the browser signs in to, so tokens are checked against the same one
+export function getMemberstackEnv(): 'staging' | 'production' {
+  return process.env.NEXT_PUBLIC_MEMBERSTACK_ENV === 'production' ? 'production' : 'staging';
+}
+
+// Local mode, as described at the top of this file; never in production
+export function isLocalAuthEnabled(): boolean {
+  if (process.env.MEMBERSTACK_LOCAL_AUTH !== 'true') return false;
+  if (process.env.NODE_ENV === 'production') {
+    console.error('[Memberstack] MEMBERSTACK_LOCAL_AUTH is ignored in production');
+    return false;
+  }
+  return true;
+}
+
+// The member local mode signs in: stable per email, on the configured plan
+function localMember(claims: { email: string; memberstackId?: string }): MemberstackMember {
+  const email = claims.email.trim().toLowerCase();
+  const planId = process.env.MEMBERSTACK_LOCAL_PLAN || 'pln_basic--n5180oor';
+  return {
+    id: claims.memberstackId || `mem_local_${createHash('sha256').update(email).digest('hex').slice(0, 16)}`,
+    auth: { email },
+    customFields: { 'first-name': email.split('@')[0] },
+    planConnections: [{ planId, status: 'ACTIVE' }],
+  };
+}
+
+export type MemberVerification =
+  | { ok: true; member: MemberstackMember }
+  | { ok: false; status: 401 | 403 | 503; error: string };
+
+const SIGN_IN_UNAVAILABLE: MemberVerification = {
+  ok: false,
+  status: 503,
+  error: 'Sign-in is temporarily unavailable. Please try again shortly.',
+};
+
+/**
+ * Check a sign-in against Memberstack: the token must be genuine, issued to the
+ * claimed member, and that member's email must be the one claimed. Everything
+ * else about the member (names, plans) is then read from Memberstack, not the request.
+ */
+export async function verifyMember(
+  token: string,
+  claims: { email: string; memberstackId?: string }
+): Promise<MemberVerification> {
+  if (isLocalAuthEnabled()) {
+    console.warn('[Memberstack] Local mode: signing in', claims.email, 'without verification');
+    return { ok: true, member: localMember(claims) };
+  }
+
+  const client = getMemberstackClient(getMemberstackEnv());
+
+  const verification = await client.verifyToken(token);
+  if (!verification.ok) {
+    return verification.reason === 'invalid'
+      ? { ok: false, status: 401, error: 'Your sign-in could not be verified. Please sign in again.' }
+      : SIGN_IN_UNAVAILABLE;
+  }
+  const { memberId } = verification;
+  if (claims.memberstackId && claims.memberstackId !== memberId) {
+    console.warn('[Memberstack] Token issued to', memberId, 'but request claimed', claims.memberstackId);
+    return { ok: false, status: 403, error: 'Sign-in details do not match' };
+  }
+
+  const member = await client.getMemberById(memberId);
+  if (!member) {
+    return SIGN_IN_UNAVAILABLE;
+  }
+  if (member.auth.email.toLowerCase() !== claims.email.trim().toLowerCase()) {
+    console.warn('[Memberstack] Token for', memberId, 'used with a different email');
+    return { ok: false, status: 403, error: 'Sign-in details do not match' };
+  }
+
+  return { ok: true, member };
+}
+
 // Singleton instances for each environment
 let stagingClient: MemberstackClient | null = null;
 let productionClient: MemberstackClient | null = null;
@@ -0,0 +1,49 @@
+// Log of plan changes received from Memberstack, per member
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { kv } from '@vercel/kv';
+import type { PlanChange } from './types';
+
+const PLAN_CHANGES_PREFIX = 'plan-changes:';
+
+// Older changes drop off the end
+export const MAX_PLAN_CHANGES = 50;
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+// In-memory fallback for local development
+const GLOBAL_PLAN_CHANGES_KEY = '__MIB_PLAN_CHANGE_STORE__' as const;
+
+function getInMemoryStore(): Map<string, PlanChange[]> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_PLAN_CHANGES_KEY]?: Map<string, PlanChange[]>;
+  };
+  if (!g[GLOBAL_PLAN_CHANGES_KEY]) {
+    g[GLOBAL_PLAN_CHANGES_KEY] = new Map<string, PlanChange[]>();
+  }
+  return g[GLOBAL_PLAN_CHANGES_KEY];
+}
+
+// Changes are kept newest first
+export async function listPlanChanges(memberstackId: string): Promise<PlanChange[]> {
+  if (isKVConfigured) {
+    const data = await kv.get<string | PlanChange[]>(`${PLAN_CHANGES_PREFIX}${memberstackId}`);
+    if (!data) return [];
+    return typeof data === 'string' ? JSON.parse(data) : data;
+  }
+  return getInMemoryStore().get(memberstackId) || [];
+}
+
+export async function hasPlanChange(memberstackId: string, messageId: string): Promise<boolean> {
+  const changes = await listPlanChanges(memberstackId);
+  return changes.some(change => change.messageId === messageId);
+}
+
+export async function recordPlanChange(change: PlanChange): Promise<void> {
+  const changes = [change, ...(await listPlanChanges(change.memberstackId))].slice(0, MAX_PLAN_CHANGES);
+  if (isKVConfigured) {
+    await kv.set(`${PLAN_CHANGES_PREFIX}${change.memberstackId}`, JSON.stringify(changes));
+  } else {
+    getInMemoryStore().set(change.memberstackId, changes);
+  }
+}
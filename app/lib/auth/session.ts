@@ -1,20 +1,27 @@
 // Session management for authentication
 // Uses Vercel KV (Redis) in production, in-memory store for development
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { v4 as uuidv4 } from 'uuid';
 import { kv } from '@vercel/kv';
-import type { User, UserSession } from './types';
+import { SESSION_COOKIE_NAME, type ActiveSession, type User, type UserSession } from './types';
 
-const SESSION_COOKIE_NAME = 'mib_session';
-const SESSION_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours
-const SESSION_DURATION_SECONDS = 24 * 60 * 60; // 24 hours in seconds for Redis TTL
+// Sliding expiry: each use pushes expiresAt out by the idle timeout, up to a fixed
+// lifetime from sign-in. "Remember me" sessions allow longer gaps and live longer.
+const SESSION_LIMITS = {
+  standard: { idleMs: 24 * 60 * 60 * 1000, maxLifetimeMs: 7 * 24 * 60 * 60 * 1000 }, // 24 hours idle, 7 days
+  remembered: { idleMs: 30 * 24 * 60 * 60 * 1000, maxLifetimeMs: 90 * 24 * 60 * 60 * 1000 }, // 30 days idle, 90 days
+};
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000; // lastAccessed is written at most this often
 const SESSION_PREFIX = 'session:';
+const SESSION_ACTIVITY_PREFIX = 'session-activity:'; // lastAccessed, kept apart so touching never rewrites the session
+const MEMBER_SESSIONS_PREFIX = 'member-sessions:'; // Set of session IDs per Memberstack member
 
 // Check if Vercel KV is configured
 const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
 
 // In-memory fallback for local development
 const GLOBAL_SESSION_KEY = '__MIB_SESSION_STORE__' as const;
+const GLOBAL_MEMBER_SESSIONS_KEY = '__MIB_MEMBER_SESSIONS__' as const;
 
 function getInMemoryStore(): Map<string, UserSession> {
   const g = globalThis as typeof globalThis & {
@@ -26,9 +33,25 @@ function getInMemoryStore(): Map<string, UserSession> {
   return g[GLOBAL_SESSION_KEY];
 }
 
+function getInMemoryMemberIndex(): Map<string, Set<string>> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_MEMBER_SESSIONS_KEY]?: Map<string, Set<string>>;
+  };
+  if (!g[GLOBAL_MEMBER_SESSIONS_KEY]) {
+    g[GLOBAL_MEMBER_SESSIONS_KEY] = new Map<string, Set<string>>();
+  }
+  return g[GLOBAL_MEMBER_SESSIONS_KEY];
+}
+
+// Seconds until a KV entry should lapse with its session
+function ttlSeconds(expiresAt: Date): number {
+  return Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 1000));
+}
+
 // Session store abstraction
 const sessionStore = {
-  async set(sessionId: string, session: UserSession): Promise<void> {
+  // With onlyIfExists, a session ended meanwhile stays ended; returns whether it was written
+  async set(sessionId: string, session: UserSession, options: { onlyIfExists?: boolean } = {}): Promise<boolean> {
     if (isKVConfigured) {
       // Store in Vercel KV with TTL
       // Convert dates to ISO strings for JSON serialization
@@ -38,53 +61,143 @@ const sessionStore = {
         lastAccessed: session.lastAccessed.toISOString(),
         expiresAt: session.expiresAt.toISOString(),
       };
-      await kv.set(`${SESSION_PREFIX}${sessionId}`, JSON.stringify(serializable), {
-        ex: SESSION_DURATION_SECONDS,
-      });
+      // KV expiry follows the session's own expiry
+      const ex = ttlSeconds(session.expiresAt);
+      const written = options.onlyIfExists
+        ? await kv.set(`${SESSION_PREFIX}${sessionId}`, JSON.stringify(serializable), { ex, xx: true })
+        : await kv.set(`${SESSION_PREFIX}${sessionId}`, JSON.stringify(serializable), { ex });
+      return written !== null;
     } else {
       // Use in-memory store for development
-      getInMemoryStore().set(sessionId, session);
+      const store = getInMemoryStore();
+      if (options.onlyIfExists && !store.has(sessionId)) return false;
+      store.set(sessionId, session);
+      return true;
     }
   },
 
   async get(sessionId: string): Promise<UserSession | null> {
     if (isKVConfigured) {
-      const data = await kv.get<string>(`${SESSION_PREFIX}${sessionId}`);
+      const [data, activity] = await kv.mget<[string | null, string | null]>(
+        `${SESSION_PREFIX}${sessionId}`,
+        `${SESSION_ACTIVITY_PREFIX}${sessionId}`
+      );
       if (!data) return null;
 
       // Parse and convert date strings back to Date objects
       const parsed = typeof data === 'string' ? JSON.parse(data) : data;
-      return {
+      const session: UserSession = {
         ...parsed,
         createdAt: new Date(parsed.createdAt),
         lastAccessed: new Date(parsed.lastAccessed),
         expiresAt: new Date(parsed.expiresAt),
       };
+
+      // A later touch moves lastAccessed, and the expiry with it
+      const touched = activity ? new Date(activity) : null;
+      if (touched && touched > session.lastAccessed) {
+        session.lastAccessed = touched;
+        session.expiresAt = slidingExpiry(session);
+      }
+      return session;
     } else {
       return getInMemoryStore().get(sessionId) || null;
     }
   },
 
+  // Record use of a live session: only lastAccessed and the expiry change, and a
+  // session deleted meanwhile is not brought back
+  async touch(sessionId: string, lastAccessed: Date, expiresAt: Date): Promise<void> {
+    if (isKVConfigured) {
+      const ex = ttlSeconds(expiresAt);
+      if (await kv.expire(`${SESSION_PREFIX}${sessionId}`, ex)) {
+        await kv.set(`${SESSION_ACTIVITY_PREFIX}${sessionId}`, lastAccessed.toISOString(), { ex });
+      }
+    } else {
+      const stored = getInMemoryStore().get(sessionId);
+      if (stored) {
+        stored.lastAccessed = lastAccessed;
+        stored.expiresAt = expiresAt;
+      }
+    }
+  },
+
   async delete(sessionId: string): Promise<void> {
     if (isKVConfigured) {
-      await kv.del(`${SESSION_PREFIX}${sessionId}`);
+      await kv.del(`${SESSION_PREFIX}${sessionId}`, `${SESSION_ACTIVITY_PREFIX}${sessionId}`);
     } else {
       getInMemoryStore().delete(sessionId);
     }
   },
+
+  // Per-member index, so changes pushed by Memberstack reach every live login
+  async addToMember(memberstackId: string, sessionId: string): Promise<void> {
+    if (!memberstackId) return;
+    if (isKVConfigured) {
+      await kv.sadd(`${MEMBER_SESSIONS_PREFIX}${memberstackId}`, sessionId);
+    } else {
+      const index = getInMemoryMemberIndex();
+      index.set(memberstackId, (index.get(memberstackId) || new Set<string>()).add(sessionId));
+    }
+  },
+
+  async removeFromMember(memberstackId: string, sessionId: string): Promise<void> {
+    if (!memberstackId) return;
+    if (isKVConfigured) {
+      await kv.srem(`${MEMBER_SESSIONS_PREFIX}${memberstackId}`, sessionId);
+    } else {
+      getInMemoryMemberIndex().get(memberstackId)?.delete(sessionId);
+    }
+  },
+
+  async memberSessionIds(memberstackId: string): Promise<string[]> {
+    if (!memberstackId) return [];
+    if (isKVConfigured) {
+      return kv.smembers(`${MEMBER_SESSIONS_PREFIX}${memberstackId}`);
+    }
+    return Array.from(getInMemoryMemberIndex().get(memberstackId) || []);
+  },
 };
 
-export async function createSession(user: User): Promise<string> {
+// "City, Region, Country" from the geolocation headers Vercel adds; absent in local development
+function approximateLocation(headerStore: Headers): string | undefined {
+  const parts = ['x-vercel-ip-city', 'x-vercel-ip-country-region', 'x-vercel-ip-country']
+    .map(name => headerStore.get(name))
+    .filter((part): part is string => !!part)
+    .map(part => {
+      try {
+        return decodeURIComponent(part);
+      } catch {
+        return part;
+      }
+    });
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+// When the session lapses if not used again: idle timeout from lastAccessed, capped by the lifetime
+function slidingExpiry(session: Pick<UserSession, 'createdAt' | 'lastAccessed' | 'rememberMe'>): Date {
+  const limits = session.rememberMe ? SESSION_LIMITS.remembered : SESSION_LIMITS.standard;
+  return new Date(Math.min(
+    session.lastAccessed.getTime() + limits.idleMs,
+    session.createdAt.getTime() + limits.maxLifetimeMs
+  ));
+}
+
+export async function createSession(user: User, options: { rememberMe?: boolean } = {}): Promise<string> {
   // First, clear any existing session cookie to prevent stale data
   const cookieStore = await cookies();
   const existingSessionId = cookieStore.get(SESSION_COOKIE_NAME)?.value;
   if (existingSessionId) {
     console.log('[Session] Clearing existing session:', existingSessionId);
+    const existing = await sessionStore.get(existingSessionId);
+    if (existing) await sessionStore.removeFromMember(existing.memberstackId, existingSessionId);
     await sessionStore.delete(existingSessionId);
   }
 
   const sessionId = uuidv4();
   const now = new Date();
+  const headerStore = await headers();
+  const rememberMe = !!options.rememberMe;
 
   const session: UserSession = {
     id: sessionId,
@@ -96,20 +209,24 @@ export async function createSession(user: User): Promise<string> {
     bestPlanId: user.bestPlanId,
     createdAt: now,
     lastAccessed: now,
-    expiresAt: new Date(now.getTime() + SESSION_DURATION_MS),
+    expiresAt: slidingExpiry({ createdAt: now, lastAccessed: now, rememberMe }),
     isActive: true,
+    rememberMe,
+    userAgent: headerStore.get('user-agent') || undefined,
+    location: approximateLocation(headerStore),
   };
 
   // Store session
   await sessionStore.set(sessionId, session);
+  await sessionStore.addToMember(user.memberstackId, sessionId);
   console.log('[Session] Created new session:', sessionId, 'for user:', user.email, '(storage:', isKVConfigured ? 'Vercel KV' : 'in-memory', ')');
 
-  // Set cookie
+  // Set cookie; without "remember me" it is a browser-session cookie, gone when the browser closes
   cookieStore.set(SESSION_COOKIE_NAME, sessionId, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
-    maxAge: SESSION_DURATION_MS / 1000, // Convert to seconds
+    ...(rememberMe && { maxAge: SESSION_LIMITS.remembered.maxLifetimeMs / 1000 }), // Convert to seconds
     path: '/',
   });
 
@@ -140,13 +257,17 @@ export async function getSession(): Promise<UserSession | null> {
     // Session expired or inactive
     console.log('[Session] Session expired or inactive for user:', session.userEmail);
     await sessionStore.delete(sessionId);
+    await sessionStore.removeFromMember(session.memberstackId, sessionId);
     cookieStore.delete(SESSION_COOKIE_NAME);
     return null;
   }
 
-  // Refresh last accessed time
-  session.lastAccessed = now;
-  await sessionStore.set(sessionId, session);
+  // Slide the expiry forward, writing at most once per TOUCH_INTERVAL_MS rather than on every request
+  if (now.getTime() - session.lastAccessed.getTime() >= TOUCH_INTERVAL_MS) {
+    session.lastAccessed = now;
+    session.expiresAt = slidingExpiry(session);
+    await sessionStore.touch(sessionId, session.lastAccessed, session.expiresAt);
+  }
   console.log('[Session] Valid session found for user:', session.userEmail);
 
   return session;
@@ -179,7 +300,8 @@ export async function destroySession(): Promise<void> {
     const session = await sessionStore.get(sessionId);
     if (session) {
       session.isActive = false;
-      await sessionStore.set(sessionId, session);
+      await sessionStore.set(sessionId, session, { onlyIfExists: true });
+      await sessionStore.removeFromMember(session.memberstackId, sessionId);
     }
     await sessionStore.delete(sessionId);
   }
@@ -192,3 +314,72 @@ export async function isAuthenticated(): Promise<boolean> {
   const session = await getSession();
   return session !== null;
 }
+
+// Live sessions for a member; IDs whose session has lapsed are dropped from the index
+export async function getMemberSessions(memberstackId: string): Promise<UserSession[]> {
+  const ids = await sessionStore.memberSessionIds(memberstackId);
+  const sessions = await Promise.all(ids.map(id => sessionStore.get(id)));
+  const now = new Date();
+
+  const live: UserSession[] = [];
+  await Promise.all(sessions.map(async (session, i) => {
+    if (session && session.isActive && session.expiresAt > now) {
+      live.push(session);
+    } else {
+      await sessionStore.removeFromMember(memberstackId, ids[i]);
+    }
+  }));
+  return live;
+}
+
+/**
+ * Apply a change pushed by Memberstack (new plan, cancellation, name change) to
+ * every live session of the member, without extending them. Returns the sessions
+ * as they were before the change.
+ */
+export async function updateMemberSessions(
+  memberstackId: string,
+  changes: Partial<Pick<UserSession, 'userEmail' | 'firstName' | 'lastName' | 'activePlans' | 'bestPlanId'>>
+): Promise<UserSession[]> {
+  const sessions = await getMemberSessions(memberstackId);
+  // Sessions ended since they were read stay ended
+  await Promise.all(sessions.map(session =>
+    sessionStore.set(session.id, { ...session, ...changes }, { onlyIfExists: true })
+  ));
+  return sessions;
+}
+
+// Log a member out everywhere (or everywhere but one session), e.g. when their account is deleted or compromised
+export async function endMemberSessions(memberstackId: string, exceptSessionId?: string): Promise<number> {
+  const sessions = (await getMemberSessions(memberstackId)).filter(session => session.id !== exceptSessionId);
+  await Promise.all(sessions.map(async session => {
+    await sessionStore.delete(session.id);
+    await sessionStore.removeFromMember(memberstackId, session.id);
+  }));
+  return sessions.length;
+}
+
+// The signed-in member's live sessions, most recently used first
+export async function listUserSessions(user: User): Promise<ActiveSession[]> {
+  const sessions = await getMemberSessions(user.memberstackId);
+  return sessions
+    .sort((a, b) => b.lastAccessed.getTime() - a.lastAccessed.getTime())
+    .map(session => ({
+      id: session.id,
+      createdAt: session.createdAt.toISOString(),
+      lastAccessed: session.lastAccessed.toISOString(),
+      expiresAt: session.expiresAt.toISOString(),
+      userAgent: session.userAgent ?? null,
+      location: session.location ?? null,
+      current: session.id === user.id,
+    }));
+}
+
+// End one of the member's own sessions; false when it is not theirs or has already ended
+export async function revokeUserSession(user: User, sessionId: string): Promise<boolean> {
+  const sessions = await getMemberSessions(user.memberstackId);
+  if (!sessions.some(session => session.id === sessionId)) return false;
+  await sessionStore.delete(sessionId);
+  await sessionStore.removeFromMember(user.memberstackId, sessionId);
+  return true;
+}
@@ -1,5 +1,8 @@
 // Auth types and interfaces
 
+// Also read by proxy.ts, which cannot load the session store
+export const SESSION_COOKIE_NAME = 'mib_session';
+
 export interface User {
   id: string;
   email: string;
@@ -22,24 +25,48 @@ export interface UserSession {
   lastAccessed: Date;
   expiresAt: Date;
   isActive: boolean;
+  rememberMe?: boolean; // Longer idle timeout and lifetime, persistent cookie
+  userAgent?: string;
+  location?: string; // Approximate, from the hosting platform's IP geolocation
+}
+
+// A member's login as listed in the Devices panel
+export interface ActiveSession {
+  id: string;
+  createdAt: string;
+  lastAccessed: string;
+  expiresAt: string;
+  userAgent: string | null;
+  location: string | null;
+  current: boolean; // The session making the request
 }
 
+// A plan or profile change pushed by a Memberstack webhook, as recorded for support
+export interface PlanChange {
+  messageId: string; // Webhook delivery ID; redeliveries of the same message are ignored
+  event: string;
+  memberstackId: string;
+  email?: string;
+  previousPlanId?: string | null; // From a live session, when the member had one
+  activePlans: string[];
+  bestPlanId: string | null;
+  sessionsUpdated: number;
+  receivedAt: string;
+}
+
+// Sign-in claims from the browser; the server checks them against the Memberstack token
 export interface LoginRequest {
   email: string;
   memberstackToken: string;
-  memberstackId?: string;  // Member ID from client-side SDK for accurate lookup
-  firstName?: string;      // First name from client-side SDK
-  lastName?: string;       // Last name from client-side SDK
-  env?: 'staging' | 'production';
+  memberstackId?: string;  // Member ID from client-side SDK; must match the token
+  rememberMe?: boolean;
 }
 
 export interface SignupRequest {
   email: string;
-  firstName: string;
+  firstName: string;       // Used only until Memberstack has the member's names
   lastName: string;
-  plan: string;
   memberstackToken: string;
-  env?: 'staging' | 'production';
 }
 
 export interface AuthResponse {
@@ -58,6 +85,7 @@ export const PLANS = {
     tier: 0,
     suburbReports: 0,
     propertyReports: 0,
+    propertyMatches: 5, // Per month
     features: ['5 AI property matches', 'Basic suburb reports', 'Limited filters'],
   },
   // Essentials
@@ -67,6 +95,7 @@ export const PLANS = {
     tier: 1,
     suburbReports: 2,
     propertyReports: 5,
+    propertyMatches: -1, // Unlimited
     features: ['Unlimited AI property matches', '2 suburb reports/month', '5 property reports/month'],
   },
   // Advanced
@@ -76,6 +105,7 @@ export const PLANS = {
     tier: 2,
     suburbReports: 20,
     propertyReports: 30,
+    propertyMatches: -1, // Unlimited
     features: ['Unlimited AI property matches', '20 suburb reports/month', '30 property reports/month', 'All filters + CSV export'],
   },
   // Portfolio Builder
@@ -85,12 +115,23 @@ export const PLANS = {
     tier: 3,
     suburbReports: -1, // Unlimited
     propertyReports: -1, // Unlimited
+    propertyMatches: -1, // Unlimited
     features: ['Unlimited everything', 'Priority support', 'Custom reports'],
   },
 } as const;
 
 export type PlanId = keyof typeof PLANS;
 
+// Why a report section is withheld from the current viewer
+export type LockReason = 'login_required' | 'upgrade_required' | 'unlock_required';
+
+// Per-section entitlement marker returned by the report APIs
+export interface SectionAccess {
+  locked: boolean;
+  reason?: LockReason;
+  requiredTier?: number;
+}
+
 // Pricing for plans (monthly and quarterly)
 export const PLAN_PRICING = {
   free: {
@@ -0,0 +1,170 @@
+// Memberstack webhooks. Deliveries are signed the Svix way: an HMAC-SHA256 of
+// "<id>.<timestamp>.<body>" keyed with MEMBERSTACK_WEBHOOK_SECRET ("whsec_..."),
+// sent in the svix-id, svix-timestamp and svix-signature headers.
+// For local testing, `npm run webhooks:replay` signs and posts the sample payloads.
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getMemberstackClient, getMemberstackEnv } from './memberstack';
+import { endMemberSessions, getMemberSessions, updateMemberSessions } from './session';
+import { hasPlanChange, recordPlanChange } from './plan-changes';
+import type { PlanChange } from './types';
+
+// Deliveries older (or newer) than this are refused, so captured requests cannot be replayed
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+export interface WebhookHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+interface PlanConnection {
+  planId: string;
+  status?: string;
+}
+
+interface MemberstackEvent {
+  event: string;
+  timestamp?: number;
+  payload: {
+    id?: string;
+    memberId?: string;
+    member?: { id?: string };
+    auth?: { email?: string };
+    customFields?: { 'first-name'?: string; 'last-name'?: string };
+    planConnections?: PlanConnection[];
+    planConnection?: PlanConnection;
+    planId?: string;
+  };
+}
+
+export type WebhookResult =
+  | { status: 'applied'; change: PlanChange }
+  | { status: 'ended'; memberstackId: string; sessionsEnded: number }
+  | { status: 'duplicate' | 'ignored' };
+
+function getSecret(): Buffer | null {
+  const secret = process.env.MEMBERSTACK_WEBHOOK_SECRET;
+  if (!secret) return null;
+  return Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+}
+
+// True when the headers carry a current signature of this exact body
+export function verifyWebhookSignature(body: string, headers: WebhookHeaders): boolean {
+  const secret = getSecret();
+  if (!secret) {
+    console.error('[Webhook] MEMBERSTACK_WEBHOOK_SECRET is not set; refusing delivery');
+    return false;
+  }
+  if (!headers.id || !headers.timestamp || !headers.signature) return false;
+
+  const timestamp = Number(headers.timestamp);
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > TIMESTAMP_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', secret)
+    .update(`${headers.id}.${headers.timestamp}.${body}`)
+    .digest();
+
+  // The header may list several space-separated "v1,<base64>" signatures during secret rotation
+  return headers.signature.split(' ').some(entry => {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature) return false;
+    const actual = Buffer.from(signature, 'base64');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+}
+
+export function parseWebhookEvent(body: string): MemberstackEvent | null {
+  try {
+    const data = JSON.parse(body);
+    if (typeof data?.event !== 'string' || typeof data.payload !== 'object' || !data.payload) return null;
+    return data as MemberstackEvent;
+  } catch {
+    return null;
+  }
+}
+
+function activePlanIds(connections: PlanConnection[]): string[] {
+  return connections
+    .filter(conn => conn.planId && (conn.status || 'ACTIVE').toUpperCase() === 'ACTIVE')
+    .map(conn => conn.planId);
+}
+
+/**
+ * The member's plans after the event: from the payload when it lists them, else
+ * from the Memberstack API, else by applying the added or cancelled plan to
+ * what a live session last saw.
+ */
+async function resolveActivePlans(
+  event: MemberstackEvent,
+  memberstackId: string,
+  currentPlans: string[] | null
+): Promise<string[] | null> {
+  const { payload } = event;
+  if (Array.isArray(payload.planConnections)) return activePlanIds(payload.planConnections);
+
+  const client = getMemberstackClient(getMemberstackEnv());
+  const member = await client.getMemberById(memberstackId);
+  if (member) return client.getActivePlanIds(member);
+
+  const planId = payload.planConnection?.planId || payload.planId;
+  if (!planId || !currentPlans) return null;
+  if (event.event === 'member.plan.canceled') return currentPlans.filter(id => id !== planId);
+  return currentPlans.includes(planId) ? currentPlans : [...currentPlans, planId];
+}
+
+/**
+ * Apply one verified delivery: update every live session of the member and
+ * record the change. Redeliveries of a message already recorded are skipped.
+ */
+export async function handleMemberstackEvent(messageId: string, event: MemberstackEvent): Promise<WebhookResult> {
+  const { payload } = event;
+  const memberstackId = payload.id || payload.memberId || payload.member?.id;
+  if (!memberstackId) return { status: 'ignored' };
+
+  if (event.event === 'member.deleted') {
+    const sessionsEnded = await endMemberSessions(memberstackId);
+    console.log('[Webhook] Member deleted, ended', sessionsEnded, 'sessions for', memberstackId);
+    return { status: 'ended', memberstackId, sessionsEnded };
+  }
+
+  if (!['member.updated', 'member.plan.added', 'member.plan.updated', 'member.plan.canceled'].includes(event.event)) {
+    return { status: 'ignored' };
+  }
+  if (await hasPlanChange(memberstackId, messageId)) return { status: 'duplicate' };
+
+  // Read the sessions first so a plan delta has something to apply to
+  const current = await getMemberSessions(memberstackId);
+  const activePlans = await resolveActivePlans(event, memberstackId, current[0]?.activePlans ?? null);
+  if (!activePlans) {
+    console.warn('[Webhook] Could not resolve plans for', memberstackId, 'from', event.event);
+    return { status: 'ignored' };
+  }
+
+  const bestPlanId = getMemberstackClient().getBestPlanId(activePlans);
+  const email = payload.auth?.email;
+  const previous = await updateMemberSessions(memberstackId, {
+    activePlans,
+    bestPlanId,
+    ...(email && { userEmail: email }),
+    ...(payload.customFields?.['first-name'] !== undefined && { firstName: payload.customFields['first-name'] }),
+    ...(payload.customFields?.['last-name'] !== undefined && { lastName: payload.customFields['last-name'] }),
+  });
+
+  const change: PlanChange = {
+    messageId,
+    event: event.event,
+    memberstackId,
+    email: email || previous[0]?.userEmail,
+    previousPlanId: previous.length > 0 ? previous[0].bestPlanId : undefined,
+    activePlans,
+    bestPlanId,
+    sessionsUpdated: previous.length,
+    receivedAt: new Date().toISOString(),
+  };
+  await recordPlanChange(change);
+  console.log('[Webhook]', event.event, 'for', memberstackId, '-> plan', bestPlanId, 'in', previous.length, 'sessions');
+
+  return { status: 'applied', change };
+}
@@ -0,0 +1,85 @@
+// Report sections as readable text and tables, for order snapshots and their pages
+import { sectionTables, type ExportCell, type ExportTable } from './tables';
+import type { SectionResult } from '@/app/lib/types/sections';
+
+// Text longer than this reads as prose, so it is set as a paragraph instead of a table cell
+const PARAGRAPH_LENGTH = 120;
+
+export type ReportBlock =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'table'; table: ExportTable };
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+// e.g. house.suburb.msp_f -> House / Suburb / Msp
+export function fieldLabel(path: string): string {
+  return path
+    .split('.')
+    .map(part => part.replace(/_f$/, '').replace(/_/g, ' '))
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' / ');
+}
+
+export function formatCell(value: ExportCell): string {
+  if (value === null) return '–';
+  if (typeof value === 'number') return value.toLocaleString('en-AU', { maximumFractionDigits: 2 });
+  return value;
+}
+
+/**
+ * What a section contributes to an order snapshot. Field/value tables lose raw figures that
+ * Flask also sent formatted (msp beside msp_f), and long text becomes paragraphs.
+ */
+export function sectionBlocks(id: string, result: SectionResult): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+
+  sectionTables(id, result).forEach(table => {
+    if (table.columns[0] !== 'Field') {
+      blocks.push({ kind: 'table', table });
+      return;
+    }
+
+    const formatted = new Set(table.rows.map(([field]) => String(field)).filter(field => field.endsWith('_f')));
+    const rows: ExportCell[][] = [];
+    table.rows.forEach(([field, value]) => {
+      if (formatted.has(`${field}_f`)) return;
+      if (typeof value === 'string' && value.length > PARAGRAPH_LENGTH) {
+        blocks.push({ kind: 'paragraph', text: value });
+      } else {
+        rows.push([fieldLabel(String(field)), value]);
+      }
+    });
+    if (rows.length > 0) blocks.push({ kind: 'table', table: { ...table, rows } });
+  });
+
+  // Sections without figures may still carry readable text in their fragment
+  if (blocks.length === 0 && result.data && typeof result.data === 'object') {
+    const html = (result.data as { html?: unknown }).html;
+    const text = typeof html === 'string' ? stripHtml(html) : '';
+    if (text) blocks.push({ kind: 'paragraph', text });
+  }
+
+  return blocks;
+}
+
+// Label for one of several tables from a section, e.g. "msp house" -> House
+export function tableHeading(sectionId: string, table: ExportTable): string {
+  return fieldLabel(table.name.replace(`${sectionId} `, ''));
+}
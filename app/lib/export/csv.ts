@@ -0,0 +1,28 @@
+// CSV rendering of export tables
+import type { ExportCell, ExportTable } from './tables';
+
+// Text Excel and Sheets would run as a formula; such cells get a leading quote.
+// The XLSX writer needs no equivalent: it writes every string as an inline string.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: ExportCell): string {
+  if (value === null) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(cells: ExportCell[]): string {
+  return cells.map(csvCell).join(',');
+}
+
+/**
+ * One CSV file holding every table, each under a title row and separated by a
+ * blank line. Starts with a byte order mark so Excel reads it as UTF-8.
+ */
+export function toCsv(tables: ExportTable[]): string {
+  const blocks = tables.map(table => {
+    const lines = [csvRow([table.name]), csvRow(table.columns), ...table.rows.map(csvRow)];
+    return lines.join('\r\n');
+  });
+  return `\uFEFF${blocks.join('\r\n\r\n')}\r\n`;
+}
@@ -0,0 +1,96 @@
+// Report PDFs, printed from the report page itself by headless Chromium, so a PDF
+// carries the same charts, maps and layout as the page the member sees.
+//
+// Configure PDF_RENDER_ORIGIN, the base URL the browser loads the app from (e.g.
+// https://www.microburbs.com.au), and one of:
+//   PDF_BROWSER_WS_ENDPOINT  CDP endpoint of a running Chromium (e.g. a browserless service)
+//   PDF_CHROMIUM_PATH        Chromium or Chrome executable to launch on this server
+// The origin is never taken from the request, whose Host header the client controls.
+import { chromium, type Browser } from 'playwright-core';
+import { SESSION_COOKIE_NAME } from '@/app/lib/auth/types';
+
+// Page load, section streaming and printing together
+const RENDER_TIMEOUT_MS = 60_000;
+
+// Page numbers under every page; the cover and contents come from the page itself (PrintCover)
+const FOOTER_TEMPLATE = `<div style="width:100%;font-size:8px;color:#6b7280;padding:0 10mm;display:flex;justify-content:space-between">
+  <span>microburbs.com.au</span><span>Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
+</div>`;
+
+export type PdfRenderResult =
+  | { ok: true; pdf: Uint8Array }
+  | { ok: false; reason: 'not_configured' | 'render_failed'; message: string };
+
+export interface PdfRenderOptions {
+  path: string; // Report page, e.g. /property-reports/GANSW123
+  sessionId?: string; // The member's session cookie, so the page shows what they are entitled to
+}
+
+// The configured app origin, or null when it is missing or not an http(s) URL
+function getRenderOrigin(): string | null {
+  try {
+    const url = new URL(process.env.PDF_RENDER_ORIGIN || '');
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+async function openBrowser(): Promise<Browser | null> {
+  const endpoint = process.env.PDF_BROWSER_WS_ENDPOINT;
+  if (endpoint) {
+    return chromium.connectOverCDP(endpoint, { timeout: RENDER_TIMEOUT_MS });
+  }
+  const executablePath = process.env.PDF_CHROMIUM_PATH;
+  if (executablePath) {
+    return chromium.launch({ executablePath, args: ['--no-sandbox', '--disable-dev-shm-usage'] });
+  }
+  return null;
+}
+
+/**
+ * Print a report page to A4. The page is opened with ?print=1, which loads every
+ * tab and marks itself [data-report-ready] once all sections have arrived.
+ */
+export async function renderReportPdf(options: PdfRenderOptions): Promise<PdfRenderResult> {
+  const origin = getRenderOrigin();
+  if (!origin) {
+    return { ok: false, reason: 'not_configured', message: 'Set PDF_RENDER_ORIGIN to the app\'s own URL' };
+  }
+  const url = new URL(options.path, origin);
+  url.searchParams.set('print', '1');
+
+  let browser: Browser | null = null;
+  try {
+    browser = await openBrowser();
+    if (!browser) {
+      return { ok: false, reason: 'not_configured', message: 'Set PDF_BROWSER_WS_ENDPOINT or PDF_CHROMIUM_PATH' };
+    }
+
+    const context = await browser.newContext();
+    if (options.sessionId) {
+      await context.addCookies([{ name: SESSION_COOKIE_NAME, value: options.sessionId, url: url.origin }]);
+    }
+    const page = await context.newPage();
+    page.setDefaultTimeout(RENDER_TIMEOUT_MS);
+
+    await page.goto(url.toString(), { waitUntil: 'networkidle' });
+    await page.waitForSelector('[data-report-ready]', { state: 'attached' });
+
+    const pdf = await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      displayHeaderFooter: true,
+      headerTemplate: '<span></span>',
+      footerTemplate: FOOTER_TEMPLATE,
+      margin: { top: '12mm', bottom: '16mm', left: '10mm', right: '10mm' },
+    });
+    await context.close();
+    return { ok: true, pdf: new Uint8Array(pdf) };
+  } catch (error) {
+    console.error('[PDF] Failed to render', url.pathname, error);
+    return { ok: false, reason: 'render_failed', message: error instanceof Error ? error.message : String(error) };
+  } finally {
+    await browser?.close().catch(() => undefined);
+  }
+}
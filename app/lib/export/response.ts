@@ -0,0 +1,92 @@
+// File downloads shared by the report and order routes: ?export=csv|xlsx and report PDFs
+import { NextResponse } from 'next/server';
+import { getPlanFeatures, getReportAccess, type ReportEntitlement } from '@/app/lib/auth/entitlements';
+import { accessDenied } from '@/app/lib/auth/guard';
+import { toCsv } from './csv';
+import { toXlsx } from './xlsx';
+import type { ExportTable } from './tables';
+import type { PdfRenderResult } from './render-pdf';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * The error response for an export the caller can't have, or null to go ahead.
+ * Exports are checked here, server-side, whatever the page offered.
+ */
+export function exportDenied(
+  format: string,
+  entitlement: Pick<ReportEntitlement, 'isAuthenticated' | 'planId'>
+): NextResponse | null {
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: `export must be one of ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+  if (!entitlement.isAuthenticated) {
+    return accessDenied('login_required');
+  }
+  if (!getPlanFeatures(entitlement.planId).csvExport) {
+    return accessDenied('upgrade_required', { error: 'CSV and Excel export needs the Advanced plan', requiredTier: 2 });
+  }
+  return null;
+}
+
+// e.g. suburb-report-bondi-2026-10-19.xlsx
+function exportFilename(name: string, format: ExportFormat | 'pdf'): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+function fileResponse(body: Uint8Array, contentType: string, filename: string): NextResponse {
+  return new NextResponse(new Uint8Array(body), {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+export function exportResponse(tables: ExportTable[], format: ExportFormat, name: string): NextResponse {
+  const body = format === 'xlsx' ? toXlsx(tables) : new TextEncoder().encode(toCsv(tables));
+  return fileResponse(body, CONTENT_TYPES[format], exportFilename(name, format));
+}
+
+const PDF_LOCKED_MESSAGES = {
+  login_required: 'Not authenticated',
+  upgrade_required: 'PDF reports need a paid plan',
+  unlock_required: 'Unlock this report to download it as a PDF',
+} as const;
+
+// PDFs hold the full report, so they follow the report's own lock rather than a plan feature
+export function pdfDenied(entitlement: ReportEntitlement): NextResponse | null {
+  const access = getReportAccess(entitlement);
+  if (!access.locked) return null;
+
+  const reason = access.reason ?? 'login_required';
+  return NextResponse.json(
+    { error: PDF_LOCKED_MESSAGES[reason], reason },
+    { status: entitlement.isAuthenticated ? 403 : 401 }
+  );
+}
+
+// The PDF renderer is not set up here, or Chromium failed to print the page
+export function pdfUnavailable(result: Extract<PdfRenderResult, { ok: false }>): NextResponse {
+  return NextResponse.json(
+    { error: 'PDF downloads are temporarily unavailable', reason: result.reason },
+    { status: result.reason === 'not_configured' ? 503 : 502 }
+  );
+}
+
+export function pdfResponse(pdf: Uint8Array, name: string): NextResponse {
+  return fileResponse(pdf, 'application/pdf', exportFilename(name, 'pdf'));
+}
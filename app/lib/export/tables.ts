@@ -0,0 +1,131 @@
+// Report data flattened into tables for CSV and XLSX export
+import {
+  isStructuredSection,
+  type DataTable,
+  type DevelopmentApplicationRow,
+  type SchoolRow,
+  type StructuredSectionData,
+} from '@/app/lib/types/section-data';
+import type { SectionResult } from '@/app/lib/types/sections';
+import type { Order } from '@/app/lib/types/orders';
+
+export type ExportCell = string | number | null;
+
+export interface ExportTable {
+  name: string; // Sheet name in XLSX, heading in CSV
+  columns: string[];
+  rows: ExportCell[][];
+}
+
+// Fields that hold markup or chart config rather than figures
+const SKIPPED_KEYS = new Set(['html', 'age', 'script', 'layout', 'config']);
+
+function isMarkup(value: string): boolean {
+  return /<[a-z!/][^>]*>/i.test(value);
+}
+
+// Every figure and label in a section payload, keyed by its path, e.g. house.suburb.msp
+function flattenFields(value: unknown, path: string[] = [], rows: ExportCell[][] = []): ExportCell[][] {
+  if (value === null || value === undefined) return rows;
+  if (typeof value === 'number') {
+    if (Number.isFinite(value)) rows.push([path.join('.'), value]);
+  } else if (typeof value === 'string') {
+    if (value && !isMarkup(value)) rows.push([path.join('.'), value]);
+  } else if (typeof value === 'boolean') {
+    rows.push([path.join('.'), value ? 'Yes' : 'No']);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenFields(item, [...path, String(index)], rows));
+  } else if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+      if (!SKIPPED_KEYS.has(key)) flattenFields(item, [...path, key], rows);
+    });
+  }
+  return rows;
+}
+
+function tableData<Row>(section: string, table: DataTable<Row>): ExportTable {
+  return {
+    name: section,
+    columns: table.columns.map(column => column.label),
+    rows: table.rows.map(row => table.columns.map(column => {
+      const value: unknown = row[column.key];
+      return typeof value === 'number' || typeof value === 'string' ? value : null;
+    })),
+  };
+}
+
+function structuredTables(section: string, data: StructuredSectionData): ExportTable[] {
+  if (data.kind === 'table') {
+    return [tableData(section, data as DataTable<SchoolRow | DevelopmentApplicationRow>)];
+  }
+
+  // One table per property type, a column per series, a row per date
+  return (['house', 'unit'] as const).flatMap(type => {
+    const typeData = data[type];
+    if (!typeData || typeData.series.length === 0) return [];
+    const dates = Array.from(new Set(typeData.series.flatMap(series => series.points.map(point => point.date))));
+    return [{
+      name: `${section} ${type}`,
+      columns: ['Date', ...typeData.series.map(series => series.name)],
+      rows: dates.map(date => [
+        date,
+        ...typeData.series.map(series => series.points.find(point => point.date === date)?.value ?? null),
+      ]),
+    }];
+  });
+}
+
+// Tables for one report section; empty when it has no figures to export
+export function sectionTables(section: string, result: SectionResult): ExportTable[] {
+  if (!result.data) return [];
+  if (isStructuredSection(result.data)) return structuredTables(section, result.data);
+
+  const rows = flattenFields(result.data);
+  return rows.length > 0 ? [{ name: section, columns: ['Field', 'Value'], rows }] : [];
+}
+
+/**
+ * A summary table of what the export holds, then each section's tables. Sections
+ * locked for the member are listed but not exported.
+ */
+export function reportTables(
+  title: string,
+  sections: Record<string, SectionResult>,
+  exportedAt: Date = new Date()
+): ExportTable[] {
+  const summary: ExportTable = {
+    name: 'Report',
+    columns: ['Section', 'Status'],
+    rows: [],
+  };
+  const tables: ExportTable[] = [];
+
+  Object.entries(sections).forEach(([section, result]) => {
+    if (result.access?.locked) {
+      summary.rows.push([section, 'Locked']);
+      return;
+    }
+    const sectionData = sectionTables(section, result);
+    summary.rows.push([section, sectionData.length > 0 ? 'Exported' : result.reason ? 'Unavailable' : 'No data']);
+    tables.push(...sectionData);
+  });
+
+  summary.rows.unshift([title, `Exported ${exportedAt.toISOString()}`]);
+  return [summary, ...tables];
+}
+
+export function ordersTable(orders: Order[]): ExportTable {
+  return {
+    name: 'Orders',
+    columns: ['Order ID', 'Date', 'Category', 'Location', 'Client', 'Report URL', 'PDF'],
+    rows: orders.map(order => [
+      order.order_id,
+      order.date,
+      order.report_category,
+      order.location,
+      order.client,
+      order.url ?? null,
+      order.pdf_report ?? null,
+    ]),
+  };
+}
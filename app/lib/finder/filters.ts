@@ -0,0 +1,101 @@
+// Suburb finder filters, read from and written to the query string
+// Shared by the finder API and page, so this module must stay free of server imports
+import type { FinderPropertyType, SuburbFinderFilters, SuburbFinderSort } from '@/app/lib/types/finder';
+
+export const FINDER_SORTS: SuburbFinderSort[] = ['msp', 'mrp', 'yield', 'growth', 'vacancy', 'supply', 'score'];
+
+// Filters and sorts only on the unlimited finder (Advanced and Portfolio plans)
+export const ADVANCED_FILTERS = ['yieldMin', 'vacancyMax', 'supplyMax', 'scores'] as const;
+export const ADVANCED_SORTS: SuburbFinderSort[] = ['yield', 'vacancy', 'supply', 'score'];
+
+const NUMBER_FILTERS = ['priceMin', 'priceMax', 'yieldMin', 'growthMin', 'vacancyMax', 'supplyMax'] as const;
+
+export const DEFAULT_FINDER_FILTERS: SuburbFinderFilters = {
+  propertyType: 'house',
+  sort: 'growth',
+  direction: 'desc',
+};
+
+// Insight score minimums travel as id:min pairs, e.g. scores=lifestyle:60,safety:70
+function parseScores(value: string | null): Record<string, number> | null {
+  if (!value) return {};
+  const scores: Record<string, number> = {};
+  for (const pair of value.split(',').filter(Boolean)) {
+    const [id, min] = pair.split(':');
+    const parsed = Number(min);
+    if (!id || min === undefined || !Number.isFinite(parsed)) return null;
+    scores[id] = parsed;
+  }
+  return scores;
+}
+
+export function parseFinderFilters(params: URLSearchParams): { filters: SuburbFinderFilters; error?: string } {
+  const filters: SuburbFinderFilters = { ...DEFAULT_FINDER_FILTERS };
+
+  (['state', 'sa3', 'lga'] as const).forEach(key => {
+    const value = params.get(key)?.trim();
+    if (value) filters[key] = value;
+  });
+
+  const propertyType = params.get('type');
+  if (propertyType) {
+    if (propertyType !== 'house' && propertyType !== 'unit') {
+      return { filters, error: 'type must be house or unit' };
+    }
+    filters.propertyType = propertyType as FinderPropertyType;
+  }
+
+  for (const key of NUMBER_FILTERS) {
+    const value = params.get(key);
+    if (value === null || value === '') continue;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      return { filters, error: `${key} must be a number` };
+    }
+    filters[key] = parsed;
+  }
+
+  const scores = parseScores(params.get('scores'));
+  if (!scores) {
+    return { filters, error: 'scores must be id:min pairs' };
+  }
+  if (Object.keys(scores).length > 0) filters.scores = scores;
+
+  const sort = params.get('sort');
+  if (sort) {
+    if (!FINDER_SORTS.includes(sort as SuburbFinderSort)) {
+      return { filters, error: `sort must be one of ${FINDER_SORTS.join(', ')}` };
+    }
+    filters.sort = sort as SuburbFinderSort;
+  }
+  const direction = params.get('dir');
+  if (direction === 'asc' || direction === 'desc') filters.direction = direction;
+
+  return { filters };
+}
+
+export function serializeFinderFilters(filters: SuburbFinderFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  (['state', 'sa3', 'lga'] as const).forEach(key => {
+    if (filters[key]) params.set(key, filters[key]);
+  });
+  params.set('type', filters.propertyType);
+  NUMBER_FILTERS.forEach(key => {
+    if (filters[key] !== undefined) params.set(key, String(filters[key]));
+  });
+  if (filters.scores && Object.keys(filters.scores).length > 0) {
+    params.set('scores', Object.entries(filters.scores).map(([id, min]) => `${id}:${min}`).join(','));
+  }
+  params.set('sort', filters.sort);
+  params.set('dir', filters.direction);
+  return params;
+}
+
+// Advanced filters or sort in use, which the limited finder does not allow
+export function getAdvancedFiltersUsed(filters: SuburbFinderFilters): string[] {
+  const used: string[] = ADVANCED_FILTERS.filter(key =>
+    key === 'scores' ? Object.keys(filters.scores ?? {}).length > 0 : filters[key] !== undefined
+  );
+  if (ADVANCED_SORTS.includes(filters.sort)) used.push('sort');
+  return used;
+}
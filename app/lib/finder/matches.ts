@@ -0,0 +1,126 @@
+// AI property match metering, per member and billing period
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { kv } from '@vercel/kv';
+import { getPlanDetails } from '@/app/lib/auth/entitlements';
+import type { User } from '@/app/lib/auth/types';
+import type { PropertyMatchUsage } from '@/app/lib/types/finder';
+
+const MATCHES_PREFIX = 'property-matches:';
+
+// A period's set outlives its month, then lapses
+const PERIOD_TTL_SECONDS = 40 * 24 * 60 * 60;
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+// In-memory fallback for local development
+const GLOBAL_MATCHES_KEY = '__MIB_PROPERTY_MATCH_STORE__' as const;
+
+function getInMemoryStore(): Map<string, Set<string>> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_MATCHES_KEY]?: Map<string, Set<string>>;
+  };
+  if (!g[GLOBAL_MATCHES_KEY]) {
+    g[GLOBAL_MATCHES_KEY] = new Map<string, Set<string>>();
+  }
+  return g[GLOBAL_MATCHES_KEY];
+}
+
+// Billing periods are calendar months, as for report credits
+function periodKey(email: string, now: Date = new Date()): string {
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  return `${MATCHES_PREFIX}${email.toLowerCase()}:${now.getFullYear()}-${month}`;
+}
+
+// Check and record in one step, so concurrent searches can't both spend the last match.
+// ARGV: limit (-1 for unlimited), TTL in seconds, then property IDs best first.
+// Returns the period's count and the IDs that may be shown.
+const METER_SCRIPT = `
+local used = redis.call('scard', KEYS[1])
+local limit = tonumber(ARGV[1])
+local allowed = {}
+for i = 3, #ARGV do
+  if redis.call('sismember', KEYS[1], ARGV[i]) == 1 then
+    table.insert(allowed, ARGV[i])
+  elseif limit < 0 or used < limit then
+    redis.call('sadd', KEYS[1], ARGV[i])
+    used = used + 1
+    table.insert(allowed, ARGV[i])
+  end
+end
+if used > 0 then
+  redis.call('expire', KEYS[1], tonumber(ARGV[2]))
+end
+return {used, allowed}`;
+
+// Each period's matched property IDs are one set per member
+const matchStore = {
+  async count(email: string): Promise<number> {
+    if (isKVConfigured) {
+      return kv.scard(periodKey(email));
+    }
+    return getInMemoryStore().get(periodKey(email))?.size ?? 0;
+  },
+
+  // Property IDs that may be shown, of those given, and the period's count after recording them
+  async record(email: string, gnafIds: string[], limit: number): Promise<{ used: number; allowed: Set<string> }> {
+    const key = periodKey(email);
+    if (isKVConfigured) {
+      const [used, allowed] = await kv.eval<string[], [number, string[]]>(
+        METER_SCRIPT,
+        [key],
+        [String(limit), String(PERIOD_TTL_SECONDS), ...gnafIds]
+      );
+      return { used, allowed: new Set(allowed) };
+    }
+
+    // Runs without awaiting, so it is already atomic in one process
+    const store = getInMemoryStore();
+    const matched = store.get(key) || new Set<string>();
+    const allowed = new Set<string>();
+    for (const gnafId of gnafIds) {
+      if (matched.has(gnafId) || limit < 0 || matched.size < limit) {
+        matched.add(gnafId);
+        allowed.add(gnafId);
+      }
+    }
+    store.set(key, matched);
+    return { used: matched.size, allowed };
+  },
+};
+
+function calculateMatchUsage(user: User, used: number): PropertyMatchUsage {
+  const limit = getPlanDetails(user.bestPlanId).propertyMatches;
+  return {
+    propertyMatchesUsed: used,
+    propertyMatchesLimit: limit,
+    propertyMatchesLeft: limit === -1 ? -1 : Math.max(0, limit - used),
+  };
+}
+
+export async function getMatchUsage(user: User): Promise<PropertyMatchUsage> {
+  return calculateMatchUsage(user, await matchStore.count(user.email));
+}
+
+/**
+ * Meter a ranked list of matches against the member's allowance. Properties already
+ * matched this period are free; new ones are shown while allowance remains and recorded.
+ */
+export async function meterMatches<T extends { gnafId: string }>(
+  user: User,
+  matches: T[]
+): Promise<{ allowed: T[]; withheld: number; usage: PropertyMatchUsage }> {
+  const limit = getPlanDetails(user.bestPlanId).propertyMatches;
+  if (matches.length === 0) {
+    return { allowed: [], withheld: 0, usage: await getMatchUsage(user) };
+  }
+
+  const { used, allowed: allowedIds } = await matchStore.record(
+    user.email,
+    Array.from(new Set(matches.map(match => match.gnafId))),
+    limit
+  );
+
+  const allowed = matches.filter(match => allowedIds.has(match.gnafId));
+  return { allowed, withheld: matches.length - allowed.length, usage: calculateMatchUsage(user, used) };
+}
@@ -0,0 +1,73 @@
+// Saved suburb finder filter presets, one list per member
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { v4 as uuidv4 } from 'uuid';
+import { kv } from '@vercel/kv';
+import type { SuburbFinderFilters, SuburbFinderPreset } from '@/app/lib/types/finder';
+
+const PRESETS_PREFIX = 'finder-presets:';
+
+// Presets a member can keep, by suburb finder access
+export const PRESET_LIMITS = { limited: 1, unlimited: 20 } as const;
+
+export const MAX_PRESET_NAME_LENGTH = 60;
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+// In-memory fallback for local development
+const GLOBAL_PRESETS_KEY = '__MIB_FINDER_PRESET_STORE__' as const;
+
+function getInMemoryStore(): Map<string, SuburbFinderPreset[]> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_PRESETS_KEY]?: Map<string, SuburbFinderPreset[]>;
+  };
+  if (!g[GLOBAL_PRESETS_KEY]) {
+    g[GLOBAL_PRESETS_KEY] = new Map<string, SuburbFinderPreset[]>();
+  }
+  return g[GLOBAL_PRESETS_KEY];
+}
+
+async function writePresets(key: string, presets: SuburbFinderPreset[]): Promise<void> {
+  if (isKVConfigured) {
+    await kv.set(`${PRESETS_PREFIX}${key}`, JSON.stringify(presets));
+  } else {
+    getInMemoryStore().set(key, presets);
+  }
+}
+
+// Presets are kept newest first
+export async function listPresets(email: string): Promise<SuburbFinderPreset[]> {
+  const key = email.toLowerCase();
+  if (isKVConfigured) {
+    const data = await kv.get<string | SuburbFinderPreset[]>(`${PRESETS_PREFIX}${key}`);
+    if (!data) return [];
+    return typeof data === 'string' ? JSON.parse(data) : data;
+  }
+  return getInMemoryStore().get(key) || [];
+}
+
+export async function savePreset(
+  email: string,
+  name: string,
+  filters: SuburbFinderFilters
+): Promise<SuburbFinderPreset> {
+  const key = email.toLowerCase();
+  const preset: SuburbFinderPreset = {
+    id: uuidv4(),
+    name,
+    filters,
+    createdAt: new Date().toISOString(),
+  };
+  await writePresets(key, [preset, ...(await listPresets(key))]);
+  return preset;
+}
+
+// Whether a preset was found and removed
+export async function deletePreset(email: string, presetId: string): Promise<boolean> {
+  const key = email.toLowerCase();
+  const presets = await listPresets(key);
+  const remaining = presets.filter(preset => preset.id !== presetId);
+  if (remaining.length === presets.length) return false;
+  await writePresets(key, remaining);
+  return true;
+}
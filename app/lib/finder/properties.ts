@@ -0,0 +1,220 @@
+// Property finder: matches properties to a member's budget, size, type, yield and location
+import { resolveReportEntitlement } from '@/app/lib/auth/entitlements';
+import { flaskJson, mapWithConcurrency, type FlaskResult } from '@/app/lib/flask/client';
+import { fetchPropertySection } from '@/app/lib/reports/property-sections';
+import { toAmount } from '@/app/lib/reports/section-data';
+import type { CompareValue } from '@/app/lib/types/compare';
+import type { PropertyFinderCriteria, PropertyFinderType, PropertyMatch } from '@/app/lib/types/finder';
+
+export const MAX_FINDER_SUBURBS = 10;
+
+// Addresses looked up per suburb; each costs two (cached) report fetches
+const CANDIDATES_PER_SUBURB = 25;
+
+// Property reports fetched from Flask at once while matching
+const DETAIL_CONCURRENCY = 8;
+
+const PROPERTY_TYPES: PropertyFinderType[] = ['house', 'unit', 'townhouse'];
+const STATES = ['NSW', 'VIC', 'QLD', 'WA', 'SA', 'TAS', 'ACT', 'NT'];
+
+// One address as Flask's address search returns it
+interface AddressResult {
+  id?: string;
+  name?: string;
+  display_name?: string;
+  property_type?: string;
+}
+
+interface Candidate {
+  gnafId: string;
+  address: string;
+  suburb: string;
+}
+
+function toNumber(value: unknown): number | undefined {
+  return toAmount(value) ?? undefined;
+}
+
+// Flask sends valuations as { key, key_f } pairs, e.g. 1200000 and "$1.2m"
+function readAmount(raw: unknown, formatted: unknown): CompareValue | null {
+  const value = toAmount(raw) ?? toAmount(formatted);
+  if (value === null) return null;
+  return { value, display: typeof formatted === 'string' && formatted ? formatted : `$${value.toLocaleString('en-AU')}` };
+}
+
+export function parseFinderCriteria(body: unknown): { criteria: PropertyFinderCriteria; error?: string } {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const criteria: PropertyFinderCriteria = { suburbs: [] };
+
+  if (input.suburbs !== undefined) {
+    if (!Array.isArray(input.suburbs) || input.suburbs.some(suburb => typeof suburb !== 'string')) {
+      return { criteria, error: 'suburbs must be a list of suburb names' };
+    }
+    criteria.suburbs = Array.from(new Set((input.suburbs as string[]).map(suburb => suburb.trim()).filter(Boolean)));
+    if (criteria.suburbs.length > MAX_FINDER_SUBURBS) {
+      return { criteria, error: `Search up to ${MAX_FINDER_SUBURBS} suburbs at a time` };
+    }
+  }
+
+  if (input.state !== undefined && input.state !== '') {
+    const state = String(input.state).toUpperCase();
+    if (!STATES.includes(state)) {
+      return { criteria, error: `state must be one of ${STATES.join(', ')}` };
+    }
+    criteria.state = state;
+  }
+
+  if (criteria.suburbs.length === 0) {
+    return { criteria, error: 'Choose at least one suburb' };
+  }
+
+  if (input.propertyType !== undefined && input.propertyType !== '') {
+    if (!PROPERTY_TYPES.includes(input.propertyType as PropertyFinderType)) {
+      return { criteria, error: `propertyType must be one of ${PROPERTY_TYPES.join(', ')}` };
+    }
+    criteria.propertyType = input.propertyType as PropertyFinderType;
+  }
+
+  for (const key of ['budgetMin', 'budgetMax', 'bedroomsMin', 'yieldMin'] as const) {
+    const value = input[key];
+    if (value === undefined || value === null || value === '') continue;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      return { criteria, error: `${key} must be a positive number` };
+    }
+    criteria[key] = parsed;
+  }
+
+  if (criteria.budgetMin !== undefined && criteria.budgetMax !== undefined && criteria.budgetMin > criteria.budgetMax) {
+    return { criteria, error: 'budgetMin must not exceed budgetMax' };
+  }
+
+  return { criteria };
+}
+
+// Keep only properties that meet every criterion
+export function meetsCriteria(match: PropertyMatch, criteria: PropertyFinderCriteria): boolean {
+  const price = match.price?.value ?? null;
+  const yieldValue = match.yield?.value ?? null;
+
+  if (criteria.suburbs.length > 0 && !criteria.suburbs.some(suburb => suburb.toLowerCase() === match.suburb?.toLowerCase())) {
+    return false;
+  }
+  if (criteria.state && match.state && match.state.toUpperCase() !== criteria.state) return false;
+  if (criteria.propertyType && match.propertyType && !match.propertyType.toLowerCase().includes(criteria.propertyType)) {
+    return false;
+  }
+  if (criteria.budgetMin !== undefined && (price === null || price < criteria.budgetMin)) return false;
+  if (criteria.budgetMax !== undefined && (price === null || price > criteria.budgetMax)) return false;
+  if (criteria.bedroomsMin !== undefined && (match.bedrooms === undefined || match.bedrooms < criteria.bedroomsMin)) return false;
+  if (criteria.yieldMin !== undefined && (yieldValue === null || yieldValue < criteria.yieldMin)) return false;
+  return true;
+}
+
+// Addresses in a suburb, from the same address search as the property search box
+async function fetchCandidates(suburb: string, state?: string): Promise<FlaskResult<Candidate[]>> {
+  const result = await flaskJson<{ results?: AddressResult[] }>('/api/property/address', {
+    address: suburb,
+    limit: String(CANDIDATES_PER_SUBURB),
+  });
+  if (!result.ok) return result;
+
+  const candidates = (result.data.results || [])
+    .map(item => ({ gnafId: item.id || '', address: item.display_name || item.name || '' }))
+    .filter(item => item.gnafId && (!state || item.gnafId.slice(2, 2 + state.length).toUpperCase() === state))
+    // Address search matches street names too; keep addresses in the suburb itself
+    .filter(item => item.address.split(',').pop()?.trim().toLowerCase() === suburb.toLowerCase())
+    .map(item => ({ ...item, suburb }));
+  return { ok: true, data: candidates };
+}
+
+// A candidate's size and valuation, from its property report's info and AVM sections.
+// Read unblurred so matching is exact; withholdLockedFigures decides what the member sees.
+async function loadMatch(candidate: Candidate): Promise<FlaskResult<PropertyMatch>> {
+  const [info, avm] = await Promise.all([
+    fetchPropertySection('info', candidate.gnafId, 'false'),
+    fetchPropertySection('avm', candidate.gnafId, 'false'),
+  ]);
+  if (!info?.ok) return info ?? { ok: false, error: { kind: 'not_found', message: 'No property info' } };
+
+  const infoData = info.data as { structural_vars?: Record<string, unknown>; property_type?: string };
+  const structure = infoData.structural_vars || {};
+  const valuation = (avm?.ok ? avm.data : {}) as Record<string, unknown>;
+
+  const price = readAmount(valuation.predicted_price, valuation.predicted_price_f);
+  const rent = readAmount(valuation.rent_value, valuation.rent_value_f);
+  const grossYield = price?.value && rent?.value ? (rent.value * 52 / price.value) * 100 : null;
+
+  return {
+    ok: true,
+    data: {
+      gnafId: candidate.gnafId,
+      address: candidate.address,
+      suburb: candidate.suburb,
+      state: candidate.gnafId.slice(2, 5).replace(/\d/g, '').toUpperCase() || undefined,
+      propertyType: String(structure.property_type ?? infoData.property_type ?? '') || undefined,
+      bedrooms: toNumber(structure.bedrooms),
+      bathrooms: toNumber(structure.bathrooms),
+      carSpaces: toNumber(structure.garage_spaces),
+      price,
+      rent,
+      yield: grossYield === null ? null : { value: grossYield, display: `${grossYield.toFixed(1)}%` },
+      reasons: [],
+    },
+  };
+}
+
+// Why a property matched, in the member's own terms; without figures when they are withheld
+function matchReasons(match: PropertyMatch, criteria: PropertyFinderCriteria, showFigures: boolean = true): string[] {
+  const reasons: string[] = [];
+  if (criteria.budgetMin !== undefined || criteria.budgetMax !== undefined) {
+    reasons.push(showFigures ? `Estimated at ${match.price?.display} (within budget)` : 'Estimated value within budget');
+  }
+  if (criteria.bedroomsMin !== undefined) reasons.push(`${match.bedrooms} bedrooms`);
+  if (criteria.yieldMin !== undefined) {
+    reasons.push(showFigures ? `Gross yield ${match.yield?.display}` : `Gross yield of at least ${criteria.yieldMin}%`);
+  }
+  return reasons;
+}
+
+/**
+ * Matches as the signed-in member may see them: estimated value, rent and yield
+ * only for properties whose report they see in full, as on the report itself.
+ */
+export async function withholdLockedFigures(
+  matches: PropertyMatch[],
+  criteria: PropertyFinderCriteria
+): Promise<PropertyMatch[]> {
+  return mapWithConcurrency(matches, DETAIL_CONCURRENCY, async match => {
+    const { hasFullAccess } = await resolveReportEntitlement('property', match.gnafId);
+    if (hasFullAccess) return match;
+    return { ...match, price: null, rent: null, yield: null, reasons: matchReasons(match, criteria, false) };
+  });
+}
+
+/**
+ * Properties matching the criteria, best first by gross yield. Candidates are the
+ * addresses in each chosen suburb, matched on their property report's info and AVM.
+ * A suburb Flask has no addresses for is an error, as is Flask being unavailable.
+ */
+export async function findProperties(criteria: PropertyFinderCriteria): Promise<FlaskResult<PropertyMatch[]>> {
+  const candidates: Candidate[] = [];
+  for (const result of await Promise.all(criteria.suburbs.map(suburb => fetchCandidates(suburb, criteria.state)))) {
+    if (!result.ok) return result;
+    candidates.push(...result.data);
+  }
+
+  const loaded = await mapWithConcurrency(candidates, DETAIL_CONCURRENCY, loadMatch);
+
+  // Properties without a report are skipped; the search fails only if none could be read
+  const failure = loaded.find(result => !result.ok && result.error.kind !== 'not_found');
+  if (failure && !failure.ok && !loaded.some(result => result.ok)) return failure;
+
+  const matches = loaded
+    .flatMap(result => result.ok ? [result.data] : [])
+    .filter(match => meetsCriteria(match, criteria))
+    .map(match => ({ ...match, reasons: matchReasons(match, criteria) }));
+
+  matches.sort((a, b) => (b.yield?.value ?? -Infinity) - (a.yield?.value ?? -Infinity));
+  return { ok: true, data: matches };
+}
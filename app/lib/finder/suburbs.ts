@@ -0,0 +1,244 @@
+// Suburb finder: screens the suburbs of an SA3 or LGA against market filters
+import { resolveReportEntitlement } from '@/app/lib/auth/entitlements';
+import { getOrFetch, type CacheTtl } from '@/app/lib/flask/cache';
+import {
+  flaskJson,
+  mapWithConcurrency,
+  suburbGraph,
+  type FlaskError,
+  type FlaskResult,
+  type GraphPayload,
+} from '@/app/lib/flask/client';
+import { parseLeadingNumber, readFormatted } from '@/app/lib/reports/compare';
+import type { CompareValue } from '@/app/lib/types/compare';
+import type { FinderPropertyType, SuburbFinderFilters, SuburbFinderRow, SuburbFinderSort } from '@/app/lib/types/finder';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CANDIDATES_TTL: CacheTtl = { freshMs: DAY_MS, staleMs: 7 * DAY_MS };
+
+const CANDIDATE_PAGE_SIZE = 200;
+
+// Suburbs screened per search, each on every SCREEN_SECTIONS graph; an SA3 or LGA
+// rarely has more, and a search is always narrowed to one of them
+export const MAX_CANDIDATES = 80;
+
+// Suburbs fetched from Flask at once while screening
+const SCREEN_CONCURRENCY = 8;
+
+// Graphs each candidate is screened on; each is cached like the suburb report's own
+const SCREEN_SECTIONS = ['msp', 'yield', 'vacancy', 'market_insights', 'insights'] as const;
+
+interface SuburbListResponse {
+  results?: Array<{ name?: string; area_name?: string; information?: { state?: string; sa3?: string; lga?: string } }>;
+}
+
+export interface FinderCandidate {
+  name: string;
+  state?: string;
+  sa3?: string;
+  lga?: string;
+}
+
+export interface CandidateList {
+  suburbs: FinderCandidate[];
+  capped: boolean;
+}
+
+type AreaFilters = Pick<SuburbFinderFilters, 'state' | 'sa3' | 'lga'>;
+
+async function fetchCandidates(area: AreaFilters): Promise<FlaskResult<CandidateList>> {
+  const params: Record<string, string> = {};
+  if (area.state) params.state = area.state;
+  if (area.sa3) params.sa3 = area.sa3;
+  if (area.lga) params.lga = area.lga;
+
+  const suburbs = new Map<string, FinderCandidate>();
+  let capped = false;
+
+  for (let page = 1; suburbs.size < MAX_CANDIDATES; page++) {
+    const result = await flaskJson<SuburbListResponse>('/api/suburb/suburbs', {
+      ...params,
+      limit: String(CANDIDATE_PAGE_SIZE),
+      page: String(page),
+    });
+    if (!result.ok) {
+      if (result.error.kind === 'not_found' && page > 1) break;
+      return result;
+    }
+
+    const results = result.data.results || [];
+    // Flask matches loosely, so keep only suburbs in the requested area
+    results
+      .filter(({ information }) =>
+        (!area.state || information?.state?.toUpperCase() === area.state.toUpperCase())
+        && (!area.sa3 || information?.sa3 === area.sa3)
+        && (!area.lga || information?.lga === area.lga)
+      )
+      .forEach(({ name, area_name, information }) => {
+        const suburb = area_name || name;
+        if (!suburb || suburbs.has(suburb)) return;
+        if (suburbs.size >= MAX_CANDIDATES) {
+          capped = true;
+          return;
+        }
+        suburbs.set(suburb, { name: suburb, state: information?.state, sa3: information?.sa3, lga: information?.lga });
+      });
+
+    if (results.length < CANDIDATE_PAGE_SIZE) break;
+    if (suburbs.size >= MAX_CANDIDATES) capped = true;
+  }
+
+  if (suburbs.size === 0) {
+    return { ok: false, error: { kind: 'not_found', message: 'No suburbs found in this area' } };
+  }
+  return { ok: true, data: { suburbs: Array.from(suburbs.values()), capped } };
+}
+
+// Suburbs in the requested area, cached since membership rarely changes
+export async function resolveCandidates(area: AreaFilters): Promise<FlaskResult<CandidateList>> {
+  let failure: FlaskError | null = null;
+  const key = `finder-candidates|state=${area.state ?? ''}|sa3=${area.sa3 ?? ''}|lga=${area.lga ?? ''}`;
+  const candidates = await getOrFetch(key, CANDIDATES_TTL, async () => {
+    const result = await fetchCandidates(area);
+    if (result.ok) return result.data;
+    failure = result.error;
+    return null;
+  });
+
+  if (candidates) return { ok: true, data: candidates };
+  return { ok: false, error: failure ?? { kind: 'upstream_down', message: 'Backend unavailable' } };
+}
+
+function pathAt(data: GraphPayload | null, path: string[]): Record<string, unknown> | null {
+  let current: unknown = data;
+  for (const key of path) {
+    if (!current || typeof current !== 'object') return null;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current && typeof current === 'object' ? current as Record<string, unknown> : null;
+}
+
+// Percent figures are compared on the number Flask displays, e.g. "4.5%" -> 4.5
+function readPercent(source: Record<string, unknown> | null, key: string): CompareValue | null {
+  const value = readFormatted(source, key);
+  if (!value?.display?.includes('%')) return value;
+  return { ...value, value: parseLeadingNumber(value.display) };
+}
+
+interface ScreenedSuburb {
+  row: SuburbFinderRow;
+  scoreNames: Record<string, string>;
+}
+
+async function screenSuburb(
+  candidate: FinderCandidate,
+  type: FinderPropertyType,
+  blur: 'true' | 'false' = 'false'
+): Promise<ScreenedSuburb | null> {
+  // Unblurred so filters see real figures; blurLockedRows re-reads what the member is shown
+  const results = await Promise.all(SCREEN_SECTIONS.map(section => suburbGraph(section, candidate.name, { blur })));
+  const [msp, yields, vacancy, supply, insights] = results.map(result => (result.ok ? result.data : null));
+  if (!msp) return null;
+
+  const scores: Record<string, number> = {};
+  const scoreNames: Record<string, string> = {};
+  Object.entries(pathAt(insights, ['score']) ?? {}).forEach(([id, item]) => {
+    const { name, value } = (item ?? {}) as { name?: unknown; value?: unknown };
+    const parsed = typeof value === 'string' ? parseLeadingNumber(value) : typeof value === 'number' ? value : null;
+    if (parsed === null) return;
+    scores[id] = parsed;
+    scoreNames[id] = typeof name === 'string' ? name : id;
+  });
+  const scoreValues = Object.values(scores);
+  const meanScore = scoreValues.length > 0
+    ? Math.round(scoreValues.reduce((a, b) => a + b, 0) / scoreValues.length)
+    : null;
+
+  const row: SuburbFinderRow = {
+    ...candidate,
+    msp: readFormatted(pathAt(msp, [type, 'suburb']), 'msp'),
+    mrp: readFormatted(pathAt(msp, [type, 'suburb']), 'mrp'),
+    yield: readPercent(pathAt(yields, [type, 'suburb']), 'yield'),
+    growth: readPercent(pathAt(msp, [type, 'suburb']), '1y_g'),
+    vacancy: readPercent(pathAt(vacancy, [type, 'suburb']), 'vacancy'),
+    supply: readFormatted(pathAt(supply, ['months_of_supply', type])),
+    score: meanScore === null ? null : { value: meanScore, display: `${meanScore}/100` },
+    scores,
+  };
+  return { row, scoreNames };
+}
+
+/**
+ * Figures for every candidate, plus the names of the insight scores seen among them.
+ * Suburbs without a median price graph are left out.
+ */
+export async function screenCandidates(
+  candidates: FinderCandidate[],
+  type: FinderPropertyType
+): Promise<{ rows: SuburbFinderRow[]; scoreNames: Record<string, string> }> {
+  const screened = await mapWithConcurrency(candidates, SCREEN_CONCURRENCY, candidate => screenSuburb(candidate, type));
+  const rows: SuburbFinderRow[] = [];
+  const scoreNames: Record<string, string> = {};
+  screened.forEach(entry => {
+    if (!entry) return;
+    rows.push(entry.row);
+    Object.entries(entry.scoreNames).forEach(([id, name]) => {
+      scoreNames[id] ??= name;
+    });
+  });
+  return { rows, scoreNames };
+}
+
+// A missing figure fails any filter on it
+function atLeast(value: CompareValue | null, min: number | undefined): boolean {
+  return min === undefined || (value?.value != null && value.value >= min);
+}
+
+function atMost(value: CompareValue | null, max: number | undefined): boolean {
+  return max === undefined || (value?.value != null && value.value <= max);
+}
+
+export function matchesFilters(row: SuburbFinderRow, filters: SuburbFinderFilters): boolean {
+  return atLeast(row.msp, filters.priceMin)
+    && atMost(row.msp, filters.priceMax)
+    && atLeast(row.yield, filters.yieldMin)
+    && atLeast(row.growth, filters.growthMin)
+    && atMost(row.vacancy, filters.vacancyMax)
+    && atMost(row.supply, filters.supplyMax)
+    && Object.entries(filters.scores ?? {}).every(([id, min]) => (row.scores[id] ?? -Infinity) >= min);
+}
+
+// Rank by the sort figure; suburbs missing it go last, ties by name
+export function rankRows(rows: SuburbFinderRow[], sort: SuburbFinderSort, direction: 'asc' | 'desc'): SuburbFinderRow[] {
+  return [...rows].sort((a, b) => {
+    const av = a[sort]?.value;
+    const bv = b[sort]?.value;
+    if (av == null && bv == null) return a.name.localeCompare(b.name);
+    if (av == null) return 1;
+    if (bv == null) return -1;
+    return (direction === 'asc' ? av - bv : bv - av) || a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Rows as the signed-in member may see them: suburbs whose report they don't see in
+ * full are re-read blurred, so each figure is masked as Flask masks it on the report.
+ */
+export async function blurLockedRows(rows: SuburbFinderRow[], type: FinderPropertyType): Promise<SuburbFinderRow[]> {
+  return mapWithConcurrency(rows, SCREEN_CONCURRENCY, async row => {
+    const { blur } = await resolveReportEntitlement('suburb', row.name);
+    if (blur === 'false') return row;
+
+    const { name, state, sa3, lga } = row;
+    const blurred = await screenSuburb({ name, state, sa3, lga }, type, 'true');
+    return blurred?.row ?? {
+      name, state, sa3, lga,
+      msp: null, mrp: null, yield: null, growth: null, vacancy: null, supply: null, score: null, scores: {},
+    };
+  });
+}
+
+// The limited finder shows prices and growth only
+export function withholdAdvancedFigures(row: SuburbFinderRow): SuburbFinderRow {
+  return { ...row, yield: null, vacancy: null, supply: null, score: null, scores: {} };
+}
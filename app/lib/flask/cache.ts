@@ -0,0 +1,219 @@
+// Response cache for Flask graph sections
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { kv } from '@vercel/kv';
+
+const CACHE_PREFIX = 'flask-cache:';
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface CacheTtl {
+  freshMs: number; // Served as-is
+  staleMs: number; // Served while a refresh runs in the background
+}
+
+const DEFAULT_TTL: CacheTtl = { freshMs: 6 * HOUR_MS, staleMs: DAY_MS };
+
+// Graph data changes at most daily; census-based sections far less often
+const SECTION_TTLS: Record<string, CacheTtl> = {
+  // Market data refreshes overnight
+  msp: { freshMs: 12 * HOUR_MS, staleMs: DAY_MS },
+  mrp: { freshMs: 12 * HOUR_MS, staleMs: DAY_MS },
+  yield: { freshMs: 12 * HOUR_MS, staleMs: DAY_MS },
+  volume: { freshMs: 12 * HOUR_MS, staleMs: DAY_MS },
+  vacancy: { freshMs: 12 * HOUR_MS, staleMs: DAY_MS },
+  growth: { freshMs: 12 * HOUR_MS, staleMs: DAY_MS },
+  market_insights: { freshMs: 12 * HOUR_MS, staleMs: DAY_MS },
+  avm: { freshMs: 12 * HOUR_MS, staleMs: DAY_MS },
+  history: { freshMs: 12 * HOUR_MS, staleMs: DAY_MS },
+
+  // Development applications are picked up through the day
+  das_map: { freshMs: 3 * HOUR_MS, staleMs: 12 * HOUR_MS },
+  das_table: { freshMs: 3 * HOUR_MS, staleMs: 12 * HOUR_MS },
+
+  // Census and boundary data
+  demographics: { freshMs: 7 * DAY_MS, staleMs: 14 * DAY_MS },
+  income: { freshMs: 7 * DAY_MS, staleMs: 14 * DAY_MS },
+  industry: { freshMs: 7 * DAY_MS, staleMs: 14 * DAY_MS },
+  occupations: { freshMs: 7 * DAY_MS, staleMs: 14 * DAY_MS },
+  ethnicity: { freshMs: 7 * DAY_MS, staleMs: 14 * DAY_MS },
+  ethnicity_chart: { freshMs: 7 * DAY_MS, staleMs: 14 * DAY_MS },
+  ethnicity_ts: { freshMs: 7 * DAY_MS, staleMs: 14 * DAY_MS },
+  population: { freshMs: 7 * DAY_MS, staleMs: 14 * DAY_MS },
+  population_forecast: { freshMs: 7 * DAY_MS, staleMs: 14 * DAY_MS },
+  zoning: { freshMs: DAY_MS, staleMs: 7 * DAY_MS },
+  zoning_map: { freshMs: DAY_MS, staleMs: 7 * DAY_MS },
+  zoning_chart: { freshMs: DAY_MS, staleMs: 7 * DAY_MS },
+  schools_map: { freshMs: DAY_MS, staleMs: 7 * DAY_MS },
+  schools_table: { freshMs: DAY_MS, staleMs: 7 * DAY_MS },
+  schools_catchments: { freshMs: DAY_MS, staleMs: 7 * DAY_MS },
+  public_schools: { freshMs: DAY_MS, staleMs: 7 * DAY_MS },
+  private_schools: { freshMs: DAY_MS, staleMs: 7 * DAY_MS },
+};
+
+interface CacheEntry<T> {
+  data: T;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+// In-memory fallback for local development
+const GLOBAL_CACHE_KEY = '__MIB_FLASK_CACHE__' as const;
+
+function getInMemoryStore(): Map<string, CacheEntry<unknown>> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_CACHE_KEY]?: Map<string, CacheEntry<unknown>>;
+  };
+  if (!g[GLOBAL_CACHE_KEY]) {
+    g[GLOBAL_CACHE_KEY] = new Map<string, CacheEntry<unknown>>();
+  }
+  return g[GLOBAL_CACHE_KEY];
+}
+
+// Background refreshes in flight, so a stale key is only refetched once
+const refreshing = new Set<string>();
+
+const cacheStore = {
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    if (isKVConfigured) {
+      const data = await kv.get<string | CacheEntry<T>>(`${CACHE_PREFIX}${key}`);
+      if (!data) return null;
+      return typeof data === 'string' ? JSON.parse(data) : data;
+    }
+
+    const entry = getInMemoryStore().get(key) as CacheEntry<T> | undefined;
+    if (!entry) return null;
+    if (entry.staleUntil <= Date.now()) {
+      getInMemoryStore().delete(key);
+      return null;
+    }
+    return entry;
+  },
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    if (isKVConfigured) {
+      // Let Redis drop the entry once it is too stale to serve
+      const ttlSeconds = Math.max(1, Math.ceil((entry.staleUntil - Date.now()) / 1000));
+      await kv.set(`${CACHE_PREFIX}${key}`, JSON.stringify(entry), { ex: ttlSeconds });
+    } else {
+      getInMemoryStore().set(key, entry);
+    }
+  },
+
+  // Delete every key matching a glob pattern ('*' wildcards); returns how many were removed
+  async purge(pattern: string): Promise<number> {
+    if (isKVConfigured) {
+      let deleted = 0;
+      let cursor: string | number = 0;
+      do {
+        const [next, keys]: [string | number, string[]] = await kv.scan(cursor, {
+          match: `${CACHE_PREFIX}${pattern}`,
+          count: 500,
+        });
+        if (keys.length > 0) {
+          deleted += await kv.del(...keys);
+        }
+        cursor = next;
+      } while (String(cursor) !== '0');
+      return deleted;
+    }
+
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    const matcher = new RegExp(`^${escaped}$`);
+    const store = getInMemoryStore();
+    let deleted = 0;
+    for (const key of Array.from(store.keys())) {
+      if (matcher.test(key)) {
+        store.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  },
+};
+
+// Graph name from an endpoint path, e.g. /suburb_report/graphs/msp/Bondi -> msp
+export function getGraphName(endpoint: string): string {
+  const match = endpoint.match(/\/graphs\/([^/]+)/);
+  return match ? match[1] : endpoint;
+}
+
+export function getSectionTtl(endpoint: string): CacheTtl {
+  return SECTION_TTLS[getGraphName(endpoint)] || DEFAULT_TTL;
+}
+
+// Cache key from the endpoint (which carries the entity) and its sorted params,
+// so blurred and unblurred responses are cached separately. The endpoint is
+// lowercased so /msp/Bondi and /msp/bondi share an entry and purge together.
+export function getCacheKey(endpoint: string, params: Record<string, string>): string {
+  const query = Object.keys(params)
+    .sort()
+    .map(key => `${key}=${params[key]}`)
+    .join('&');
+  const path = endpoint.toLowerCase();
+  return query ? `${path}|${query}` : path;
+}
+
+async function refresh<T>(
+  key: string,
+  ttl: CacheTtl,
+  fetcher: () => Promise<T | null>
+): Promise<T | null> {
+  const data = await fetcher();
+  if (data !== null) {
+    const now = Date.now();
+    try {
+      await cacheStore.set(key, {
+        data,
+        freshUntil: now + ttl.freshMs,
+        staleUntil: now + ttl.freshMs + ttl.staleMs,
+      });
+    } catch (error) {
+      // A failed cache write must not fail the request
+      console.warn(`[Cache] Write of ${key} failed:`, error);
+    }
+  }
+  return data;
+}
+
+/**
+ * Stale-while-revalidate lookup. The fetcher returns null for results that
+ * must not be cached (errors); those are passed through as a miss.
+ */
+export async function getOrFetch<T>(
+  key: string,
+  ttl: CacheTtl,
+  fetcher: () => Promise<T | null>
+): Promise<T | null> {
+  let entry: CacheEntry<T> | null = null;
+  try {
+    entry = await cacheStore.get<T>(key);
+  } catch (error) {
+    console.warn('[Cache] Read failed, fetching directly:', error);
+  }
+
+  const now = Date.now();
+  if (entry && entry.freshUntil > now) {
+    return entry.data;
+  }
+
+  if (entry && entry.staleUntil > now) {
+    if (!refreshing.has(key)) {
+      refreshing.add(key);
+      refresh(key, ttl, fetcher)
+        .catch(error => console.warn(`[Cache] Background refresh of ${key} failed:`, error))
+        .finally(() => refreshing.delete(key));
+    }
+    return entry.data;
+  }
+
+  return refresh(key, ttl, fetcher);
+}
+
+// Remove cached responses whose key matches a glob pattern, e.g. '/property/graphs/*|*gnaf_id=GANSW1&*'
+export async function purgeCache(pattern: string = '*'): Promise<number> {
+  return cacheStore.purge(pattern);
+}
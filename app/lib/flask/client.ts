@@ -0,0 +1,265 @@
+// Flask backend client shared by all API routes
+// Handles auth, timeouts, retries and classifies failures so routes can report them
+import { getCacheKey, getOrFetch, getSectionTtl } from './cache';
+
+const FLASK_BACKEND_URL = process.env.FLASK_BACKEND_URL || 'http://localhost:2025';
+const FLASK_API_KEY = process.env.FLASK_API_KEY || 'mib_internal_cbf2508cf8';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 250;
+
+// Statuses worth retrying; anything else is a definitive answer from Flask
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export type FlaskErrorKind = 'not_found' | 'upstream_down' | 'bad_payload';
+
+export interface FlaskError {
+  kind: FlaskErrorKind;
+  message: string;
+  status?: number; // Upstream HTTP status, when Flask responded
+  timedOut?: boolean;
+}
+
+export type FlaskResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: FlaskError };
+
+// Graph endpoints return either JSON or an HTML fragment
+export type GraphPayload = Record<string, unknown>;
+
+export interface FlaskRequestOptions {
+  timeoutMs?: number;
+  retries?: number;
+  cache?: boolean; // Graph responses are cached unless set to false
+}
+
+// Absolute URL on the Flask backend, for links handed to the browser (e.g. PDF reports)
+export function getFlaskUrl(path: string): string {
+  return `${FLASK_BACKEND_URL}${path}`;
+}
+
+function buildUrl(endpoint: string, params: Record<string, string>): string {
+  const url = new URL(getFlaskUrl(endpoint));
+  // Graph endpoints authenticate with a token param, /api endpoints with a Bearer header;
+  // every request carries both so callers never need to know which
+  url.searchParams.append('token', FLASK_API_KEY);
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value);
+  });
+  return url.toString();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// GET an endpoint and return its body as text, retrying transient failures
+async function requestText(
+  endpoint: string,
+  params: Record<string, string>,
+  options: FlaskRequestOptions
+): Promise<FlaskResult<string>> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const url = buildUrl(endpoint, params);
+
+  let lastError: FlaskError = { kind: 'upstream_down', message: 'Backend unavailable' };
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'Accept': '*/*',
+          'Authorization': `Bearer ${FLASK_API_KEY}`,
+        },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (response.ok) {
+        return { ok: true, data: await response.text() };
+      }
+
+      if (response.status === 404) {
+        return { ok: false, error: { kind: 'not_found', message: 'Not found', status: 404 } };
+      }
+
+      lastError = {
+        kind: 'upstream_down',
+        message: `Backend returned ${response.status}`,
+        status: response.status,
+      };
+      if (!RETRYABLE_STATUSES.includes(response.status)) break;
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      lastError = {
+        kind: 'upstream_down',
+        message: timedOut ? `Backend timed out after ${timeoutMs}ms` : 'Backend unreachable',
+        timedOut,
+      };
+    }
+
+    console.warn(`[Flask] ${endpoint} attempt ${attempt + 1} failed: ${lastError.message}`);
+  }
+
+  return { ok: false, error: lastError };
+}
+
+// JSON API endpoints (/api/*, /user-orders); a non-JSON body is a bad payload
+export async function flaskJson<T = Record<string, unknown>>(
+  endpoint: string,
+  params: Record<string, string> = {},
+  options: FlaskRequestOptions = {}
+): Promise<FlaskResult<T>> {
+  const result = await requestText(endpoint, params, options);
+  if (!result.ok) return result;
+
+  try {
+    return { ok: true, data: JSON.parse(result.data) as T };
+  } catch {
+    console.warn(`[Flask] ${endpoint} returned invalid JSON`);
+    return { ok: false, error: { kind: 'bad_payload', message: 'Backend returned invalid JSON' } };
+  }
+}
+
+// Plain-text endpoints; an empty body means there is nothing for this entity
+export async function flaskText(
+  endpoint: string,
+  params: Record<string, string> = {},
+  options: FlaskRequestOptions = {}
+): Promise<FlaskResult<string>> {
+  const result = await requestText(endpoint, params, options);
+  if (!result.ok) return result;
+
+  if (!result.data.trim()) {
+    return { ok: false, error: { kind: 'not_found', message: 'No data' } };
+  }
+  return result;
+}
+
+// Graph endpoints: JSON objects are returned as-is, anything else is wrapped as HTML.
+// Successful responses are cached per endpoint and params; failures never are.
+export async function flaskGraph(
+  endpoint: string,
+  params: Record<string, string> = {},
+  options: FlaskRequestOptions = {}
+): Promise<FlaskResult<GraphPayload>> {
+  if (options.cache === false) {
+    return fetchGraph(endpoint, params, options);
+  }
+
+  const failure: { error?: FlaskError } = {};
+  const data = await getOrFetch(getCacheKey(endpoint, params), getSectionTtl(endpoint), async () => {
+    const result = await fetchGraph(endpoint, params, options);
+    if (result.ok) return result.data;
+    failure.error = result.error;
+    return null;
+  });
+
+  if (data !== null) return { ok: true, data };
+  return { ok: false, error: failure.error ?? { kind: 'upstream_down', message: 'Backend unavailable' } };
+}
+
+async function fetchGraph(
+  endpoint: string,
+  params: Record<string, string>,
+  options: FlaskRequestOptions
+): Promise<FlaskResult<GraphPayload>> {
+  const result = await flaskText(endpoint, params, options);
+  if (!result.ok) return result;
+
+  try {
+    const json = JSON.parse(result.data);
+    if (json && typeof json === 'object' && !Array.isArray(json)) {
+      return { ok: true, data: json };
+    }
+  } catch {
+    // Not JSON, fall through to HTML
+  }
+  return { ok: true, data: { html: result.data } };
+}
+
+// Suburb report graphs live under /suburb_report/graphs/<endpoint>/<suburb>
+export function suburbGraph(
+  endpoint: string,
+  suburb: string,
+  params: Record<string, string> = {},
+  options: FlaskRequestOptions = {}
+): Promise<FlaskResult<GraphPayload>> {
+  return flaskGraph(`/suburb_report/graphs/${endpoint}/${encodeURIComponent(suburb)}`, params, options);
+}
+
+// Map over items with at most `limit` requests in flight, for fan-out across many suburbs
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Combine results fetched together for one section. Parts that failed come back as null;
+// the whole section only fails when no part succeeded.
+export function combineResults<K extends string, T>(
+  results: Record<K, FlaskResult<T>>
+): FlaskResult<Record<K, T | null>> {
+  const entries = Object.entries(results) as [K, FlaskResult<T>][];
+  const data = {} as Record<K, T | null>;
+  let firstError: FlaskError | null = null;
+  let anyOk = false;
+
+  for (const [key, result] of entries) {
+    if (result.ok) {
+      data[key] = result.data;
+      anyOk = true;
+    } else {
+      data[key] = null;
+      if (!firstError || firstError.kind === 'not_found') {
+        firstError = result.error;
+      }
+    }
+  }
+
+  if (anyOk || !firstError) return { ok: true, data };
+  return { ok: false, error: firstError };
+}
+
+// HTTP status a route should answer with for a Flask failure
+export function getErrorStatus(error: FlaskError): number {
+  switch (error.kind) {
+    case 'not_found':
+      return 404;
+    case 'bad_payload':
+      return 502;
+    case 'upstream_down':
+      return error.timedOut ? 504 : 503;
+  }
+}
+
+// Body fields and status for a section response. A section with no data is not an error
+// for the page, so not_found still answers 200 with null data.
+export function getSectionResult<T>(result: FlaskResult<T>): {
+  data: T | null;
+  reason?: FlaskErrorKind;
+  status: number;
+} {
+  if (result.ok) {
+    return { data: result.data, status: 200 };
+  }
+  return {
+    data: null,
+    reason: result.error.kind,
+    status: result.error.kind === 'not_found' ? 200 : getErrorStatus(result.error),
+  };
+}
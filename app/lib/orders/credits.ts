@@ -0,0 +1,345 @@
+// Monthly report credits and report unlocking
+import { v4 as uuidv4 } from 'uuid';
+import { getPlanDetails } from '@/app/lib/auth/entitlements';
+import { flaskJson, getFlaskUrl } from '@/app/lib/flask/client';
+import { fetchPropertySection } from '@/app/lib/reports/property-sections';
+import type { User } from '@/app/lib/auth/types';
+import type { Order } from '@/app/lib/types/orders';
+import {
+  findReportOrder,
+  formatOrderDate,
+  getLocalOrders,
+  getReportUrl,
+  isInCurrentPeriod,
+  saveOrder,
+  withOrderLock,
+} from './store';
+import { captureOrderSnapshot } from './snapshots';
+
+export interface ReportUsage {
+  propertyReportsUsed: number;
+  propertyReportsLimit: number;
+  propertyReportsLeft: number;
+  suburbReportsUsed: number;
+  suburbReportsLimit: number;
+  suburbReportsLeft: number;
+}
+
+type UnlockFailureCode = 'upgrade_required' | 'quota_exhausted' | 'not_found' | 'unavailable';
+
+export type UnlockResult =
+  | { success: true; order: Order; alreadyUnlocked: boolean; usage: ReportUsage }
+  | { success: false; code: UnlockFailureCode; error: string; usage: ReportUsage };
+
+// HTTP status a route should answer with for a failed unlock
+export function getUnlockFailureStatus(code: UnlockFailureCode): number {
+  switch (code) {
+    case 'not_found':
+      return 404;
+    case 'unavailable':
+      return 503;
+    default:
+      return 403;
+  }
+}
+
+// Orders placed through the Flask app; null if the backend is unavailable
+async function fetchFlaskOrders(email: string): Promise<Order[] | null> {
+  const result = await flaskJson<Order[] | { orders?: Order[] }>('/user-orders', { email });
+  if (!result.ok) {
+    if (result.error.kind === 'not_found') return [];
+    console.warn('[Credits] Failed to fetch orders from Flask:', result.error.message);
+    return null;
+  }
+  return Array.isArray(result.data) ? result.data : (result.data.orders || []);
+}
+
+// Local and Flask orders, de-duplicated by order ID
+function mergeOrders(localOrders: Order[], flaskOrders: Order[]): Order[] {
+  const seen = new Set(localOrders.map(o => o.order_id));
+  return [...localOrders, ...flaskOrders.filter(o => !seen.has(o.order_id))];
+}
+
+// Local and Flask orders for a user, for display; only local ones while Flask is unavailable
+export async function getAllOrders(email: string): Promise<Order[]> {
+  const [localOrders, flaskOrders] = await Promise.all([
+    getLocalOrders(email),
+    fetchFlaskOrders(email),
+  ]);
+  return mergeOrders(localOrders, flaskOrders ?? []);
+}
+
+function calculateUsage(user: User, orders: Order[]): ReportUsage {
+  const planDetails = getPlanDetails(user.bestPlanId);
+
+  let propertyReportsUsed = 0;
+  let suburbReportsUsed = 0;
+
+  orders.forEach(order => {
+    if (!order.date || !isInCurrentPeriod(order.date)) return;
+    if (order.report_category === 'Property') {
+      propertyReportsUsed++;
+    } else if (order.report_category === 'Suburb') {
+      suburbReportsUsed++;
+    }
+  });
+
+  const propertyReportsLimit = planDetails.propertyReports;
+  const suburbReportsLimit = planDetails.suburbReports;
+
+  return {
+    propertyReportsUsed,
+    propertyReportsLimit,
+    propertyReportsLeft: propertyReportsLimit === -1
+      ? -1 // Unlimited
+      : Math.max(0, propertyReportsLimit - propertyReportsUsed),
+    suburbReportsUsed,
+    suburbReportsLimit,
+    suburbReportsLeft: suburbReportsLimit === -1
+      ? -1 // Unlimited
+      : Math.max(0, suburbReportsLimit - suburbReportsUsed),
+  };
+}
+
+export async function getMonthlyUsage(user: User): Promise<ReportUsage> {
+  const orders = await getAllOrders(user.email);
+  return calculateUsage(user, orders);
+}
+
+// Whether Flask has this report, so a credit is never spent on one that won't load
+async function checkReportExists(
+  category: Order['report_category'],
+  reportId: string
+): Promise<'found' | 'not_found' | 'unavailable'> {
+  const result = category === 'Property'
+    ? await fetchPropertySection('info', reportId, 'true')
+    : await flaskJson<{ error?: string }>('/api/suburb/info', { suburb: reportId });
+  if (result?.ok) return (result.data as { error?: string }).error ? 'not_found' : 'found';
+  if (result && result.error.kind !== 'not_found') {
+    console.warn('[Credits] Could not check report:', category, reportId, result.error.message);
+    return 'unavailable';
+  }
+  return 'not_found';
+}
+
+function reportMissingError(
+  status: 'not_found' | 'unavailable',
+  category: Order['report_category'],
+  reportId: string
+): { code: UnlockFailureCode; error: string } {
+  return status === 'not_found'
+    ? { code: 'not_found', error: `No ${category.toLowerCase()} report was found for ${reportId}.` }
+    : { code: 'unavailable', error: 'Reports are unavailable right now. No credit was spent; please try again shortly.' };
+}
+
+function newOrder(user: User, category: Order['report_category'], reportId: string, location: string): Order {
+  const now = new Date();
+  const orderId = `ORD-${now.getFullYear()}-${uuidv4().slice(0, 8).toUpperCase()}`;
+  return {
+    order_id: orderId,
+    user_email: user.email,
+    client: 'Direct',
+    report_category: category,
+    location: location || reportId,
+    pdf_report: getFlaskUrl(`/pdf_${category.toLowerCase()}_report?order_id=${orderId}`),
+    url: getReportUrl(category, reportId),
+    date: formatOrderDate(now),
+  };
+}
+
+// Credits can't be counted without the Flask order history, so nothing is spent
+async function historyUnavailable(user: User): Promise<{ success: false; code: UnlockFailureCode; error: string; usage: ReportUsage }> {
+  return {
+    success: false,
+    code: 'unavailable',
+    error: 'Your report credits could not be checked right now. No credit was spent; please try again shortly.',
+    usage: calculateUsage(user, await getLocalOrders(user.email)),
+  };
+}
+
+// Another unlock for the same user held the order lock too long
+async function unlockBusy(user: User): Promise<{ success: false; code: UnlockFailureCode; error: string; usage: ReportUsage }> {
+  return {
+    success: false,
+    code: 'unavailable',
+    error: 'Another unlock is still in progress. No credit was spent; please try again shortly.',
+    usage: calculateUsage(user, await getLocalOrders(user.email)),
+  };
+}
+
+// Mirror a Flask order locally so entitlement checks can see it
+async function mirrorOrder(email: string, order: Order): Promise<void> {
+  const localOrders = await getLocalOrders(email);
+  if (!localOrders.some(o => o.order_id === order.order_id)) {
+    await saveOrder(order);
+  }
+}
+
+// Freeze the report as sold; the order stands even if the snapshot can't be taken
+async function snapshotOrder(user: User, order: Order, reportId: string): Promise<void> {
+  try {
+    await captureOrderSnapshot(user, order, reportId);
+  } catch (error) {
+    console.error('[Credits] Failed to snapshot order:', order.order_id, error);
+  }
+}
+
+/**
+ * Unlock a full report for the user, spending one credit.
+ * Re-opening a report already unlocked this period returns the existing order, and
+ * unlocks for the same user run one at a time so a double-click is only charged once.
+ * Flask is read before taking the lock, so a slow backend can't outlast it.
+ */
+export async function unlockReport(
+  user: User,
+  category: Order['report_category'],
+  reportId: string,
+  location: string
+): Promise<UnlockResult> {
+  const flaskOrders = await fetchFlaskOrders(user.email);
+  if (!flaskOrders) return historyUnavailable(user);
+
+  // Orders only accumulate, so a report not yet unlocked here is checked now
+  const known = mergeOrders(await getLocalOrders(user.email), flaskOrders);
+  const status = (findReportOrder(known, category, reportId) || getPlanDetails(user.bestPlanId).tier < 1)
+    ? 'found'
+    : await checkReportExists(category, reportId);
+
+  const locked = await withOrderLock(user.email, async (): Promise<UnlockResult> => {
+    const orders = mergeOrders(await getLocalOrders(user.email), flaskOrders);
+    const usage = calculateUsage(user, orders);
+
+    const existing = findReportOrder(orders, category, reportId);
+    if (existing) {
+      await mirrorOrder(user.email, existing);
+      return { success: true, order: existing, alreadyUnlocked: true, usage };
+    }
+
+    if (getPlanDetails(user.bestPlanId).tier < 1) {
+      return {
+        success: false,
+        code: 'upgrade_required',
+        error: 'Your plan does not include full reports. Please upgrade to unlock this report.',
+        usage,
+      };
+    }
+
+    const left = category === 'Property' ? usage.propertyReportsLeft : usage.suburbReportsLeft;
+    if (left === 0) {
+      return {
+        success: false,
+        code: 'quota_exhausted',
+        error: `You have used all of your ${category.toLowerCase()} reports for this month.`,
+        usage,
+      };
+    }
+
+    if (status !== 'found') {
+      return { success: false, ...reportMissingError(status, category, reportId), usage };
+    }
+
+    const order = newOrder(user, category, reportId, location);
+    await saveOrder(order);
+    console.log('[Credits] Created order:', order.order_id, 'for user:', user.email, 'report:', order.url);
+
+    return {
+      success: true,
+      order,
+      alreadyUnlocked: false,
+      usage: calculateUsage(user, [order, ...orders]),
+    };
+  });
+  if (!locked.acquired) return unlockBusy(user);
+
+  const result = locked.value;
+  if (result.success && !result.alreadyUnlocked) {
+    await snapshotOrder(user, result.order, reportId);
+  }
+  return result;
+}
+
+export type BulkUnlockResult =
+  | { success: true; orders: Order[]; unlockedCount: number; usage: ReportUsage }
+  | { success: false; code: UnlockFailureCode; error: string; usage: ReportUsage };
+
+/**
+ * Unlock several reports at once, e.g. from a comparison. Reports already unlocked
+ * this period are free; nothing is spent unless every remaining report can be unlocked.
+ */
+export async function unlockReports(
+  user: User,
+  category: Order['report_category'],
+  reports: { id: string; location: string }[]
+): Promise<BulkUnlockResult> {
+  const flaskOrders = await fetchFlaskOrders(user.email);
+  if (!flaskOrders) return historyUnavailable(user);
+
+  // Orders only accumulate, so any report still needed under the lock is checked now
+  const known = mergeOrders(await getLocalOrders(user.email), flaskOrders);
+  const toCheck = getPlanDetails(user.bestPlanId).tier < 1
+    ? []
+    : reports.filter(report => !findReportOrder(known, category, report.id));
+  const statuses = new Map(await Promise.all(
+    toCheck.map(async report => [report.id, await checkReportExists(category, report.id)] as const)
+  ));
+
+  const created: { order: Order; reportId: string }[] = [];
+
+  const locked = await withOrderLock(user.email, async (): Promise<BulkUnlockResult> => {
+    const orders = mergeOrders(await getLocalOrders(user.email), flaskOrders);
+    const usage = calculateUsage(user, orders);
+    const needed = reports.filter(report => !findReportOrder(orders, category, report.id));
+
+    if (needed.length > 0 && getPlanDetails(user.bestPlanId).tier < 1) {
+      return {
+        success: false,
+        code: 'upgrade_required',
+        error: 'Your plan does not include full reports. Please upgrade to unlock these reports.',
+        usage,
+      };
+    }
+
+    const left = category === 'Property' ? usage.propertyReportsLeft : usage.suburbReportsLeft;
+    if (left !== -1 && needed.length > left) {
+      return {
+        success: false,
+        code: 'quota_exhausted',
+        error: `Unlocking these reports needs ${needed.length} ${category.toLowerCase()} credits, but you have ${left} left this month.`,
+        usage,
+      };
+    }
+
+    for (const report of needed) {
+      const status = statuses.get(report.id) ?? 'unavailable';
+      if (status !== 'found') {
+        return { success: false, ...reportMissingError(status, category, report.id), usage };
+      }
+    }
+
+    const unlocked: Order[] = [];
+    let current = orders;
+    for (const report of reports) {
+      const existing = findReportOrder(current, category, report.id);
+      if (existing) {
+        await mirrorOrder(user.email, existing);
+        unlocked.push(existing);
+        continue;
+      }
+
+      const order = newOrder(user, category, report.id, report.location);
+      await saveOrder(order);
+      console.log('[Credits] Created order:', order.order_id, 'for user:', user.email, 'report:', order.url);
+      created.push({ order, reportId: report.id });
+      unlocked.push(order);
+      current = [order, ...current];
+    }
+
+    return { success: true, orders: unlocked, unlockedCount: created.length, usage: calculateUsage(user, current) };
+  });
+  if (!locked.acquired) return unlockBusy(user);
+
+  for (const { order, reportId } of created) {
+    await snapshotOrder(user, order, reportId);
+  }
+  return locked.value;
+}
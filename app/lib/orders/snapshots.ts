@@ -0,0 +1,148 @@
+// Order snapshots: the report as it stood when an order was placed, so a client
+// can always see exactly what they bought even after the data moves on
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { kv } from '@vercel/kv';
+import { getReportEntitlement } from '@/app/lib/auth/entitlements';
+import { sectionBlocks } from '@/app/lib/export/blocks';
+import { fetchPropertySection } from '@/app/lib/reports/property-sections';
+import { fetchSuburbSection } from '@/app/lib/reports/suburb-sections';
+import { withSectionFormat } from '@/app/lib/reports/section-data';
+import { fetchSectionBatch, type SectionFetcher } from '@/app/lib/reports/sections';
+import type { User } from '@/app/lib/auth/types';
+import type { Order, OrderSnapshot } from '@/app/lib/types/orders';
+
+const SNAPSHOT_PREFIX = 'order-snapshot:';
+
+interface SnapshotSection {
+  id: string;
+  title: string;
+}
+
+// Sections a suburb snapshot covers, in report order; map-only sections are left out
+const SUBURB_SNAPSHOT_SECTIONS: SnapshotSection[] = [
+  { id: 'summary', title: 'Summary' },
+  { id: 'insights', title: 'Insights' },
+  { id: 'market_insights', title: 'Market Insights' },
+  { id: 'msp', title: 'Sale Prices' },
+  { id: 'mrp', title: 'Rental Prices' },
+  { id: 'yield', title: 'Yield' },
+  { id: 'volume', title: 'Sales Volume' },
+  { id: 'vacancy', title: 'Vacancy' },
+  { id: 'growth', title: 'Growth' },
+  { id: 'growth_forecast', title: 'Growth Forecast' },
+  { id: 'demographics', title: 'Age Distribution' },
+  { id: 'income', title: 'Income' },
+  { id: 'industry', title: 'Industry' },
+  { id: 'occupations', title: 'Occupations' },
+  { id: 'ethnicity_ts', title: 'Ethnicity' },
+  { id: 'population', title: 'Population' },
+  { id: 'population_forecast', title: 'Population Forecast' },
+  { id: 'amenity', title: 'Amenities' },
+  { id: 'schools_table', title: 'Schools' },
+  { id: 'streets', title: 'Streets' },
+  { id: 'near_sales', title: 'Recent Sales' },
+  { id: 'das_table', title: 'Development Applications' },
+  { id: 'risk', title: 'Risks' },
+  { id: 'similar_suburbs', title: 'Similar Suburbs' },
+];
+
+const PROPERTY_SNAPSHOT_SECTIONS: SnapshotSection[] = [
+  { id: 'summary', title: 'Summary' },
+  { id: 'info', title: 'Property Details' },
+  { id: 'avm', title: 'Estimated Value' },
+  { id: 'history', title: 'Sales History' },
+  { id: 'sales', title: 'Comparable Sales' },
+  { id: 'rent', title: 'Rent' },
+  { id: 'yield', title: 'Yield' },
+  { id: 'cma', title: 'Market Appraisal' },
+  { id: 'risk', title: 'Risks' },
+  { id: 'schools', title: 'Schools' },
+  { id: 'amenities', title: 'Amenities' },
+  { id: 'demographics', title: 'Demographics' },
+  { id: 'income', title: 'Income' },
+  { id: 'ethnicity', title: 'Ethnicity' },
+  { id: 'das_table', title: 'Development Applications' },
+  { id: 'nearby', title: 'Nearby Properties' },
+  { id: 'sal_insights', title: 'Suburb Insights' },
+];
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+// In-memory fallback for local development
+const GLOBAL_SNAPSHOT_KEY = '__MIB_ORDER_SNAPSHOT_STORE__' as const;
+
+function getInMemoryStore(): Map<string, OrderSnapshot> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_SNAPSHOT_KEY]?: Map<string, OrderSnapshot>;
+  };
+  if (!g[GLOBAL_SNAPSHOT_KEY]) {
+    g[GLOBAL_SNAPSHOT_KEY] = new Map<string, OrderSnapshot>();
+  }
+  return g[GLOBAL_SNAPSHOT_KEY];
+}
+
+// Snapshots are keyed by order ID and kept for good
+const snapshotStore = {
+  async get(orderId: string): Promise<OrderSnapshot | null> {
+    if (isKVConfigured) {
+      const data = await kv.get<string | OrderSnapshot>(`${SNAPSHOT_PREFIX}${orderId}`);
+      if (!data) return null;
+      return typeof data === 'string' ? JSON.parse(data) : data;
+    }
+    return getInMemoryStore().get(orderId) || null;
+  },
+
+  async set(snapshot: OrderSnapshot): Promise<void> {
+    if (isKVConfigured) {
+      await kv.set(`${SNAPSHOT_PREFIX}${snapshot.orderId}`, JSON.stringify(snapshot));
+    } else {
+      getInMemoryStore().set(snapshot.orderId, snapshot);
+    }
+  },
+};
+
+export async function getOrderSnapshot(orderId: string): Promise<OrderSnapshot | null> {
+  return snapshotStore.get(orderId);
+}
+
+/**
+ * Fetch the full report for a new order and store it as text and tables.
+ * The buyer has just unlocked it, so nothing is blurred.
+ */
+export async function captureOrderSnapshot(user: User, order: Order, reportId: string): Promise<OrderSnapshot> {
+  const isSuburb = order.report_category === 'Suburb';
+  const sections = isSuburb ? SUBURB_SNAPSHOT_SECTIONS : PROPERTY_SNAPSHOT_SECTIONS;
+  const entitlement = getReportEntitlement(user, true);
+
+  const fetcher: SectionFetcher = withSectionFormat(
+    section => isSuburb
+      ? fetchSuburbSection(section, reportId, entitlement.blur, 'house')
+      : fetchPropertySection(section, reportId, entitlement.blur),
+    'data'
+  );
+  const results = await fetchSectionBatch(
+    sections.map(section => section.id),
+    fetcher,
+    entitlement,
+    isSuburb ? 'suburb' : 'property'
+  );
+
+  const snapshot: OrderSnapshot = {
+    orderId: order.order_id,
+    reportCategory: order.report_category,
+    reportId,
+    takenAt: new Date().toISOString(),
+    sections: sections.map(section => {
+      const result = results[section.id];
+      return {
+        id: section.id,
+        title: section.title,
+        blocks: result && !result.access?.locked ? sectionBlocks(section.id, result) : [],
+      };
+    }),
+  };
+
+  await snapshotStore.set(snapshot);
+  return snapshot;
+}
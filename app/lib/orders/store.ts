@@ -0,0 +1,179 @@
+// Order storage for reports unlocked in this app
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { kv } from '@vercel/kv';
+import type { Order } from '@/app/lib/types/orders';
+
+const ORDERS_PREFIX = 'orders:';
+const ORDERS_LOCK_PREFIX = 'orders-lock:';
+
+// A lock is held for one unlock at most, which only reads and writes this store
+// (backend reads happen before taking it); it expires in case the holder dies.
+// Waiters outlast a dead holder's lock before giving up.
+const LOCK_TTL_MS = 30000;
+const LOCK_WAIT_MS = 35000;
+const LOCK_RETRY_MS = 100;
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+// In-memory fallback for local development
+const GLOBAL_ORDERS_KEY = '__MIB_ORDER_STORE__' as const;
+
+function getInMemoryStore(): Map<string, Order[]> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_ORDERS_KEY]?: Map<string, Order[]>;
+  };
+  if (!g[GLOBAL_ORDERS_KEY]) {
+    g[GLOBAL_ORDERS_KEY] = new Map<string, Order[]>();
+  }
+  return g[GLOBAL_ORDERS_KEY];
+}
+
+const GLOBAL_ORDER_LOCKS_KEY = '__MIB_ORDER_LOCKS__' as const;
+
+// Tail of each user's queue of pending in-memory lock holders
+function getInMemoryLocks(): Map<string, Promise<void>> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_ORDER_LOCKS_KEY]?: Map<string, Promise<void>>;
+  };
+  if (!g[GLOBAL_ORDER_LOCKS_KEY]) {
+    g[GLOBAL_ORDER_LOCKS_KEY] = new Map<string, Promise<void>>();
+  }
+  return g[GLOBAL_ORDER_LOCKS_KEY];
+}
+
+// Delete the lock only while it is still ours, so an expired holder can't free a newer one
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+// The lock's token, or null if it could not be had within LOCK_WAIT_MS
+async function acquireKVLock(key: string): Promise<string | null> {
+  const token = crypto.randomUUID();
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  while (!(await kv.set(key, token, { nx: true, px: LOCK_TTL_MS }))) {
+    if (Date.now() > deadline) {
+      console.warn('[Orders] Timed out waiting for', key);
+      return null;
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+  return token;
+}
+
+export type OrderLockResult<T> = { acquired: true; value: T } | { acquired: false };
+
+// Orders are kept as one list per user, newest first
+const orderStore = {
+  async list(email: string): Promise<Order[]> {
+    const key = email.toLowerCase();
+    if (isKVConfigured) {
+      const data = await kv.get<string | Order[]>(`${ORDERS_PREFIX}${key}`);
+      if (!data) return [];
+      return typeof data === 'string' ? JSON.parse(data) : data;
+    }
+    return getInMemoryStore().get(key) || [];
+  },
+
+  // Adding an order that is already listed does nothing
+  async add(order: Order): Promise<void> {
+    const key = order.user_email.toLowerCase();
+    const current = await this.list(key);
+    if (current.some(o => o.order_id === order.order_id)) return;
+
+    const orders = [order, ...current];
+    if (isKVConfigured) {
+      await kv.set(`${ORDERS_PREFIX}${key}`, JSON.stringify(orders));
+    } else {
+      getInMemoryStore().set(key, orders);
+    }
+  },
+};
+
+/**
+ * Run `fn` while holding the user's order lock, so checking credits and placing
+ * an order can't interleave with another unlock for the same user. `fn` should only
+ * use this store; `acquired` is false if another holder kept the lock too long.
+ */
+export async function withOrderLock<T>(email: string, fn: () => Promise<T>): Promise<OrderLockResult<T>> {
+  const key = email.toLowerCase();
+
+  if (isKVConfigured) {
+    const lockKey = `${ORDERS_LOCK_PREFIX}${key}`;
+    const token = await acquireKVLock(lockKey);
+    if (!token) return { acquired: false };
+    try {
+      return { acquired: true, value: await fn() };
+    } finally {
+      await kv.eval(RELEASE_LOCK_SCRIPT, [lockKey], [token]);
+    }
+  }
+
+  const locks = getInMemoryLocks();
+  const previous = locks.get(key) || Promise.resolve();
+  let release!: () => void;
+  const current = new Promise<void>(resolve => { release = resolve; });
+  const tail = previous.then(() => current);
+  locks.set(key, tail);
+
+  await previous;
+  try {
+    return { acquired: true, value: await fn() };
+  } finally {
+    release();
+    if (locks.get(key) === tail) locks.delete(key);
+  }
+}
+
+// Orders use DD-MM-YYYY dates, matching the Flask backend
+export function formatOrderDate(date: Date): string {
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${day}-${month}-${date.getFullYear()}`;
+}
+
+// Billing periods are calendar months
+export function isInCurrentPeriod(orderDate: string, now: Date = new Date()): boolean {
+  const [, month, year] = orderDate.split('-').map(Number);
+  return year === now.getFullYear() && month - 1 === now.getMonth();
+}
+
+export function getReportUrl(category: Order['report_category'], reportId: string): string {
+  return category === 'Property'
+    ? `/property-reports/${reportId}`
+    : `/suburb-reports/${encodeURIComponent(reportId)}`;
+}
+
+// Find this period's order for a report among the given orders
+export function findReportOrder(
+  orders: Order[],
+  category: Order['report_category'],
+  reportId: string
+): Order | null {
+  const url = getReportUrl(category, reportId).toLowerCase();
+  return orders.find(o =>
+    o.report_category === category &&
+    o.url?.toLowerCase() === url &&
+    isInCurrentPeriod(o.date)
+  ) || null;
+}
+
+export async function getLocalOrders(email: string): Promise<Order[]> {
+  return orderStore.list(email);
+}
+
+export async function saveOrder(order: Order): Promise<void> {
+  await orderStore.add(order);
+}
+
+// Whether the user has unlocked this report in the current billing period
+export async function hasUnlockedReport(
+  email: string,
+  category: Order['report_category'],
+  reportId: string
+): Promise<boolean> {
+  const orders = await orderStore.list(email);
+  return findReportOrder(orders, category, reportId) !== null;
+}
@@ -0,0 +1,99 @@
+// Side-by-side comparison of reports: metric rows across reports with the winner per row
+import type { CompareMetric, CompareValue, MetricDirection } from '@/app/lib/types/compare';
+import type { SectionResult } from '@/app/lib/types/sections';
+
+export const MIN_COMPARE_REPORTS = 2;
+export const MAX_COMPARE_REPORTS = 4;
+
+// Section data of one report, keyed by section name
+export type CompareSections = Record<string, SectionResult>;
+
+export interface MetricDefinition {
+  id: string;
+  label: string;
+  group: string;
+  section: string; // Section the value is read from, for its access verdict
+  better?: MetricDirection;
+  read: (sections: CompareSections) => CompareValue | null;
+}
+
+// Parse ?names=a,b or ?ids=a,b into a de-duplicated list, checking the report count
+export function parseCompareList(value: string | null): { items: string[]; error?: string } {
+  const items = Array.from(new Set(
+    (value || '').split(',').map(item => item.trim()).filter(Boolean)
+  ));
+
+  if (items.length < MIN_COMPARE_REPORTS || items.length > MAX_COMPARE_REPORTS) {
+    return { items, error: `Compare between ${MIN_COMPARE_REPORTS} and ${MAX_COMPARE_REPORTS} reports` };
+  }
+  return { items };
+}
+
+// Indexes of the best values; ties share the win, and one value alone wins nothing
+export function pickWinners(values: CompareValue[], better?: MetricDirection): number[] {
+  if (!better) return [];
+
+  const comparable = values
+    .map((entry, index) => ({ value: entry.locked ? null : entry.value, index }))
+    .filter((entry): entry is { value: number; index: number } => entry.value !== null);
+  if (comparable.length < 2) return [];
+
+  const best = better === 'higher'
+    ? Math.max(...comparable.map(entry => entry.value))
+    : Math.min(...comparable.map(entry => entry.value));
+
+  // Everyone tied is not a win
+  const winners = comparable.filter(entry => entry.value === best).map(entry => entry.index);
+  return winners.length === comparable.length ? [] : winners;
+}
+
+// One row per metric definition, dropping rows no report has a value for
+export function buildMetrics(definitions: MetricDefinition[], reports: CompareSections[]): CompareMetric[] {
+  return definitions
+    .map(definition => {
+      const values = reports.map(sections => {
+        const section = sections[definition.section];
+        if (section?.access?.locked) {
+          return { value: null, display: null, locked: true };
+        }
+        return definition.read(sections) ?? { value: null, display: null };
+      });
+
+      return {
+        id: definition.id,
+        label: definition.label,
+        group: definition.group,
+        better: definition.better,
+        values,
+        winners: pickWinners(values, definition.better),
+      };
+    })
+    .filter(metric => metric.values.some(value => value.display !== null || value.locked));
+}
+
+// Object at a path in a section's data, e.g. ['house', 'suburb'] in msp
+export function readPath(sections: CompareSections, section: string, path: string[]): Record<string, unknown> | null {
+  let current: unknown = sections[section]?.data;
+  for (const key of path) {
+    if (!current || typeof current !== 'object') return null;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current && typeof current === 'object' ? current as Record<string, unknown> : null;
+}
+
+// A value Flask sends as { key, key_f } pairs, or { value, value_f }
+export function readFormatted(source: Record<string, unknown> | null, key: string = 'value'): CompareValue | null {
+  if (!source) return null;
+  const raw = source[key];
+  const formatted = source[`${key}_f`];
+
+  const value = typeof raw === 'number' && Number.isFinite(raw) ? raw : null;
+  const display = typeof formatted === 'string' && formatted ? formatted : value !== null ? String(value) : null;
+  return display === null ? null : { value, display };
+}
+
+// Leading number of a formatted string, e.g. "78/100" -> 78
+export function parseLeadingNumber(value: string): number | null {
+  const match = value.replace(/,/g, '').match(/-?\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
@@ -0,0 +1,52 @@
+// Fragment documents: the inline documents (srcdoc) of Flask map and chart frames,
+// served from app/api/fragments under their own sandboxed policy, because a
+// srcdoc frame would inherit the report page's policy and its scripts could not run.
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { kv } from '@vercel/kv';
+import type { FragmentDocument } from '@/app/lib/security/sanitize-html';
+
+const FRAGMENT_PREFIX = 'fragment:';
+
+// Documents are content-addressed, so one stored copy serves every report that embeds it
+const FRAGMENT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+// In-memory fallback for local development
+const GLOBAL_FRAGMENT_KEY = '__MIB_FRAGMENT_STORE__' as const;
+
+function getInMemoryStore(): Map<string, string> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_FRAGMENT_KEY]?: Map<string, string>;
+  };
+  if (!g[GLOBAL_FRAGMENT_KEY]) {
+    g[GLOBAL_FRAGMENT_KEY] = new Map<string, string>();
+  }
+  return g[GLOBAL_FRAGMENT_KEY];
+}
+
+const fragmentStore = {
+  async get(id: string): Promise<string | null> {
+    if (isKVConfigured) {
+      return (await kv.get<string>(`${FRAGMENT_PREFIX}${id}`)) ?? null;
+    }
+    return getInMemoryStore().get(id) ?? null;
+  },
+
+  async set(id: string, html: string): Promise<void> {
+    if (isKVConfigured) {
+      await kv.set(`${FRAGMENT_PREFIX}${id}`, html, { ex: FRAGMENT_TTL_SECONDS });
+    } else {
+      getInMemoryStore().set(id, html);
+    }
+  },
+};
+
+export async function saveFragmentDocuments(documents: FragmentDocument[]): Promise<void> {
+  await Promise.all(documents.map(doc => fragmentStore.set(doc.id, doc.html)));
+}
+
+export async function getFragmentDocument(id: string): Promise<string | null> {
+  return fragmentStore.get(id);
+}
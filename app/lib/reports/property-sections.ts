@@ -0,0 +1,105 @@
+// Property report sections, shared by the property report and compare routes
+import { combineResults, flaskGraph, flaskText, type FlaskResult } from '@/app/lib/flask/client';
+
+// Fetch one property section from Flask; null if the section is unknown
+export async function fetchPropertySection(
+  section: string,
+  gnafId: string,
+  blur: string
+): Promise<FlaskResult<unknown> | null> {
+  // Property graphs live under /property/graphs/<endpoint> and are keyed by gnaf_id
+  const graph = (endpoint: string, params: Record<string, string> = {}) =>
+    flaskGraph(`/property/graphs/${endpoint}`, { gnaf_id: gnafId, ...params });
+
+  switch (section) {
+    case 'info':
+      return graph('basic-info', { blur });
+    case 'image':
+      return graph('house_img');
+    case 'history':
+      return graph('history', { blur });
+    case 'sales':
+      return graph('sales', { blur });
+    case 'rent':
+      return graph('rent', { blur });
+    case 'yield':
+      return graph('yield', { blur });
+    case 'risk':
+      return graph('risk', { blur });
+    case 'amenities':
+      return graph('amenities');
+    case 'schools': {
+      // Fetch both private and public schools
+      const [privateSchools, publicSchools] = await Promise.all([
+        graph('private_schools'),
+        graph('public_schools'),
+      ]);
+      return combineResults({ private_schools: privateSchools, public_schools: publicSchools });
+    }
+    case 'demographics':
+      return graph('demographics', { blur });
+    case 'zoning': {
+      // Fetch both zoning map and chart
+      const [zoningMap, zoningChart] = await Promise.all([
+        graph('zoning_map', { blur }),
+        graph('zoning_chart', { blur }),
+      ]);
+      return combineResults({ map: zoningMap, chart: zoningChart });
+    }
+    case 'development': {
+      // Fetch both DA map and table
+      const [dasMap, dasTable] = await Promise.all([
+        graph('das_map', { blur }),
+        graph('das_table', { blur }),
+      ]);
+      return combineResults({ map: dasMap, table: dasTable });
+    }
+    case 'das_table':
+      return graph('das_table', { blur });
+    case 'das_map':
+      return graph('das_map', { blur });
+    case 'summary': {
+      // Summary is plain text rather than HTML
+      const summary = await flaskText('/property/graphs/summary', { gnaf_id: gnafId, blur });
+      return summary.ok
+        ? { ok: true, data: { summary_short: summary.data, text: summary.data } }
+        : summary;
+    }
+    case 'avm':
+      return graph('avm', { blur });
+    case 'noise':
+      return graph('noise', { blur });
+    case 'easements':
+      return graph('easement_map', { blur });
+    case 'pocket':
+      return graph('pocket', { blur });
+    case 'neighbors':
+      return graph('neighbors', { blur });
+    case 'nearby':
+      return graph('nearby-properties', { blur });
+    case 'ethnicity': {
+      // Fetch both ethnicity map and chart
+      const [ethnicityMap, ethnicityChart] = await Promise.all([
+        graph('ethnicity', { blur }),
+        graph('ethnicity_chart', { blur }),
+      ]);
+      return combineResults({ map: ethnicityMap, chart: ethnicityChart });
+    }
+    case 'income':
+      return graph('income', { blur });
+    case 'base_map':
+      return graph('base_map');
+    case 'thresholds':
+      return graph('thresholds', { blur });
+    case 'cma':
+      return graph('cma', { blur });
+    case 'sal_insights':
+      return graph('sal_insights', { blur });
+    case 'public_schools':
+      return graph('public_schools');
+    case 'private_schools':
+      return graph('private_schools');
+    default:
+      return null;
+  }
+}
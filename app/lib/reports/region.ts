@@ -0,0 +1,301 @@
+// SA3 region reports, aggregated across the region's member suburbs
+import { getOrFetch, type CacheTtl } from '@/app/lib/flask/cache';
+import { flaskJson, mapWithConcurrency, suburbGraph, type FlaskError, type FlaskResult, type GraphPayload } from '@/app/lib/flask/client';
+import type { LeaderboardRow, RegionLeaderboard } from '@/app/lib/types/region';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SA3 membership only changes with ABS boundary releases
+const MEMBERSHIP_TTL: CacheTtl = { freshMs: DAY_MS, staleMs: 7 * DAY_MS };
+
+const MEMBER_PAGE_SIZE = 200;
+const MAX_MEMBER_PAGES = 5;
+
+// Member suburbs fetched from Flask at once, to keep fan-out bounded for large regions
+const MEMBER_CONCURRENCY = 8;
+
+export const PROPERTY_TYPES = ['house', 'unit'] as const;
+export type RegionPropertyType = typeof PROPERTY_TYPES[number];
+
+interface SuburbSearchResponse {
+  results?: Array<{ name?: string; area_name?: string; information?: { sa3?: string; state?: string } }>;
+}
+
+export interface RegionMembers {
+  suburbs: string[]; // Sorted by name
+  state: string;
+}
+
+// Region-level figures in the shape Flask uses for its sa3 blocks
+export interface RegionMetrics {
+  msp?: number;
+  msp_f?: string;
+  mrp?: number;
+  mrp_f?: string;
+  '1y_g'?: number;
+  '1y_g_f'?: string;
+  name?: string;
+  suburbCount?: number; // Member suburbs with a value
+}
+
+export interface RegionSupply {
+  sold_count?: number;
+  stock_on_market?: number;
+  time_on_market?: number;
+  months_of_supply?: number;
+}
+
+// Per-suburb figures the aggregates are built from
+export interface MemberFigures {
+  suburb: string;
+  msp: Partial<Record<RegionPropertyType, number>>;
+  mrp: Partial<Record<RegionPropertyType, number>>;
+  growth: Partial<Record<RegionPropertyType, number>>; // 1 year growth
+  grossYield: Partial<Record<RegionPropertyType, number>>;
+  sold: Partial<Record<RegionPropertyType, number>>; // Sales in the last 12 months
+  stock: Partial<Record<RegionPropertyType, number>>;
+  daysOnMarket: Partial<Record<RegionPropertyType, number>>;
+  growthFormatScale?: number; // Ratio of Flask's formatted growth to its raw value (100 for fractions)
+  display: Partial<Record<RegionPropertyType, Partial<Record<LeaderboardDisplayKey, string>>>>; // As formatted by Flask
+}
+
+type LeaderboardDisplayKey = 'msp_f' | 'mrp_f' | 'yield_f' | '1y_g_f' | 'time_on_market_f';
+
+async function fetchMembers(regionName: string): Promise<FlaskResult<RegionMembers>> {
+  const suburbs = new Set<string>();
+  let state = '';
+
+  for (let page = 1; page <= MAX_MEMBER_PAGES; page++) {
+    const result = await flaskJson<SuburbSearchResponse>('/api/suburb/suburbs', {
+      sa3: regionName,
+      limit: String(MEMBER_PAGE_SIZE),
+      page: String(page),
+    });
+    if (!result.ok) {
+      // A later page going missing just means there are no more results
+      if (result.error.kind === 'not_found' && page > 1) break;
+      return result;
+    }
+
+    const results = result.data.results || [];
+    results
+      .filter(suburb => suburb.information?.sa3 === regionName)
+      .forEach(suburb => {
+        const name = suburb.area_name || suburb.name;
+        if (name) suburbs.add(name);
+        state = state || suburb.information?.state || '';
+      });
+
+    if (results.length < MEMBER_PAGE_SIZE) break;
+  }
+
+  if (suburbs.size === 0) {
+    return { ok: false, error: { kind: 'not_found', message: `No suburbs found in SA3 ${regionName}` } };
+  }
+  return { ok: true, data: { suburbs: Array.from(suburbs).sort(), state } };
+}
+
+/**
+ * Every suburb in an SA3, matched exactly on the suburb's sa3 field.
+ * Regions that match no suburbs fail as not_found rather than falling back to a guess.
+ */
+export async function resolveRegionMembers(regionName: string): Promise<FlaskResult<RegionMembers>> {
+  let failure: FlaskError | null = null;
+  const members = await getOrFetch(`region-members|sa3=${regionName}`, MEMBERSHIP_TTL, async () => {
+    const result = await fetchMembers(regionName);
+    if (result.ok) return result.data;
+    failure = result.error;
+    return null;
+  });
+
+  if (members) return { ok: true, data: members };
+  return { ok: false, error: failure ?? { kind: 'upstream_down', message: 'Backend unavailable' } };
+}
+
+function numberAt(source: unknown, path: string[]): number | undefined {
+  let current = source;
+  for (const key of path) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return typeof current === 'number' && Number.isFinite(current) ? current : undefined;
+}
+
+function stringAt(source: unknown, path: string[]): string | undefined {
+  let current = source;
+  for (const key of path) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return typeof current === 'string' && current ? current : undefined;
+}
+
+function parseNumber(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.replace(/,/g, '').match(/-?\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : undefined;
+}
+
+async function fetchMemberFigures(suburb: string, blur: string): Promise<MemberFigures> {
+  const [msp, mrp, yields, supply] = await Promise.all([
+    suburbGraph('msp', suburb, { blur }),
+    suburbGraph('mrp', suburb, { blur }),
+    suburbGraph('yield', suburb, { blur }),
+    suburbGraph('market_insights', suburb, { blur }),
+  ]);
+
+  const data = (result: FlaskResult<GraphPayload>) => (result.ok ? result.data : null);
+  const figures: MemberFigures = {
+    suburb, msp: {}, mrp: {}, growth: {}, grossYield: {}, sold: {}, stock: {}, daysOnMarket: {}, display: {},
+  };
+
+  PROPERTY_TYPES.forEach(type => {
+    figures.msp[type] = numberAt(data(msp), [type, 'suburb', 'msp']);
+    figures.mrp[type] = numberAt(data(mrp), [type, 'suburb', 'mrp']) ?? numberAt(data(msp), [type, 'suburb', 'mrp']);
+    figures.growth[type] = numberAt(data(msp), [type, 'suburb', '1y_g']);
+    figures.grossYield[type] = numberAt(data(yields), [type, 'suburb', 'yield']);
+    figures.sold[type] = numberAt(data(supply), ['sold_count', type, 'value']);
+    figures.stock[type] = numberAt(data(supply), ['stock_on_market', type, 'value']);
+    figures.daysOnMarket[type] = numberAt(data(supply), ['time_on_market', type, 'value']);
+
+    figures.display[type] = {
+      msp_f: stringAt(data(msp), [type, 'suburb', 'msp_f']),
+      mrp_f: stringAt(data(mrp), [type, 'suburb', 'mrp_f']) ?? stringAt(data(msp), [type, 'suburb', 'mrp_f']),
+      yield_f: stringAt(data(yields), [type, 'suburb', 'yield_f']),
+      '1y_g_f': stringAt(data(msp), [type, 'suburb', '1y_g_f']),
+      time_on_market_f: stringAt(data(supply), ['time_on_market', type, 'value_f']),
+    };
+
+    // Flask formats growth itself; remember whether its raw value is a fraction or a percentage
+    const raw = figures.growth[type];
+    const formatted = parseNumber(figures.display[type]['1y_g_f']);
+    if (raw && formatted !== undefined && figures.growthFormatScale === undefined) {
+      figures.growthFormatScale = Math.abs(formatted / raw) > 10 ? 100 : 1;
+    }
+  });
+
+  return figures;
+}
+
+export async function fetchRegionFigures(members: RegionMembers, blur: string): Promise<MemberFigures[]> {
+  return mapWithConcurrency(members.suburbs, MEMBER_CONCURRENCY, suburb => fetchMemberFigures(suburb, blur));
+}
+
+// ----- Aggregation -----
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Weighted by each suburb's sales; suburbs without sales figures count once
+function salesWeightedMean(figures: MemberFigures[], type: RegionPropertyType, pick: (member: MemberFigures) => number | undefined): number | undefined {
+  let total = 0;
+  let weights = 0;
+  const anySales = figures.some(member => (member.sold[type] ?? 0) > 0);
+
+  figures.forEach(member => {
+    const value = pick(member);
+    if (value === undefined) return;
+    const weight = anySales ? member.sold[type] ?? 0 : 1;
+    total += value * weight;
+    weights += weight;
+  });
+
+  return weights > 0 ? total / weights : undefined;
+}
+
+function sum(values: (number | undefined)[]): number | undefined {
+  const present = values.filter((value): value is number => value !== undefined);
+  return present.length > 0 ? present.reduce((a, b) => a + b, 0) : undefined;
+}
+
+const currency = new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD', maximumFractionDigits: 0 });
+
+/**
+ * Region prices and growth for one property type: median of the member suburbs'
+ * medians, and 1 year growth weighted by each suburb's sales.
+ */
+export function aggregateMetrics(regionName: string, figures: MemberFigures[], type: RegionPropertyType): RegionMetrics {
+  const prices = figures.map(member => member.msp[type]).filter((value): value is number => value !== undefined);
+  const rents = figures.map(member => member.mrp[type]).filter((value): value is number => value !== undefined);
+  const msp = median(prices);
+  const mrp = median(rents);
+  const growth = salesWeightedMean(figures, type, member => member.growth[type]);
+  const scale = figures.find(member => member.growthFormatScale !== undefined)?.growthFormatScale ?? 100;
+
+  const metrics: RegionMetrics = { name: regionName, suburbCount: prices.length };
+  if (msp !== undefined) {
+    metrics.msp = Math.round(msp);
+    metrics.msp_f = currency.format(msp);
+  }
+  if (mrp !== undefined) {
+    metrics.mrp = Math.round(mrp);
+    metrics.mrp_f = `${currency.format(mrp)}/wk`;
+  }
+  if (growth !== undefined) {
+    metrics['1y_g'] = growth;
+    const percent = growth * scale;
+    metrics['1y_g_f'] = `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+  }
+  return metrics;
+}
+
+/**
+ * Combined supply and demand for one property type: total sales and listings across
+ * the region, sales-weighted days on market, and months of supply from the totals.
+ */
+export function aggregateSupply(figures: MemberFigures[], type: RegionPropertyType): RegionSupply {
+  const sold = sum(figures.map(member => member.sold[type]));
+  const stock = sum(figures.map(member => member.stock[type]));
+  const days = salesWeightedMean(figures, type, member => member.daysOnMarket[type]);
+
+  const supply: RegionSupply = {};
+  if (sold !== undefined) supply.sold_count = sold;
+  if (stock !== undefined) supply.stock_on_market = stock;
+  if (days !== undefined) supply.time_on_market = Math.round(days);
+  // Sales are a 12-month count, so monthly absorption is sold / 12
+  if (sold && stock !== undefined) supply.months_of_supply = Math.round((stock / (sold / 12)) * 10) / 10;
+  return supply;
+}
+
+// Member with the most sales, whose charts stand in for sections that cannot be aggregated
+export function getChartSuburb(figures: MemberFigures[]): string {
+  const totalSales = (member: MemberFigures) => (member.sold.house ?? 0) + (member.sold.unit ?? 0);
+  return figures.reduce((best, member) => (totalSales(member) > totalSales(best) ? member : best), figures[0]).suburb;
+}
+
+/**
+ * Every member suburb's own figures for one property type, ranked by median price.
+ * Suburbs with no figures at all for the type are left out.
+ */
+function buildLeaderboardRows(figures: MemberFigures[], type: RegionPropertyType): LeaderboardRow[] {
+  const rows = figures
+    .map(member => {
+      const display = member.display[type] ?? {};
+      const row: LeaderboardRow = {
+        suburb: member.suburb,
+        msp: member.msp[type],
+        msp_f: display.msp_f,
+        mrp: member.mrp[type],
+        mrp_f: display.mrp_f,
+        yield: member.grossYield[type],
+        yield_f: display.yield_f,
+        '1y_g': member.growth[type],
+        '1y_g_f': display['1y_g_f'],
+        time_on_market: member.daysOnMarket[type],
+        time_on_market_f: display.time_on_market_f,
+        sold_count: member.sold[type],
+      };
+      return row;
+    })
+    .filter(row => [row.msp, row.mrp, row.yield, row['1y_g'], row.time_on_market].some(value => value !== undefined));
+
+  return rows.sort((a, b) => (b.msp ?? -Infinity) - (a.msp ?? -Infinity) || a.suburb.localeCompare(b.suburb));
+}
+
+export function buildLeaderboard(figures: MemberFigures[]): RegionLeaderboard {
+  return { house: buildLeaderboardRows(figures, 'house'), unit: buildLeaderboardRows(figures, 'unit') };
+}
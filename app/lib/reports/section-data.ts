@@ -0,0 +1,341 @@
+// Converts Flask graph payloads into structured section data (?format=data)
+// Series are read from the Plotly traces embedded in chart fragments and rows from
+// the fragment's table, so no extra backend calls are made and the graph cache is shared
+import type { GraphPayload } from '@/app/lib/flask/client';
+import type { SectionFetcher } from './sections';
+import type {
+  DataTable,
+  DevelopmentApplicationRow,
+  MedianPriceData,
+  MedianPriceMetrics,
+  MedianPriceSeries,
+  SchoolRow,
+  SectionFormat,
+  Series,
+  SeriesPoint,
+  StructuredSectionData,
+  TableColumn,
+} from '@/app/lib/types/section-data';
+
+type RawRecord = Record<string, string | number | null>;
+
+// How a numeric column is written: amounts take k/m/bn suffixes, distances m or km
+type NumberKind = 'amount' | 'distanceKm';
+
+// Column headers (lower-cased, letters and digits only) each row field is read from
+const SCHOOL_COLUMNS: Record<keyof SchoolRow, string[]> = {
+  name: ['school', 'name', 'schoolname'],
+  sector: ['sector', 'schoolsector'],
+  type: ['type', 'schooltype', 'level'],
+  gender: ['gender'],
+  icsea: ['icsea'],
+  enrolments: ['enrolments', 'enrollments', 'students', 'totalenrolments'],
+  distanceKm: ['distance', 'distancekm', 'dist'],
+};
+
+const DA_COLUMNS: Record<keyof DevelopmentApplicationRow, string[]> = {
+  address: ['address', 'location', 'site'],
+  description: ['description', 'proposal', 'details', 'development'],
+  status: ['status', 'decision', 'stage'],
+  lodged: ['lodged', 'lodgeddate', 'lodgementdate', 'date', 'submitted'],
+  cost: ['cost', 'estimatedcost', 'costofworks', 'value'],
+};
+
+const SCHOOL_LABELS: TableColumn<SchoolRow>[] = [
+  { key: 'name', label: 'School' },
+  { key: 'sector', label: 'Sector' },
+  { key: 'type', label: 'Type' },
+  { key: 'gender', label: 'Gender' },
+  { key: 'icsea', label: 'ICSEA', numeric: true },
+  { key: 'enrolments', label: 'Enrolments', numeric: true },
+  { key: 'distanceKm', label: 'Distance (km)', numeric: true },
+];
+
+const DA_LABELS: TableColumn<DevelopmentApplicationRow>[] = [
+  { key: 'address', label: 'Address' },
+  { key: 'description', label: 'Description' },
+  { key: 'status', label: 'Status' },
+  { key: 'lodged', label: 'Lodged' },
+  { key: 'cost', label: 'Estimated cost', numeric: true },
+];
+
+// Sections with a structured form; every other section is always HTML
+const STRUCTURED_SECTIONS: Record<string, (payload: GraphPayload) => StructuredSectionData | null> = {
+  msp: toMedianPriceData,
+  schools_table: payload => toTable(payload, SCHOOL_COLUMNS, SCHOOL_LABELS, {
+    distanceKm: 'distanceKm',
+    icsea: 'amount',
+    enrolments: 'amount',
+  }),
+  das_table: payload => toTable(payload, DA_COLUMNS, DA_LABELS, { cost: 'amount' }),
+};
+
+export function parseSectionFormat(value: string | null): SectionFormat {
+  return value === 'data' ? 'data' : 'html';
+}
+
+/**
+ * Wrap a route's section fetcher so supported sections come back structured.
+ * If a payload cannot be converted (e.g. the fragment's layout changed), the
+ * HTML payload is returned unchanged so pages can fall back to rendering it.
+ */
+export function withSectionFormat(fetcher: SectionFetcher, format: SectionFormat): SectionFetcher {
+  if (format === 'html') return fetcher;
+
+  return async section => {
+    const result = await fetcher(section);
+    const convert = STRUCTURED_SECTIONS[section];
+    if (!result?.ok || !convert || !result.data || typeof result.data !== 'object') {
+      return result;
+    }
+
+    const data = convert(result.data as GraphPayload);
+    if (!data) {
+      console.warn(`[Sections] Could not structure ${section}, returning HTML`);
+      return result;
+    }
+    return { ok: true, data };
+  };
+}
+
+// ----- Median sale price series -----
+
+function toMedianPriceData(payload: GraphPayload): MedianPriceData | null {
+  const house = toMedianPriceSeries(payload.house);
+  const unit = toMedianPriceSeries(payload.unit);
+
+  // Older payloads have a single chart for all property types
+  if (!house && !unit) {
+    const all = toMedianPriceSeries(payload);
+    return all ? { format: 'data', kind: 'series', house: all, unit: null } : null;
+  }
+  return { format: 'data', kind: 'series', house, unit };
+}
+
+function toMedianPriceSeries(value: unknown): MedianPriceSeries | null {
+  if (!value || typeof value !== 'object') return null;
+  const payload = value as Record<string, unknown>;
+  if (typeof payload.html !== 'string') return null;
+
+  const series = extractPlotlySeries(payload.html);
+  if (series.length === 0) return null;
+
+  return {
+    series,
+    suburb: payload.suburb as MedianPriceMetrics | undefined,
+    cr: payload.cr as MedianPriceMetrics | undefined,
+    sa3: payload.sa3 as MedianPriceMetrics | undefined,
+  };
+}
+
+// Traces passed to Plotly.newPlot("id", [traces], layout) in a chart fragment
+function extractPlotlySeries(html: string): Series[] {
+  const series: Series[] = [];
+  const call = /Plotly\.newPlot\(\s*(?:"[^"]*"|'[^']*'|[\w.]+)\s*,\s*\[/g;
+
+  for (const match of html.matchAll(call)) {
+    const start = (match.index ?? 0) + match[0].length - 1;
+    const json = readJsonArray(html, start);
+    if (!json) continue;
+
+    let traces: unknown;
+    try {
+      traces = JSON.parse(json);
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(traces)) continue;
+
+    for (const trace of traces) {
+      const parsed = toSeries(trace, series.length);
+      if (parsed) series.push(parsed);
+    }
+  }
+
+  return series;
+}
+
+// The JSON array starting at `start`, found by matching brackets outside strings
+function readJsonArray(text: string, start: number): string | null {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '[' || char === '{') depth++;
+    else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+function toSeries(trace: unknown, index: number): Series | null {
+  if (!trace || typeof trace !== 'object') return null;
+  const { name, x, y } = trace as { name?: unknown; x?: unknown; y?: unknown };
+
+  const dates = decodeArray(x);
+  const values = decodeArray(y);
+  if (!dates || !values || dates.length === 0) return null;
+
+  const points: SeriesPoint[] = dates.map((date, i) => ({
+    date: String(date),
+    value: toAmount(values[i]),
+  }));
+
+  return { name: typeof name === 'string' && name ? name : `Series ${index + 1}`, points };
+}
+
+// Plotly arrays are plain JSON arrays, or typed arrays as { dtype, bdata } (base64)
+function decodeArray(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  if (!value || typeof value !== 'object') return null;
+
+  const { dtype, bdata } = value as { dtype?: string; bdata?: string };
+  if (typeof dtype !== 'string' || typeof bdata !== 'string') return null;
+
+  const bytes = Buffer.from(bdata, 'base64');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readers: Record<string, [number, (offset: number) => number]> = {
+    f8: [8, offset => view.getFloat64(offset, true)],
+    f4: [4, offset => view.getFloat32(offset, true)],
+    i4: [4, offset => view.getInt32(offset, true)],
+    u4: [4, offset => view.getUint32(offset, true)],
+    i2: [2, offset => view.getInt16(offset, true)],
+    u2: [2, offset => view.getUint16(offset, true)],
+    i1: [1, offset => view.getInt8(offset)],
+    u1: [1, offset => view.getUint8(offset)],
+  };
+  const reader = readers[dtype];
+  if (!reader) return null;
+
+  const [size, read] = reader;
+  const values: number[] = [];
+  for (let offset = 0; offset + size <= bytes.byteLength; offset += size) {
+    values.push(read(offset));
+  }
+  return values;
+}
+
+// ----- Tables -----
+
+function toTable<Row extends object>(
+  payload: GraphPayload,
+  columns: Record<keyof Row, string[]>,
+  labels: TableColumn<Row>[],
+  numericFields: Partial<Record<keyof Row, NumberKind>>
+): DataTable<Row> | null {
+  const records = Array.isArray(payload.rows)
+    ? (payload.rows as unknown[]).filter((row): row is RawRecord => !!row && typeof row === 'object')
+    : typeof payload.html === 'string' ? parseHtmlTable(payload.html) : [];
+
+  const [primary] = labels;
+  const rows: Row[] = [];
+
+  for (const record of records) {
+    const normalized: Record<string, string | number | null> = {};
+    Object.entries(record).forEach(([header, value]) => {
+      normalized[normalizeHeader(header)] = value;
+    });
+
+    const row: Record<string, string | number | null> = {};
+    for (const [field, headers] of Object.entries(columns) as [keyof Row & string, string[]][]) {
+      const header = headers.find(name => normalized[name] !== undefined && normalized[name] !== '');
+      if (!header) continue;
+      const value = normalized[header];
+      const kind = numericFields[field];
+      row[field] = kind === 'distanceKm' ? toDistanceKm(value) : kind ? toAmount(value) : String(value).trim();
+    }
+
+    // Rows without their identifying column (school name, DA address) are headings or totals
+    if (typeof row[primary.key] === 'string' && row[primary.key]) {
+      rows.push(row as Row);
+    }
+  }
+
+  if (rows.length === 0) return null;
+
+  // Only the columns the backend actually sent
+  const present = labels.filter(column => rows.some(row => row[column.key] !== undefined));
+  return { format: 'data', kind: 'table', columns: present, rows };
+}
+
+// Rows of the first table in a fragment, keyed by its header cells
+function parseHtmlTable(html: string): RawRecord[] {
+  const table = html.match(/<table[\s\S]*?<\/table>/i);
+  if (!table) return [];
+
+  const rows = Array.from(table[0].matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)).map(row =>
+    Array.from(row[1].matchAll(/<t([hd])[^>]*>([\s\S]*?)<\/t[hd]>/gi)).map(cell => ({
+      isHeader: cell[1].toLowerCase() === 'h',
+      text: cellText(cell[2]),
+    }))
+  );
+
+  const headerIndex = rows.findIndex(cells => cells.length > 0 && cells.every(cell => cell.isHeader));
+  const headers = (headerIndex >= 0 ? rows[headerIndex] : rows[0] ?? []).map(cell => cell.text);
+  const body = rows.slice((headerIndex >= 0 ? headerIndex : 0) + 1);
+
+  return body
+    .filter(cells => cells.length > 0)
+    .map(cells => Object.fromEntries(headers.map((header, i) => [header, cells[i]?.text ?? null])));
+}
+
+function cellText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// The first number in a Flask value and the unit written after it; masked values have none
+function readNumber(value: unknown): { number: number; unit: string } | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? { number: value, unit: '' } : null;
+  if (typeof value !== 'string') return null;
+
+  const match = value.replace(/,/g, '').match(/(-?\d+(?:\.\d+)?)\s*([a-z]*)/i);
+  return match ? { number: parseFloat(match[1]), unit: match[2].toLowerCase() } : null;
+}
+
+// Prices, costs and counts, e.g. "$1.2m", "$850k", "1,050"
+export function toAmount(value: unknown): number | null {
+  const parsed = readNumber(value);
+  if (!parsed) return null;
+
+  switch (parsed.unit) {
+    case 'k':
+      return parsed.number * 1_000;
+    case 'm':
+      return parsed.number * 1_000_000;
+    case 'b':
+    case 'bn':
+      return parsed.number * 1_000_000_000;
+    default:
+      return parsed.number;
+  }
+}
+
+// Distances in kilometres, e.g. "850m", "850 m", "1.2km"; a bare number is already km
+export function toDistanceKm(value: unknown): number | null {
+  const parsed = readNumber(value);
+  if (!parsed) return null;
+  return parsed.unit === 'm' ? parsed.number / 1_000 : parsed.number;
+}
@@ -0,0 +1,34 @@
+// Browser-side reader for the NDJSON section stream (?sections=a,b&stream=1)
+import type { SectionStreamEvent } from '@/app/lib/types/sections';
+
+// Calls onSection for each section as it arrives; resolves once the stream ends
+export async function readSectionStream(
+  response: Response,
+  onSection: (event: SectionStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Section stream has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const emitLines = (lines: string[]) => {
+    lines
+      .filter(line => line.trim())
+      .forEach(line => onSection(JSON.parse(line)));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? ''; // Keep the partial last line for the next chunk
+    emitLines(lines);
+  }
+
+  emitLines([buffer + decoder.decode()]);
+}
@@ -0,0 +1,113 @@
+// Batch section fetching for the report routes
+import { getSectionResult, type FlaskResult } from '@/app/lib/flask/client';
+import { getSectionAccess, type ReportEntitlement, type ReportType } from '@/app/lib/auth/entitlements';
+import type { SectionResult, SectionStreamEvent } from '@/app/lib/types/sections';
+import { sanitizeSectionData, type FragmentDocument } from '@/app/lib/security/sanitize-html';
+import { saveFragmentDocuments } from './fragments';
+
+// Upper bound on sections per batch request, to keep fan-out to Flask bounded
+export const MAX_BATCH_SECTIONS = 30;
+
+// Fetches one section; null means the route does not serve that section
+export type SectionFetcher = (section: string) => Promise<FlaskResult<unknown> | null>;
+
+// Parse ?sections=a,b,c into a de-duplicated list
+export function parseSectionList(value: string): string[] {
+  const sections = value
+    .split(',')
+    .map(section => section.trim())
+    .filter(Boolean);
+  return Array.from(new Set(sections));
+}
+
+export async function fetchSection(
+  section: string,
+  fetcher: SectionFetcher,
+  entitlement: ReportEntitlement,
+  reportType: ReportType
+): Promise<SectionResult> {
+  // A locked section is sent without its data; the page shows the upgrade overlay
+  const access = getSectionAccess(entitlement, reportType, section);
+  if (access.locked) {
+    return { data: null, status: 200, access };
+  }
+
+  const result = await fetcher(section);
+  if (!result) {
+    return { data: null, status: 400, reason: 'unknown_section' };
+  }
+
+  // Flask fragments are rendered with innerHTML, so strip anything executable first
+  const { data, ...rest } = getSectionResult(result);
+  const documents: FragmentDocument[] = [];
+  const sanitized = sanitizeSectionData(data, documents);
+  await saveFragmentDocuments(documents);
+  return {
+    ...rest,
+    data: sanitized,
+    access,
+  };
+}
+
+// Fetch sections from Flask in parallel, keyed by section name. A section that
+// throws gets an error entry of its own rather than failing the whole batch.
+export async function fetchSectionBatch(
+  sections: string[],
+  fetcher: SectionFetcher,
+  entitlement: ReportEntitlement,
+  reportType: ReportType
+): Promise<Record<string, SectionResult>> {
+  const results = await Promise.all(
+    sections.map(async (section): Promise<SectionResult> => {
+      try {
+        return await fetchSection(section, fetcher, entitlement, reportType);
+      } catch (error) {
+        console.error(`[Sections] Error fetching ${section}:`, error);
+        return { data: null, status: 500 };
+      }
+    })
+  );
+
+  const batch: Record<string, SectionResult> = {};
+  sections.forEach((section, i) => {
+    batch[section] = results[i];
+  });
+  return batch;
+}
+
+// Stream sections as NDJSON, one line per section in the order they resolve,
+// so a slow graph does not hold up the rest of the tab
+export function streamSectionBatch(
+  sections: string[],
+  fetcher: SectionFetcher,
+  entitlement: ReportEntitlement,
+  reportType: ReportType
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      await Promise.all(sections.map(async section => {
+        let event: SectionStreamEvent;
+        try {
+          event = { section, ...(await fetchSection(section, fetcher, entitlement, reportType)) };
+        } catch (error) {
+          console.error(`[Sections] Error streaming ${section}:`, error);
+          event = { section, data: null, status: 500 };
+        }
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      }));
+      controller.close();
+    },
+  });
+}
+
+export function sectionStreamResponse(stream: ReadableStream<Uint8Array>): Response {
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'X-Accel-Buffering': 'no', // Stop proxies buffering the stream
+    },
+  });
+}
@@ -0,0 +1,97 @@
+// Suburb report sections, shared by the suburb report and PDF routes
+import { suburbGraph, type FlaskResult, type GraphPayload } from '@/app/lib/flask/client';
+
+// Fetch one suburb section from Flask; null if the section is unknown
+export async function fetchSuburbSection(
+  section: string,
+  suburbName: string,
+  blur: string,
+  propertyType: string
+): Promise<FlaskResult<GraphPayload> | null> {
+  switch (section) {
+    // Market section
+    case 'msp':
+      return suburbGraph('msp', suburbName, { blur });
+    case 'mrp':
+      return suburbGraph('mrp', suburbName, { blur });
+    case 'yield':
+      return suburbGraph('yield', suburbName, { blur });
+    case 'volume':
+      return suburbGraph('volume', suburbName, { blur });
+    case 'vacancy':
+      return suburbGraph('vacancy', suburbName, { blur });
+    case 'growth':
+      return suburbGraph('growth', suburbName, { blur });
+    case 'growth_forecast':
+      return suburbGraph('growth_forecast', suburbName, { blur });
+    case 'growth_quadrants':
+      return suburbGraph('growth_quadrants', suburbName, { blur });
+
+    // Demographics section
+    case 'demographics':
+      return suburbGraph('demographics', suburbName, { blur });
+    case 'income':
+      return suburbGraph('income', suburbName, { blur });
+    case 'industry':
+      return suburbGraph('industry', suburbName, { blur });
+    case 'occupations':
+      return suburbGraph('occupations', suburbName, { blur });
+    case 'ethnicity_ts':
+      return suburbGraph('ethnicity_ts', suburbName, { blur });
+    case 'population':
+      return suburbGraph('population', suburbName, { blur });
+    case 'population_forecast':
+      return suburbGraph('population_forecast', suburbName, { blur });
+
+    // Lifestyle section
+    case 'amenity':
+    case 'amenities':
+      return suburbGraph('amenity', suburbName, { blur });
+    case 'schools_map':
+      return suburbGraph('schools_map', suburbName, { blur });
+    case 'schools_table':
+      return suburbGraph('schools_table', suburbName, { blur });
+    case 'schools_catchments':
+      return suburbGraph('schools_catchments', suburbName, { blur });
+    case 'noise':
+      return suburbGraph('noise', suburbName, { blur });
+    case 'base_map':
+      return suburbGraph('base_map', suburbName, { blur });
+
+    // Properties section
+    case 'pocket':
+      return suburbGraph('pocket', suburbName, { blur, property_type: propertyType });
+    case 'streets':
+      return suburbGraph('streets', suburbName, { blur });
+    case 'near_sales':
+      return suburbGraph('near_sales', suburbName, { blur });
+
+    // Development section
+    case 'das_map':
+      return suburbGraph('das_map', suburbName, { blur });
+    case 'das_table':
+      return suburbGraph('das_table', suburbName, { blur });
+    case 'zoning':
+      return suburbGraph('zoning', suburbName, { blur });
+
+    // Risks section
+    case 'risk':
+      return suburbGraph('risk', suburbName, { blur });
+
+    // Summary
+    case 'summary':
+    case 'gpt_summary':
+      return suburbGraph('gpt_summary', suburbName, { blur });
+
+    // Market insights
+    case 'market_insights':
+      return suburbGraph('market_insights', suburbName, { blur });
+    case 'similar_suburbs':
+      return suburbGraph('similar_suburbs', suburbName, { blur });
+    case 'insights':
+      return suburbGraph('insights', suburbName, { blur });
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,122 @@
+// Content Security Policy for report pages and the Flask fragment documents they
+// frame, and the external sources those fragments are allowed to load from.
+// Imported by proxy.ts, which issues a fresh nonce for every report page request.
+
+// Chart libraries and map tiles used by Flask-rendered fragments. Stylesheets,
+// fonts, tiles and frames may come from anywhere on these origins.
+export const APPROVED_EMBED_ORIGINS = [
+  'https://cdn.plot.ly',
+  'https://cdn.jsdelivr.net',
+  'https://cdnjs.cloudflare.com',
+  'https://code.jquery.com',
+  'https://maxcdn.bootstrapcdn.com',
+  'https://api.mapbox.com',
+];
+
+// Scripts are pinned to the exact library builds the Flask charts and maps use,
+// so nothing else published to these CDNs can run. Bump these with the backend.
+export const APPROVED_SCRIPT_URLS = [
+  'https://cdn.plot.ly/plotly-2.35.2.min.js',
+  'https://cdn.jsdelivr.net/npm/leaflet@1.9.3/dist/leaflet.js',
+  'https://code.jquery.com/jquery-3.7.1.min.js',
+  'https://cdn.jsdelivr.net/npm/bootstrap@5.2.2/dist/js/bootstrap.bundle.min.js',
+  'https://cdnjs.cloudflare.com/ajax/libs/Leaflet.awesome-markers/2.0.2/leaflet.awesome-markers.js',
+];
+
+// Chart assets the Flask backend serves itself
+const BACKEND_SCRIPT_PATH = '/static/';
+
+const MEMBERSTACK_ORIGINS = ['https://static.memberstack.com', 'https://*.memberstack.com'];
+
+function getBackendOrigin(): string | null {
+  try {
+    return new URL(process.env.FLASK_BACKEND_URL || 'http://localhost:2025').origin;
+  } catch {
+    return null; // Misconfigured backend URL; only the static lists apply
+  }
+}
+
+// Approved origins plus the Flask backend itself
+export function getApprovedOrigins(): string[] {
+  const backend = getBackendOrigin();
+  return backend ? [...APPROVED_EMBED_ORIGINS, backend] : [...APPROVED_EMBED_ORIGINS];
+}
+
+// Pinned library URLs plus the backend's own static scripts, as CSP sources
+export function getApprovedScriptSources(): string[] {
+  const backend = getBackendOrigin();
+  return backend ? [...APPROVED_SCRIPT_URLS, `${backend}${BACKEND_SCRIPT_PATH}`] : [...APPROVED_SCRIPT_URLS];
+}
+
+// Whether a fragment script may load from this URL; matches the CSP sources above
+export function isApprovedScriptUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  const target = `${parsed.origin}${parsed.pathname}`;
+  const backend = getBackendOrigin();
+  return APPROVED_SCRIPT_URLS.includes(target) ||
+    (backend !== null && parsed.origin === backend && parsed.pathname.startsWith(BACKEND_SCRIPT_PATH));
+}
+
+function serialize(directives: Record<string, string[]>): string {
+  return Object.entries(directives)
+    .map(([name, values]) => `${name} ${values.join(' ')}`.trim())
+    .join('; ');
+}
+
+// A random per-request nonce, base64 as CSP expects
+export function createNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Policy for a report page. Only scripts carrying this request's nonce run, and
+ * 'strict-dynamic' lets them load their own dependencies (Next.js chunks, the
+ * Memberstack SDK); the origin list is the fallback for browsers without it.
+ */
+export function buildReportCsp(nonce: string, isDev: boolean = process.env.NODE_ENV !== 'production'): string {
+  const approved = getApprovedOrigins();
+
+  return serialize({
+    'default-src': ["'self'"],
+    'script-src': ["'self'", `'nonce-${nonce}'`, "'strict-dynamic'", ...(isDev ? ["'unsafe-eval'"] : []), ...MEMBERSTACK_ORIGINS],
+    'style-src': ["'self'", "'unsafe-inline'", ...approved],
+    'img-src': ["'self'", 'data:', 'blob:', 'https:'],
+    'font-src': ["'self'", 'data:', ...approved],
+    'connect-src': ["'self'", ...approved, ...MEMBERSTACK_ORIGINS, ...(isDev ? ['ws:'] : [])],
+    'frame-src': ["'self'", ...approved, ...MEMBERSTACK_ORIGINS],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'"],
+    'frame-ancestors': ["'self'"],
+  });
+}
+
+/**
+ * Policy for a stored fragment document (app/api/fragments). Folium maps and
+ * Plotly charts set themselves up with inline scripts, so those may run here,
+ * but the document is sandboxed into an opaque origin with no access to the
+ * app, its cookies or its storage, and external scripts are the pinned builds.
+ */
+export function buildFragmentCsp(): string {
+  const approved = getApprovedOrigins();
+
+  return serialize({
+    'default-src': ["'none'"],
+    'script-src': ["'unsafe-inline'", ...getApprovedScriptSources()],
+    'style-src': ["'unsafe-inline'", ...approved],
+    'img-src': ['data:', 'blob:', 'https:'],
+    'font-src': ['data:', ...approved],
+    'connect-src': approved,
+    'frame-src': approved,
+    'base-uri': ["'none'"],
+    'form-action': ["'none'"],
+    'frame-ancestors': ["'self'"],
+    'sandbox': ['allow-scripts', 'allow-popups'],
+  });
+}
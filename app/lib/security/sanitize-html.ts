@@ -0,0 +1,319 @@
+// Allowlist HTML sanitizer for Flask-rendered report fragments
+// Every kept tag is re-serialized from its parsed name and attributes, so the
+// output never contains markup the browser could read differently from us.
+import { createHash } from 'crypto';
+import { getApprovedOrigins, isApprovedScriptUrl } from './csp';
+
+// The inline document of a frame, moved out to app/api/fragments/<id>
+export interface FragmentDocument {
+  id: string; // SHA-256 of the document
+  html: string;
+}
+
+const FRAGMENT_PATH = '/api/fragments/';
+
+const HTML_TAGS = [
+  'a', 'abbr', 'article', 'b', 'blockquote', 'br', 'canvas', 'caption', 'code', 'col', 'colgroup',
+  'dd', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'i', 'img', 'label', 'li', 'ol', 'p', 'pre', 'section', 'small', 'span', 'strong',
+  'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul',
+];
+
+const SVG_TAGS = [
+  'circle', 'clippath', 'defs', 'desc', 'ellipse', 'g', 'image', 'line', 'lineargradient', 'marker',
+  'mask', 'path', 'pattern', 'polygon', 'polyline', 'radialgradient', 'rect', 'stop', 'svg', 'symbol',
+  'text', 'textpath', 'title', 'tspan', 'use',
+];
+
+// Kept only when their source passes the checks below
+const EMBED_TAGS = ['iframe', 'script', 'style'];
+
+const ALLOWED_TAGS = new Set([...HTML_TAGS, ...SVG_TAGS, ...EMBED_TAGS]);
+
+const VOID_TAGS = new Set(['br', 'col', 'hr', 'img']);
+
+// Elements whose content the HTML parser reads as raw text
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes']);
+
+const GLOBAL_ATTRS = [
+  'class', 'id', 'style', 'title', 'role', 'lang', 'dir', 'width', 'height', 'align', 'valign',
+];
+
+const TAG_ATTRS: Record<string, string[]> = {
+  a: ['href', 'target', 'rel'],
+  img: ['src', 'alt', 'loading'],
+  table: ['border', 'cellpadding', 'cellspacing', 'summary'],
+  td: ['colspan', 'rowspan', 'headers', 'scope'],
+  th: ['colspan', 'rowspan', 'headers', 'scope'],
+  col: ['span'],
+  colgroup: ['span'],
+  ol: ['start', 'type'],
+  script: ['src', 'type', 'charset', 'crossorigin', 'integrity', 'defer', 'async'],
+  iframe: ['src', 'srcdoc', 'frameborder', 'allowfullscreen', 'loading', 'scrolling'],
+  style: ['type', 'media'],
+  use: ['href', 'xlink:href'],
+  image: ['href', 'xlink:href', 'preserveaspectratio'],
+};
+
+// SVG presentation and geometry attributes, lower-cased
+const SVG_ATTRS = [
+  'viewbox', 'xmlns', 'xmlns:xlink', 'version', 'd', 'x', 'y', 'x1', 'x2', 'y1', 'y2', 'cx', 'cy',
+  'r', 'rx', 'ry', 'dx', 'dy', 'points', 'transform', 'fill', 'fill-opacity', 'fill-rule', 'stroke',
+  'stroke-width', 'stroke-dasharray', 'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin',
+  'stroke-miterlimit', 'stroke-opacity', 'opacity', 'text-anchor', 'dominant-baseline',
+  'alignment-baseline', 'baseline-shift', 'font-family', 'font-size', 'font-style', 'font-weight',
+  'letter-spacing', 'textlength', 'lengthadjust', 'startoffset', 'offset', 'stop-color', 'stop-opacity',
+  'gradientunits', 'gradienttransform', 'spreadmethod', 'fx', 'fy', 'clip-path', 'clip-rule',
+  'clippathunits', 'mask', 'maskunits', 'marker-start', 'marker-mid', 'marker-end', 'markerwidth',
+  'markerheight', 'markerunits', 'refx', 'refy', 'orient', 'preserveaspectratio', 'patternunits',
+  'patterncontentunits', 'patterntransform', 'visibility', 'display', 'pointer-events', 'vector-effect',
+  'shape-rendering', 'text-rendering', 'color', 'overflow',
+];
+
+const SVG_TAG_SET = new Set(SVG_TAGS);
+const SVG_ATTR_SET = new Set(SVG_ATTRS);
+
+const URL_ATTRS = new Set(['href', 'xlink:href', 'src']);
+
+// Fields in section payloads that the report pages render as HTML
+const HTML_FIELDS = new Set(['html', 'age', 'summary_short', 'text']);
+
+// Frames are always sandboxed; fragment documents are served by this app, so they
+// must never get allow-same-origin
+const FRAGMENT_SANDBOX = 'allow-scripts allow-popups';
+const SRC_SANDBOX = 'allow-scripts allow-same-origin allow-popups';
+
+// CSS that can run script, pull in other stylesheets or break out of a style element
+const DANGEROUS_CSS = /expression\s*\(|javascript:|vbscript:|behavior\s*:|-moz-binding|@import|<\//i;
+
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<\/([a-zA-Z][^\s/>]*)\s*>|<([a-zA-Z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|<|[^<]+/g;
+const ATTR_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  colon: ':', tab: '\t', newline: '\n', sol: '/', lpar: '(', rpar: ')',
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Values are fully decoded by now, so every & is escaped; leaving entities intact
+// would let a double-encoded scheme such as &amp;colon; decode in the browser
+function escapeAttr(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function isApprovedOrigin(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return getApprovedOrigins().includes(parsed.origin);
+  } catch {
+    return false;
+  }
+}
+
+// Links and images may be relative or http(s); images may also be inline data
+function isSafeUrl(url: string, tag: string): boolean {
+  // Browsers ignore whitespace and control characters when reading the scheme
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+
+  if (tag === 'script') {
+    return isApprovedScriptUrl(url.trim());
+  }
+  if (tag === 'iframe') {
+    return isApprovedOrigin(url.trim());
+  }
+  if (tag === 'use') {
+    return normalized.startsWith('#'); // Only references within the same fragment
+  }
+  if (normalized.startsWith('data:')) {
+    return (tag === 'img' || tag === 'image') && /^data:image\/(png|jpe?g|gif|webp|svg\+xml)[;,]/.test(normalized);
+  }
+
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+  if (!scheme) return true; // Relative URL or fragment
+  return ['http', 'https', 'mailto', 'tel'].includes(scheme[1]);
+}
+
+function isAllowedAttr(tag: string, name: string): boolean {
+  if (name.startsWith('on')) return false;
+  if (name.startsWith('aria-') || name.startsWith('data-')) return true;
+  if (GLOBAL_ATTRS.includes(name)) return true;
+  if (TAG_ATTRS[tag]?.includes(name)) return true;
+  return SVG_TAG_SET.has(tag) && SVG_ATTR_SET.has(name);
+}
+
+function sanitizeAttributes(tag: string, rawAttrs: string, documents: FragmentDocument[]): string[] | null {
+  const attrs: string[] = [];
+  const seen = new Set<string>();
+  let source: string | null = null;
+
+  for (const match of rawAttrs.matchAll(ATTR_PATTERN)) {
+    const name = match[1].toLowerCase();
+    const rawValue = match[2] ?? match[3] ?? match[4];
+    if (seen.has(name) || !isAllowedAttr(tag, name)) continue;
+    seen.add(name);
+
+    if (rawValue === undefined) {
+      attrs.push(name);
+      continue;
+    }
+
+    const value = decodeEntities(rawValue);
+
+    if (URL_ATTRS.has(name) && !isSafeUrl(value, tag)) continue;
+    if (name === 'style' && DANGEROUS_CSS.test(value)) continue;
+    if (name === 'srcdoc') {
+      // Served from this app under the fragment policy, sandboxed into an opaque origin
+      const id = createHash('sha256').update(value).digest('hex');
+      if (!documents.some(doc => doc.id === id)) documents.push({ id, html: value });
+      source = `${FRAGMENT_PATH}${id}`;
+      continue;
+    }
+    if (name === 'src') {
+      // A srcdoc wins over src, as it does in the browser
+      if (!seen.has('srcdoc')) source = value;
+      continue;
+    }
+
+    attrs.push(`${name}="${escapeAttr(value)}"`);
+  }
+
+  // External scripts and frames are only kept when they load from an approved source
+  if ((tag === 'script' || tag === 'iframe') && source === null) return null;
+  if (source !== null) attrs.unshift(`src="${escapeAttr(source)}"`);
+
+  if (tag === 'iframe') {
+    attrs.push(`sandbox="${seen.has('srcdoc') ? FRAGMENT_SANDBOX : SRC_SANDBOX}"`);
+    attrs.push('referrerpolicy="no-referrer"');
+  }
+  if (tag === 'a' && seen.has('target')) {
+    return [...attrs.filter(attr => !attr.startsWith('rel')), 'rel="noopener noreferrer"'];
+  }
+
+  return attrs;
+}
+
+// Content of a raw-text element that we keep, or null to drop the element
+function sanitizeRawText(tag: string, content: string): string | null {
+  switch (tag) {
+    case 'style':
+      // Inside SVG, style content is parsed as markup, so any tag drops the element
+      return DANGEROUS_CSS.test(content) || /</.test(content) ? null : content;
+    case 'script':
+      // Inline scripts never run from innerHTML and are not trusted; only approved src scripts are kept
+      return content.trim() ? null : '';
+    case 'iframe':
+      return ''; // Fallback content is never shown by current browsers
+    case 'title':
+      return content.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Sanitize an HTML fragment. Inline frame documents are replaced by a link to
+ * app/api/fragments and added to `documents`, for the caller to store.
+ */
+export function sanitizeHtml(html: string, documents: FragmentDocument[] = []): string {
+  let output = '';
+  const tokens = html.matchAll(TOKEN_PATTERN);
+  let skipUntil = -1;
+
+  for (const token of tokens) {
+    const index = token.index ?? 0;
+    if (index < skipUntil) continue;
+
+    const [text, closeName, openName, rawAttrs = ''] = token;
+
+    if (text.startsWith('<!--')) continue; // Comments are dropped
+    if (text === '<') {
+      output += '&lt;';
+      continue;
+    }
+
+    if (closeName !== undefined) {
+      const tag = closeName.toLowerCase();
+      if (ALLOWED_TAGS.has(tag) && !VOID_TAGS.has(tag)) {
+        output += `</${closeName}>`;
+      }
+      continue;
+    }
+
+    if (openName === undefined) {
+      output += text; // Plain text
+      continue;
+    }
+
+    const tag = openName.toLowerCase();
+    const selfClosing = /\/\s*$/.test(rawAttrs);
+
+    if (RAW_TEXT_TAGS.has(tag) && !selfClosing) {
+      // Take everything up to the matching close tag as this element's content
+      const contentStart = index + text.length;
+      const closeMatch = new RegExp(`</${tag}[\\s/>]`, 'i').exec(html.slice(contentStart));
+      const contentEnd = closeMatch ? contentStart + closeMatch.index : html.length;
+      const closeEnd = closeMatch ? html.indexOf('>', contentEnd) + 1 || html.length : html.length;
+      skipUntil = closeEnd;
+
+      if (!ALLOWED_TAGS.has(tag)) continue;
+      const attrs = sanitizeAttributes(tag, rawAttrs, documents);
+      const content = sanitizeRawText(tag, html.slice(contentStart, contentEnd));
+      if (attrs === null || content === null) continue;
+
+      output += `<${openName}${attrs.map(a => ` ${a}`).join('')}>${content}</${openName}>`;
+      continue;
+    }
+
+    if (!ALLOWED_TAGS.has(tag)) continue; // Disallowed tag; its text content is kept
+
+    const attrs = sanitizeAttributes(tag, rawAttrs, documents);
+    if (attrs === null) continue;
+
+    const attrText = attrs.map(a => ` ${a}`).join('');
+    output += selfClosing && SVG_TAG_SET.has(tag) ? `<${openName}${attrText} />` : `<${openName}${attrText}>`;
+  }
+
+  return output;
+}
+
+// Tag-like sequences are the only way a string can create markup via innerHTML
+function looksLikeHtml(value: string): boolean {
+  return /<[a-zA-Z!/?]/.test(value);
+}
+
+// Sanitize the HTML fields of a section payload, at any depth
+export function sanitizeSectionData<T>(data: T, documents: FragmentDocument[] = []): T {
+  if (Array.isArray(data)) {
+    return data.map(item => sanitizeSectionData(item, documents)) as T;
+  }
+  if (!data || typeof data !== 'object') {
+    return data;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+    if (typeof value === 'string' && HTML_FIELDS.has(key) && looksLikeHtml(value)) {
+      result[key] = sanitizeHtml(value, documents);
+    } else if (value && typeof value === 'object') {
+      result[key] = sanitizeSectionData(value, documents);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result as T;
+}
@@ -0,0 +1,104 @@
+// Opening share links, and the entitlement report routes use for ?share= requests
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import type { ReportEntitlement } from '@/app/lib/auth/entitlements';
+import type { ShareReportType, ShareUnavailableReason } from '@/app/lib/types/shares';
+import {
+  allowPasswordAttempt,
+  checkSharePassword,
+  getShare,
+  hasViewGrant as hasStoredViewGrant,
+  recordShareView,
+  saveViewGrant,
+  type StoredShare,
+} from './store';
+import { createViewGrant, verifyShareToken, verifyViewGrant } from './tokens';
+
+const GRANT_COOKIE_PREFIX = 'mib_share_';
+
+const UNAVAILABLE: Record<ShareUnavailableReason, { error: string; status: number }> = {
+  not_found: { error: 'This share link is not valid', status: 404 },
+  revoked: { error: 'This share link has been turned off by its owner', status: 410 },
+  expired: { error: 'This share link has expired', status: 410 },
+  view_limit: { error: 'This share link has reached its view limit', status: 410 },
+  not_opened: { error: 'Open the share link to view this report', status: 403 },
+  password_required: { error: 'This share link needs a password', status: 401 },
+  wrong_password: { error: 'Incorrect password', status: 403 },
+  too_many_attempts: { error: 'Too many password attempts. Try again in a few minutes', status: 429 },
+};
+
+export function shareUnavailable(reason: ShareUnavailableReason): NextResponse {
+  const { error, status } = UNAVAILABLE[reason];
+  return NextResponse.json({ success: false, error, reason }, { status });
+}
+
+async function loadShare(token: string): Promise<StoredShare | ShareUnavailableReason> {
+  const id = verifyShareToken(token);
+  const share = id ? await getShare(id) : null;
+  if (!share) return 'not_found';
+  if (share.revoked) return 'revoked';
+  if (Date.parse(share.expiresAt) <= Date.now()) return 'expired';
+  return share;
+}
+
+async function hasViewGrant(share: StoredShare): Promise<boolean> {
+  const cookieStore = await cookies();
+  const nonce = verifyViewGrant(share.id, cookieStore.get(`${GRANT_COOKIE_PREFIX}${share.id}`)?.value);
+  return !!nonce && hasStoredViewGrant(share.id, nonce);
+}
+
+/**
+ * Open a share link for this browser. The first opening checks the password and
+ * view limit, counts a view and sets a cookie; reopening with the cookie is free.
+ * `client` identifies the caller (e.g. its IP address) for password rate limiting.
+ */
+export async function openShare(
+  token: string,
+  client: string,
+  password?: string
+): Promise<StoredShare | ShareUnavailableReason> {
+  const share = await loadShare(token);
+  if (typeof share === 'string') return share;
+  if (await hasViewGrant(share)) return share;
+
+  if (share.passwordHash) {
+    if (!password) return 'password_required';
+    if (!(await allowPasswordAttempt(share.id, client))) return 'too_many_attempts';
+    if (!checkSharePassword(share, password)) return 'wrong_password';
+  }
+  if (!(await recordShareView(share))) return 'view_limit';
+
+  const { nonce, grant } = createViewGrant(share.id);
+  await saveViewGrant(share, nonce);
+  const cookieStore = await cookies();
+  cookieStore.set(`${GRANT_COOKIE_PREFIX}${share.id}`, grant, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    expires: new Date(share.expiresAt),
+    path: '/',
+  });
+  return share;
+}
+
+/**
+ * Entitlement for a report request made through a share link, or the reason it
+ * can't be served. Recipients see the report as the sharer could when sharing,
+ * but as an anonymous viewer, so exports and other member actions stay closed.
+ */
+export async function resolveSharedEntitlement(
+  token: string,
+  reportType: ShareReportType,
+  reportKey: string
+): Promise<ReportEntitlement | ShareUnavailableReason> {
+  const share = await loadShare(token);
+  if (typeof share === 'string') return share;
+
+  // A token only opens the report it was made for
+  if (share.reportType !== reportType || share.reportKey.toLowerCase() !== reportKey.toLowerCase()) {
+    return 'not_found';
+  }
+  if (!(await hasViewGrant(share))) return 'not_opened';
+
+  return { ...share.entitlement, isAuthenticated: false };
+}
@@ -0,0 +1,305 @@
+// Share links: one record per link plus a per-member index for the members area
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { kv } from '@vercel/kv';
+import type { ReportEntitlement } from '@/app/lib/auth/entitlements';
+import type { ShareLink, ShareReportType } from '@/app/lib/types/shares';
+import { createShareToken, shareUrl } from './tokens';
+
+const SHARE_PREFIX = 'share:';
+const SHARE_INDEX_PREFIX = 'shares:';
+const SHARE_VIEWS_PREFIX = 'share-views:';
+const SHARE_GRANT_PREFIX = 'share-grant:';
+const SHARE_ATTEMPTS_PREFIX = 'share-attempts:';
+
+// Records outlive their links by this long so owners still see the analytics
+const RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+export const SHARE_EXPIRY_DAYS = [1, 7, 30] as const;
+export const MAX_SHARE_VIEWS = 1000;
+export const MAX_SHARES_PER_MEMBER = 100;
+
+// Password guesses allowed per link, from one client and from everyone, in each window
+const PASSWORD_ATTEMPT_WINDOW_SECONDS = 15 * 60;
+const PASSWORD_ATTEMPTS_PER_CLIENT = 5;
+const PASSWORD_ATTEMPTS_PER_SHARE = 50;
+
+// View analytics live beside the record, so counting a view never rewrites the link itself
+type ShareViewFields = 'views' | 'viewsByDay' | 'lastViewedAt';
+type ShareViewStats = Pick<ShareLink, ShareViewFields>;
+
+export interface StoredShare extends Omit<ShareLink, 'url' | 'hasPassword' | ShareViewFields> {
+  ownerEmail: string;
+  passwordHash: string | null; // salt:hash, scrypt
+  // The sharer's access to this report when the link was made; recipients see the report at this level
+  entitlement: ReportEntitlement;
+}
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+// In-memory fallback for local development
+const GLOBAL_SHARE_KEY = '__MIB_SHARE_STORE__' as const;
+
+interface InMemoryShareStore {
+  shares: Map<string, StoredShare>;
+  index: Map<string, string[]>;
+  views: Map<string, ShareViewStats>;
+  grants: Map<string, { shareId: string; expiresAt: number }>;
+  attempts: Map<string, { count: number; resetAt: number }>;
+}
+
+function getInMemoryStore(): InMemoryShareStore {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_SHARE_KEY]?: InMemoryShareStore;
+  };
+  if (!g[GLOBAL_SHARE_KEY]) {
+    g[GLOBAL_SHARE_KEY] = { shares: new Map(), index: new Map(), views: new Map(), grants: new Map(), attempts: new Map() };
+  }
+  return g[GLOBAL_SHARE_KEY];
+}
+
+// Seconds until a share's records can go: its expiry plus the analytics retention
+function shareTtl(share: Pick<StoredShare, 'expiresAt'>): number {
+  return Math.max(0, Math.ceil((Date.parse(share.expiresAt) - Date.now()) / 1000)) + RETENTION_SECONDS;
+}
+
+// Check the view limit and count the view in one step, so concurrent openings can't
+// pass the limit together. ARGV: limit (-1 for unlimited), day, timestamp, TTL in seconds.
+const RECORD_VIEW_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local views = tonumber(redis.call('hget', KEYS[1], 'views') or '0')
+if limit >= 0 and views >= limit then
+  return 0
+end
+redis.call('hincrby', KEYS[1], 'views', 1)
+redis.call('hincrby', KEYS[1], 'day:' .. ARGV[2], 1)
+redis.call('hset', KEYS[1], 'lastViewedAt', ARGV[3])
+redis.call('expire', KEYS[1], tonumber(ARGV[4]))
+return 1`;
+
+function readViewStats(data: Record<string, unknown> | null): ShareViewStats {
+  const stats: ShareViewStats = { views: 0, viewsByDay: {}, lastViewedAt: null };
+  for (const [field, value] of Object.entries(data ?? {})) {
+    if (field === 'views') stats.views = Number(value) || 0;
+    else if (field === 'lastViewedAt') stats.lastViewedAt = String(value);
+    else if (field.startsWith('day:')) stats.viewsByDay[field.slice(4)] = Number(value) || 0;
+  }
+  return stats;
+}
+
+// Share store abstraction; the index is keyed by lowercased email, newest first
+const shareStore = {
+  async get(id: string): Promise<StoredShare | null> {
+    if (isKVConfigured) {
+      const data = await kv.get<string | StoredShare>(`${SHARE_PREFIX}${id}`);
+      if (!data) return null;
+      return typeof data === 'string' ? JSON.parse(data) : data;
+    }
+    return getInMemoryStore().shares.get(id) || null;
+  },
+
+  async set(share: StoredShare): Promise<void> {
+    if (isKVConfigured) {
+      await kv.set(`${SHARE_PREFIX}${share.id}`, JSON.stringify(share), { ex: shareTtl(share) });
+    } else {
+      getInMemoryStore().shares.set(share.id, share);
+    }
+  },
+
+  async getViews(id: string): Promise<ShareViewStats> {
+    if (isKVConfigured) {
+      return readViewStats(await kv.hgetall(`${SHARE_VIEWS_PREFIX}${id}`));
+    }
+    return getInMemoryStore().views.get(id) ?? readViewStats(null);
+  },
+
+  // Whether the view was within the limit, and so counted
+  async addView(share: StoredShare, now: Date): Promise<boolean> {
+    const day = now.toISOString().slice(0, 10);
+    if (isKVConfigured) {
+      const counted = await kv.eval<string[], number>(
+        RECORD_VIEW_SCRIPT,
+        [`${SHARE_VIEWS_PREFIX}${share.id}`],
+        [String(share.maxViews ?? -1), day, now.toISOString(), String(shareTtl(share))]
+      );
+      return counted === 1;
+    }
+
+    // Runs without awaiting, so it is already atomic in one process
+    const views = getInMemoryStore().views;
+    const stats = views.get(share.id) ?? readViewStats(null);
+    if (share.maxViews !== null && stats.views >= share.maxViews) return false;
+    views.set(share.id, {
+      views: stats.views + 1,
+      viewsByDay: { ...stats.viewsByDay, [day]: (stats.viewsByDay[day] ?? 0) + 1 },
+      lastViewedAt: now.toISOString(),
+    });
+    return true;
+  },
+
+  async getIndex(key: string): Promise<string[]> {
+    if (isKVConfigured) {
+      const data = await kv.get<string | string[]>(`${SHARE_INDEX_PREFIX}${key}`);
+      if (!data) return [];
+      return typeof data === 'string' ? JSON.parse(data) : data;
+    }
+    return getInMemoryStore().index.get(key) || [];
+  },
+
+  async setIndex(key: string, ids: string[]): Promise<void> {
+    if (isKVConfigured) {
+      await kv.set(`${SHARE_INDEX_PREFIX}${key}`, JSON.stringify(ids));
+    } else {
+      getInMemoryStore().index.set(key, ids);
+    }
+  },
+};
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  return `${salt}:${scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+export function checkSharePassword(share: StoredShare, password: string): boolean {
+  if (!share.passwordHash) return true;
+  const [salt, hash] = share.passwordHash.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, 32);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// The owner's view of a share; never includes the password hash or entitlement
+function toShareLink(share: StoredShare, stats: ShareViewStats): ShareLink {
+  return {
+    id: share.id,
+    reportType: share.reportType,
+    reportKey: share.reportKey,
+    label: share.label,
+    url: shareUrl(share.reportType, share.reportKey, createShareToken(share.id)),
+    createdAt: share.createdAt,
+    expiresAt: share.expiresAt,
+    hasPassword: !!share.passwordHash,
+    maxViews: share.maxViews,
+    views: stats.views,
+    viewsByDay: stats.viewsByDay,
+    lastViewedAt: stats.lastViewedAt,
+    revoked: share.revoked,
+  };
+}
+
+export async function getShare(id: string): Promise<StoredShare | null> {
+  return shareStore.get(id);
+}
+
+export async function createShare(
+  email: string,
+  input: {
+    reportType: ShareReportType;
+    reportKey: string;
+    label: string;
+    expiresInDays: number;
+    password?: string;
+    maxViews?: number | null;
+  },
+  entitlement: ReportEntitlement
+): Promise<ShareLink> {
+  const key = email.toLowerCase();
+  const now = new Date();
+
+  const share: StoredShare = {
+    id: uuidv4(),
+    ownerEmail: key,
+    reportType: input.reportType,
+    reportKey: input.reportKey,
+    label: input.label,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    passwordHash: input.password ? hashPassword(input.password) : null,
+    maxViews: input.maxViews ?? null,
+    revoked: false,
+    entitlement,
+  };
+
+  await shareStore.set(share);
+  // The oldest links drop out of the members area once the index is full; they still expire as set
+  const index = await shareStore.getIndex(key);
+  await shareStore.setIndex(key, [share.id, ...index].slice(0, MAX_SHARES_PER_MEMBER));
+
+  return toShareLink(share, readViewStats(null));
+}
+
+// The member's links, newest first; records gone from the store are dropped from the index
+export async function listShares(email: string): Promise<ShareLink[]> {
+  const key = email.toLowerCase();
+  const index = await shareStore.getIndex(key);
+  const shares = await Promise.all(index.map(id => shareStore.get(id)));
+  const found = shares.filter((share): share is StoredShare => !!share && share.ownerEmail === key);
+
+  if (found.length !== index.length) {
+    await shareStore.setIndex(key, found.map(share => share.id));
+  }
+  const stats = await Promise.all(found.map(share => shareStore.getViews(share.id)));
+  return found.map((share, i) => toShareLink(share, stats[i]));
+}
+
+export async function revokeShare(email: string, id: string): Promise<ShareLink | null> {
+  const share = await shareStore.get(id);
+  if (!share || share.ownerEmail !== email.toLowerCase()) return null;
+
+  const revoked = { ...share, revoked: true };
+  await shareStore.set(revoked);
+  return toShareLink(revoked, await shareStore.getViews(id));
+}
+
+// Count one opening of the link; false once the link has reached its view limit
+export async function recordShareView(share: StoredShare): Promise<boolean> {
+  return shareStore.addView(share, new Date());
+}
+
+// Remember a view grant's nonce until the link expires, so only browsers that opened it hold one
+export async function saveViewGrant(share: StoredShare, nonce: string): Promise<void> {
+  if (isKVConfigured) {
+    const ttl = Math.max(1, Math.ceil((Date.parse(share.expiresAt) - Date.now()) / 1000));
+    await kv.set(`${SHARE_GRANT_PREFIX}${nonce}`, share.id, { ex: ttl });
+  } else {
+    getInMemoryStore().grants.set(nonce, { shareId: share.id, expiresAt: Date.parse(share.expiresAt) });
+  }
+}
+
+export async function hasViewGrant(shareId: string, nonce: string): Promise<boolean> {
+  if (isKVConfigured) {
+    return (await kv.get<string>(`${SHARE_GRANT_PREFIX}${nonce}`)) === shareId;
+  }
+  const grant = getInMemoryStore().grants.get(nonce);
+  return !!grant && grant.shareId === shareId && grant.expiresAt > Date.now();
+}
+
+async function countAttempt(key: string): Promise<number> {
+  if (isKVConfigured) {
+    const count = await kv.incr(`${SHARE_ATTEMPTS_PREFIX}${key}`);
+    if (count === 1) await kv.expire(`${SHARE_ATTEMPTS_PREFIX}${key}`, PASSWORD_ATTEMPT_WINDOW_SECONDS);
+    return count;
+  }
+  const attempts = getInMemoryStore().attempts;
+  const now = Date.now();
+  const current = attempts.get(key);
+  const next = current && current.resetAt > now
+    ? { ...current, count: current.count + 1 }
+    : { count: 1, resetAt: now + PASSWORD_ATTEMPT_WINDOW_SECONDS * 1000 };
+  attempts.set(key, next);
+  return next.count;
+}
+
+/**
+ * Count a password attempt on a share, from one client (e.g. an IP address).
+ * False once that client, or everyone together, has used up the current window.
+ */
+export async function allowPasswordAttempt(shareId: string, client: string): Promise<boolean> {
+  const [fromClient, fromAll] = await Promise.all([
+    countAttempt(`${shareId}:${client}`),
+    countAttempt(shareId),
+  ]);
+  return fromClient <= PASSWORD_ATTEMPTS_PER_CLIENT && fromAll <= PASSWORD_ATTEMPTS_PER_SHARE;
+}
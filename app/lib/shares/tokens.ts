@@ -0,0 +1,59 @@
+// Signed share tokens. A token is the share ID plus an HMAC of it, so forged or
+// mistyped links are rejected before any store lookup.
+// Set SHARE_LINK_SECRET in production; without it links only last until a restart.
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { ShareReportType } from '@/app/lib/types/shares';
+
+const GLOBAL_SECRET_KEY = '__MIB_SHARE_SECRET__' as const;
+
+function getSecret(): string {
+  if (process.env.SHARE_LINK_SECRET) return process.env.SHARE_LINK_SECRET;
+
+  const g = globalThis as typeof globalThis & { [GLOBAL_SECRET_KEY]?: string };
+  if (!g[GLOBAL_SECRET_KEY]) {
+    console.warn('[Shares] SHARE_LINK_SECRET is not set; share links will stop working on restart');
+    g[GLOBAL_SECRET_KEY] = randomBytes(32).toString('hex');
+  }
+  return g[GLOBAL_SECRET_KEY];
+}
+
+export function sign(value: string): string {
+  return createHmac('sha256', getSecret()).update(value).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function createShareToken(id: string): string {
+  return `${id}.${sign(`share:${id}`)}`;
+}
+
+// The share ID inside a genuine token, or null
+export function verifyShareToken(token: string): string | null {
+  const [id, signature, extra] = token.split('.');
+  if (!id || !signature || extra !== undefined) return null;
+  return safeEqual(signature, sign(`share:${id}`)) ? id : null;
+}
+
+// Proof, kept in a cookie, that this browser opened the share (and knew its password).
+// Each opening gets its own random nonce, which the store must also know.
+export function createViewGrant(id: string): { nonce: string; grant: string } {
+  const nonce = randomBytes(24).toString('base64url');
+  return { nonce, grant: `${nonce}.${sign(`view:${id}:${nonce}`)}` };
+}
+
+// The nonce inside a genuine grant for this share, or null
+export function verifyViewGrant(id: string, grant: string | undefined): string | null {
+  const [nonce, signature, extra] = (grant ?? '').split('.');
+  if (!nonce || !signature || extra !== undefined) return null;
+  return safeEqual(signature, sign(`view:${id}:${nonce}`)) ? nonce : null;
+}
+
+// The report page a token opens
+export function shareUrl(reportType: ShareReportType, reportKey: string, token: string): string {
+  const path = reportType === 'suburb' ? 'suburb-reports' : 'property-reports';
+  return `/${path}/${encodeURIComponent(reportKey)}?share=${token}`;
+}
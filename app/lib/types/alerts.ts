@@ -0,0 +1,37 @@
+// Watchlist alert types shared by the alert job, notifications API and notification centre
+import type { CompareValue } from './compare';
+import type { WatchlistItemType } from './watchlist';
+
+export type AlertKind = 'new_sale' | 'avm_change' | 'msp_change' | 'vacancy_change' | 'new_da';
+
+// Figures tracked for one watched property or suburb at a point in time
+export interface WatchSnapshot {
+  type: WatchlistItemType;
+  key: string;
+  takenAt: string; // ISO timestamp
+  avm?: CompareValue | null; // Properties: estimated value
+  saleCount?: number | null; // Properties: sales listed in history
+  msp?: CompareValue | null; // Suburbs: median house price
+  vacancy?: CompareValue | null; // Suburbs: house vacancy rate, percent
+  daIds?: string[] | null; // Development applications listed in das_table
+}
+
+export interface AlertEvent {
+  id: string;
+  kind: AlertKind;
+  itemType: WatchlistItemType;
+  itemKey: string;
+  label: string; // Watchlist label of the item
+  message: string; // Says what changed without quoting figures
+  from?: CompareValue | null;
+  to?: CompareValue | null;
+  href: string;
+  createdAt: string; // ISO timestamp
+  read: boolean;
+}
+
+export interface NotificationsResponse {
+  success: boolean;
+  alerts: AlertEvent[];
+  unread: number;
+}
@@ -0,0 +1,55 @@
+// Comparison report types shared by the compare API routes and pages
+import type { SectionAccess } from '@/app/lib/auth/types';
+import type { SectionFailure, SectionResult } from './sections';
+
+// Which way a metric is better; metrics without a direction get no winner
+export type MetricDirection = 'higher' | 'lower';
+
+export interface CompareValue {
+  value: number | null; // Used to pick the winner; null when missing or masked
+  display: string | null; // As formatted by the backend
+  locked?: boolean; // Section is locked for this report, so the value is withheld
+}
+
+export interface CompareMetric {
+  id: string;
+  label: string;
+  group: string;
+  better?: MetricDirection;
+  values: CompareValue[]; // One per compared report, in request order
+  winners: number[]; // Indexes of the best value(s); empty when fewer than two can be compared
+}
+
+export interface CompareSuburb {
+  name: string;
+  displayName: string;
+  state?: string;
+  access?: SectionAccess;
+  error?: SectionFailure; // The suburb itself could not be loaded
+  sections: Record<string, SectionResult>; // Sections shown as-is, e.g. demographics charts
+}
+
+export interface SuburbCompareResponse {
+  suburbs: CompareSuburb[];
+  metrics: CompareMetric[];
+}
+
+export interface CompareProperty {
+  gnafId: string;
+  address: string;
+  propertyType?: string;
+  access?: SectionAccess;
+  error?: SectionFailure; // The property itself could not be loaded
+  sections: Record<string, SectionResult>; // Sections shown as-is, e.g. risk and noise charts
+}
+
+export interface CompareCredits {
+  needed: number; // Compared properties not yet unlocked this period
+  left: number; // Property credits left this period, -1 for unlimited
+}
+
+export interface PropertyCompareResponse {
+  properties: CompareProperty[];
+  metrics: CompareMetric[];
+  credits?: CompareCredits; // Only for signed-in members who can unlock reports
+}
@@ -0,0 +1,98 @@
+// Suburb and property finder types shared by the finder API routes and pages
+import type { CompareValue } from './compare';
+
+export type FinderPropertyType = 'house' | 'unit';
+
+export type SuburbFinderSort = 'msp' | 'mrp' | 'yield' | 'growth' | 'vacancy' | 'supply' | 'score';
+
+export interface SuburbFinderFilters {
+  state?: string;
+  sa3?: string;
+  lga?: string;
+  propertyType: FinderPropertyType;
+  priceMin?: number;
+  priceMax?: number;
+  yieldMin?: number; // Percent
+  growthMin?: number; // Percent, 1 year
+  vacancyMax?: number; // Percent
+  supplyMax?: number; // Months of supply
+  scores?: Record<string, number>; // Minimum insight score by score id, out of 100
+  sort: SuburbFinderSort;
+  direction: 'asc' | 'desc';
+}
+
+export interface SuburbFinderRow {
+  name: string;
+  state?: string;
+  sa3?: string;
+  lga?: string;
+  msp: CompareValue | null;
+  mrp: CompareValue | null;
+  yield: CompareValue | null; // Withheld on the limited finder
+  growth: CompareValue | null;
+  vacancy: CompareValue | null; // Withheld on the limited finder
+  supply: CompareValue | null; // Withheld on the limited finder
+  score: CompareValue | null; // Mean of the suburb's insight scores; withheld on the limited finder
+  scores: Record<string, number>; // Empty on the limited finder
+}
+
+export interface SuburbFinderResponse {
+  results: SuburbFinderRow[];
+  page: number;
+  pageSize: number;
+  total: number; // Matches before the limited finder's cap
+  totalPages: number;
+  limited: boolean; // Free and Essentials plans: basic filters and the top results only
+  candidatesCapped?: boolean; // Area has more suburbs than are screened; narrow by SA3 or LGA
+  scoreNames: Record<string, string>; // Insight scores seen in this area, by id
+}
+
+export interface SuburbFinderPreset {
+  id: string;
+  name: string;
+  filters: SuburbFinderFilters;
+  createdAt: string; // ISO timestamp
+}
+
+// ----- Property finder -----
+
+export type PropertyFinderType = 'house' | 'unit' | 'townhouse';
+
+export interface PropertyFinderCriteria {
+  suburbs: string[]; // At least one
+  state?: string; // Narrows the suburbs to one state
+  propertyType?: PropertyFinderType;
+  budgetMin?: number;
+  budgetMax?: number;
+  bedroomsMin?: number;
+  yieldMin?: number; // Percent, gross
+}
+
+export interface PropertyMatch {
+  gnafId: string;
+  address: string;
+  suburb?: string;
+  state?: string;
+  propertyType?: string;
+  bedrooms?: number;
+  bathrooms?: number;
+  carSpaces?: number;
+  price: CompareValue | null; // Estimated value; null unless the member sees the report in full
+  rent: CompareValue | null; // Estimated weekly rent
+  yield: CompareValue | null; // Gross yield, percent
+  reasons: string[]; // Why the property matched
+}
+
+// AI property matches this billing period; a property counts once however often it matches
+export interface PropertyMatchUsage {
+  propertyMatchesUsed: number;
+  propertyMatchesLimit: number; // -1 for unlimited
+  propertyMatchesLeft: number; // -1 for unlimited
+}
+
+export interface PropertyFinderResponse {
+  matches: PropertyMatch[];
+  total: number; // Matches found, including any withheld
+  withheld: number; // New matches beyond this period's allowance
+  usage: PropertyMatchUsage;
+}
@@ -1,4 +1,5 @@
 // Order types for the dashboard
+import type { ReportBlock } from '@/app/lib/export/blocks';
 
 export interface Order {
   order_id: string;
@@ -11,6 +12,29 @@ export interface Order {
   date: string;
 }
 
+// One report section as it stood when the order was placed
+export interface OrderSnapshotSection {
+  id: string;
+  title: string;
+  blocks: ReportBlock[]; // Empty when the section had no data at the time
+}
+
+// The report as sold, stored when the order is created and never refreshed
+export interface OrderSnapshot {
+  orderId: string;
+  reportCategory: Order['report_category'];
+  reportId: string; // gnaf_id or suburb name
+  takenAt: string; // ISO timestamp
+  sections: OrderSnapshotSection[];
+}
+
+export interface OrderDetailResponse {
+  success: boolean;
+  order?: Order;
+  snapshot?: OrderSnapshot | null; // null for orders placed before snapshots, or through the Flask app
+  error?: string;
+}
+
 export interface OrderStats {
   totalOrders: number;
   suburbReports: number;
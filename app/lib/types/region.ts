@@ -0,0 +1,23 @@
+// Region report types shared by the region API route and page
+
+// One member suburb's own figures in the region leaderboard, as Flask formats them
+export interface LeaderboardRow {
+  suburb: string;
+  msp?: number;
+  msp_f?: string;
+  mrp?: number;
+  mrp_f?: string;
+  yield?: number;
+  yield_f?: string;
+  '1y_g'?: number;
+  '1y_g_f'?: string;
+  time_on_market?: number; // Days
+  time_on_market_f?: string;
+  sold_count?: number; // Sales in the last 12 months
+}
+
+// Rows ranked by median price, highest first
+export interface RegionLeaderboard {
+  house: LeaderboardRow[];
+  unit: LeaderboardRow[];
+}
@@ -0,0 +1,84 @@
+// Structured (format=data) section payloads shared by the section API routes and report pages
+
+// ?format=html (default) returns Flask's fragments; ?format=data returns the types below
+// for sections that support it, and the HTML payload for the rest
+export type SectionFormat = 'html' | 'data';
+
+export interface SeriesPoint {
+  date: string; // As labelled by the backend, e.g. "2024-06" or "Jun 2024"
+  value: number | null; // null where the backend has no value or it is masked
+}
+
+export interface Series {
+  name: string; // e.g. "Bondi", "Eastern Suburbs - South"
+  points: SeriesPoint[];
+}
+
+// Headline metrics Flask sends alongside the msp chart
+export interface MedianPriceMetrics {
+  msp?: number;
+  msp_f?: string;
+  mrp_f?: string;
+  '1y_g'?: number;
+  '1y_g_f'?: string;
+  name?: string;
+}
+
+export interface MedianPriceSeries {
+  series: Series[];
+  suburb?: MedianPriceMetrics;
+  cr?: MedianPriceMetrics;
+  sa3?: MedianPriceMetrics;
+}
+
+// msp: median sale price over time, per property type
+export interface MedianPriceData {
+  format: 'data';
+  kind: 'series';
+  house: MedianPriceSeries | null;
+  unit: MedianPriceSeries | null;
+}
+
+export interface TableColumn<Row> {
+  key: keyof Row & string;
+  label: string;
+  numeric?: boolean;
+}
+
+export interface DataTable<Row> {
+  format: 'data';
+  kind: 'table';
+  columns: TableColumn<Row>[];
+  rows: Row[];
+}
+
+export interface SchoolRow {
+  name: string;
+  sector?: string; // Government, Catholic, Independent
+  type?: string; // Primary, Secondary, Combined
+  gender?: string;
+  icsea?: number | null;
+  enrolments?: number | null;
+  distanceKm?: number | null;
+}
+
+export interface DevelopmentApplicationRow {
+  address: string;
+  description?: string;
+  status?: string;
+  lodged?: string;
+  cost?: number | null;
+}
+
+// schools_table
+export type SchoolsTableData = DataTable<SchoolRow>;
+
+// das_table
+export type DevelopmentApplicationsData = DataTable<DevelopmentApplicationRow>;
+
+export type StructuredSectionData = MedianPriceData | SchoolsTableData | DevelopmentApplicationsData;
+
+// True when a section payload came back structured rather than as HTML
+export function isStructuredSection(data: unknown): data is StructuredSectionData {
+  return !!data && typeof data === 'object' && (data as { format?: unknown }).format === 'data';
+}
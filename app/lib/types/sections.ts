@@ -0,0 +1,23 @@
+// Report section types shared by the section API routes and report pages
+import type { SectionAccess } from '@/app/lib/auth/types';
+
+// Why a section has no data: the backend had none, was unreachable, sent something
+// unusable, or the section name is not one the route serves
+export type SectionFailure = 'not_found' | 'upstream_down' | 'bad_payload' | 'unknown_section';
+
+export interface SectionResult<T = unknown> {
+  data: T | null;
+  status: number; // HTTP status the section would get on its own
+  reason?: SectionFailure;
+  access?: SectionAccess;
+}
+
+// Response of ?sections=a,b - one entry per requested section
+export interface SectionBatchResponse {
+  sections: Record<string, SectionResult>;
+}
+
+// One line of the ?sections=a,b&stream=1 NDJSON response, sent as each section resolves
+export interface SectionStreamEvent extends SectionResult {
+  section: string;
+}
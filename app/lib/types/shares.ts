@@ -0,0 +1,42 @@
+// Share link types shared by the share API routes, report pages and members area
+
+export type ShareReportType = 'property' | 'suburb';
+
+// A share link as its owner sees it in the members area
+export interface ShareLink {
+  id: string;
+  reportType: ShareReportType;
+  reportKey: string; // gnaf_id for properties, suburb name for suburbs
+  label: string; // Address or suburb display name when shared
+  url: string; // Report page with the signed token, e.g. /suburb-reports/Bondi?share=...
+  createdAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+  hasPassword: boolean;
+  maxViews: number | null; // null for unlimited
+  views: number;
+  viewsByDay: Record<string, number>; // YYYY-MM-DD -> views opened that day
+  lastViewedAt: string | null;
+  revoked: boolean;
+}
+
+// Why a share link can't be opened
+export type ShareUnavailableReason =
+  | 'not_found'
+  | 'revoked'
+  | 'expired'
+  | 'view_limit'
+  | 'not_opened'
+  | 'password_required'
+  | 'wrong_password'
+  | 'too_many_attempts';
+
+// What a recipient learns when opening a link
+export interface ShareOpenResponse {
+  success: boolean;
+  reportType?: ShareReportType;
+  reportKey?: string;
+  label?: string;
+  expiresAt?: string;
+  error?: string;
+  reason?: ShareUnavailableReason;
+}
@@ -0,0 +1,33 @@
+// Watchlist types shared by the watchlist API routes, report headers and members area
+import type { CompareValue } from './compare';
+
+export type WatchlistItemType = 'property' | 'suburb';
+
+export interface WatchlistItem {
+  id: string;
+  type: WatchlistItemType;
+  key: string; // gnaf_id for properties, suburb name for suburbs
+  label: string; // Address or suburb display name when saved
+  notes: string;
+  tags: string[];
+  addedAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+export interface WatchlistMetric {
+  id: string;
+  label: string;
+  value: CompareValue;
+}
+
+// A saved item with its current headline figures, as the members area lists them
+export interface WatchlistEntry extends WatchlistItem {
+  metrics?: WatchlistMetric[];
+  href: string; // Report page for the item
+}
+
+export interface WatchlistResponse {
+  success: boolean;
+  items: WatchlistEntry[];
+  limit: number;
+}
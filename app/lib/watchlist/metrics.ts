@@ -0,0 +1,93 @@
+// Current headline figures for watchlist items, read the same way as the compare reports
+import { resolveReportEntitlement } from '@/app/lib/auth/entitlements';
+import { mapWithConcurrency, suburbGraph } from '@/app/lib/flask/client';
+import { fetchPropertySection } from '@/app/lib/reports/property-sections';
+import { fetchSectionBatch, type SectionFetcher } from '@/app/lib/reports/sections';
+import {
+  buildMetrics,
+  parseLeadingNumber,
+  readFormatted,
+  readPath,
+  type CompareSections,
+  type MetricDefinition,
+} from '@/app/lib/reports/compare';
+import type { WatchlistEntry, WatchlistItem, WatchlistMetric } from '@/app/lib/types/watchlist';
+
+// Items whose figures are loaded at once
+const METRICS_CONCURRENCY = 4;
+
+// Houses only, to keep each row short
+const SUBURB_METRICS: MetricDefinition[] = [
+  {
+    id: 'msp',
+    label: 'Median price',
+    group: 'Prices',
+    section: 'msp',
+    read: sections => readFormatted(readPath(sections, 'msp', ['house', 'suburb']), 'msp'),
+  },
+  {
+    id: 'mrp',
+    label: 'Median rent',
+    group: 'Prices',
+    section: 'mrp',
+    read: sections => readFormatted(readPath(sections, 'mrp', ['house', 'suburb']), 'mrp'),
+  },
+  {
+    id: 'yield',
+    label: 'Yield',
+    group: 'Prices',
+    section: 'yield',
+    read: sections => readFormatted(readPath(sections, 'yield', ['house', 'suburb']), 'yield'),
+  },
+  {
+    id: 'growth_1y',
+    label: '1y growth',
+    group: 'Growth',
+    section: 'msp',
+    read: sections => readFormatted(readPath(sections, 'msp', ['house', 'suburb']), '1y_g'),
+  },
+];
+
+// A formatted avm field, with its leading number kept for sorting
+function readAvm(sections: CompareSections, key: string) {
+  const value = readPath(sections, 'avm', [])?.[key];
+  if (value === undefined || value === null || value === '') return null;
+  const display = String(value);
+  return { value: typeof value === 'number' ? value : parseLeadingNumber(display), display };
+}
+
+const PROPERTY_METRICS: MetricDefinition[] = [
+  { id: 'predicted_price', label: 'Estimated value', group: 'Valuation', section: 'avm', read: sections => readAvm(sections, 'predicted_price') },
+  { id: 'rent_value', label: 'Rent estimate', group: 'Valuation', section: 'avm', read: sections => readAvm(sections, 'rent_value') },
+];
+
+export function watchlistHref(item: Pick<WatchlistItem, 'type' | 'key'>): string {
+  return item.type === 'property'
+    ? `/property-reports/${encodeURIComponent(item.key)}`
+    : `/suburb-reports/${encodeURIComponent(item.key)}`;
+}
+
+// Figures the member's plan would show on the report; locked ones come back marked locked
+async function loadMetrics(item: WatchlistItem): Promise<WatchlistMetric[]> {
+  const entitlement = await resolveReportEntitlement(item.type, item.key);
+  const fetcher: SectionFetcher = item.type === 'property'
+    ? section => fetchPropertySection(section, item.key, entitlement.blur)
+    : section => suburbGraph(section, item.key, { blur: entitlement.blur });
+  const definitions = item.type === 'property' ? PROPERTY_METRICS : SUBURB_METRICS;
+
+  const sectionNames = Array.from(new Set(definitions.map(definition => definition.section)));
+  const sections = await fetchSectionBatch(sectionNames, fetcher, entitlement, item.type);
+  return buildMetrics(definitions, [sections]).map(metric => ({
+    id: metric.id,
+    label: metric.label,
+    value: metric.values[0],
+  }));
+}
+
+export async function withMetrics(items: WatchlistItem[]): Promise<WatchlistEntry[]> {
+  return mapWithConcurrency(items, METRICS_CONCURRENCY, async item => ({
+    ...item,
+    href: watchlistHref(item),
+    metrics: await loadMetrics(item),
+  }));
+}
@@ -0,0 +1,165 @@
+// Saved properties and suburbs, one list per member
+// Uses Vercel KV (Redis) in production, in-memory store for development
+import { v4 as uuidv4 } from 'uuid';
+import { kv } from '@vercel/kv';
+import type { WatchlistItem, WatchlistItemType } from '@/app/lib/types/watchlist';
+
+const WATCHLIST_PREFIX = 'watchlist:';
+const MEMBERS_KEY = 'watchlist-members'; // Set of emails with a non-empty watchlist, for the alert job
+
+export const MAX_WATCHLIST_ITEMS = 200;
+export const MAX_NOTES_LENGTH = 1000;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+// Check if Vercel KV is configured
+const isKVConfigured = !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+// In-memory fallback for local development
+const GLOBAL_WATCHLIST_KEY = '__MIB_WATCHLIST_STORE__' as const;
+
+function getInMemoryStore(): Map<string, WatchlistItem[]> {
+  const g = globalThis as typeof globalThis & {
+    [GLOBAL_WATCHLIST_KEY]?: Map<string, WatchlistItem[]>;
+  };
+  if (!g[GLOBAL_WATCHLIST_KEY]) {
+    g[GLOBAL_WATCHLIST_KEY] = new Map<string, WatchlistItem[]>();
+  }
+  return g[GLOBAL_WATCHLIST_KEY];
+}
+
+// Watchlist store abstraction, keyed by lowercased email
+const watchlistStore = {
+  async get(key: string): Promise<WatchlistItem[]> {
+    if (isKVConfigured) {
+      const data = await kv.get<string | WatchlistItem[]>(`${WATCHLIST_PREFIX}${key}`);
+      if (!data) return [];
+      return typeof data === 'string' ? JSON.parse(data) : data;
+    }
+    return getInMemoryStore().get(key) || [];
+  },
+
+  async set(key: string, items: WatchlistItem[]): Promise<void> {
+    if (isKVConfigured) {
+      await kv.set(`${WATCHLIST_PREFIX}${key}`, JSON.stringify(items));
+      if (items.length > 0) {
+        await kv.sadd(MEMBERS_KEY, key);
+      } else {
+        await kv.srem(MEMBERS_KEY, key);
+      }
+    } else if (items.length > 0) {
+      getInMemoryStore().set(key, items);
+    } else {
+      getInMemoryStore().delete(key);
+    }
+  },
+
+  async members(): Promise<string[]> {
+    if (isKVConfigured) {
+      return kv.smembers(MEMBERS_KEY);
+    }
+    return Array.from(getInMemoryStore().keys());
+  },
+};
+
+// Tags are trimmed, de-duplicated case-insensitively and capped
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim().slice(0, MAX_TAG_LENGTH))
+    .filter(tag => {
+      if (!tag || seen.has(tag.toLowerCase())) return false;
+      seen.add(tag.toLowerCase());
+      return true;
+    })
+    .slice(0, MAX_TAGS);
+}
+
+// Emails of every member watching at least one item
+export async function listWatchlistMembers(): Promise<string[]> {
+  return watchlistStore.members();
+}
+
+// Items are kept newest first
+export async function listWatchlist(email: string): Promise<WatchlistItem[]> {
+  return watchlistStore.get(email.toLowerCase());
+}
+
+export async function findWatchlistItem(
+  email: string,
+  type: WatchlistItemType,
+  itemKey: string
+): Promise<WatchlistItem | null> {
+  const items = await listWatchlist(email);
+  return items.find(item => item.type === type && item.key.toLowerCase() === itemKey.toLowerCase()) || null;
+}
+
+/**
+ * Save a property or suburb. Saving one already on the list refreshes its label
+ * and keeps its notes and tags unless new ones are given.
+ */
+export async function addWatchlistItem(
+  email: string,
+  input: { type: WatchlistItemType; key: string; label: string; notes?: string; tags?: string[] }
+): Promise<{ item: WatchlistItem; created: boolean }> {
+  const key = email.toLowerCase();
+  const items = await watchlistStore.get(key);
+  const now = new Date().toISOString();
+
+  const existing = items.find(item => item.type === input.type && item.key.toLowerCase() === input.key.toLowerCase());
+  if (existing) {
+    const item: WatchlistItem = {
+      ...existing,
+      label: input.label || existing.label,
+      notes: input.notes ?? existing.notes,
+      tags: input.tags ? normalizeTags(input.tags) : existing.tags,
+      updatedAt: now,
+    };
+    await watchlistStore.set(key, items.map(entry => (entry.id === existing.id ? item : entry)));
+    return { item, created: false };
+  }
+
+  const item: WatchlistItem = {
+    id: uuidv4(),
+    type: input.type,
+    key: input.key,
+    label: input.label || input.key,
+    notes: input.notes ?? '',
+    tags: normalizeTags(input.tags ?? []),
+    addedAt: now,
+    updatedAt: now,
+  };
+  await watchlistStore.set(key, [item, ...items]);
+  return { item, created: true };
+}
+
+// The updated item, or null if it is not on the member's list
+export async function updateWatchlistItem(
+  email: string,
+  itemId: string,
+  changes: { notes?: string; tags?: string[] }
+): Promise<WatchlistItem | null> {
+  const key = email.toLowerCase();
+  const items = await watchlistStore.get(key);
+  const existing = items.find(item => item.id === itemId);
+  if (!existing) return null;
+
+  const item: WatchlistItem = {
+    ...existing,
+    notes: changes.notes ?? existing.notes,
+    tags: changes.tags ? normalizeTags(changes.tags) : existing.tags,
+    updatedAt: new Date().toISOString(),
+  };
+  await watchlistStore.set(key, items.map(entry => (entry.id === itemId ? item : entry)));
+  return item;
+}
+
+// Whether an item was found and removed
+export async function removeWatchlistItem(email: string, itemId: string): Promise<boolean> {
+  const key = email.toLowerCase();
+  const items = await watchlistStore.get(key);
+  const remaining = items.filter(item => item.id !== itemId);
+  if (remaining.length === items.length) return false;
+  await watchlistStore.set(key, remaining);
+  return true;
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/app/lib/auth/context';
+import { formatCell, tableHeading } from '@/app/lib/export/blocks';
+import type { Order, OrderDetailResponse, OrderSnapshot, OrderSnapshotSection } from '@/app/lib/types/orders';
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString('en-AU', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+// One section of the snapshot: paragraphs and tables exactly as stored
+function SnapshotSection({ section }: { section: OrderSnapshotSection }) {
+  const tableCount = section.blocks.filter(block => block.kind === 'table').length;
+
+  return (
+    <section id={`section-${section.id}`} className="p-6 border-b border-gray-100 last:border-b-0">
+      <h3 className="text-lg font-semibold text-gray-800 mb-3">{section.title}</h3>
+      <div className="space-y-4">
+        {section.blocks.map((block, index) => block.kind === 'paragraph' ? (
+          <p key={index} className="text-sm text-gray-700 whitespace-pre-line">{block.text}</p>
+        ) : (
+          <div key={index}>
+            {tableCount > 1 && (
+              <h4 className="text-sm font-medium text-gray-600 mb-2">{tableHeading(section.id, block.table)}</h4>
+            )}
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    {block.table.columns.map(column => (
+                      <th key={column} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {block.table.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {row.map((cell, cellIndex) => (
+                        <td
+                          key={cellIndex}
+                          className={`px-4 py-2 text-gray-700 ${typeof cell === 'number' ? 'text-right tabular-nums' : ''}`}
+                        >
+                          {formatCell(cell)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+// An order's details and the report as it stood when it was bought
+export default function OrderDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { isLoading: authLoading, isAuthenticated } = useAuth();
+  const orderId = decodeURIComponent(params.orderId as string);
+
+  const [order, setOrder] = useState<Order | null>(null);
+  const [snapshot, setSnapshot] = useState<OrderSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/');
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let cancelled = false;
+
+    fetch(`/api/orders/${encodeURIComponent(orderId)}`)
+      .then(async res => {
+        const data: OrderDetailResponse = await res.json();
+        if (!res.ok || !data.order) throw new Error(data.error || 'Failed to load order');
+        if (!cancelled) {
+          setOrder(data.order);
+          setSnapshot(data.snapshot ?? null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load order');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, orderId]);
+
+  if (authLoading || (isAuthenticated && isLoading)) {
+    return (
+      <div className="min-h-screen bg-[#f9f9f9] flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-[#4475e6] border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Loading order...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const includedSections = snapshot?.sections.filter(section => section.blocks.length > 0) ?? [];
+
+  return (
+    <div className="min-h-screen bg-[#f9f9f9]">
+      <div className="max-w-[1200px] mx-auto px-5 py-5">
+        {/* Header */}
+        <header className="flex items-center justify-between mb-5 pb-4 border-b border-gray-200">
+          <Link href="/" className="text-lg font-bold text-gray-800">
+            Microburbs Dashboard
+          </Link>
+          <Link
+            href="/members-area"
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-200 rounded hover:bg-gray-200 transition-colors"
+          >
+            Back to Data Hub
+          </Link>
+        </header>
+
+        {error || !order ? (
+          <div className="bg-white border border-gray-200 rounded-lg p-12 text-center">
+            <p className="text-red-600 mb-4">{error || 'Order not found'}</p>
+            <Link href="/members-area" className="text-[#4475e6] hover:underline">Back to your orders</Link>
+          </div>
+        ) : (
+          <>
+            {/* Order metadata */}
+            <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                <div>
+                  <span
+                    className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium mb-2 ${
+                      order.report_category === 'Property' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'
+                    }`}
+                  >
+                    {order.report_category} report
+                  </span>
+                  <h1 className="text-2xl font-semibold text-gray-800">{order.location || 'N/A'}</h1>
+                </div>
+                <div className="flex gap-2">
+                  {order.url && (
+                    <Link
+                      href={order.url}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-[#4475e6] bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                    >
+                      Current report
+                    </Link>
+                  )}
+                  {order.pdf_report && order.pdf_report !== 'N/A' && (
+                    <a
+                      href={order.pdf_report}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      PDF
+                    </a>
+                  )}
+                </div>
+              </div>
+
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6 text-sm">
+                <div>
+                  <dt className="text-gray-500">Order ID</dt>
+                  <dd className="font-medium text-gray-800 break-all">{order.order_id}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Date</dt>
+                  <dd className="font-medium text-gray-800">{order.date || 'N/A'}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Client</dt>
+                  <dd className="font-medium text-gray-800">{order.client || 'N/A'}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Ordered by</dt>
+                  <dd className="font-medium text-gray-800 break-all">{order.user_email}</dd>
+                </div>
+              </dl>
+            </div>
+
+            {/* Report snapshot */}
+            <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+              <div className="p-6 border-b border-gray-200">
+                <h2 className="text-xl font-semibold text-gray-800">Report as purchased</h2>
+                {snapshot ? (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Data as at {formatTimestamp(snapshot.takenAt)}. This copy does not change when the report data is updated.
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-500 mt-1">
+                    No snapshot was stored for this order. Orders placed before snapshots were introduced, or outside this site, only link to the current report.
+                  </p>
+                )}
+                {includedSections.length > 1 && (
+                  <nav className="flex flex-wrap gap-2 mt-4" aria-label="Snapshot sections">
+                    {includedSections.map(section => (
+                      <a
+                        key={section.id}
+                        href={`#section-${section.id}`}
+                        className="px-3 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded-full hover:bg-gray-200"
+                      >
+                        {section.title}
+                      </a>
+                    ))}
+                  </nav>
+                )}
+              </div>
+
+              {snapshot && includedSections.length === 0 && (
+                <div className="p-12 text-center text-gray-500">No report data was available when this order was placed.</div>
+              )}
+              {includedSections.map(section => (
+                <SnapshotSection key={section.id} section={section} />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
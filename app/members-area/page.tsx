@@ -4,6 +4,9 @@ import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/app/lib/auth/context';
+import WatchlistPanel from '@/app/components/WatchlistPanel';
+import SharesPanel from '@/app/components/SharesPanel';
+import DevicesPanel from '@/app/components/DevicesPanel';
 import type { Order, OrderStats, SortField, SortOrder, SortState, FilterState } from '@/app/lib/types/orders';
 
 interface SubscriptionData {
@@ -21,6 +24,11 @@ interface SubscriptionData {
     suburbReportsLimit: number;
     suburbReportsLeft: number;
   };
+  matches: {
+    propertyMatchesUsed: number;
+    propertyMatchesLimit: number;
+    propertyMatchesLeft: number;
+  };
   features: {
     suburbFinder: 'unlimited' | 'limited';
     propertyFinder: 'unlimited' | 'limited';
@@ -96,6 +104,9 @@ export default function MembersAreaPage() {
   const [subscription, setSubscription] = useState<SubscriptionData | null>(null);
   const [subscriptionLoading, setSubscriptionLoading] = useState(true);
 
+  // Members area tab
+  const [activeTab, setActiveTab] = useState<'reports' | 'watchlist' | 'shares' | 'devices'>('reports');
+
   // Orders state
   const [orders, setOrders] = useState<Order[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -396,7 +407,11 @@ export default function MembersAreaPage() {
             <div>
               <h2 className="text-lg font-semibold text-gray-800 mb-4">Report Credits</h2>
               {subscriptionLoading ? (
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="animate-pulse bg-gray-100 rounded-lg p-4">
+                    <div className="h-8 bg-gray-200 rounded w-12 mx-auto mb-2"></div>
+                    <div className="h-4 bg-gray-200 rounded w-24 mx-auto"></div>
+                  </div>
                   <div className="animate-pulse bg-gray-100 rounded-lg p-4">
                     <div className="h-8 bg-gray-200 rounded w-12 mx-auto mb-2"></div>
                     <div className="h-4 bg-gray-200 rounded w-24 mx-auto"></div>
@@ -407,7 +422,7 @@ export default function MembersAreaPage() {
                   </div>
                 </div>
               ) : (
-                <div className="grid grid-cols-2 gap-4">
+                <div className="grid grid-cols-3 gap-4">
                   <div className="bg-blue-50 border border-blue-100 rounded-lg p-4 text-center">
                     <div className="text-3xl font-bold text-blue-600 mb-1">
                       {subscription?.usage.propertyReportsLeft === -1
@@ -424,6 +439,17 @@ export default function MembersAreaPage() {
                     </div>
                     <div className="text-sm text-gray-600">Suburb Reports Left</div>
                   </div>
+                  <div className="bg-purple-50 border border-purple-100 rounded-lg p-4 text-center">
+                    <div className="text-3xl font-bold text-purple-600 mb-1">
+                      {subscription?.matches.propertyMatchesLeft === -1
+                        ? '∞'
+                        : subscription?.matches.propertyMatchesLeft || 0}
+                    </div>
+                    <div className="text-sm text-gray-600">AI Matches Left</div>
+                    {subscription && subscription.matches.propertyMatchesLimit === -1 && (
+                      <div className="text-xs text-gray-400 mt-1">{subscription.matches.propertyMatchesUsed} used this month</div>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
@@ -467,273 +493,332 @@ export default function MembersAreaPage() {
           )}
         </div>
 
-        {/* Data Hub Section */}
-        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
-          {/* Data Hub Header */}
-          <div className="p-6 border-b border-gray-200">
-            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
-              <div>
-                <h2 className="text-xl font-semibold text-gray-800">Data Hub</h2>
-              </div>
-              {/* Search */}
-              <div className="relative">
-                <input
-                  type="text"
-                  value={filters.location}
-                  onChange={(e) => setFilters((f) => ({ ...f, location: e.target.value }))}
-                  placeholder="Search reports..."
-                  className="w-full md:w-64 pl-10 pr-4 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#4475e6] focus:border-transparent"
-                />
-                <svg
-                  className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-                </svg>
-              </div>
-            </div>
+        {/* Members area tabs */}
+        <div className="flex gap-2 mb-4">
+          {([
+            { id: 'reports', label: 'Data Hub' },
+            { id: 'watchlist', label: 'Watchlist' },
+            { id: 'shares', label: 'Shared links' },
+            { id: 'devices', label: 'Devices' },
+          ] as const).map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                activeTab === tab.id
+                  ? 'bg-[#4475e6] text-white'
+                  : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
 
-            {/* Tabs */}
-            <div className="flex gap-2 mt-4">
-              <button
-                onClick={() => setFilters((f) => ({ ...f, client: '' }))}
-                className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
-                  !filters.client
-                    ? 'bg-[#4475e6] text-white'
-                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                }`}
-              >
-                All Reports
-                <span className="ml-2 px-2 py-0.5 bg-white/20 rounded-full text-xs">
-                  {orders.length}
-                </span>
-              </button>
-              <button
-                onClick={() => setFilters((f) => ({ ...f, client: 'Property' }))}
-                className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
-                  filters.client === 'Property'
-                    ? 'bg-[#4475e6] text-white'
-                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                }`}
-              >
-                Property
-                <span className="ml-2 px-2 py-0.5 bg-white/20 rounded-full text-xs">
-                  {stats.propertyReports}
-                </span>
-              </button>
-              <button
-                onClick={() => setFilters((f) => ({ ...f, client: 'Suburb' }))}
-                className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
-                  filters.client === 'Suburb'
-                    ? 'bg-[#4475e6] text-white'
-                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                }`}
-              >
-                Suburb
-                <span className="ml-2 px-2 py-0.5 bg-white/20 rounded-full text-xs">
-                  {stats.suburbReports}
-                </span>
-              </button>
-            </div>
-          </div>
+        {activeTab === 'watchlist' && <WatchlistPanel />}
 
-          {/* Loading State */}
-          {isLoading && (
-            <div className="text-center py-16">
-              <div className="w-8 h-8 border-4 border-[#4475e6] border-t-transparent rounded-full animate-spin mx-auto mb-4" />
-              <p className="text-gray-600">Loading reports...</p>
-            </div>
-          )}
+        {activeTab === 'shares' && <SharesPanel />}
+
+        {activeTab === 'devices' && <DevicesPanel />}
 
-          {/* Error State */}
-          {error && (
-            <div className="p-6">
-              <div className="bg-red-50 border-l-4 border-red-500 text-red-700 p-4 rounded">
-                {error}
-                <button onClick={fetchOrders} className="ml-4 underline">
-                  Try again
+        {/* Data Hub Section */}
+        {activeTab === 'reports' && (
+          <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+            {/* Data Hub Header */}
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-800">Data Hub</h2>
+                </div>
+                <div className="flex flex-col md:flex-row md:items-center gap-2">
+                  {/* Export (Advanced plans and above) */}
+                  {subscription?.features.csvExport && orders.length > 0 && (
+                    <div className="flex gap-2">
+                      <a
+                        href="/api/orders?export=csv"
+                        download
+                        className="px-3 py-2 text-sm font-medium text-[#4475e6] border border-[#4475e6] rounded-lg hover:bg-blue-50 transition-colors"
+                      >
+                        Export CSV
+                      </a>
+                      <a
+                        href="/api/orders?export=xlsx"
+                        download
+                        className="px-3 py-2 text-sm font-medium text-[#4475e6] border border-[#4475e6] rounded-lg hover:bg-blue-50 transition-colors"
+                      >
+                        Export Excel
+                      </a>
+                    </div>
+                  )}
+                  {/* Search */}
+                  <div className="relative">
+                    <input
+                      type="text"
+                      value={filters.location}
+                      onChange={(e) => setFilters((f) => ({ ...f, location: e.target.value }))}
+                      placeholder="Search reports..."
+                      className="w-full md:w-64 pl-10 pr-4 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#4475e6] focus:border-transparent"
+                    />
+                    <svg
+                      className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                    </svg>
+                  </div>
+                </div>
+              </div>
+
+              {/* Tabs */}
+              <div className="flex gap-2 mt-4">
+                <button
+                  onClick={() => setFilters((f) => ({ ...f, client: '' }))}
+                  className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                    !filters.client
+                      ? 'bg-[#4475e6] text-white'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  All Reports
+                  <span className="ml-2 px-2 py-0.5 bg-white/20 rounded-full text-xs">
+                    {orders.length}
+                  </span>
+                </button>
+                <button
+                  onClick={() => setFilters((f) => ({ ...f, client: 'Property' }))}
+                  className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                    filters.client === 'Property'
+                      ? 'bg-[#4475e6] text-white'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  Property
+                  <span className="ml-2 px-2 py-0.5 bg-white/20 rounded-full text-xs">
+                    {stats.propertyReports}
+                  </span>
+                </button>
+                <button
+                  onClick={() => setFilters((f) => ({ ...f, client: 'Suburb' }))}
+                  className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                    filters.client === 'Suburb'
+                      ? 'bg-[#4475e6] text-white'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  Suburb
+                  <span className="ml-2 px-2 py-0.5 bg-white/20 rounded-full text-xs">
+                    {stats.suburbReports}
+                  </span>
                 </button>
               </div>
             </div>
-          )}
 
-          {/* Reports Table */}
-          {!isLoading && !error && hasFetched && (
-            <>
-              {filteredOrders.length === 0 ? (
-                <div className="py-16 text-center">
-                  <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                    <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                    </svg>
-                  </div>
-                  <h3 className="text-lg font-semibold text-gray-800 mb-2">No reports yet</h3>
-                  <p className="text-gray-500 mb-6">Generate your first property or suburb report to see it here</p>
-                  <Link
-                    href="/suburb-reports"
-                    className="inline-flex items-center gap-2 px-6 py-3 bg-[#4475e6] text-white rounded-lg font-medium hover:bg-[#3361d1] transition-colors"
-                  >
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                    </svg>
-                    Get Started
-                  </Link>
+            {/* Loading State */}
+            {isLoading && (
+              <div className="text-center py-16">
+                <div className="w-8 h-8 border-4 border-[#4475e6] border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+                <p className="text-gray-600">Loading reports...</p>
+              </div>
+            )}
+
+            {/* Error State */}
+            {error && (
+              <div className="p-6">
+                <div className="bg-red-50 border-l-4 border-red-500 text-red-700 p-4 rounded">
+                  {error}
+                  <button onClick={fetchOrders} className="ml-4 underline">
+                    Try again
+                  </button>
                 </div>
-              ) : (
-                <>
-                  <div className="overflow-x-auto">
-                    <table className="w-full">
-                      <thead>
-                        <tr className="bg-gray-50 border-b border-gray-200">
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Type
-                          </th>
-                          <th
-                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:text-gray-700"
-                            onClick={() => handleSort('location')}
-                          >
-                            Address / Suburb
-                            <span className="ml-1">{getSortArrow('location')}</span>
-                          </th>
-                          <th
-                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:text-gray-700"
-                            onClick={() => handleSort('date')}
-                          >
-                            Date
-                            <span className="ml-1">{getSortArrow('date')}</span>
-                          </th>
-                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Actions
-                          </th>
-                        </tr>
-                      </thead>
-                      <tbody className="divide-y divide-gray-100">
-                        {paginatedOrders.map((order, idx) => (
-                          <tr key={order.order_id || idx} className="hover:bg-gray-50 transition-colors">
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <span
-                                className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${
-                                  order.report_category === 'Property'
-                                    ? 'bg-blue-100 text-blue-800'
-                                    : 'bg-green-100 text-green-800'
-                                }`}
-                              >
-                                {order.report_category === 'Property' ? (
-                                  <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
-                                  </svg>
-                                ) : (
-                                  <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                                  </svg>
-                                )}
-                                {order.report_category || 'Unknown'}
-                              </span>
-                            </td>
-                            <td className="px-6 py-4">
-                              <div className="text-sm font-medium text-gray-900 max-w-[300px] truncate" title={order.location}>
-                                {order.location || 'N/A'}
-                              </div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="text-sm text-gray-500">{order.date || 'N/A'}</div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-right">
-                              <div className="flex justify-end gap-2">
-                                {order.url && (
-                                  <a
-                                    href={order.url}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-[#4475e6] bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
-                                  >
-                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+              </div>
+            )}
+
+            {/* Reports Table */}
+            {!isLoading && !error && hasFetched && (
+              <>
+                {filteredOrders.length === 0 ? (
+                  <div className="py-16 text-center">
+                    <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                      <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                    </div>
+                    <h3 className="text-lg font-semibold text-gray-800 mb-2">No reports yet</h3>
+                    <p className="text-gray-500 mb-6">Generate your first property or suburb report to see it here</p>
+                    <Link
+                      href="/suburb-reports"
+                      className="inline-flex items-center gap-2 px-6 py-3 bg-[#4475e6] text-white rounded-lg font-medium hover:bg-[#3361d1] transition-colors"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                      </svg>
+                      Get Started
+                    </Link>
+                  </div>
+                ) : (
+                  <>
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead>
+                          <tr className="bg-gray-50 border-b border-gray-200">
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Type
+                            </th>
+                            <th
+                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:text-gray-700"
+                              onClick={() => handleSort('location')}
+                            >
+                              Address / Suburb
+                              <span className="ml-1">{getSortArrow('location')}</span>
+                            </th>
+                            <th
+                              className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:text-gray-700"
+                              onClick={() => handleSort('date')}
+                            >
+                              Date
+                              <span className="ml-1">{getSortArrow('date')}</span>
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Actions
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {paginatedOrders.map((order, idx) => (
+                            <tr key={order.order_id || idx} className="hover:bg-gray-50 transition-colors">
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <span
+                                  className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${
+                                    order.report_category === 'Property'
+                                      ? 'bg-blue-100 text-blue-800'
+                                      : 'bg-green-100 text-green-800'
+                                  }`}
+                                >
+                                  {order.report_category === 'Property' ? (
+                                    <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
                                     </svg>
-                                    View
-                                  </a>
-                                )}
-                                {order.pdf_report && order.pdf_report !== 'N/A' && (
-                                  <a
-                                    href={order.pdf_report}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-                                  >
-                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                                  ) : (
+                                    <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
                                     </svg>
-                                    PDF
-                                  </a>
-                                )}
-                              </div>
-                            </td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
+                                  )}
+                                  {order.report_category || 'Unknown'}
+                                </span>
+                              </td>
+                              <td className="px-6 py-4">
+                                <div className="text-sm font-medium text-gray-900 max-w-[300px] truncate" title={order.location}>
+                                  {order.location || 'N/A'}
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-500">{order.date || 'N/A'}</div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-right">
+                                <div className="flex justify-end gap-2">
+                                  {order.order_id && (
+                                    <Link
+                                      href={`/members-area/orders/${encodeURIComponent(order.order_id)}`}
+                                      className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                                    >
+                                      Details
+                                    </Link>
+                                  )}
+                                  {order.url && (
+                                    <a
+                                      href={order.url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-[#4475e6] bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                                    >
+                                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                                      </svg>
+                                      View
+                                    </a>
+                                  )}
+                                  {order.pdf_report && order.pdf_report !== 'N/A' && (
+                                    <a
+                                      href={order.pdf_report}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                                    >
+                                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                                      </svg>
+                                      PDF
+                                    </a>
+                                  )}
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
 
-                  {/* Pagination */}
-                  {totalPages > 1 && (
-                    <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
-                      <div className="text-sm text-gray-500">
-                        Showing {(currentPage - 1) * pageSize + 1}-{Math.min(currentPage * pageSize, filteredOrders.length)} of {filteredOrders.length}
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <button
-                          onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
-                          disabled={currentPage === 1}
-                          className="px-3 py-1.5 text-sm border border-gray-200 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
-                        >
-                          Previous
-                        </button>
-                        <div className="flex gap-1">
-                          {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                            let pageNum: number;
-                            if (totalPages <= 5) {
-                              pageNum = i + 1;
-                            } else if (currentPage <= 3) {
-                              pageNum = i + 1;
-                            } else if (currentPage >= totalPages - 2) {
-                              pageNum = totalPages - 4 + i;
-                            } else {
-                              pageNum = currentPage - 2 + i;
-                            }
-                            return (
-                              <button
-                                key={pageNum}
-                                onClick={() => setCurrentPage(pageNum)}
-                                className={`px-3 py-1.5 text-sm rounded-lg ${
-                                  currentPage === pageNum
-                                    ? 'bg-[#4475e6] text-white'
-                                    : 'border border-gray-200 hover:bg-gray-50'
-                                }`}
-                              >
-                                {pageNum}
-                              </button>
-                            );
-                          })}
+                    {/* Pagination */}
+                    {totalPages > 1 && (
+                      <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+                        <div className="text-sm text-gray-500">
+                          Showing {(currentPage - 1) * pageSize + 1}-{Math.min(currentPage * pageSize, filteredOrders.length)} of {filteredOrders.length}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                            disabled={currentPage === 1}
+                            className="px-3 py-1.5 text-sm border border-gray-200 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+                          >
+                            Previous
+                          </button>
+                          <div className="flex gap-1">
+                            {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+                              let pageNum: number;
+                              if (totalPages <= 5) {
+                                pageNum = i + 1;
+                              } else if (currentPage <= 3) {
+                                pageNum = i + 1;
+                              } else if (currentPage >= totalPages - 2) {
+                                pageNum = totalPages - 4 + i;
+                              } else {
+                                pageNum = currentPage - 2 + i;
+                              }
+                              return (
+                                <button
+                                  key={pageNum}
+                                  onClick={() => setCurrentPage(pageNum)}
+                                  className={`px-3 py-1.5 text-sm rounded-lg ${
+                                    currentPage === pageNum
+                                      ? 'bg-[#4475e6] text-white'
+                                      : 'border border-gray-200 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  {pageNum}
+                                </button>
+                              );
+                            })}
+                          </div>
+                          <button
+                            onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                            disabled={currentPage === totalPages}
+                            className="px-3 py-1.5 text-sm border border-gray-200 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
+                          >
+                            Next
+                          </button>
                         </div>
-                        <button
-                          onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
-                          disabled={currentPage === totalPages}
-                          className="px-3 py-1.5 text-sm border border-gray-200 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50"
-                        >
-                          Next
-                        </button>
                       </div>
-                    </div>
-                  )}
-                </>
-              )}
-            </>
-          )}
-        </div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,326 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import Header from '@/app/components/Header';
+import Footer from '@/app/components/Footer';
+import { useAuth } from '@/app/lib/auth/context';
+import type {
+  PropertyFinderCriteria,
+  PropertyFinderResponse,
+  PropertyFinderType,
+  PropertyMatchUsage,
+} from '@/app/lib/types/finder';
+
+interface SuburbSuggestion {
+  name: string;
+  state: string;
+  postcode: string;
+}
+
+const STATES = ['NSW', 'VIC', 'QLD', 'WA', 'SA', 'TAS', 'ACT', 'NT'];
+const MAX_SUBURBS = 10;
+
+type NumberCriterion = 'budgetMin' | 'budgetMax' | 'bedroomsMin' | 'yieldMin';
+
+export default function PropertyFinderPage() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const [criteria, setCriteria] = useState<PropertyFinderCriteria>({ suburbs: [] });
+  const [response, setResponse] = useState<PropertyFinderResponse | null>(null);
+  const [usage, setUsage] = useState<PropertyMatchUsage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<SuburbSuggestion[]>([]);
+  const debounceRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Allowance left this month, before the first search
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const loadUsage = async () => {
+      try {
+        const res = await fetch('/api/property-finder');
+        const data = await res.json();
+        if (data.success) setUsage(data.usage);
+      } catch (err) {
+        console.error('Error loading match usage:', err);
+      }
+    };
+
+    loadUsage();
+  }, [isAuthenticated]);
+
+  // Debounced suburb search for the location constraint
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+
+    debounceRef.current = setTimeout(async () => {
+      if (value.length < 2) {
+        setSuggestions([]);
+        return;
+      }
+      try {
+        const res = await fetch(`/api/suburb/search?q=${encodeURIComponent(value)}`);
+        const data = await res.json();
+        setSuggestions(data.results || []);
+      } catch (err) {
+        console.error('Suburb search error:', err);
+        setSuggestions([]);
+      }
+    }, 300);
+  };
+
+  const addSuburb = (name: string) => {
+    setSearchQuery('');
+    setSuggestions([]);
+    setCriteria(prev => prev.suburbs.includes(name) ? prev : { ...prev, suburbs: [...prev.suburbs, name] });
+  };
+
+  const removeSuburb = (name: string) => {
+    setCriteria(prev => ({ ...prev, suburbs: prev.suburbs.filter(existing => existing !== name) }));
+  };
+
+  const setNumber = (key: NumberCriterion, value: string) => {
+    setCriteria(prev => ({ ...prev, [key]: value === '' ? undefined : Number(value) }));
+  };
+
+  const handleSearch = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/property-finder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(criteria),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.error || 'Failed to find properties');
+      }
+      setResponse(body);
+      setUsage(body.usage);
+    } catch (err) {
+      console.error('Property finder error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to find properties');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderNumberInput = (key: NumberCriterion, label: string, placeholder: string) => (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-600 mb-1">{label}</span>
+      <input
+        type="number"
+        min={0}
+        value={criteria[key] ?? ''}
+        onChange={(e) => setNumber(key, e.target.value)}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+      />
+    </label>
+  );
+
+  const canSearch = criteria.suburbs.length > 0;
+  const outOfMatches = usage?.propertyMatchesLeft === 0;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-white">
+      <Header />
+
+      <main className="flex-1 bg-[#f8fafc]">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <h1 className="text-3xl font-bold text-[#383941] mb-2">AI Property Finder</h1>
+          <p className="text-[#898787] mb-6">Tell us your budget, size, type, target yield and where to look, and we&apos;ll match properties to you.</p>
+
+          {authLoading ? (
+            <div className="flex items-center justify-center py-24">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#4475e6]"></div>
+            </div>
+          ) : !isAuthenticated ? (
+            <div className="bg-white rounded-xl p-12 text-center shadow-sm">
+              <p className="text-gray-800 font-semibold mb-2">Sign in to use the AI Property Finder</p>
+              <Link href="/?login=true" className="text-[#4475e6] hover:underline text-sm">Sign in</Link>
+            </div>
+          ) : (
+            <div className="grid lg:grid-cols-[300px_1fr] gap-6">
+              {/* Criteria */}
+              <aside className="bg-white rounded-xl p-4 shadow-sm space-y-3 h-fit">
+                <div>
+                  <span className="block text-xs font-medium text-gray-600 mb-1">Suburbs</span>
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {criteria.suburbs.map(name => (
+                      <span key={name} className="flex items-center gap-1 px-2 py-1 bg-[#4475e6]/10 text-[#4475e6] rounded-full text-xs font-medium">
+                        {name}
+                        <button onClick={() => removeSuburb(name)} className="hover:text-red-600" aria-label={`Remove ${name}`}>
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                  {criteria.suburbs.length < MAX_SUBURBS && (
+                    <div className="relative">
+                      <input
+                        type="text"
+                        value={searchQuery}
+                        onChange={(e) => handleSearchChange(e.target.value)}
+                        placeholder="Add a suburb..."
+                        className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+                      />
+                      {suggestions.length > 0 && (
+                        <div className="absolute top-full left-0 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg z-20 max-h-64 overflow-y-auto">
+                          {suggestions.map(suggestion => (
+                            <button
+                              key={`${suggestion.name}-${suggestion.postcode}`}
+                              onClick={() => addSuburb(suggestion.name)}
+                              className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                            >
+                              {suggestion.name} <span className="text-gray-400">{suggestion.state} {suggestion.postcode}</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <label className="block">
+                  <span className="block text-xs font-medium text-gray-600 mb-1">State</span>
+                  <select
+                    value={criteria.state ?? ''}
+                    onChange={(e) => setCriteria(prev => ({ ...prev, state: e.target.value || undefined }))}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+                  >
+                    <option value="">Any state</option>
+                    {STATES.map(state => <option key={state} value={state}>{state}</option>)}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="block text-xs font-medium text-gray-600 mb-1">Property type</span>
+                  <select
+                    value={criteria.propertyType ?? ''}
+                    onChange={(e) => setCriteria(prev => ({ ...prev, propertyType: (e.target.value || undefined) as PropertyFinderType | undefined }))}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+                  >
+                    <option value="">Any type</option>
+                    <option value="house">House</option>
+                    <option value="unit">Unit</option>
+                    <option value="townhouse">Townhouse</option>
+                  </select>
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {renderNumberInput('budgetMin', 'Min budget', '$')}
+                  {renderNumberInput('budgetMax', 'Max budget', '$')}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {renderNumberInput('bedroomsMin', 'Min bedrooms', 'Any')}
+                  {renderNumberInput('yieldMin', 'Min yield', '%')}
+                </div>
+                <button
+                  onClick={handleSearch}
+                  disabled={!canSearch || loading}
+                  className="w-full px-4 py-2 bg-[#4475e6] text-white text-sm font-medium rounded-lg hover:bg-[#3361d1] disabled:opacity-50"
+                >
+                  Find properties
+                </button>
+              </aside>
+
+              {/* Matches */}
+              <section>
+                {usage && usage.propertyMatchesLimit !== -1 && (
+                  <div className={`rounded-xl px-4 py-3 mb-4 text-sm ${outOfMatches ? 'bg-orange-50 text-orange-800' : 'bg-[#4475e6]/10 text-[#383941]'}`}>
+                    {usage.propertyMatchesLeft} of {usage.propertyMatchesLimit} AI property matches left this month.
+                    Properties you have already been matched with don&apos;t count again.{' '}
+                    <Link href="/pricing" className="text-[#4475e6] font-medium hover:underline">Get unlimited matches</Link>
+                  </div>
+                )}
+
+                {loading ? (
+                  <div className="flex items-center justify-center py-24">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#4475e6]"></div>
+                  </div>
+                ) : error ? (
+                  <div className="bg-white rounded-xl p-12 text-center shadow-sm">
+                    <p className="text-gray-800 font-semibold mb-2">Search unavailable</p>
+                    <p className="text-gray-500 text-sm">{error}</p>
+                  </div>
+                ) : !response ? (
+                  <div className="bg-white rounded-xl p-12 text-center text-gray-500 shadow-sm">
+                    Choose suburbs, set your criteria and press Find properties.
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <p className="text-sm text-[#898787]">
+                      {response.total} {response.total === 1 ? 'property matches' : 'properties match'}
+                      {response.withheld > 0 && `; ${response.withheld} more need more AI matches than you have left this month`}
+                    </p>
+                    {response.matches.length === 0 && response.withheld === 0 && (
+                      <div className="bg-white rounded-xl p-12 text-center text-gray-500 shadow-sm">
+                        No properties match these criteria. Try widening your budget or adding suburbs.
+                      </div>
+                    )}
+                    {response.matches.map(match => (
+                      <div key={match.gnafId} className="bg-white rounded-xl p-5 shadow-sm border border-gray-100">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <Link
+                              href={`/property-reports/${encodeURIComponent(match.gnafId)}`}
+                              className="text-lg font-semibold text-[#383941] hover:text-[#4475e6]"
+                            >
+                              {match.address}
+                            </Link>
+                            <div className="text-sm text-gray-500 mt-1">
+                              {[
+                                match.propertyType,
+                                match.bedrooms !== undefined && `${match.bedrooms} bed`,
+                                match.bathrooms !== undefined && `${match.bathrooms} bath`,
+                                match.carSpaces !== undefined && `${match.carSpaces} car`,
+                              ].filter(Boolean).join(' · ')}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-3 gap-4 mt-4 text-sm">
+                          <div>
+                            <div className="text-xs text-gray-500">Estimated value</div>
+                            <div className="font-semibold text-[#383941]">{match.price?.display ?? '-'}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-gray-500">Rent estimate</div>
+                            <div className="font-semibold text-[#383941]">{match.rent?.display ?? '-'}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-gray-500">Gross yield</div>
+                            <div className="font-semibold text-[#383941]">{match.yield?.display ?? '-'}</div>
+                          </div>
+                        </div>
+                        {match.reasons.length > 0 && (
+                          <ul className="mt-4 space-y-1 text-sm text-gray-600 list-disc list-inside">
+                            {match.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                    {response.withheld > 0 && (
+                      <div className="bg-white rounded-xl p-6 text-center shadow-sm">
+                        <p className="text-gray-800 font-semibold mb-2">
+                          {response.withheld} more {response.withheld === 1 ? 'match' : 'matches'} available
+                        </p>
+                        <Link href="/pricing" className="text-[#4475e6] hover:underline text-sm">Upgrade for unlimited AI property matches</Link>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </section>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,9 +1,18 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/app/lib/auth/context';
+import { useToast } from '@/app/components/Toast';
+import WatchlistButton from '@/app/components/WatchlistButton';
+import ShareLinkForm from '@/app/components/ShareLinkForm';
+import SharedReportGate from '@/app/components/SharedReportGate';
+import PrintCover from '@/app/components/PrintCover';
+import type { SectionAccess } from '@/app/lib/auth/types';
+import type { SectionBatchResponse } from '@/app/lib/types/sections';
+import type { ShareOpenResponse } from '@/app/lib/types/shares';
+import { readSectionStream } from '@/app/lib/reports/section-stream';
 
 // Types
 interface PropertyAddress {
@@ -38,6 +47,7 @@ interface PropertyInfo {
   property_type?: string;
   structural_vars?: StructuralVars;
   last_record?: LastRecord;
+  access?: SectionAccess;
 }
 
 type HtmlContainer = {
@@ -70,11 +80,25 @@ type SectionTab = 'market' | 'risks' | 'development' | 'lifestyle' | 'demographi
 // Chart sub-tab type for market section
 type MarketChartTab = 'sales' | 'rent' | 'yield';
 
+// Sections each tab loads when it is opened
+const TAB_SECTIONS: Record<SectionTab, string[]> = {
+  market: ['sales', 'rent', 'yield', 'pocket', 'neighbors', 'nearby'],
+  risks: ['risk', 'noise'],
+  development: ['development', 'zoning', 'easements'],
+  lifestyle: ['amenities', 'schools', 'public_schools', 'private_schools'],
+  demographics: ['demographics', 'ethnicity', 'income'],
+};
+
 // Main Component
 export default function PropertyReportPage() {
   const params = useParams();
-  const { user, isAuthenticated } = useAuth();
+  const { isAuthenticated } = useAuth();
+  const { showToast } = useToast();
   const gnafId = params.id as string;
+  const searchParams = useSearchParams();
+  const shareToken = searchParams.get('share');
+  // Rendered for a PDF download (app/lib/export/render-pdf.ts): every tab, loaded up front
+  const isPrint = searchParams.get('print') === '1';
 
   // State
   const [property, setProperty] = useState<PropertyInfo | null>(null);
@@ -84,37 +108,62 @@ export default function PropertyReportPage() {
   const [marketChartTab, setMarketChartTab] = useState<MarketChartTab>('sales');
   const [sectionData, setSectionData] = useState<Record<string, SectionData | null>>({});
   const [loadingSections, setLoadingSections] = useState<Record<string, boolean>>({});
+  const [sectionAccess, setSectionAccess] = useState<Record<string, SectionAccess>>({});
   const [imageUrl, setImageUrl] = useState<string>('');
   const [summary, setSummary] = useState<string>('');
   const [showSharePopup, setShowSharePopup] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
   const [avmData, setAvmData] = useState<AVMData | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [accessVersion, setAccessVersion] = useState(0);
+  const [sharedReport, setSharedReport] = useState<ShareOpenResponse | null>(null);
+
+  // Opened through a share link: read-only, and loaded once the link is open
+  const isShared = !!shareToken;
+  const isReady = !shareToken || !!sharedReport;
+
+  // Report API requests made through a share link carry its token
+  const withShare = useCallback((url: string) => (
+    shareToken ? `${url}${url.includes('?') ? '&' : '?'}share=${encodeURIComponent(shareToken)}` : url
+  ), [shareToken]);
 
-  // Check if user has full access
-  const hasFullAccess = isAuthenticated && user?.bestPlanId && !user.bestPlanId.includes('basic');
-  const blur = hasFullAccess ? 'false' : 'true';
+  // Access is decided server-side from the session's plan
+  const hasFullAccess = property?.access ? !property.access.locked : false;
+
+  // Sections without a server verdict yet fall back to the report-level access
+  const isSectionLocked = (section: string) => sectionAccess[section]?.locked ?? !hasFullAccess;
 
   // Fetch section data from API
-  const fetchSectionData = useCallback(async (section: string) => {
-    if (sectionData[section] !== undefined || loadingSections[section]) return;
+  const fetchSections = useCallback(async (sections: string[]) => {
+    const pending = sections.filter(section => sectionData[section] === undefined && !loadingSections[section]);
+    if (pending.length === 0) return;
+
+    setLoadingSections(prev => ({ ...prev, ...Object.fromEntries(pending.map(section => [section, true])) }));
 
-    setLoadingSections(prev => ({ ...prev, [section]: true }));
+    const received = new Set<string>();
 
     try {
-      const response = await fetch(`/api/property/${gnafId}?section=${section}&blur=${blur}`);
+      // One request per tab, streamed so each section renders as soon as the backend returns it
+      const response = await fetch(withShare(`/api/property/${gnafId}?sections=${pending.join(',')}&stream=1`));
       if (response.ok) {
-        const result = await response.json();
-        setSectionData(prev => ({ ...prev, [section]: result.data }));
-      } else {
-        setSectionData(prev => ({ ...prev, [section]: null }));
+        await readSectionStream(response, ({ section, data, access }) => {
+          received.add(section);
+          setSectionData(prev => ({ ...prev, [section]: data as SectionData | null }));
+          if (access) {
+            setSectionAccess(prev => ({ ...prev, [section]: access }));
+          }
+          setLoadingSections(prev => ({ ...prev, [section]: false }));
+        });
       }
     } catch (err) {
-      console.error(`Error fetching ${section}:`, err);
-      setSectionData(prev => ({ ...prev, [section]: null }));
+      console.error(`Error fetching ${pending.join(', ')}:`, err);
     } finally {
-      setLoadingSections(prev => ({ ...prev, [section]: false }));
+      // Sections the stream never delivered are shown as unavailable
+      const missing = pending.filter(section => !received.has(section));
+      setSectionData(prev => ({ ...prev, ...Object.fromEntries(missing.map(section => [section, null])) }));
+      setLoadingSections(prev => ({ ...prev, ...Object.fromEntries(missing.map(section => [section, false])) }));
     }
-  }, [gnafId, blur, sectionData, loadingSections]);
+  }, [gnafId, sectionData, loadingSections, withShare]);
 
   // Load property data on mount
   useEffect(() => {
@@ -124,53 +173,49 @@ export default function PropertyReportPage() {
 
       try {
         // Fetch basic property info
-        const response = await fetch(`/api/property/${gnafId}?blur=${blur}`);
+        const response = await fetch(withShare(`/api/property/${gnafId}`));
         if (!response.ok) {
-          throw new Error('Property not found');
+          // The API distinguishes a missing property from the backend being unavailable
+          const body = await response.json().catch(() => ({}));
+          throw new Error(body.error || 'Property not found');
         }
         const data = await response.json();
         setProperty(data);
 
-        // Fetch additional data in parallel
-        const [imageRes, summaryRes, avmRes, historyRes] = await Promise.all([
-          fetch(`/api/property/${gnafId}?section=image`),
-          fetch(`/api/property/${gnafId}?section=summary&blur=${blur}`),
-          fetch(`/api/property/${gnafId}?section=avm&blur=${blur}`),
-          fetch(`/api/property/${gnafId}?section=history&blur=${blur}`),
-        ]);
-
-        // Process image
-        if (imageRes.ok) {
-          const imageData = await imageRes.json();
-          if (imageData.data?.img_b64) {
-            setImageUrl(`data:image/jpeg;base64,${imageData.data.img_b64}`);
-          } else if (imageData.data?.image_url) {
-            setImageUrl(imageData.data.image_url);
+        // Fetch the overview sections in one batch
+        const overviewRes = await fetch(withShare(`/api/property/${gnafId}?sections=image,summary,avm,history`));
+        if (overviewRes.ok) {
+          const { sections }: SectionBatchResponse = await overviewRes.json();
+
+          // Process image
+          const imageData = sections.image?.data as { img_b64?: string; image_url?: string } | null;
+          if (imageData?.img_b64) {
+            setImageUrl(`data:image/jpeg;base64,${imageData.img_b64}`);
+          } else if (imageData?.image_url) {
+            setImageUrl(imageData.image_url);
           }
-        }
 
-        // Process summary
-        if (summaryRes.ok) {
-          const summaryData = await summaryRes.json();
-          if (summaryData.data?.summary_short) {
-            setSummary(summaryData.data.summary_short);
-          } else if (summaryData.data?.html) {
-            setSummary(summaryData.data.html);
+          // Process summary
+          const summaryData = sections.summary?.data as { summary_short?: string; html?: string } | null;
+          if (summaryData?.summary_short) {
+            setSummary(summaryData.summary_short);
+          } else if (summaryData?.html) {
+            setSummary(summaryData.html);
           }
-        }
 
-        // Process AVM
-        if (avmRes.ok) {
-          const avmResult = await avmRes.json();
-          if (avmResult.data) {
-            setAvmData(avmResult.data);
+          // Process AVM
+          if (sections.avm?.data) {
+            setAvmData(sections.avm.data as AVMData);
           }
-        }
 
-        // Process history
-        if (historyRes.ok) {
-          const historyResult = await historyRes.json();
-          setSectionData(prev => ({ ...prev, history: historyResult.data }));
+          // Process history
+          if (sections.history) {
+            setSectionData(prev => ({ ...prev, history: sections.history.data as SectionData | null }));
+            const historyAccess = sections.history.access;
+            if (historyAccess) {
+              setSectionAccess(prev => ({ ...prev, history: historyAccess }));
+            }
+          }
         }
 
       } catch (err) {
@@ -181,46 +226,54 @@ export default function PropertyReportPage() {
       }
     };
 
-    if (gnafId) {
+    if (gnafId && isReady) {
       loadProperty();
     }
-  }, [gnafId, blur]);
+  }, [gnafId, accessVersion, isReady, withShare]);
+
+  // Spend a property report credit, then reload the report unblurred
+  const unlockReport = async () => {
+    if (isUnlocking) return;
+    setIsUnlocking(true);
+
+    try {
+      const response = await fetch('/api/reports/unlock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'property',
+          id: gnafId,
+          location: property?.address?.with_suburb || property?.address?.street || '',
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        showToast(result.error || 'Failed to unlock report', 'error');
+        return;
+      }
+
+      showToast(result.alreadyUnlocked ? 'Report already unlocked this month' : 'Report unlocked', 'success');
+      setSectionData({});
+      setSectionAccess({});
+      setAccessVersion(v => v + 1);
+    } catch (err) {
+      console.error('Error unlocking report:', err);
+      showToast('Failed to unlock report', 'error');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
 
-  // Load section data when section changes
+  // Load section data when section changes; a print loads every tab at once
   useEffect(() => {
     if (!property) return;
+    fetchSections(isPrint ? Object.values(TAB_SECTIONS).flat() : TAB_SECTIONS[activeSection]);
+  }, [activeSection, property, fetchSections, isPrint]);
 
-    switch (activeSection) {
-      case 'market':
-        fetchSectionData('sales');
-        fetchSectionData('rent');
-        fetchSectionData('yield');
-        fetchSectionData('pocket');
-        fetchSectionData('neighbors');
-        fetchSectionData('nearby');
-        break;
-      case 'risks':
-        fetchSectionData('risk');
-        fetchSectionData('noise');
-        break;
-      case 'development':
-        fetchSectionData('development');
-        fetchSectionData('zoning');
-        fetchSectionData('easements');
-        break;
-      case 'lifestyle':
-        fetchSectionData('amenities');
-        fetchSectionData('schools');
-        fetchSectionData('public_schools');
-        fetchSectionData('private_schools');
-        break;
-      case 'demographics':
-        fetchSectionData('demographics');
-        fetchSectionData('ethnicity');
-        fetchSectionData('income');
-        break;
-    }
-  }, [activeSection, property, fetchSectionData]);
+  // The PDF renderer prints once the report and every section have loaded
+  const isPrintReady = isPrint && !isLoading &&
+    Object.keys(loadingSections).length > 0 && !Object.values(loadingSections).some(Boolean);
 
   // Section tabs configuration
   const sectionTabs: { id: SectionTab; label: string; icon: string }[] = [
@@ -267,32 +320,52 @@ export default function PropertyReportPage() {
   );
 
   // Blur overlay component for locked content
-  const BlurOverlay = () => (
+  const BlurOverlay = ({ access }: { access?: SectionAccess }) => (
     <div className="absolute inset-0 bg-white/80 backdrop-blur-sm z-10 flex items-center justify-center rounded-xl">
       <div className="text-center p-6">
         <svg className="w-12 h-12 text-[#5675df] mx-auto mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
         </svg>
-        <p className="font-semibold text-gray-800 mb-2">Subscribe to unlock</p>
-        <Link href="/pricing" className="text-[#5675df] hover:underline text-sm">View plans</Link>
+        {access?.reason === 'login_required' ? (
+          <>
+            <p className="font-semibold text-gray-800 mb-2">Sign in to unlock</p>
+            <Link href="/?login=true" className="text-[#5675df] hover:underline text-sm">Sign in</Link>
+          </>
+        ) : access?.reason === 'unlock_required' ? (
+          <>
+            <p className="font-semibold text-gray-800 mb-2">Unlock the full report</p>
+            <button onClick={unlockReport} disabled={isUnlocking} className="text-[#5675df] hover:underline text-sm disabled:opacity-50">
+              {isUnlocking ? 'Unlocking...' : 'Use 1 property report credit'}
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="font-semibold text-gray-800 mb-2">Subscribe to unlock</p>
+            <Link href="/pricing" className="text-[#5675df] hover:underline text-sm">View plans</Link>
+          </>
+        )}
       </div>
     </div>
   );
 
-  // Section wrapper with optional blur
-  const SectionWrapper = ({ children, requiresAccess = true, className = '' }: {
+  // Section wrapper, blurred when the server marks the section as locked
+  const SectionWrapper = ({ children, section, className = '' }: {
     children: React.ReactNode;
-    requiresAccess?: boolean;
+    section: string;
     className?: string;
   }) => (
     <div className={`relative ${className}`}>
-      {requiresAccess && !hasFullAccess && <BlurOverlay />}
-      <div className={requiresAccess && !hasFullAccess ? 'blur-sm pointer-events-none' : ''}>
+      {isSectionLocked(section) && <BlurOverlay access={sectionAccess[section] || property?.access} />}
+      <div className={isSectionLocked(section) ? 'blur-sm pointer-events-none' : ''}>
         {children}
       </div>
     </div>
   );
 
+  if (shareToken && !sharedReport) {
+    return <SharedReportGate token={shareToken} onOpen={setSharedReport} />;
+  }
+
   // Loading state
   if (isLoading) {
     return (
@@ -331,8 +404,17 @@ export default function PropertyReportPage() {
 
   return (
     <div className="min-h-screen bg-[#f8fafc]">
+      {isPrintReady && <div data-report-ready hidden />}
+      {isPrint && (
+        <PrintCover
+          reportType="Property"
+          title={address.street || address.with_suburb || gnafId}
+          subtitle={[address.suburb, address.state, address.postcode].filter(Boolean).join(' ')}
+          sections={sectionTabs}
+        />
+      )}
       {/* Header */}
-      <header className="bg-[#0f1938] text-white sticky top-0 z-50">
+      <header className="bg-[#0f1938] text-white sticky top-0 z-50 print:hidden">
         <div className="max-w-[1200px] mx-auto px-4 py-3 flex items-center justify-between">
           <div className="flex items-center gap-4">
             <Link href="/" className="text-xl font-bold">Microburbs</Link>
@@ -367,25 +449,44 @@ export default function PropertyReportPage() {
             <span className="text-gray-300">|</span>
             <span className="font-semibold text-gray-800">{address.street}</span>
           </div>
-          <div className="flex gap-3">
-            {hasFullAccess && (
-              <button className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#5675df] hover:text-[#5675df] transition-colors">
+          {isShared ? (
+            <span className="text-sm text-gray-500">
+              Shared with you, read-only{sharedReport?.expiresAt && ` · Link expires ${new Date(sharedReport.expiresAt).toLocaleDateString('en-AU')}`}
+            </span>
+          ) : (
+            <div className="flex gap-3">
+              <WatchlistButton type="property" itemKey={gnafId} label={address.with_suburb || address.street || gnafId} />
+              {hasFullAccess && (
+                <a
+                  href={`/api/property/${encodeURIComponent(gnafId)}/pdf`}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#5675df] hover:text-[#5675df] transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                  </svg>
+                  PDF
+                </a>
+              )}
+              <Link
+                href={`/property-reports/compare?ids=${gnafId}`}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#5675df] hover:text-[#5675df] transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                </svg>
+                Compare
+              </Link>
+              <button
+                onClick={() => setShowSharePopup(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#5675df] hover:text-[#5675df] transition-colors"
+              >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
                 </svg>
-                PDF
+                Share
               </button>
-            )}
-            <button
-              onClick={() => setShowSharePopup(true)}
-              className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#5675df] hover:text-[#5675df] transition-colors"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
-              </svg>
-              Share
-            </button>
-          </div>
+            </div>
+          )}
         </div>
 
         {/* ============================================ */}
@@ -517,7 +618,7 @@ export default function PropertyReportPage() {
                   </svg>
                   Property History
                 </h3>
-                <SectionWrapper requiresAccess={true}>
+                <SectionWrapper section="history">
                   <div className="bg-gray-50 rounded-xl p-4 overflow-x-auto">
                     {sectionData.history.html ? (
                       renderHtml(sectionData.history.html as string)
@@ -601,7 +702,7 @@ export default function PropertyReportPage() {
         {/* ============================================ */}
         {/* SECTION TABS NAVIGATION */}
         {/* ============================================ */}
-        <div className="bg-white rounded-xl shadow-sm mb-6 sticky top-14 z-40">
+        <div className="bg-white rounded-xl shadow-sm mb-6 sticky top-14 z-40 print:hidden">
           <div className="flex overflow-x-auto">
             {sectionTabs.map((tab) => (
               <button
@@ -622,7 +723,7 @@ export default function PropertyReportPage() {
         {/* ============================================ */}
         {/* MARKET INSIGHTS SECTION */}
         {/* ============================================ */}
-        <section id="market" className={`space-y-6 ${activeSection !== 'market' ? 'hidden' : ''}`}>
+        <section id="market" className={`space-y-6 ${activeSection !== 'market' ? 'hidden print:block' : ''} print:break-before-page`}>
           {/* Sales & Prices Charts */}
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Sales & Rental Data</h2>
@@ -656,7 +757,7 @@ export default function PropertyReportPage() {
               </button>
             </div>
 
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section={marketChartTab}>
               <div className="min-h-[350px] bg-gray-50 rounded-xl p-4">
                 {marketChartTab === 'sales' && (
                   loadingSections['sales'] ? <LoadingSpinner /> :
@@ -681,7 +782,7 @@ export default function PropertyReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Median Sale Price by Pocket</h3>
             <p className="text-sm text-gray-500 mb-4">Hyperlocal price variations within the suburb - see which pockets are more valuable</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="pocket">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {loadingSections['pocket'] ? <LoadingSpinner /> :
                  sectionData['pocket']?.html ? renderHtml(sectionData['pocket'].html as string) :
@@ -694,7 +795,7 @@ export default function PropertyReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Meet the Neighbours</h3>
             <p className="text-sm text-gray-500 mb-4">Owner-occupier vs. renter percentage on this street - understand community stability</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="neighbors">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {loadingSections['neighbors'] ? <LoadingSpinner /> :
                  sectionData['neighbors']?.html ? renderHtml(sectionData['neighbors'].html as string) :
@@ -707,7 +808,7 @@ export default function PropertyReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">For Sale Properties Nearby</h3>
             <p className="text-sm text-gray-500 mb-4">Current listings in the surrounding area</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="nearby">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {loadingSections['nearby'] ? <LoadingSpinner /> :
                  sectionData['nearby']?.html ? renderHtml(sectionData['nearby'].html as string) :
@@ -720,12 +821,12 @@ export default function PropertyReportPage() {
         {/* ============================================ */}
         {/* RISKS SECTION */}
         {/* ============================================ */}
-        <section id="risks" className={`space-y-6 ${activeSection !== 'risks' ? 'hidden' : ''}`}>
+        <section id="risks" className={`space-y-6 ${activeSection !== 'risks' ? 'hidden print:block' : ''} print:break-before-page`}>
           {/* Risk & Public Housing Heatmap */}
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Risk & Public Housing Assessment</h2>
             <p className="text-sm text-gray-500 mb-4">Environmental risks and public housing concentration areas - red indicates higher risk/concentration</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="risk">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {loadingSections['risk'] ? <LoadingSpinner /> :
                  sectionData['risk']?.html ? renderHtml(sectionData['risk'].html as string) :
@@ -738,7 +839,7 @@ export default function PropertyReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Noise Levels</h3>
             <p className="text-sm text-gray-500 mb-4">Noise pollution map - red indicates noisier areas (busy roads, commercial zones)</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="noise">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {loadingSections['noise'] ? <LoadingSpinner /> :
                  sectionData['noise']?.html ? renderHtml(sectionData['noise'].html as string) :
@@ -751,12 +852,12 @@ export default function PropertyReportPage() {
         {/* ============================================ */}
         {/* DEVELOPMENT SECTION */}
         {/* ============================================ */}
-        <section id="development" className={`space-y-6 ${activeSection !== 'development' ? 'hidden' : ''}`}>
+        <section id="development" className={`space-y-6 ${activeSection !== 'development' ? 'hidden print:block' : ''} print:break-before-page`}>
           {/* Development Applications */}
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Development Applications</h2>
             <p className="text-sm text-gray-500 mb-4">Recent and upcoming development projects in the area</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="development">
               <div className="grid lg:grid-cols-2 gap-6">
                 {/* DA Map */}
                 <div className="min-h-[350px] bg-gray-50 rounded-xl overflow-hidden">
@@ -778,7 +879,7 @@ export default function PropertyReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Zoning Information</h3>
             <p className="text-sm text-gray-500 mb-4">Current zoning classifications and permitted land uses</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="zoning">
               <div className="grid lg:grid-cols-2 gap-6">
                 {/* Zoning Map */}
                 <div className="min-h-[350px] bg-gray-50 rounded-xl overflow-hidden">
@@ -800,7 +901,7 @@ export default function PropertyReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Easements & Rights of Way</h3>
             <p className="text-sm text-gray-500 mb-4">Utility easements and access restrictions affecting the property</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="easements">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {loadingSections['easements'] ? <LoadingSpinner /> :
                  sectionData['easements']?.html ? renderHtml(sectionData['easements'].html as string) :
@@ -813,12 +914,12 @@ export default function PropertyReportPage() {
         {/* ============================================ */}
         {/* LIFESTYLE SECTION */}
         {/* ============================================ */}
-        <section id="lifestyle" className={`space-y-6 ${activeSection !== 'lifestyle' ? 'hidden' : ''}`}>
+        <section id="lifestyle" className={`space-y-6 ${activeSection !== 'lifestyle' ? 'hidden print:block' : ''} print:break-before-page`}>
           {/* Nearby Amenities */}
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Nearby Amenities</h2>
             <p className="text-sm text-gray-500 mb-4">Parks, restaurants, shopping, transport, healthcare and more</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="amenities">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {loadingSections['amenities'] ? <LoadingSpinner /> :
                  sectionData['amenities']?.html ? renderHtml(sectionData['amenities'].html as string) :
@@ -835,7 +936,7 @@ export default function PropertyReportPage() {
             <div className="mb-8">
               <h3 className="text-lg font-semibold text-gray-800 mb-2">Public Schools</h3>
               <p className="text-sm text-gray-500 mb-4">School catchment areas and rankings</p>
-              <SectionWrapper requiresAccess={true}>
+              <SectionWrapper section="public_schools">
                 <div className="min-h-[350px] bg-gray-50 rounded-xl overflow-hidden">
                   {loadingSections['public_schools'] ? <LoadingSpinner /> :
                    sectionData['public_schools']?.html ? renderHtml(sectionData['public_schools'].html as string) :
@@ -849,7 +950,7 @@ export default function PropertyReportPage() {
             <div>
               <h3 className="text-lg font-semibold text-gray-800 mb-2">Private Schools</h3>
               <p className="text-sm text-gray-500 mb-4">Nearby private and independent schools</p>
-              <SectionWrapper requiresAccess={true}>
+              <SectionWrapper section="private_schools">
                 <div className="min-h-[350px] bg-gray-50 rounded-xl overflow-hidden">
                   {loadingSections['private_schools'] ? <LoadingSpinner /> :
                    sectionData['private_schools']?.html ? renderHtml(sectionData['private_schools'].html as string) :
@@ -864,12 +965,12 @@ export default function PropertyReportPage() {
         {/* ============================================ */}
         {/* DEMOGRAPHICS SECTION */}
         {/* ============================================ */}
-        <section id="demographics" className={`space-y-6 ${activeSection !== 'demographics' ? 'hidden' : ''}`}>
+        <section id="demographics" className={`space-y-6 ${activeSection !== 'demographics' ? 'hidden print:block' : ''} print:break-before-page`}>
           {/* Population Pyramid */}
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Population Demographics</h2>
             <p className="text-sm text-gray-500 mb-4">Age and gender distribution in the area</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="demographics">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {loadingSections['demographics'] ? <LoadingSpinner /> :
                  sectionData['demographics']?.html ? renderHtml(sectionData['demographics'].html as string) :
@@ -882,7 +983,7 @@ export default function PropertyReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Ethnicity & Cultural Background</h3>
             <p className="text-sm text-gray-500 mb-4">Cultural diversity and country of birth statistics</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="ethnicity">
               <div className="grid lg:grid-cols-2 gap-6">
                 {/* Ethnicity Map */}
                 <div className="min-h-[350px] bg-gray-50 rounded-xl overflow-hidden">
@@ -904,7 +1005,7 @@ export default function PropertyReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Income & Affluence</h3>
             <p className="text-sm text-gray-500 mb-4">Household income levels and affluence scores</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="income">
               <div className="min-h-[300px] bg-gray-50 rounded-xl overflow-hidden">
                 {loadingSections['income'] ? <LoadingSpinner /> :
                  sectionData['income']?.html ? renderHtml(sectionData['income'].html as string) :
@@ -917,7 +1018,22 @@ export default function PropertyReportPage() {
         {/* ============================================ */}
         {/* SUBSCRIBE CTA (for non-subscribers) */}
         {/* ============================================ */}
-        {!hasFullAccess && (
+        {!hasFullAccess && property.access?.reason === 'unlock_required' && (
+          <div className="bg-gradient-to-r from-[#5675df] to-[#6b5ce7] rounded-xl p-8 text-white text-center mt-8">
+            <h2 className="text-2xl font-bold mb-4">Unlock Full Report Access</h2>
+            <p className="text-blue-100 mb-6 max-w-2xl mx-auto">
+              Unlocking this report uses one of your monthly property report credits. Re-opening it this month is free.
+            </p>
+            <button
+              onClick={unlockReport}
+              disabled={isUnlocking}
+              className="inline-block px-8 py-3 bg-white text-[#5675df] rounded-lg font-semibold hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+              {isUnlocking ? 'Unlocking...' : 'Unlock Report'}
+            </button>
+          </div>
+        )}
+        {!hasFullAccess && property.access?.reason !== 'unlock_required' && (
           <div className="bg-gradient-to-r from-[#5675df] to-[#6b5ce7] rounded-xl p-8 text-white text-center mt-8">
             <h2 className="text-2xl font-bold mb-4">Unlock Full Report Access</h2>
             <p className="text-blue-100 mb-6 max-w-2xl mx-auto">
@@ -1018,6 +1134,9 @@ export default function PropertyReportPage() {
                 <span className="text-xs text-gray-600">{copySuccess ? 'Copied!' : 'Copy Link'}</span>
               </button>
             </div>
+            {isAuthenticated && hasFullAccess && (
+              <ShareLinkForm type="property" itemKey={gnafId} label={address.with_suburb || address.street || gnafId} />
+            )}
           </div>
         </div>
       )}
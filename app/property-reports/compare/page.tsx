@@ -0,0 +1,363 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import Header from '@/app/components/Header';
+import Footer from '@/app/components/Footer';
+import { useToast } from '@/app/components/Toast';
+import type { CompareMetric, CompareProperty, PropertyCompareResponse } from '@/app/lib/types/compare';
+
+interface AddressSuggestion {
+  gnaf_id: string;
+  address: string;
+  suburb: string;
+  state: string;
+}
+
+type HtmlContainer = { html?: string; [key: string]: unknown };
+
+const MAX_PROPERTIES = 4;
+
+// Sections shown as charts, one row each, with the part of the section to render
+const DISPLAY_ROWS: { section: string; label: string; pick: (data: Record<string, unknown>) => string | undefined }[] = [
+  { section: 'yield', label: 'Rental yield', pick: data => data.html as string | undefined },
+  { section: 'risk', label: 'Risks', pick: data => data.html as string | undefined },
+  { section: 'noise', label: 'Noise', pick: data => data.html as string | undefined },
+  {
+    section: 'zoning',
+    label: 'Zoning',
+    pick: data => (data.chart as HtmlContainer | null)?.html || (data.map as HtmlContainer | null)?.html,
+  },
+  {
+    section: 'schools',
+    label: 'Nearest schools',
+    pick: data => [data.public_schools, data.private_schools]
+      .map(part => (part as HtmlContainer | null)?.html)
+      .filter(Boolean)
+      .join('') || undefined,
+  },
+];
+
+export default function PropertyComparePage({ searchParams }: { searchParams: Promise<{ ids?: string }> }) {
+  const { ids: idsParam } = use(searchParams);
+  const router = useRouter();
+  const { showToast } = useToast();
+  const gnafIds = Array.from(new Set((idsParam || '').split(',').map(id => id.trim()).filter(Boolean)))
+    .slice(0, MAX_PROPERTIES);
+  const idsKey = gnafIds.join(',');
+
+  const [comparison, setComparison] = useState<PropertyCompareResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<AddressSuggestion[]>([]);
+  const debounceRef = useRef<NodeJS.Timeout | null>(null);
+
+  const loadComparison = useCallback(async () => {
+    if (idsKey.split(',').filter(Boolean).length < 2) {
+      setComparison(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/property/compare?ids=${encodeURIComponent(idsKey)}`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to compare properties');
+      }
+      setComparison(body);
+    } catch (err) {
+      console.error('Error loading comparison:', err);
+      setError(err instanceof Error ? err.message : 'Failed to compare properties');
+    } finally {
+      setLoading(false);
+    }
+  }, [idsKey]);
+
+  useEffect(() => {
+    loadComparison();
+  }, [loadComparison]);
+
+  const updateIds = (next: string[]) => {
+    router.replace(next.length > 0 ? `/property-reports/compare?ids=${next.join(',')}` : '/property-reports/compare');
+  };
+
+  // Debounced address search for adding a column
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+
+    debounceRef.current = setTimeout(async () => {
+      if (value.length < 3) {
+        setSuggestions([]);
+        return;
+      }
+      try {
+        const response = await fetch(`/api/property/search?q=${encodeURIComponent(value)}`);
+        const data = await response.json();
+        setSuggestions(data.suggestions || []);
+      } catch (err) {
+        console.error('Address search error:', err);
+        setSuggestions([]);
+      }
+    }, 300);
+  };
+
+  const addProperty = (gnafId: string) => {
+    setSearchQuery('');
+    setSuggestions([]);
+    if (!gnafIds.includes(gnafId)) {
+      updateIds([...gnafIds, gnafId]);
+    }
+  };
+
+  // Spend property credits on every compared property not yet unlocked, then reload unblurred
+  const unlockAll = async () => {
+    if (isUnlocking) return;
+    setIsUnlocking(true);
+
+    try {
+      const response = await fetch('/api/property/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ gnafIds }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        showToast(result.error || 'Failed to unlock reports', 'error');
+        return;
+      }
+
+      showToast(
+        result.unlockedCount > 0 ? `Unlocked ${result.unlockedCount} property reports` : 'Reports already unlocked this month',
+        'success'
+      );
+      await loadComparison();
+    } catch (err) {
+      console.error('Error unlocking reports:', err);
+      showToast('Failed to unlock reports', 'error');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  // Render HTML content safely
+  const renderHtmlContent = (html: string | undefined) => {
+    if (!html) return null;
+    return (
+      <div
+        className="flask-content w-full"
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    );
+  };
+
+  // Lock notice for a property whose report is blurred for this session
+  const renderAccessNotice = (property: CompareProperty) => {
+    if (!property.access?.locked) return null;
+
+    switch (property.access.reason) {
+      case 'login_required':
+        return <Link href="/?login=true" className="text-xs text-[#4475e6] hover:underline">Sign in for full figures</Link>;
+      case 'unlock_required':
+        return <span className="text-xs text-amber-600">Not unlocked</span>;
+      default:
+        return <Link href="/pricing" className="text-xs text-[#4475e6] hover:underline">Subscribe for full figures</Link>;
+    }
+  };
+
+  const renderMetricCell = (metric: CompareMetric, index: number) => {
+    const entry = metric.values[index];
+    const isWinner = metric.winners.includes(index);
+
+    return (
+      <td key={index} className={`px-4 py-3 text-center ${isWinner ? 'bg-green-50' : ''}`}>
+        {entry?.locked ? (
+          <span className="text-gray-400">Locked</span>
+        ) : (
+          <span className={isWinner ? 'font-bold text-green-700' : 'text-gray-800'}>{entry?.display ?? '-'}</span>
+        )}
+      </td>
+    );
+  };
+
+  const properties = comparison?.properties ?? [];
+  const credits = comparison?.credits;
+  const groups = Array.from(new Set((comparison?.metrics ?? []).map(metric => metric.group)));
+
+  return (
+    <div className="min-h-screen flex flex-col bg-white">
+      <Header />
+
+      <main className="flex-1 bg-[#f8fafc]">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Breadcrumb */}
+          <nav className="mb-6">
+            <ol className="flex items-center gap-2 text-sm">
+              <li>
+                <Link href="/property-reports" className="text-[#4475e6] hover:underline">
+                  Property Reports
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li className="text-gray-600">Compare</li>
+            </ol>
+          </nav>
+
+          <h1 className="text-3xl font-bold text-[#383941] mb-2">Compare Properties</h1>
+          <p className="text-[#898787] mb-6">Compare up to {MAX_PROPERTIES} shortlisted properties side by side.</p>
+
+          {/* Add property */}
+          {gnafIds.length < MAX_PROPERTIES && (
+            <div className="bg-white rounded-xl p-4 mb-6 shadow-sm relative">
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => handleSearchChange(e.target.value)}
+                placeholder="Add an address..."
+                className="w-full px-4 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+              />
+              {suggestions.length > 0 && (
+                <div className="absolute left-4 right-4 top-full -mt-2 bg-white border border-gray-200 rounded-lg shadow-lg z-20 max-h-64 overflow-y-auto">
+                  {suggestions.map(suggestion => (
+                    <button
+                      key={suggestion.gnaf_id}
+                      onClick={() => addProperty(suggestion.gnaf_id)}
+                      className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50"
+                    >
+                      {suggestion.address}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Unlock bar: each property not yet unlocked this month uses one property credit */}
+          {credits && credits.needed > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-6 flex flex-wrap items-center justify-between gap-4">
+              <p className="text-sm text-amber-800">
+                {credits.needed} of these properties {credits.needed === 1 ? 'is' : 'are'} not unlocked.
+                Unlocking uses {credits.needed} property {credits.needed === 1 ? 'credit' : 'credits'}
+                {credits.left === -1 ? '.' : ` (${credits.left} left this month).`}
+              </p>
+              <button
+                onClick={unlockAll}
+                disabled={isUnlocking || (credits.left !== -1 && credits.left < credits.needed)}
+                className="px-4 py-2 bg-[#4475e6] text-white rounded-lg text-sm font-medium hover:bg-[#3a63c7] disabled:opacity-50"
+              >
+                {isUnlocking ? 'Unlocking...' : `Unlock ${credits.needed === 1 ? 'report' : 'all reports'}`}
+              </button>
+            </div>
+          )}
+
+          {gnafIds.length < 2 ? (
+            <div className="bg-white rounded-xl p-12 text-center text-gray-500 shadow-sm">
+              Add at least two properties to compare them side by side.
+            </div>
+          ) : loading && !comparison ? (
+            <div className="flex items-center justify-center py-24">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#4475e6]"></div>
+            </div>
+          ) : error ? (
+            <div className="bg-white rounded-xl p-12 text-center shadow-sm">
+              <p className="text-gray-800 font-semibold mb-2">Comparison unavailable</p>
+              <p className="text-gray-500 text-sm">{error}</p>
+            </div>
+          ) : comparison && (
+            <div className="bg-white rounded-xl shadow-sm overflow-x-auto">
+              <table className="w-full text-sm table-fixed min-w-[720px]">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="w-44 px-4 py-4"></th>
+                    {properties.map(property => (
+                      <th key={property.gnafId} className="px-4 py-4 text-center align-top">
+                        <Link
+                          href={`/property-reports/${property.gnafId}`}
+                          className="font-bold text-[#383941] hover:text-[#4475e6]"
+                        >
+                          {property.address}
+                        </Link>
+                        {property.propertyType && <div className="text-xs text-gray-500 capitalize">{property.propertyType}</div>}
+                        <div className="mt-1 flex items-center justify-center gap-3">
+                          {property.error ? (
+                            <span className="text-xs text-red-600">
+                              {property.error === 'not_found' ? 'Property not found' : 'Data temporarily unavailable'}
+                            </span>
+                          ) : renderAccessNotice(property)}
+                          <button
+                            onClick={() => updateIds(gnafIds.filter(id => id !== property.gnafId))}
+                            className="text-xs text-gray-400 hover:text-red-600"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map(group => (
+                    <GroupRows key={group} name={group} columns={properties.length}>
+                      {comparison.metrics.filter(metric => metric.group === group).map(metric => (
+                        <tr key={metric.id} className="border-b border-gray-100">
+                          <td className="px-4 py-3 text-gray-600">{metric.label}</td>
+                          {properties.map((_, index) => renderMetricCell(metric, index))}
+                        </tr>
+                      ))}
+                    </GroupRows>
+                  ))}
+
+                  {/* Charts from the property report, aligned per property */}
+                  <GroupRows name="Location" columns={properties.length}>
+                    {DISPLAY_ROWS.map(row => (
+                      <tr key={row.section} className="border-b border-gray-100">
+                        <td className="px-4 py-3 text-gray-600 align-top">{row.label}</td>
+                        {properties.map(property => {
+                          const section = property.sections[row.section];
+                          const data = section?.data as Record<string, unknown> | null | undefined;
+                          return (
+                            <td key={property.gnafId} className="px-2 py-3 align-top">
+                              {section?.access?.locked ? (
+                                <div className="text-center text-gray-400">Locked</div>
+                              ) : (data && renderHtmlContent(row.pick(data))) ?? (
+                                <div className="text-center text-gray-400">No data available</div>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </GroupRows>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
+
+// Group heading row followed by the group's rows
+function GroupRows({ name, columns, children }: { name: string; columns: number; children: React.ReactNode }) {
+  return (
+    <>
+      <tr className="bg-gray-50">
+        <td colSpan={columns + 1} className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+          {name}
+        </td>
+      </tr>
+      {children}
+    </>
+  );
+}
@@ -4,12 +4,18 @@ import { useState, useEffect, useCallback, use } from 'react';
 import Link from 'next/link';
 import Header from '@/app/components/Header';
 import Footer from '@/app/components/Footer';
+import RegionLeaderboard from '@/app/components/RegionLeaderboard';
+import type { SectionAccess } from '@/app/lib/auth/types';
+import type { SectionBatchResponse } from '@/app/lib/types/sections';
+import type { RegionLeaderboard as RegionLeaderboardData } from '@/app/lib/types/region';
 
 interface RegionInfo {
   name: string;
   type: string;
   state: string;
-  representativeSuburb: string;
+  suburbCount: number;
+  suburbs: string[];
+  access?: SectionAccess;
 }
 
 interface RegionMetrics {
@@ -55,7 +61,7 @@ interface MarketInsightsData {
   };
 }
 
-type SectionType = 'overview' | 'market' | 'demographics' | 'growth';
+type SectionType = 'overview' | 'market' | 'suburbs' | 'demographics' | 'growth';
 
 export default function RegionReportPage({ params }: { params: Promise<{ name: string }> }) {
   const resolvedParams = use(params);
@@ -69,6 +75,10 @@ export default function RegionReportPage({ params }: { params: Promise<{ name: s
   const [demographicsData, setDemographicsData] = useState<SectionData | null>(null);
   const [incomeData, setIncomeData] = useState<SectionData | null>(null);
   const [populationData, setPopulationData] = useState<SectionData | null>(null);
+  // undefined until requested; null when the leaderboard could not be loaded
+  const [leaderboard, setLeaderboard] = useState<RegionLeaderboardData | null | undefined>(undefined);
+  const [sectionAccess, setSectionAccess] = useState<Record<string, SectionAccess>>({});
+  const [chartSuburb, setChartSuburb] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -76,25 +86,42 @@ export default function RegionReportPage({ params }: { params: Promise<{ name: s
   const fetchRegionInfo = useCallback(async () => {
     try {
       const response = await fetch(`/api/region/${encodeURIComponent(regionName)}`);
-      if (!response.ok) throw new Error('Region not found');
+      if (!response.ok) {
+        // The API distinguishes a missing region from the backend being unavailable
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Region not found');
+      }
       const data = await response.json();
       setRegionInfo(data);
     } catch (err) {
       console.error('Error fetching region info:', err);
-      setError('Region not found');
+      setError(err instanceof Error ? err.message : 'Region not found');
     }
   }, [regionName]);
 
-  // Fetch section data
-  const fetchSectionData = useCallback(async (section: string) => {
+  // Fetch several sections in one request; missing sections come back as null
+  const fetchSections = useCallback(async (sections: string[]): Promise<Record<string, SectionData | null>> => {
     try {
-      const response = await fetch(`/api/region/${encodeURIComponent(regionName)}?section=${section}`);
-      if (!response.ok) return null;
-      const result = await response.json();
-      return result.data;
+      const response = await fetch(`/api/region/${encodeURIComponent(regionName)}?sections=${sections.join(',')}`);
+      if (!response.ok) return {};
+      const result: SectionBatchResponse & { chartSuburb?: string } = await response.json();
+      if (result.chartSuburb) setChartSuburb(result.chartSuburb);
+
+      setSectionAccess(prev => {
+        const next = { ...prev };
+        sections.forEach(section => {
+          const access = result.sections[section]?.access;
+          if (access) next[section] = access;
+        });
+        return next;
+      });
+
+      return Object.fromEntries(
+        sections.map(section => [section, (result.sections[section]?.data ?? null) as SectionData | null])
+      );
     } catch (err) {
-      console.error(`Error fetching ${section}:`, err);
-      return null;
+      console.error(`Error fetching ${sections.join(', ')}:`, err);
+      return {};
     }
   }, [regionName]);
 
@@ -104,19 +131,15 @@ export default function RegionReportPage({ params }: { params: Promise<{ name: s
       setLoading(true);
       await fetchRegionInfo();
 
-      // Fetch initial data in parallel
-      const [msp, insights] = await Promise.all([
-        fetchSectionData('msp'),
-        fetchSectionData('market_insights'),
-      ]);
+      const initial = await fetchSections(['msp', 'market_insights']);
 
-      setMspData(msp);
-      setMarketInsights(insights);
+      setMspData(initial.msp ?? null);
+      setMarketInsights((initial.market_insights ?? null) as MarketInsightsData | null);
       setLoading(false);
     };
 
     loadData();
-  }, [fetchRegionInfo, fetchSectionData]);
+  }, [fetchRegionInfo, fetchSections]);
 
   // Load section-specific data when section changes
   useEffect(() => {
@@ -124,31 +147,34 @@ export default function RegionReportPage({ params }: { params: Promise<{ name: s
       switch (activeSection) {
         case 'growth':
           if (!growthData) {
-            const data = await fetchSectionData('growth');
-            setGrowthData(data);
+            const data = await fetchSections(['growth']);
+            setGrowthData(data.growth ?? null);
+          }
+          break;
+        case 'suburbs':
+          if (leaderboard === undefined) {
+            const data = await fetchSections(['leaderboard']);
+            setLeaderboard((data.leaderboard ?? null) as RegionLeaderboardData | null);
           }
           break;
         case 'demographics':
           if (!demographicsData) {
-            const [demo, income, pop] = await Promise.all([
-              fetchSectionData('demographics'),
-              fetchSectionData('income'),
-              fetchSectionData('population'),
-            ]);
-            setDemographicsData(demo);
-            setIncomeData(income);
-            setPopulationData(pop);
+            const data = await fetchSections(['demographics', 'income', 'population']);
+            setDemographicsData(data.demographics ?? null);
+            setIncomeData(data.income ?? null);
+            setPopulationData(data.population ?? null);
           }
           break;
       }
     };
 
     loadSectionData();
-  }, [activeSection, growthData, demographicsData, fetchSectionData]);
+  }, [activeSection, growthData, demographicsData, leaderboard, fetchSections]);
 
   const sections: { id: SectionType; label: string }[] = [
     { id: 'overview', label: 'Overview' },
     { id: 'market', label: 'Market' },
+    { id: 'suburbs', label: 'Suburbs' },
     { id: 'demographics', label: 'Demographics' },
     { id: 'growth', label: 'Growth' },
   ];
@@ -159,6 +185,25 @@ export default function RegionReportPage({ params }: { params: Promise<{ name: s
     return num.toLocaleString();
   };
 
+  const isSectionLocked = (section: string) => sectionAccess[section]?.locked ?? !!regionInfo?.access?.locked;
+
+  // Upgrade prompt shown in place of sections the server has locked
+  const renderLockedNotice = (section: string) => {
+    const access = sectionAccess[section] || regionInfo?.access;
+    const needsLogin = access?.reason === 'login_required';
+    return (
+      <div className="bg-gray-50 rounded-xl p-8 text-center border border-gray-100">
+        <svg className="w-12 h-12 text-[#4475e6] mx-auto mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+        </svg>
+        <p className="font-semibold text-gray-800 mb-2">{needsLogin ? 'Sign in to unlock' : 'Subscribe to unlock'}</p>
+        <Link href={needsLogin ? '/?login=true' : '/pricing'} className="text-[#4475e6] hover:underline text-sm">
+          {needsLogin ? 'Sign in' : 'View plans'}
+        </Link>
+      </div>
+    );
+  };
+
   // Render HTML content safely
   const renderHtmlContent = (html: string | undefined) => {
     if (!html) return null;
@@ -192,7 +237,7 @@ export default function RegionReportPage({ params }: { params: Promise<{ name: s
         <main className="flex-1 flex items-center justify-center">
           <div className="text-center">
             <h1 className="text-2xl font-bold text-gray-900 mb-4">Region Not Found</h1>
-            <p className="text-gray-600 mb-6">We couldn&apos;t find data for &quot;{regionName}&quot;</p>
+            <p className="text-gray-600 mb-6">{error}</p>
             <Link href="/region-reports" className="text-[#4475e6] hover:underline">
               ← Back to Region Reports
             </Link>
@@ -244,16 +289,21 @@ export default function RegionReportPage({ params }: { params: Promise<{ name: s
                 <h1 className="text-3xl lg:text-4xl font-bold text-[#383941] mb-2">
                   {regionName}
                 </h1>
-                {regionInfo?.representativeSuburb && (
+                {regionInfo && (
                   <p className="text-[#898787]">
-                    Based on data from{' '}
+                    Aggregated across {regionInfo.suburbCount} {regionInfo.suburbCount === 1 ? 'suburb' : 'suburbs'}
+                  </p>
+                )}
+                {chartSuburb && (
+                  <p className="text-xs text-[#898787] mt-1">
+                    Charts show{' '}
                     <Link
-                      href={`/suburb-reports/${encodeURIComponent(regionInfo.representativeSuburb)}`}
+                      href={`/suburb-reports/${encodeURIComponent(chartSuburb)}`}
                       className="text-[#4475e6] hover:underline"
                     >
-                      {regionInfo.representativeSuburb}
-                    </Link>{' '}
-                    and surrounding suburbs
+                      {chartSuburb}
+                    </Link>
+                    , the region&apos;s most active suburb
                   </p>
                 )}
               </div>
@@ -465,28 +515,30 @@ export default function RegionReportPage({ params }: { params: Promise<{ name: s
               <div className="space-y-8">
                 <h2 className="text-xl font-bold text-[#383941] mb-4">Demographics</h2>
 
-                {demographicsData?.html && (
+                {isSectionLocked('demographics') && renderLockedNotice('demographics')}
+
+                {!isSectionLocked('demographics') && demographicsData?.html && (
                   <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
                     <h3 className="text-lg font-semibold text-[#383941] mb-4">Population Profile</h3>
                     {renderHtmlContent(demographicsData.html)}
                   </div>
                 )}
 
-                {incomeData?.html && (
+                {!isSectionLocked('income') && incomeData?.html && (
                   <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
                     <h3 className="text-lg font-semibold text-[#383941] mb-4">Income Distribution</h3>
                     {renderHtmlContent(incomeData.html)}
                   </div>
                 )}
 
-                {populationData?.html && (
+                {!isSectionLocked('population') && populationData?.html && (
                   <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
                     <h3 className="text-lg font-semibold text-[#383941] mb-4">Population Trends</h3>
                     {renderHtmlContent(populationData.html)}
                   </div>
                 )}
 
-                {!demographicsData?.html && !incomeData?.html && !populationData?.html && (
+                {!isSectionLocked('demographics') && !demographicsData?.html && !incomeData?.html && !populationData?.html && (
                   <div className="bg-gray-50 rounded-xl p-8 text-center">
                     <p className="text-gray-600">Demographics data is not available for this region.</p>
                   </div>
@@ -494,6 +546,26 @@ export default function RegionReportPage({ params }: { params: Promise<{ name: s
               </div>
             )}
 
+            {/* Suburbs Section */}
+            {activeSection === 'suburbs' && (
+              <div className="space-y-8">
+                <h2 className="text-xl font-bold text-[#383941] mb-4">Suburbs in {regionName}</h2>
+                {isSectionLocked('leaderboard') ? renderLockedNotice('leaderboard') : (
+                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
+                    {leaderboard ? (
+                      <RegionLeaderboard leaderboard={leaderboard} />
+                    ) : leaderboard === null ? (
+                      <p className="text-center text-gray-600 py-8">Suburb figures are not available for this region.</p>
+                    ) : (
+                      <div className="flex items-center justify-center py-12">
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#4475e6]"></div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Growth Section */}
             {activeSection === 'growth' && (
               <div className="space-y-8">
@@ -0,0 +1,10 @@
+// Rendered per request, so Next.js can put the nonce from proxy.ts on its scripts
+export const dynamic = 'force-dynamic';
+
+export default function RegionReportsLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
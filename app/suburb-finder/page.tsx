@@ -0,0 +1,482 @@
+'use client';
+
+import { useState, useEffect, useCallback, use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import Header from '@/app/components/Header';
+import Footer from '@/app/components/Footer';
+import { useToast } from '@/app/components/Toast';
+import { useAuth } from '@/app/lib/auth/context';
+import { ADVANCED_SORTS, parseFinderFilters, serializeFinderFilters } from '@/app/lib/finder/filters';
+import type {
+  SuburbFinderFilters,
+  SuburbFinderPreset,
+  SuburbFinderResponse,
+  SuburbFinderRow,
+  SuburbFinderSort,
+} from '@/app/lib/types/finder';
+
+const STATES = ['NSW', 'VIC', 'QLD', 'WA', 'SA', 'TAS', 'ACT', 'NT'];
+
+const SORT_OPTIONS: { id: SuburbFinderSort; label: string }[] = [
+  { id: 'growth', label: '1Y growth' },
+  { id: 'msp', label: 'Median price' },
+  { id: 'mrp', label: 'Median rent' },
+  { id: 'yield', label: 'Yield' },
+  { id: 'vacancy', label: 'Vacancy' },
+  { id: 'supply', label: 'Months of supply' },
+  { id: 'score', label: 'Insight score' },
+];
+
+const RESULT_COLUMNS: { key: keyof SuburbFinderRow & SuburbFinderSort; label: string; advanced?: boolean }[] = [
+  { key: 'msp', label: 'Median price' },
+  { key: 'mrp', label: 'Median rent' },
+  { key: 'growth', label: '1Y growth' },
+  { key: 'yield', label: 'Yield', advanced: true },
+  { key: 'vacancy', label: 'Vacancy', advanced: true },
+  { key: 'supply', label: 'Months of supply', advanced: true },
+  { key: 'score', label: 'Score', advanced: true },
+];
+
+type NumberFilter = 'priceMin' | 'priceMax' | 'growthMin' | 'yieldMin' | 'vacancyMax' | 'supplyMax';
+
+export default function SuburbFinderPage({ searchParams }: { searchParams: Promise<Record<string, string>> }) {
+  const params = use(searchParams);
+  const router = useRouter();
+  const { showToast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const query = new URLSearchParams(params).toString();
+  const hasArea = !!(params.sa3 || params.lga);
+
+  const [draft, setDraft] = useState<SuburbFinderFilters>(() => parseFinderFilters(new URLSearchParams(query)).filters);
+  const [results, setResults] = useState<SuburbFinderResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [limited, setLimited] = useState(true);
+  const [presets, setPresets] = useState<SuburbFinderPreset[]>([]);
+  const [presetLimit, setPresetLimit] = useState(0);
+  const [presetName, setPresetName] = useState('');
+
+  // Keep the form in step with the URL, e.g. after applying a preset or going back
+  useEffect(() => {
+    setDraft(parseFinderFilters(new URLSearchParams(query)).filters);
+  }, [query]);
+
+  const loadPresets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/suburb-finder/presets');
+      const data = await response.json();
+      if (data.success) {
+        setPresets(data.presets);
+        setPresetLimit(data.limit);
+      }
+    } catch (err) {
+      console.error('Error loading presets:', err);
+    }
+  }, []);
+
+  // Finder access comes from the plan; presets are per member
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const loadAccess = async () => {
+      try {
+        const response = await fetch('/api/user/subscription');
+        const data = await response.json();
+        if (data.success) {
+          setLimited(data.subscription.features.suburbFinder === 'limited');
+        }
+      } catch (err) {
+        console.error('Error loading subscription:', err);
+      }
+    };
+
+    loadAccess();
+    loadPresets();
+  }, [isAuthenticated, loadPresets]);
+
+  // Search whenever the URL has an area to search in
+  useEffect(() => {
+    if (!isAuthenticated || !hasArea) {
+      setResults(null);
+      return;
+    }
+
+    const search = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/suburb-finder?${query}`);
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || 'Failed to search suburbs');
+        }
+        setResults(body);
+        setLimited(body.limited);
+      } catch (err) {
+        console.error('Suburb finder error:', err);
+        setError(err instanceof Error ? err.message : 'Failed to search suburbs');
+        setResults(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    search();
+  }, [query, hasArea, isAuthenticated]);
+
+  const runSearch = (filters: SuburbFinderFilters, page?: number) => {
+    const next = serializeFinderFilters(filters);
+    if (page && page > 1) next.set('page', String(page));
+    router.replace(`/suburb-finder?${next.toString()}`);
+  };
+
+  const setNumber = (key: NumberFilter, value: string) => {
+    setDraft(prev => ({ ...prev, [key]: value === '' ? undefined : Number(value) }));
+  };
+
+  const setScore = (id: string, value: string) => {
+    setDraft(prev => {
+      const scores = { ...prev.scores };
+      if (value === '') {
+        delete scores[id];
+      } else {
+        scores[id] = Number(value);
+      }
+      return { ...prev, scores };
+    });
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    try {
+      const response = await fetch('/api/suburb-finder/presets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, query: serializeFinderFilters(draft).toString() }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save preset');
+      }
+      setPresetName('');
+      showToast(`Saved "${name}"`, 'success');
+      loadPresets();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to save preset', 'error');
+    }
+  };
+
+  const handleDeletePreset = async (preset: SuburbFinderPreset) => {
+    try {
+      const response = await fetch(`/api/suburb-finder/presets/${preset.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete preset');
+      }
+      setPresets(prev => prev.filter(existing => existing.id !== preset.id));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to delete preset', 'error');
+    }
+  };
+
+  const renderNumberInput = (key: NumberFilter, label: string, placeholder: string, advanced = false) => (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-600 mb-1">
+        {label}
+        {advanced && limited && <span className="ml-1 text-[#4475e6]">(Advanced)</span>}
+      </span>
+      <input
+        type="number"
+        value={draft[key] ?? ''}
+        onChange={(e) => setNumber(key, e.target.value)}
+        placeholder={placeholder}
+        disabled={advanced && limited}
+        className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6] disabled:bg-gray-50 disabled:text-gray-400"
+      />
+    </label>
+  );
+
+  const renderResultCell = (row: SuburbFinderRow, column: typeof RESULT_COLUMNS[number]) => {
+    if (column.advanced && limited) {
+      return (
+        <svg className="w-4 h-4 inline text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+        </svg>
+      );
+    }
+    return row[column.key]?.display ?? '-';
+  };
+
+  const scoreNames = results?.scoreNames ?? {};
+  const firstRank = results ? (results.page - 1) * results.pageSize : 0;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-white">
+      <Header />
+
+      <main className="flex-1 bg-[#f8fafc]">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <h1 className="text-3xl font-bold text-[#383941] mb-2">Suburb Finder</h1>
+          <p className="text-[#898787] mb-6">Screen the suburbs of an SA3 or LGA by price, growth, yield, vacancy, supply and insight scores.</p>
+
+          {authLoading ? (
+            <div className="flex items-center justify-center py-24">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#4475e6]"></div>
+            </div>
+          ) : !isAuthenticated ? (
+            <div className="bg-white rounded-xl p-12 text-center shadow-sm">
+              <p className="text-gray-800 font-semibold mb-2">Sign in to use the Suburb Finder</p>
+              <Link href="/?login=true" className="text-[#4475e6] hover:underline text-sm">Sign in</Link>
+            </div>
+          ) : (
+            <div className="grid lg:grid-cols-[300px_1fr] gap-6">
+              {/* Filters */}
+              <aside className="space-y-4">
+                <div className="bg-white rounded-xl p-4 shadow-sm space-y-3">
+                  <h2 className="text-sm font-semibold text-[#383941] uppercase tracking-wide">Area</h2>
+                  <label className="block">
+                    <span className="block text-xs font-medium text-gray-600 mb-1">State</span>
+                    <select
+                      value={draft.state ?? ''}
+                      onChange={(e) => setDraft(prev => ({ ...prev, state: e.target.value || undefined }))}
+                      className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+                    >
+                      <option value="">Any state</option>
+                      {STATES.map(state => <option key={state} value={state}>{state}</option>)}
+                    </select>
+                  </label>
+                  {(['sa3', 'lga'] as const).map(key => (
+                    <label key={key} className="block">
+                      <span className="block text-xs font-medium text-gray-600 mb-1">{key.toUpperCase()}</span>
+                      <input
+                        type="text"
+                        value={draft[key] ?? ''}
+                        onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value || undefined }))}
+                        placeholder={key === 'sa3' ? 'e.g. Inner West' : 'e.g. Inner West Council'}
+                        className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                <div className="bg-white rounded-xl p-4 shadow-sm space-y-3">
+                  <h2 className="text-sm font-semibold text-[#383941] uppercase tracking-wide">Market</h2>
+                  <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+                    {(['house', 'unit'] as const).map(type => (
+                      <button
+                        key={type}
+                        onClick={() => setDraft(prev => ({ ...prev, propertyType: type }))}
+                        className={`flex-1 px-3 py-1 text-sm rounded-md ${
+                          draft.propertyType === type ? 'bg-white text-[#4475e6] font-medium shadow-sm' : 'text-gray-600 hover:text-gray-800'
+                        }`}
+                      >
+                        {type === 'house' ? 'Houses' : 'Units'}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {renderNumberInput('priceMin', 'Min price', '$')}
+                    {renderNumberInput('priceMax', 'Max price', '$')}
+                  </div>
+                  {renderNumberInput('growthMin', 'Min 1Y growth', '%')}
+                  {renderNumberInput('yieldMin', 'Min yield', '%', true)}
+                  {renderNumberInput('vacancyMax', 'Max vacancy', '%', true)}
+                  {renderNumberInput('supplyMax', 'Max months of supply', 'months', true)}
+                </div>
+
+                {Object.keys(scoreNames).length > 0 && (
+                  <div className="bg-white rounded-xl p-4 shadow-sm space-y-3">
+                    <h2 className="text-sm font-semibold text-[#383941] uppercase tracking-wide">Minimum scores</h2>
+                    {Object.entries(scoreNames).map(([id, name]) => (
+                      <label key={id} className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-gray-600">{name}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={draft.scores?.[id] ?? ''}
+                          onChange={(e) => setScore(id, e.target.value)}
+                          className="w-20 px-2 py-1 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                <div className="bg-white rounded-xl p-4 shadow-sm space-y-3">
+                  <h2 className="text-sm font-semibold text-[#383941] uppercase tracking-wide">Rank by</h2>
+                  <div className="flex gap-2">
+                    <select
+                      value={draft.sort}
+                      onChange={(e) => setDraft(prev => ({ ...prev, sort: e.target.value as SuburbFinderSort }))}
+                      className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+                    >
+                      {SORT_OPTIONS.map(option => (
+                        <option key={option.id} value={option.id} disabled={limited && ADVANCED_SORTS.includes(option.id)}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={draft.direction}
+                      onChange={(e) => setDraft(prev => ({ ...prev, direction: e.target.value as 'asc' | 'desc' }))}
+                      className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+                    >
+                      <option value="desc">Highest</option>
+                      <option value="asc">Lowest</option>
+                    </select>
+                  </div>
+                  <button
+                    onClick={() => runSearch(draft)}
+                    disabled={!draft.sa3 && !draft.lga}
+                    className="w-full px-4 py-2 bg-[#4475e6] text-white text-sm font-medium rounded-lg hover:bg-[#3361d1] disabled:opacity-50"
+                  >
+                    Find suburbs
+                  </button>
+                </div>
+
+                {/* Saved presets */}
+                <div className="bg-white rounded-xl p-4 shadow-sm space-y-3">
+                  <h2 className="text-sm font-semibold text-[#383941] uppercase tracking-wide">Saved presets</h2>
+                  {presets.length === 0 && <p className="text-xs text-gray-500">No saved presets yet.</p>}
+                  {presets.map(preset => (
+                    <div key={preset.id} className="flex items-center justify-between gap-2">
+                      <button onClick={() => runSearch(preset.filters)} className="text-sm text-[#4475e6] hover:underline text-left truncate">
+                        {preset.name}
+                      </button>
+                      <button
+                        onClick={() => handleDeletePreset(preset)}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label={`Delete ${preset.name}`}
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  {presets.length < presetLimit ? (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        placeholder="Name these filters"
+                        className="flex-1 min-w-0 px-3 py-1.5 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+                      />
+                      <button
+                        onClick={handleSavePreset}
+                        disabled={!presetName.trim()}
+                        className="px-3 py-1.5 border border-[#4475e6] text-[#4475e6] text-sm rounded-lg hover:bg-[#4475e6]/5 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  ) : presetLimit > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Preset limit reached.{limited && <> <Link href="/pricing" className="text-[#4475e6] hover:underline">Upgrade</Link> to save more.</>}
+                    </p>
+                  )}
+                </div>
+              </aside>
+
+              {/* Results */}
+              <section>
+                {limited && (
+                  <div className="bg-[#4475e6]/10 text-[#383941] rounded-xl px-4 py-3 mb-4 text-sm">
+                    Your plan includes the limited Suburb Finder: price and growth filters, and the top 10 matches.{' '}
+                    <Link href="/pricing" className="text-[#4475e6] font-medium hover:underline">Upgrade for all filters</Link>
+                  </div>
+                )}
+
+                {!hasArea ? (
+                  <div className="bg-white rounded-xl p-12 text-center text-gray-500 shadow-sm">
+                    Choose an SA3 or LGA and press Find suburbs.
+                  </div>
+                ) : loading ? (
+                  <div className="flex items-center justify-center py-24">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#4475e6]"></div>
+                  </div>
+                ) : error ? (
+                  <div className="bg-white rounded-xl p-12 text-center shadow-sm">
+                    <p className="text-gray-800 font-semibold mb-2">Search unavailable</p>
+                    <p className="text-gray-500 text-sm">{error}</p>
+                  </div>
+                ) : results && (
+                  <div className="bg-white rounded-xl shadow-sm">
+                    <div className="px-4 py-3 border-b border-gray-100 text-sm text-[#898787]">
+                      {results.total} {results.total === 1 ? 'suburb matches' : 'suburbs match'}
+                      {results.limited && results.total > results.results.length && `, showing the top ${results.results.length}`}
+                      {results.candidatesCapped && ' (large area: only the first suburbs were screened; try a single SA3)'}
+                    </div>
+                    {results.results.length === 0 ? (
+                      <p className="p-12 text-center text-gray-500">No suburbs match these filters.</p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="border-b border-gray-200">
+                              <th className="py-2 px-3 font-semibold text-gray-600 text-left w-12">#</th>
+                              <th className="py-2 px-3 font-semibold text-gray-600 text-left">Suburb</th>
+                              {RESULT_COLUMNS.map(column => (
+                                <th key={column.key} className="py-2 px-3 font-semibold text-gray-600 text-right">{column.label}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {results.results.map((row, index) => (
+                              <tr key={row.name} className="border-b border-gray-100 hover:bg-gray-50">
+                                <td className="py-2 px-3 text-gray-400">{firstRank + index + 1}</td>
+                                <td className="py-2 px-3">
+                                  <Link
+                                    href={`/suburb-reports/${encodeURIComponent(row.name)}`}
+                                    className="font-medium text-[#383941] hover:text-[#4475e6]"
+                                  >
+                                    {row.name}
+                                  </Link>
+                                  <div className="text-xs text-gray-400">{[row.sa3, row.state].filter(Boolean).join(', ')}</div>
+                                </td>
+                                {RESULT_COLUMNS.map(column => (
+                                  <td key={column.key} className="py-2 px-3 text-right text-gray-700">
+                                    {renderResultCell(row, column)}
+                                  </td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
+                    {results.totalPages > 1 && (
+                      <div className="flex items-center justify-between px-4 py-3 text-sm">
+                        <button
+                          onClick={() => runSearch(parseFinderFilters(new URLSearchParams(query)).filters, results.page - 1)}
+                          disabled={results.page <= 1}
+                          className="px-3 py-1.5 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Previous
+                        </button>
+                        <span className="text-gray-500">Page {results.page} of {results.totalPages}</span>
+                        <button
+                          onClick={() => runSearch(parseFinderFilters(new URLSearchParams(query)).filters, results.page + 1)}
+                          disabled={results.page >= results.totalPages}
+                          className="px-3 py-1.5 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Next
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </section>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,9 +1,25 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/app/lib/auth/context';
+import { useToast } from '@/app/components/Toast';
+import WatchlistButton from '@/app/components/WatchlistButton';
+import ShareLinkForm from '@/app/components/ShareLinkForm';
+import SharedReportGate from '@/app/components/SharedReportGate';
+import PrintCover from '@/app/components/PrintCover';
+import type { SectionAccess } from '@/app/lib/auth/types';
+import type { SectionBatchResponse } from '@/app/lib/types/sections';
+import type { ShareOpenResponse } from '@/app/lib/types/shares';
+import { readSectionStream } from '@/app/lib/reports/section-stream';
+import {
+  isStructuredSection,
+  type DevelopmentApplicationsData,
+  type SchoolsTableData,
+} from '@/app/lib/types/section-data';
+import TimeSeriesChart, { formatPrice } from '@/app/components/TimeSeriesChart';
+import DataTable from '@/app/components/DataTable';
 
 // Types
 interface SuburbInfo {
@@ -26,6 +42,7 @@ interface SuburbInfo {
     sal?: string;
     region?: string;
   };
+  access?: SectionAccess;
 }
 
 interface InsightItem {
@@ -101,11 +118,27 @@ type MarketChartTab = 'msp' | 'mrp' | 'yield' | 'volume' | 'vacancy' | 'growth';
 // Demographics chart type
 type DemoChartTab = 'demographics' | 'income' | 'industry' | 'ethnicity_ts';
 
+// Sections each tab loads when it is opened; pocket prices also load per property type
+const TAB_SECTIONS: Record<SectionTab, string[]> = {
+  overview: [],
+  market: ['msp', 'mrp', 'growth'],
+  demographics: ['demographics', 'income'],
+  lifestyle: ['amenity', 'schools_map', 'schools_table', 'noise'],
+  properties: ['streets', 'near_sales'],
+  development: ['das_map', 'das_table', 'zoning'],
+  risks: ['risk'],
+};
+
 // Main Component
 export default function SuburbReportPage() {
   const params = useParams();
-  const { user, isAuthenticated } = useAuth();
+  const { isAuthenticated } = useAuth();
+  const { showToast } = useToast();
   const suburbName = decodeURIComponent(params.name as string);
+  const searchParams = useSearchParams();
+  const shareToken = searchParams.get('share');
+  // Rendered for a PDF download (app/lib/export/render-pdf.ts): every tab, loaded up front
+  const isPrint = searchParams.get('print') === '1';
 
   // State
   const [suburb, setSuburb] = useState<SuburbInfo | null>(null);
@@ -117,40 +150,67 @@ export default function SuburbReportPage() {
   const [propertyType, setPropertyType] = useState<'house' | 'unit'>('house');
   const [sectionData, setSectionData] = useState<Record<string, SectionData | null>>({});
   const [loadingSections, setLoadingSections] = useState<Record<string, boolean>>({});
+  const [sectionAccess, setSectionAccess] = useState<Record<string, SectionAccess>>({});
   const [insights, setInsights] = useState<InsightsData | null>(null);
   const [marketInsights, setMarketInsights] = useState<MarketInsightsData | null>(null);
   const [similarSuburbs, setSimilarSuburbs] = useState<string | null>(null);
   const [summary, setSummary] = useState<string>('');
   const [showSharePopup, setShowSharePopup] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [accessVersion, setAccessVersion] = useState(0);
+  const [sharedReport, setSharedReport] = useState<ShareOpenResponse | null>(null);
+
+  // Opened through a share link: read-only, and loaded once the link is open
+  const isShared = !!shareToken;
+  const isReady = !shareToken || !!sharedReport;
+
+  // Report API requests made through a share link carry its token
+  const withShare = useCallback((url: string) => (
+    shareToken ? `${url}${url.includes('?') ? '&' : '?'}share=${encodeURIComponent(shareToken)}` : url
+  ), [shareToken]);
+
+  // Access is decided server-side from the session's plan
+  const hasFullAccess = suburb?.access ? !suburb.access.locked : false;
 
-  // Check if user has full access
-  const hasFullAccess = isAuthenticated && user?.bestPlanId && !user.bestPlanId.includes('basic');
-  const blur = hasFullAccess ? 'false' : 'true';
+  // Sections without a server verdict yet fall back to the report-level access
+  const isSectionLocked = (section: string) => sectionAccess[section]?.locked ?? !hasFullAccess;
 
   // Fetch section data from API
-  const fetchSectionData = useCallback(async (section: string, extraParams: Record<string, string> = {}) => {
-    const cacheKey = `${section}-${JSON.stringify(extraParams)}`;
-    if (sectionData[cacheKey] !== undefined || loadingSections[cacheKey]) return;
+  // Sections are cached per extra params, e.g. pocket prices per property type
+  const fetchSections = useCallback(async (sections: string[], extraParams: Record<string, string> = {}) => {
+    const keyFor = (section: string) => `${section}-${JSON.stringify(extraParams)}`;
+    const pending = sections.filter(section => sectionData[keyFor(section)] === undefined && !loadingSections[keyFor(section)]);
+    if (pending.length === 0) return;
+
+    setLoadingSections(prev => ({ ...prev, ...Object.fromEntries(pending.map(section => [keyFor(section), true])) }));
 
-    setLoadingSections(prev => ({ ...prev, [cacheKey]: true }));
+    const received = new Set<string>();
 
     try {
-      const params = new URLSearchParams({ section, blur, ...extraParams });
-      const response = await fetch(`/api/suburb/${encodeURIComponent(suburbName)}?${params}`);
+      // One request per tab, streamed so each section renders as soon as the backend returns it
+      // format=data returns charts and tables as typed data where the section supports it
+      const params = new URLSearchParams({ sections: pending.join(','), stream: '1', format: 'data', ...extraParams });
+      const response = await fetch(withShare(`/api/suburb/${encodeURIComponent(suburbName)}?${params}`));
       if (response.ok) {
-        const result = await response.json();
-        setSectionData(prev => ({ ...prev, [cacheKey]: result.data }));
-      } else {
-        setSectionData(prev => ({ ...prev, [cacheKey]: null }));
+        await readSectionStream(response, ({ section, data, access }) => {
+          received.add(section);
+          setSectionData(prev => ({ ...prev, [keyFor(section)]: data as SectionData | null }));
+          if (access) {
+            setSectionAccess(prev => ({ ...prev, [section]: access }));
+          }
+          setLoadingSections(prev => ({ ...prev, [keyFor(section)]: false }));
+        });
       }
     } catch (err) {
-      console.error(`Error fetching ${section}:`, err);
-      setSectionData(prev => ({ ...prev, [cacheKey]: null }));
+      console.error(`Error fetching ${pending.join(', ')}:`, err);
     } finally {
-      setLoadingSections(prev => ({ ...prev, [cacheKey]: false }));
+      // Sections the stream never delivered are shown as unavailable
+      const missing = pending.filter(section => !received.has(section)).map(keyFor);
+      setSectionData(prev => ({ ...prev, ...Object.fromEntries(missing.map(key => [key, null])) }));
+      setLoadingSections(prev => ({ ...prev, ...Object.fromEntries(missing.map(key => [key, false])) }));
     }
-  }, [suburbName, blur, sectionData, loadingSections]);
+  }, [suburbName, sectionData, loadingSections, withShare]);
 
   // Load suburb data on mount
   useEffect(() => {
@@ -160,52 +220,54 @@ export default function SuburbReportPage() {
 
       try {
         // Fetch suburb info
-        const response = await fetch(`/api/suburb/${encodeURIComponent(suburbName)}`);
+        const response = await fetch(withShare(`/api/suburb/${encodeURIComponent(suburbName)}`));
         if (!response.ok) {
-          throw new Error('Suburb not found');
+          // The API distinguishes a missing suburb from the backend being unavailable
+          const body = await response.json().catch(() => ({}));
+          throw new Error(body.error || 'Suburb not found');
         }
         const data = await response.json();
         setSuburb(data);
 
-        // Fetch insights (scores, distances)
-        const insightsRes = await fetch(`/api/suburb/${encodeURIComponent(suburbName)}?section=insights&blur=${blur}`);
-        if (insightsRes.ok) {
-          const insightsData = await insightsRes.json();
-          setInsights(insightsData.data);
-        }
+        // Fetch the overview sections in one batch
+        const overviewRes = await fetch(withShare(
+          `/api/suburb/${encodeURIComponent(suburbName)}?sections=insights,market_insights,similar_suburbs,summary,msp&format=data`
+        ));
+        if (overviewRes.ok) {
+          const { sections }: SectionBatchResponse = await overviewRes.json();
 
-        // Fetch market insights (supply/demand)
-        const marketRes = await fetch(`/api/suburb/${encodeURIComponent(suburbName)}?section=market_insights&blur=${blur}`);
-        if (marketRes.ok) {
-          const marketData = await marketRes.json();
-          setMarketInsights(marketData.data);
-        }
+          // Insights (scores, distances)
+          setInsights((sections.insights?.data ?? null) as InsightsData | null);
+
+          // Market insights (supply/demand)
+          setMarketInsights((sections.market_insights?.data ?? null) as MarketInsightsData | null);
 
-        // Fetch similar suburbs
-        const similarRes = await fetch(`/api/suburb/${encodeURIComponent(suburbName)}?section=similar_suburbs&blur=${blur}`);
-        if (similarRes.ok) {
-          const similarData = await similarRes.json();
-          if (similarData.data?.html) {
-            setSimilarSuburbs(similarData.data.html);
+          // Similar suburbs
+          const similarAccess = sections.similar_suburbs?.access;
+          if (similarAccess) {
+            setSectionAccess(prev => ({ ...prev, similar_suburbs: similarAccess }));
+          }
+          const similarData = sections.similar_suburbs?.data as { html?: string } | null;
+          if (similarData?.html) {
+            setSimilarSuburbs(similarData.html);
           }
-        }
 
-        // Fetch summary
-        const summaryRes = await fetch(`/api/suburb/${encodeURIComponent(suburbName)}?section=summary&blur=${blur}`);
-        if (summaryRes.ok) {
-          const summaryData = await summaryRes.json();
-          if (summaryData.data?.html) {
-            setSummary(summaryData.data.html);
-          } else if (typeof summaryData.data === 'string') {
-            setSummary(summaryData.data);
+          // Summary
+          const summaryData = sections.summary?.data as { html?: string } | string | null;
+          if (typeof summaryData === 'string') {
+            setSummary(summaryData);
+          } else if (summaryData?.html) {
+            setSummary(summaryData.html);
           }
-        }
 
-        // Preload initial market data
-        const mspRes = await fetch(`/api/suburb/${encodeURIComponent(suburbName)}?section=msp&blur=${blur}`);
-        if (mspRes.ok) {
-          const mspData = await mspRes.json();
-          setSectionData(prev => ({ ...prev, 'msp-{}': mspData.data }));
+          // Preload initial market data
+          if (sections.msp) {
+            setSectionData(prev => ({ ...prev, 'msp-{}': sections.msp.data as SectionData | null }));
+            const mspAccess = sections.msp.access;
+            if (mspAccess) {
+              setSectionAccess(prev => ({ ...prev, msp: mspAccess }));
+            }
+          }
         }
       } catch (err) {
         console.error('Error loading suburb:', err);
@@ -215,46 +277,59 @@ export default function SuburbReportPage() {
       }
     };
 
-    if (suburbName) {
+    if (suburbName && isReady) {
       loadSuburb();
     }
-  }, [suburbName, blur]);
+  }, [suburbName, accessVersion, isReady, withShare]);
+
+  // Spend a suburb report credit, then reload the report unblurred
+  const unlockReport = async () => {
+    if (isUnlocking) return;
+    setIsUnlocking(true);
+
+    try {
+      const response = await fetch('/api/reports/unlock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'suburb',
+          id: suburbName,
+          location: suburb?.area_name || suburb?.name || suburbName,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        showToast(result.error || 'Failed to unlock report', 'error');
+        return;
+      }
+
+      showToast(result.alreadyUnlocked ? 'Report already unlocked this month' : 'Report unlocked', 'success');
+      setSectionData({});
+      setSectionAccess({});
+      setAccessVersion(v => v + 1);
+    } catch (err) {
+      console.error('Error unlocking report:', err);
+      showToast('Failed to unlock report', 'error');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
 
-  // Load section data when section changes
+  // Load section data when section changes; a print loads every tab at once
   useEffect(() => {
     if (!suburb) return;
 
-    switch (activeSection) {
-      case 'market':
-        fetchSectionData('msp');
-        fetchSectionData('mrp');
-        fetchSectionData('growth');
-        break;
-      case 'demographics':
-        fetchSectionData('demographics');
-        fetchSectionData('income');
-        break;
-      case 'lifestyle':
-        fetchSectionData('amenity');
-        fetchSectionData('schools_map');
-        fetchSectionData('schools_table');
-        fetchSectionData('noise');
-        break;
-      case 'properties':
-        fetchSectionData('pocket', { property_type: propertyType });
-        fetchSectionData('streets');
-        fetchSectionData('near_sales');
-        break;
-      case 'development':
-        fetchSectionData('das_map');
-        fetchSectionData('das_table');
-        fetchSectionData('zoning');
-        break;
-      case 'risks':
-        fetchSectionData('risk');
-        break;
+    if (isPrint || activeSection === 'properties') {
+      fetchSections(['pocket'], { property_type: propertyType });
     }
-  }, [activeSection, suburb, fetchSectionData, propertyType]);
+    const sections = isPrint ? Object.values(TAB_SECTIONS).flat() : TAB_SECTIONS[activeSection];
+    if (sections.length > 0) fetchSections(sections);
+  }, [activeSection, suburb, fetchSections, propertyType, isPrint]);
+
+  // The PDF renderer prints once the report and every section have loaded
+  const isPrintReady = isPrint && !isLoading &&
+    Object.keys(loadingSections).length > 0 && !Object.values(loadingSections).some(Boolean);
 
   // Section tabs configuration
   const sectionTabs: { id: SectionTab; label: string; icon: React.ReactNode }[] = [
@@ -291,6 +366,17 @@ export default function SuburbReportPage() {
     );
   };
 
+  // Structured tables render natively; anything else falls back to the HTML fragment
+  const renderTableSection = (section: 'schools_table' | 'das_table') => {
+    const data = getSectionData(section);
+    if (isStructuredSection(data) && data.kind === 'table') {
+      return section === 'das_table'
+        ? <DataTable table={data as DevelopmentApplicationsData} formatters={{ cost: formatPrice }} />
+        : <DataTable table={data as SchoolsTableData} />;
+    }
+    return data?.html ? renderHtml(data.html as string) : null;
+  };
+
   // Get section data with caching
   const getSectionData = (section: string, extraParams: Record<string, string> = {}) => {
     const cacheKey = `${section}-${JSON.stringify(extraParams)}`;
@@ -324,27 +410,43 @@ export default function SuburbReportPage() {
   );
 
   // Blur overlay component
-  const BlurOverlay = () => (
+  const BlurOverlay = ({ access }: { access?: SectionAccess }) => (
     <div className="absolute inset-0 bg-white/80 backdrop-blur-sm z-10 flex items-center justify-center rounded-xl">
       <div className="text-center p-6">
         <svg className="w-12 h-12 text-[#4475e6] mx-auto mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
         </svg>
-        <p className="font-semibold text-gray-800 mb-2">Subscribe to unlock</p>
-        <Link href="/pricing" className="text-[#4475e6] hover:underline text-sm">View plans</Link>
+        {access?.reason === 'login_required' ? (
+          <>
+            <p className="font-semibold text-gray-800 mb-2">Sign in to unlock</p>
+            <Link href="/?login=true" className="text-[#4475e6] hover:underline text-sm">Sign in</Link>
+          </>
+        ) : access?.reason === 'unlock_required' ? (
+          <>
+            <p className="font-semibold text-gray-800 mb-2">Unlock the full report</p>
+            <button onClick={unlockReport} disabled={isUnlocking} className="text-[#4475e6] hover:underline text-sm disabled:opacity-50">
+              {isUnlocking ? 'Unlocking...' : 'Use 1 suburb report credit'}
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="font-semibold text-gray-800 mb-2">Subscribe to unlock</p>
+            <Link href="/pricing" className="text-[#4475e6] hover:underline text-sm">View plans</Link>
+          </>
+        )}
       </div>
     </div>
   );
 
-  // Section wrapper with blur
-  const SectionWrapper = ({ children, requiresAccess = true, className = '' }: {
+  // Section wrapper, blurred when the server marks the section as locked
+  const SectionWrapper = ({ children, section, className = '' }: {
     children: React.ReactNode;
-    requiresAccess?: boolean;
+    section: string;
     className?: string;
   }) => (
     <div className={`relative ${className}`}>
-      {requiresAccess && !hasFullAccess && <BlurOverlay />}
-      <div className={requiresAccess && !hasFullAccess ? 'blur-sm pointer-events-none' : ''}>
+      {isSectionLocked(section) && <BlurOverlay access={sectionAccess[section] || suburb?.access} />}
+      <div className={isSectionLocked(section) ? 'blur-sm pointer-events-none' : ''}>
         {children}
       </div>
     </div>
@@ -372,6 +474,10 @@ export default function SuburbReportPage() {
     );
   };
 
+  if (shareToken && !sharedReport) {
+    return <SharedReportGate token={shareToken} onOpen={setSharedReport} />;
+  }
+
   // Loading state
   if (isLoading) {
     return (
@@ -420,8 +526,17 @@ export default function SuburbReportPage() {
 
   return (
     <div className="min-h-screen bg-[#f8fafc]">
+      {isPrintReady && <div data-report-ready hidden />}
+      {isPrint && (
+        <PrintCover
+          reportType="Suburb"
+          title={displayName}
+          subtitle={[suburb.geo_divisions?.lga, suburb.geo_divisions?.sa3].filter(Boolean).join(' · ')}
+          sections={sectionTabs}
+        />
+      )}
       {/* Header */}
-      <header className="bg-[#0f1938] text-white sticky top-0 z-50">
+      <header className="bg-[#0f1938] text-white sticky top-0 z-50 print:hidden">
         <div className="max-w-[1200px] mx-auto px-4 py-3 flex items-center justify-between">
           <div className="flex items-center gap-4">
             <Link href="/" className="text-xl font-bold">Microburbs</Link>
@@ -457,25 +572,44 @@ export default function SuburbReportPage() {
             <span className="font-semibold text-gray-800">{displayName}</span>
             {stateAbr && <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded text-xs font-medium">{stateAbr}</span>}
           </div>
-          <div className="flex gap-3">
-            {hasFullAccess && (
-              <button className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#4475e6] hover:text-[#4475e6] transition-colors">
+          {isShared ? (
+            <span className="text-sm text-gray-500">
+              Shared with you, read-only{sharedReport?.expiresAt && ` · Link expires ${new Date(sharedReport.expiresAt).toLocaleDateString('en-AU')}`}
+            </span>
+          ) : (
+            <div className="flex gap-3">
+              <WatchlistButton type="suburb" itemKey={suburbName} label={displayName} />
+              {hasFullAccess && (
+                <a
+                  href={`/api/suburb/${encodeURIComponent(suburbName)}/pdf`}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#4475e6] hover:text-[#4475e6] transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                  </svg>
+                  PDF
+                </a>
+              )}
+              <Link
+                href={`/suburb-reports/compare?names=${encodeURIComponent(suburbName)}`}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#4475e6] hover:text-[#4475e6] transition-colors"
+              >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
                 </svg>
-                PDF
+                Compare
+              </Link>
+              <button
+                onClick={() => setShowSharePopup(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#4475e6] hover:text-[#4475e6] transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                </svg>
+                Share
               </button>
-            )}
-            <button
-              onClick={() => setShowSharePopup(true)}
-              className="flex items-center gap-2 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium hover:border-[#4475e6] hover:text-[#4475e6] transition-colors"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
-              </svg>
-              Share
-            </button>
-          </div>
+            </div>
+          )}
         </div>
 
         {/* Suburb Header with Key Stats */}
@@ -584,7 +718,7 @@ export default function SuburbReportPage() {
         </section>
 
         {/* Section Tabs */}
-        <div className="bg-white rounded-xl shadow-sm mb-6 sticky top-14 z-40">
+        <div className="bg-white rounded-xl shadow-sm mb-6 sticky top-14 z-40 print:hidden">
           <div className="flex overflow-x-auto">
             {sectionTabs.map((tab) => (
               <button
@@ -606,7 +740,7 @@ export default function SuburbReportPage() {
         {/* ============================================ */}
         {/* OVERVIEW SECTION */}
         {/* ============================================ */}
-        <section id="overview" className={`space-y-6 ${activeSection !== 'overview' ? 'hidden' : ''}`}>
+        <section id="overview" className={`space-y-6 ${activeSection !== 'overview' ? 'hidden print:block' : ''} print:break-before-page`}>
           {/* Key Scores */}
           {insights?.score && Object.keys(insights.score).length > 0 && (
             <div className="bg-white rounded-xl shadow-sm p-6">
@@ -685,7 +819,7 @@ export default function SuburbReportPage() {
           {/* Similar Suburbs */}
           {similarSuburbs && (
             <div className="bg-white rounded-xl shadow-sm p-6">
-              <SectionWrapper requiresAccess={true}>
+              <SectionWrapper section="similar_suburbs">
                 {renderHtml(similarSuburbs)}
               </SectionWrapper>
             </div>
@@ -695,7 +829,7 @@ export default function SuburbReportPage() {
         {/* ============================================ */}
         {/* MARKET SECTION */}
         {/* ============================================ */}
-        <section id="market" className={`space-y-6 ${activeSection !== 'market' ? 'hidden' : ''}`}>
+        <section id="market" className={`space-y-6 ${activeSection !== 'market' ? 'hidden print:block' : ''} print:break-before-page`}>
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Market Analytics</h2>
             <p className="text-sm text-gray-500 mb-6">Median prices, growth trends, and market indicators</p>
@@ -714,7 +848,7 @@ export default function SuburbReportPage() {
                   key={tab.id}
                   onClick={() => {
                     setMarketChartTab(tab.id as MarketChartTab);
-                    fetchSectionData(tab.id);
+                    fetchSections([tab.id]);
                   }}
                   className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                     marketChartTab === tab.id ? 'bg-[#4475e6] text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
@@ -741,10 +875,12 @@ export default function SuburbReportPage() {
               </button>
             </div>
 
-            <SectionWrapper requiresAccess={false}>
+            <SectionWrapper section={marketChartTab}>
               <div className="min-h-[400px] bg-gray-50 rounded-xl p-4">
                 {isLoadingSection(marketChartTab) ? (
                   <LoadingSpinner />
+                ) : marketChartTab === 'msp' && isStructuredSection(mspData) && mspData.kind === 'series' && mspData[propertyType] ? (
+                  <TimeSeriesChart series={mspData[propertyType]?.series ?? []} />
                 ) : getSectionData(marketChartTab)?.[propertyType]?.html ? (
                   renderHtml(getSectionData(marketChartTab)?.[propertyType]?.html as string)
                 ) : getSectionData(marketChartTab)?.html ? (
@@ -762,7 +898,7 @@ export default function SuburbReportPage() {
         {/* ============================================ */}
         {/* DEMOGRAPHICS SECTION */}
         {/* ============================================ */}
-        <section id="demographics" className={`space-y-6 ${activeSection !== 'demographics' ? 'hidden' : ''}`}>
+        <section id="demographics" className={`space-y-6 ${activeSection !== 'demographics' ? 'hidden print:block' : ''} print:break-before-page`}>
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Demographics</h2>
             <p className="text-sm text-gray-500 mb-6">Age distribution, income, and employment data</p>
@@ -779,7 +915,7 @@ export default function SuburbReportPage() {
                   key={tab.id}
                   onClick={() => {
                     setDemoChartTab(tab.id as DemoChartTab);
-                    fetchSectionData(tab.id);
+                    fetchSections([tab.id]);
                   }}
                   className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                     demoChartTab === tab.id ? 'bg-[#4475e6] text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
@@ -790,7 +926,7 @@ export default function SuburbReportPage() {
               ))}
             </div>
 
-            <SectionWrapper requiresAccess={false}>
+            <SectionWrapper section={demoChartTab}>
               <div className="min-h-[400px] bg-gray-50 rounded-xl p-4">
                 {isLoadingSection(demoChartTab) ? (
                   <LoadingSpinner />
@@ -811,12 +947,12 @@ export default function SuburbReportPage() {
         {/* ============================================ */}
         {/* LIFESTYLE SECTION */}
         {/* ============================================ */}
-        <section id="lifestyle" className={`space-y-6 ${activeSection !== 'lifestyle' ? 'hidden' : ''}`}>
+        <section id="lifestyle" className={`space-y-6 ${activeSection !== 'lifestyle' ? 'hidden print:block' : ''} print:break-before-page`}>
           {/* Amenities */}
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Nearby Amenities</h2>
             <p className="text-sm text-gray-500 mb-4">Parks, shops, restaurants, transport and more</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="amenity">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {isLoadingSection('amenity') ? <LoadingSpinner /> :
                  getSectionData('amenity')?.html ? renderHtml(getSectionData('amenity')?.html as string) :
@@ -829,7 +965,7 @@ export default function SuburbReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-6">Schools</h2>
             <div className="grid lg:grid-cols-2 gap-6">
-              <SectionWrapper requiresAccess={true}>
+              <SectionWrapper section="schools_map">
                 <div>
                   <h3 className="font-semibold text-gray-800 mb-2">Schools Map</h3>
                   <div className="min-h-[350px] bg-gray-50 rounded-xl overflow-hidden">
@@ -839,12 +975,12 @@ export default function SuburbReportPage() {
                   </div>
                 </div>
               </SectionWrapper>
-              <SectionWrapper requiresAccess={true}>
+              <SectionWrapper section="schools_table">
                 <div>
                   <h3 className="font-semibold text-gray-800 mb-2">Schools List</h3>
                   <div className="min-h-[350px] bg-gray-50 rounded-xl p-4 overflow-auto">
                     {isLoadingSection('schools_table') ? <LoadingSpinner /> :
-                     getSectionData('schools_table')?.html ? renderHtml(getSectionData('schools_table')?.html as string) :
+                     renderTableSection('schools_table') ??
                      <div className="flex items-center justify-center h-full text-gray-400">No data available</div>}
                   </div>
                 </div>
@@ -856,7 +992,7 @@ export default function SuburbReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Noise Levels</h3>
             <p className="text-sm text-gray-500 mb-4">Noise pollution indicators in the area</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="noise">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {isLoadingSection('noise') ? <LoadingSpinner /> :
                  getSectionData('noise')?.html ? renderHtml(getSectionData('noise')?.html as string) :
@@ -869,7 +1005,7 @@ export default function SuburbReportPage() {
         {/* ============================================ */}
         {/* PROPERTIES SECTION */}
         {/* ============================================ */}
-        <section id="properties" className={`space-y-6 ${activeSection !== 'properties' ? 'hidden' : ''}`}>
+        <section id="properties" className={`space-y-6 ${activeSection !== 'properties' ? 'hidden print:block' : ''} print:break-before-page`}>
           {/* Pocket Prices */}
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Median Prices by Pocket</h2>
@@ -879,7 +1015,7 @@ export default function SuburbReportPage() {
               <button
                 onClick={() => {
                   setPropertyType('house');
-                  fetchSectionData('pocket', { property_type: 'house' });
+                  fetchSections(['pocket'], { property_type: 'house' });
                 }}
                 className={`px-3 py-1.5 rounded text-xs font-medium ${propertyType === 'house' ? 'bg-[#4475e6] text-white' : 'bg-gray-100 text-gray-600'}`}
               >
@@ -888,7 +1024,7 @@ export default function SuburbReportPage() {
               <button
                 onClick={() => {
                   setPropertyType('unit');
-                  fetchSectionData('pocket', { property_type: 'unit' });
+                  fetchSections(['pocket'], { property_type: 'unit' });
                 }}
                 className={`px-3 py-1.5 rounded text-xs font-medium ${propertyType === 'unit' ? 'bg-[#4475e6] text-white' : 'bg-gray-100 text-gray-600'}`}
               >
@@ -896,7 +1032,7 @@ export default function SuburbReportPage() {
               </button>
             </div>
 
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="pocket">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {isLoadingSection('pocket', { property_type: propertyType }) ? <LoadingSpinner /> :
                  getSectionData('pocket', { property_type: propertyType })?.html ? renderHtml(getSectionData('pocket', { property_type: propertyType })?.html as string) :
@@ -909,7 +1045,7 @@ export default function SuburbReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Streets Performance</h3>
             <p className="text-sm text-gray-500 mb-4">Market performance by street</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="streets">
               <div className="min-h-[350px] bg-gray-50 rounded-xl p-4 overflow-auto">
                 {isLoadingSection('streets') ? <LoadingSpinner /> :
                  getSectionData('streets')?.html ? renderHtml(getSectionData('streets')?.html as string) :
@@ -922,7 +1058,7 @@ export default function SuburbReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Properties for Sale</h3>
             <p className="text-sm text-gray-500 mb-4">Current listings in this suburb</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="near_sales">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {isLoadingSection('near_sales') ? <LoadingSpinner /> :
                  getSectionData('near_sales')?.html ? renderHtml(getSectionData('near_sales')?.html as string) :
@@ -935,12 +1071,12 @@ export default function SuburbReportPage() {
         {/* ============================================ */}
         {/* DEVELOPMENT SECTION */}
         {/* ============================================ */}
-        <section id="development" className={`space-y-6 ${activeSection !== 'development' ? 'hidden' : ''}`}>
+        <section id="development" className={`space-y-6 ${activeSection !== 'development' ? 'hidden print:block' : ''} print:break-before-page`}>
           {/* Development Applications */}
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Development Applications</h2>
             <p className="text-sm text-gray-500 mb-4">Recent and upcoming development projects</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="das_map">
               <div className="grid lg:grid-cols-2 gap-6">
                 <div className="min-h-[350px] bg-gray-50 rounded-xl overflow-hidden">
                   {isLoadingSection('das_map') ? <LoadingSpinner /> :
@@ -949,7 +1085,7 @@ export default function SuburbReportPage() {
                 </div>
                 <div className="min-h-[350px] bg-gray-50 rounded-xl p-4 overflow-auto">
                   {isLoadingSection('das_table') ? <LoadingSpinner /> :
-                   getSectionData('das_table')?.html ? renderHtml(getSectionData('das_table')?.html as string) :
+                   renderTableSection('das_table') ??
                    <div className="flex items-center justify-center h-full text-gray-400">No data available</div>}
                 </div>
               </div>
@@ -960,7 +1096,7 @@ export default function SuburbReportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-bold text-gray-800 mb-2">Zoning</h3>
             <p className="text-sm text-gray-500 mb-4">Land use zoning classifications</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="zoning">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {isLoadingSection('zoning') ? <LoadingSpinner /> :
                  getSectionData('zoning')?.html ? renderHtml(getSectionData('zoning')?.html as string) :
@@ -973,11 +1109,11 @@ export default function SuburbReportPage() {
         {/* ============================================ */}
         {/* RISKS SECTION */}
         {/* ============================================ */}
-        <section id="risks" className={`space-y-6 ${activeSection !== 'risks' ? 'hidden' : ''}`}>
+        <section id="risks" className={`space-y-6 ${activeSection !== 'risks' ? 'hidden print:block' : ''} print:break-before-page`}>
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-2">Risk Factors</h2>
             <p className="text-sm text-gray-500 mb-4">Environmental and safety risk indicators</p>
-            <SectionWrapper requiresAccess={true}>
+            <SectionWrapper section="risk">
               <div className="min-h-[400px] bg-gray-50 rounded-xl overflow-hidden">
                 {isLoadingSection('risk') ? <LoadingSpinner /> :
                  getSectionData('risk')?.html ? renderHtml(getSectionData('risk')?.html as string) :
@@ -987,8 +1123,25 @@ export default function SuburbReportPage() {
           </div>
         </section>
 
+        {/* Unlock CTA */}
+        {!hasFullAccess && suburb.access?.reason === 'unlock_required' && (
+          <div className="bg-gradient-to-r from-[#4475e6] to-[#6b5ce7] rounded-xl p-8 text-white text-center mt-8">
+            <h2 className="text-2xl font-bold mb-4">Unlock Full Suburb Report</h2>
+            <p className="text-blue-100 mb-6 max-w-2xl mx-auto">
+              Unlocking this report uses one of your monthly suburb report credits. Re-opening it this month is free.
+            </p>
+            <button
+              onClick={unlockReport}
+              disabled={isUnlocking}
+              className="inline-block px-8 py-3 bg-white text-[#4475e6] rounded-lg font-semibold hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+              {isUnlocking ? 'Unlocking...' : 'Unlock Report'}
+            </button>
+          </div>
+        )}
+
         {/* Subscribe CTA */}
-        {!hasFullAccess && (
+        {!hasFullAccess && suburb.access?.reason !== 'unlock_required' && (
           <div className="bg-gradient-to-r from-[#4475e6] to-[#6b5ce7] rounded-xl p-8 text-white text-center mt-8">
             <h2 className="text-2xl font-bold mb-4">Unlock Full Suburb Report</h2>
             <p className="text-blue-100 mb-6 max-w-2xl mx-auto">
@@ -1083,6 +1236,9 @@ export default function SuburbReportPage() {
                 <span className="text-xs text-gray-600">{copySuccess ? 'Copied!' : 'Copy Link'}</span>
               </button>
             </div>
+            {isAuthenticated && hasFullAccess && (
+              <ShareLinkForm type="suburb" itemKey={suburbName} label={displayName} />
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,316 @@
+'use client';
+
+import { useState, useEffect, useRef, use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import Header from '@/app/components/Header';
+import Footer from '@/app/components/Footer';
+import type { CompareMetric, CompareSuburb, SuburbCompareResponse } from '@/app/lib/types/compare';
+
+interface SuburbSuggestion {
+  name: string;
+  state: string;
+  postcode: string;
+}
+
+const MAX_SUBURBS = 4;
+
+export default function SuburbComparePage({ searchParams }: { searchParams: Promise<{ names?: string }> }) {
+  const { names: namesParam } = use(searchParams);
+  const router = useRouter();
+  const names = Array.from(new Set((namesParam || '').split(',').map(name => name.trim()).filter(Boolean)))
+    .slice(0, MAX_SUBURBS);
+  const namesKey = names.join(',');
+
+  const [comparison, setComparison] = useState<SuburbCompareResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<SuburbSuggestion[]>([]);
+  const debounceRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Load the comparison once there are at least two suburbs
+  useEffect(() => {
+    if (namesKey.split(',').filter(Boolean).length < 2) {
+      setComparison(null);
+      return;
+    }
+
+    const loadComparison = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/suburb/compare?names=${encodeURIComponent(namesKey)}`);
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || 'Failed to compare suburbs');
+        }
+        setComparison(body);
+      } catch (err) {
+        console.error('Error loading comparison:', err);
+        setError(err instanceof Error ? err.message : 'Failed to compare suburbs');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComparison();
+  }, [namesKey]);
+
+  const updateNames = (next: string[]) => {
+    const query = next.map(encodeURIComponent).join(',');
+    router.replace(next.length > 0 ? `/suburb-reports/compare?names=${query}` : '/suburb-reports/compare');
+  };
+
+  // Debounced suburb search for adding a column
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+
+    debounceRef.current = setTimeout(async () => {
+      if (value.length < 2) {
+        setSuggestions([]);
+        return;
+      }
+      try {
+        const response = await fetch(`/api/suburb/search?q=${encodeURIComponent(value)}`);
+        const data = await response.json();
+        setSuggestions(data.results || []);
+      } catch (err) {
+        console.error('Suburb search error:', err);
+        setSuggestions([]);
+      }
+    }, 300);
+  };
+
+  const addSuburb = (name: string) => {
+    setSearchQuery('');
+    setSuggestions([]);
+    if (!names.includes(name)) {
+      updateNames([...names, name]);
+    }
+  };
+
+  const removeSuburb = (name: string) => {
+    updateNames(names.filter(existing => existing !== name));
+  };
+
+  // Render HTML content safely
+  const renderHtmlContent = (html: string | undefined) => {
+    if (!html) return null;
+    return (
+      <div
+        className="flask-content w-full"
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    );
+  };
+
+  // Lock notice for a suburb whose report is blurred for this session
+  const renderAccessNotice = (suburb: CompareSuburb) => {
+    if (!suburb.access?.locked) return null;
+    const reportUrl = `/suburb-reports/${encodeURIComponent(suburb.name)}`;
+
+    switch (suburb.access.reason) {
+      case 'login_required':
+        return <Link href="/?login=true" className="text-xs text-[#4475e6] hover:underline">Sign in for full figures</Link>;
+      case 'unlock_required':
+        return <Link href={reportUrl} className="text-xs text-[#4475e6] hover:underline">Unlock report for full figures</Link>;
+      default:
+        return <Link href="/pricing" className="text-xs text-[#4475e6] hover:underline">Subscribe for full figures</Link>;
+    }
+  };
+
+  const renderMetricCell = (metric: CompareMetric, index: number) => {
+    const entry = metric.values[index];
+    const isWinner = metric.winners.includes(index);
+
+    if (entry?.locked) {
+      return (
+        <td key={index} className="px-4 py-3 text-center text-gray-400">
+          <svg className="w-4 h-4 inline" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+        </td>
+      );
+    }
+
+    return (
+      <td key={index} className={`px-4 py-3 text-center ${isWinner ? 'bg-green-50' : ''}`}>
+        <span className={isWinner ? 'font-bold text-green-700' : 'text-gray-800'}>
+          {entry?.display ?? '-'}
+        </span>
+        {isWinner && (
+          <span className="ml-2 px-1.5 py-0.5 bg-green-100 text-green-700 text-[10px] font-semibold rounded uppercase">Best</span>
+        )}
+      </td>
+    );
+  };
+
+  // Metric rows grouped in the order the API returns them
+  const groups = (comparison?.metrics ?? []).reduce<{ name: string; metrics: CompareMetric[] }[]>((acc, metric) => {
+    const last = acc[acc.length - 1];
+    if (last?.name === metric.group) {
+      last.metrics.push(metric);
+    } else {
+      acc.push({ name: metric.group, metrics: [metric] });
+    }
+    return acc;
+  }, []);
+
+  const suburbs = comparison?.suburbs ?? [];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-white">
+      <Header />
+
+      <main className="flex-1 bg-[#f8fafc]">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Breadcrumb */}
+          <nav className="mb-6">
+            <ol className="flex items-center gap-2 text-sm">
+              <li>
+                <Link href="/suburb-reports" className="text-[#4475e6] hover:underline">
+                  Suburb Reports
+                </Link>
+              </li>
+              <li className="text-gray-400">/</li>
+              <li className="text-gray-600">Compare</li>
+            </ol>
+          </nav>
+
+          <h1 className="text-3xl font-bold text-[#383941] mb-2">Compare Suburbs</h1>
+          <p className="text-[#898787] mb-6">Compare prices, growth, supply and demand, and scores for up to {MAX_SUBURBS} suburbs.</p>
+
+          {/* Selected suburbs */}
+          <div className="bg-white rounded-xl p-4 mb-6 shadow-sm flex flex-wrap items-center gap-3">
+            {names.map(name => (
+              <span key={name} className="flex items-center gap-2 px-3 py-1.5 bg-[#4475e6]/10 text-[#4475e6] rounded-full text-sm font-medium">
+                {name}
+                <button onClick={() => removeSuburb(name)} className="hover:text-red-600" aria-label={`Remove ${name}`}>
+                  ×
+                </button>
+              </span>
+            ))}
+            {names.length < MAX_SUBURBS && (
+              <div className="relative">
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => handleSearchChange(e.target.value)}
+                  placeholder="Add a suburb..."
+                  className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-[#4475e6]"
+                />
+                {suggestions.length > 0 && (
+                  <div className="absolute top-full left-0 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-20 max-h-64 overflow-y-auto">
+                    {suggestions.map(suggestion => (
+                      <button
+                        key={`${suggestion.name}-${suggestion.postcode}`}
+                        onClick={() => addSuburb(suggestion.name)}
+                        className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                      >
+                        {suggestion.name} <span className="text-gray-400">{suggestion.state} {suggestion.postcode}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {names.length < 2 ? (
+            <div className="bg-white rounded-xl p-12 text-center text-gray-500 shadow-sm">
+              Add at least two suburbs to compare them side by side.
+            </div>
+          ) : loading ? (
+            <div className="flex items-center justify-center py-24">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#4475e6]"></div>
+            </div>
+          ) : error ? (
+            <div className="bg-white rounded-xl p-12 text-center shadow-sm">
+              <p className="text-gray-800 font-semibold mb-2">Comparison unavailable</p>
+              <p className="text-gray-500 text-sm">{error}</p>
+            </div>
+          ) : comparison && (
+            <div className="bg-white rounded-xl shadow-sm overflow-x-auto">
+              <table className="w-full text-sm table-fixed min-w-[720px]">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="w-48 px-4 py-4"></th>
+                    {suburbs.map(suburb => (
+                      <th key={suburb.name} className="px-4 py-4 text-center align-top">
+                        <Link
+                          href={`/suburb-reports/${encodeURIComponent(suburb.name)}`}
+                          className="text-base font-bold text-[#383941] hover:text-[#4475e6]"
+                        >
+                          {suburb.displayName}
+                        </Link>
+                        {suburb.state && <span className="ml-2 text-xs text-gray-500">{suburb.state}</span>}
+                        <div className="mt-1">
+                          {suburb.error ? (
+                            <span className="text-xs text-red-600">
+                              {suburb.error === 'not_found' ? 'Suburb not found' : 'Data temporarily unavailable'}
+                            </span>
+                          ) : renderAccessNotice(suburb)}
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map(group => (
+                    <GroupRows key={group.name} name={group.name} columns={suburbs.length}>
+                      {group.metrics.map(metric => (
+                        <tr key={metric.id} className="border-b border-gray-100">
+                          <td className="px-4 py-3 text-gray-600">{metric.label}</td>
+                          {suburbs.map((_, index) => renderMetricCell(metric, index))}
+                        </tr>
+                      ))}
+                    </GroupRows>
+                  ))}
+
+                  {/* Demographics charts, aligned per suburb */}
+                  <GroupRows name="Demographics" columns={suburbs.length}>
+                    <tr>
+                      <td className="px-4 py-3 text-gray-600 align-top">Age profile</td>
+                      {suburbs.map(suburb => {
+                        const demographics = suburb.sections.demographics?.data as { age?: string; html?: string } | null | undefined;
+                        return (
+                          <td key={suburb.name} className="px-2 py-3 align-top">
+                            {suburb.sections.demographics?.access?.locked ? (
+                              <div className="text-center text-gray-400">Locked</div>
+                            ) : renderHtmlContent(demographics?.age || demographics?.html) ?? (
+                              <div className="text-center text-gray-400">No data available</div>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  </GroupRows>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
+
+// Group heading row followed by the group's metric rows
+function GroupRows({ name, columns, children }: { name: string; columns: number; children: React.ReactNode }) {
+  return (
+    <>
+      <tr className="bg-gray-50">
+        <td colSpan={columns + 1} className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+          {name}
+        </td>
+      </tr>
+      {children}
+    </>
+  );
+}
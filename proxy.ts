@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE_NAME } from '@/app/lib/auth/types';
+import { buildReportCsp, createNonce } from '@/app/lib/security/csp';
+
+// Pages that render Flask HTML fragments
+const REPORT_PAGES = /^\/(property|suburb|region)-reports(\/|$)/;
+
+// Report pages get a Content Security Policy with a fresh nonce. Next.js reads the
+// nonce from the request's policy header and puts it on the scripts it renders.
+function withReportCsp(request: NextRequest): NextResponse {
+  const csp = buildReportCsp(createNonce());
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set('Content-Security-Policy', csp);
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.set('Content-Security-Policy', csp);
+  return response;
+}
+
+// Pages that need a signed-in member send visitors without a session to sign in.
+// Only the cookie is checked here; API routes check the session itself with
+// withAuth (app/lib/auth/guard.ts). Report pages stay public and lock sections instead.
+export function proxy(request: NextRequest) {
+  if (REPORT_PAGES.test(request.nextUrl.pathname)) {
+    return withReportCsp(request);
+  }
+
+  if (request.cookies.has(SESSION_COOKIE_NAME)) {
+    return NextResponse.next();
+  }
+
+  const url = new URL('/', request.url);
+  url.searchParams.set('login', 'true');
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  matcher: [
+    '/members-area/:path*',
+    '/property-reports/:path*',
+    '/suburb-reports/:path*',
+    '/region-reports/:path*',
+  ],
+};
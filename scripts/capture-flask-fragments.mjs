@@ -0,0 +1,75 @@
+// Saves HTML fragments from a running Flask backend into scripts/fixtures/flask, so
+// the sanitizer corpus (tests/sanitizer-corpus.test.ts) tracks what Flask really sends.
+// Needs FLASK_BACKEND_URL and FLASK_API_KEY as the app uses them. Pass a property
+// GNAF ID and a suburb name, e.g.
+//   npm run fragments:capture -- GANSW704072310 "Surry Hills"
+// then `UPDATE_CORPUS=1 npm run sanitizer:corpus` and review the .sanitized.html diffs.
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'flask');
+const backend = process.env.FLASK_BACKEND_URL || 'http://localhost:2025';
+const token = process.env.FLASK_API_KEY;
+const [gnafId, suburb] = process.argv.slice(2);
+
+if (!token || !gnafId || !suburb) {
+  console.error('Usage: FLASK_API_KEY=... npm run fragments:capture -- <gnaf-id> <suburb>');
+  process.exit(1);
+}
+
+// Sections whose payloads carry rendered HTML: charts, maps and summaries
+const PROPERTY_GRAPHS = ['basic-info', 'sales', 'rent', 'risk', 'amenities', 'demographics'];
+const SUBURB_GRAPHS = ['msp', 'mrp', 'growth', 'demographics', 'income', 'ethnicity_ts'];
+
+// Fields the report pages render as HTML, as in app/lib/security/sanitize-html.ts
+const HTML_FIELDS = new Set(['html', 'age', 'summary_short', 'text']);
+
+function collectHtml(value, found = []) {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectHtml(item, found));
+  } else if (value && typeof value === 'object') {
+    for (const [key, field] of Object.entries(value)) {
+      if (typeof field === 'string' && HTML_FIELDS.has(key) && /<[a-zA-Z!/?]/.test(field)) {
+        found.push(field);
+      } else {
+        collectHtml(field, found);
+      }
+    }
+  }
+  return found;
+}
+
+async function capture(name, endpoint, params = {}) {
+  const url = new URL(`${backend}${endpoint}`);
+  url.searchParams.set('token', token);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+
+  const response = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+  if (!response.ok) {
+    console.log(`skip  ${name} (HTTP ${response.status})`);
+    return;
+  }
+
+  const body = await response.text();
+  let fragments;
+  try {
+    fragments = collectHtml(JSON.parse(body));
+  } catch {
+    fragments = [body]; // Plain HTML fragment
+  }
+
+  for (const [i, html] of fragments.entries()) {
+    const file = `${name}${fragments.length > 1 ? `-${i + 1}` : ''}.html`;
+    await writeFile(path.join(fixturesDir, file), html);
+    console.log(`saved ${file}`);
+  }
+  if (fragments.length === 0) console.log(`skip  ${name} (no HTML)`);
+}
+
+for (const graph of PROPERTY_GRAPHS) {
+  await capture(`property-${graph}`, `/property/graphs/${graph}`, { gnaf_id: gnafId, blur: 'false' });
+}
+for (const graph of SUBURB_GRAPHS) {
+  await capture(`suburb-${graph}`, `/suburb_report/graphs/${graph}/${encodeURIComponent(suburb)}`, { blur: 'false' });
+}
@@ -0,0 +1,77 @@
+// Replays the sample Memberstack webhooks in scripts/fixtures/memberstack against a
+// running app, signed with MEMBERSTACK_WEBHOOK_SECRET, and checks each response.
+// Run `npm run dev` with the same secret, then `npm run webhooks:replay`.
+// Set WEBHOOK_MEMBER_ID to your own member ID to watch the changes reach your session;
+// pass fixture names (e.g. member.plan.added) to replay only those.
+import { createHmac, randomUUID } from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'memberstack');
+const url = process.env.WEBHOOK_URL || 'http://localhost:3000/api/webhooks/memberstack';
+const secret = process.env.MEMBERSTACK_WEBHOOK_SECRET;
+const memberId = process.env.WEBHOOK_MEMBER_ID;
+const only = process.argv.slice(2);
+
+if (!secret) {
+  console.error('Set MEMBERSTACK_WEBHOOK_SECRET to the secret the app is running with');
+  process.exit(1);
+}
+
+function sign(id, timestamp, body) {
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  return `v1,${createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64')}`;
+}
+
+async function deliver(body, { id = `msg_${randomUUID()}`, signature } = {}) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'svix-id': id,
+      'svix-timestamp': timestamp,
+      'svix-signature': signature ?? sign(id, timestamp, body),
+    },
+    body,
+  });
+  return { id, httpStatus: response.status, data: await response.json().catch(() => null) };
+}
+
+let failures = 0;
+
+function check(name, ok, detail) {
+  if (!ok) failures++;
+  console.log(`${ok ? 'PASS' : 'FAIL'}  ${name}`);
+  if (detail) console.log(`      ${JSON.stringify(detail)}`);
+}
+
+const files = (await readdir(fixturesDir)).filter(file => file.endsWith('.json')).sort();
+let firstApplied = null;
+
+for (const file of files) {
+  const { expect, ...event } = JSON.parse(await readFile(path.join(fixturesDir, file), 'utf8'));
+  if (only.length > 0 && !only.includes(event.event)) continue;
+  if (memberId) event.payload.id = memberId;
+
+  const body = JSON.stringify(event);
+  const result = await deliver(body);
+  check(`${file} -> ${expect}`, result.httpStatus === 200 && result.data?.status === expect, result.data);
+  if (!firstApplied && result.data?.status === 'applied') firstApplied = { body, id: result.id };
+}
+
+// A redelivery of the same message must not be recorded twice
+if (firstApplied) {
+  const result = await deliver(firstApplied.body, { id: firstApplied.id });
+  check('redelivery -> duplicate', result.data?.status === 'duplicate', result.data);
+}
+
+// Tampered or unsigned deliveries must be refused
+const tampered = await deliver(JSON.stringify({ event: 'member.plan.added', payload: { id: 'mem_forged' } }), {
+  signature: 'v1,AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=',
+});
+check('bad signature -> 401', tampered.httpStatus === 401, tampered.data);
+
+console.log(failures === 0 ? '\nAll webhook checks passed' : `\n${failures} webhook check(s) failed`);
+process.exit(failures === 0 ? 0 : 1);
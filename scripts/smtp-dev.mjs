@@ -0,0 +1,78 @@
+// Local SMTP stand-in for alert emails: accepts every message and prints it.
+// Run `npm run smtp:dev`, then set SMTP_HOST=localhost, SMTP_PORT=2525 and
+// SMTP_REQUIRE_TLS=false (it speaks plain SMTP, as Mailpit and MailHog do by default).
+import net from 'net';
+
+const port = Number(process.env.SMTP_DEV_PORT) || 2525;
+
+const server = net.createServer(socket => {
+  let buffer = '';
+  let inData = false;
+  let authLines = 0; // AUTH LOGIN lines still to come: username, then password
+  let envelope = { from: '', to: [] };
+  let message = [];
+
+  const reply = line => socket.write(`${line}\r\n`);
+  reply('220 localhost smtp-dev ready');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let index;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          console.log(`\n--- Message from ${envelope.from} to ${envelope.to.join(', ')} ---`);
+          console.log(message.join('\n'));
+          console.log('--- End of message ---');
+          envelope = { from: '', to: [] };
+          message = [];
+          reply('250 OK: message accepted');
+        } else {
+          message.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      if (authLines > 0) {
+        // Any credentials are accepted
+        authLines -= 1;
+        reply(authLines > 0 ? '334 UGFzc3dvcmQ6' : '235 Authentication succeeded');
+        continue;
+      }
+
+      const verb = line.split(' ')[0].toUpperCase();
+      if (verb === 'EHLO' || verb === 'HELO') {
+        reply('250 localhost');
+      } else if (verb === 'AUTH') {
+        authLines = 2;
+        reply('334 VXNlcm5hbWU6');
+      } else if (verb === 'MAIL') {
+        envelope.from = line.slice(line.indexOf(':') + 1).trim();
+        reply('250 OK');
+      } else if (verb === 'RCPT') {
+        envelope.to.push(line.slice(line.indexOf(':') + 1).trim());
+        reply('250 OK');
+      } else if (verb === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (verb === 'RSET' || verb === 'NOOP') {
+        reply('250 OK');
+      } else if (verb === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  });
+
+  socket.on('error', () => {});
+});
+
+server.listen(port, () => {
+  console.log(`smtp-dev listening on port ${port}`);
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffSnapshots, mergeSnapshots } from '@/app/lib/alerts/diff';
+import type { WatchSnapshot } from '@/app/lib/types/alerts';
+
+const suburb = (msp: number | null, takenAt: string): WatchSnapshot => ({
+  type: 'suburb',
+  key: 'Bondi',
+  takenAt,
+  msp: msp === null ? null : { value: msp, display: `$${msp}` },
+  vacancy: null,
+  daIds: null,
+});
+
+test('a failed read keeps the previous figures', () => {
+  const previous = suburb(1_000_000, '2026-09-01T00:00:00.000Z');
+  const merged = mergeSnapshots(previous, suburb(null, '2026-10-01T00:00:00.000Z'));
+
+  assert.deepEqual(merged.msp, previous.msp);
+  assert.equal(merged.takenAt, '2026-10-01T00:00:00.000Z');
+});
+
+test('a move across a failed read is reported once', () => {
+  const first = suburb(1_000_000, '2026-08-01T00:00:00.000Z');
+  const outage = mergeSnapshots(first, suburb(null, '2026-09-01T00:00:00.000Z'));
+  const recovered = suburb(1_100_000, '2026-10-01T00:00:00.000Z');
+
+  assert.equal(diffSnapshots(first, outage, 'Bondi').length, 0);
+  assert.equal(diffSnapshots(outage, recovered, 'Bondi').length, 1);
+  assert.equal(diffSnapshots(mergeSnapshots(outage, recovered), recovered, 'Bondi').length, 0);
+});
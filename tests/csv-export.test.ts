@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toCsv } from '@/app/lib/export/csv';
+
+test('text that would run as a formula is quoted', () => {
+  const csv = toCsv([{
+    name: 'Development applications',
+    columns: ['Description', 'Change'],
+    rows: [
+      ['=HYPERLINK("http://example.com","x")', -2.5],
+      ['@SUM(A1)', null],
+      ['+61 2 9999 9999', 3],
+      ['\tTabbed', 0],
+      ['Two storey dwelling', 1],
+    ],
+  }]);
+  const lines = csv.replace(/^\uFEFF/, '').split('\r\n');
+
+  assert.equal(lines[2], `"'=HYPERLINK(""http://example.com"",""x"")",-2.5`);
+  assert.equal(lines[3], `'@SUM(A1),`);
+  assert.equal(lines[4], `'+61 2 9999 9999,3`);
+  assert.equal(lines[5], `'\tTabbed,0`);
+  assert.equal(lines[6], 'Two storey dwelling,1');
+});
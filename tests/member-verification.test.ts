@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyMember } from '@/app/lib/auth/memberstack';
+
+// No Memberstack API keys are set when the tests run
+const setEnv = (values: Record<string, string | undefined>) => {
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) delete process.env[key];
+    else Object.assign(process.env, { [key]: value });
+  }
+};
+
+test('a missing API key is a 503, not an invalid sign-in', async () => {
+  setEnv({ MEMBERSTACK_LOCAL_AUTH: undefined });
+  const result = await verifyMember('token', { email: 'member@example.com' });
+
+  assert.equal(result.ok, false);
+  assert.equal(!result.ok && result.status, 503);
+});
+
+test('local mode signs in the claimed email on the configured plan', async () => {
+  setEnv({ MEMBERSTACK_LOCAL_AUTH: 'true', MEMBERSTACK_LOCAL_PLAN: 'pln_advanced-ni690fz3' });
+  const result = await verifyMember('anything', { email: ' Member@Example.com ' });
+  setEnv({ MEMBERSTACK_LOCAL_AUTH: undefined, MEMBERSTACK_LOCAL_PLAN: undefined });
+
+  assert.ok(result.ok);
+  assert.equal(result.member.auth.email, 'member@example.com');
+  assert.deepEqual(result.member.planConnections, [{ planId: 'pln_advanced-ni690fz3', status: 'ACTIVE' }]);
+});
+
+test('local mode is refused in production', async () => {
+  const nodeEnv = process.env.NODE_ENV;
+  setEnv({ MEMBERSTACK_LOCAL_AUTH: 'true', NODE_ENV: 'production' });
+  const result = await verifyMember('anything', { email: 'member@example.com' });
+  setEnv({ MEMBERSTACK_LOCAL_AUTH: undefined, NODE_ENV: nodeEnv });
+
+  assert.equal(result.ok, false);
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { withOrderLock } from '@/app/lib/orders/store';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+test('withOrderLock runs one holder at a time per user', async () => {
+  const events: string[] = [];
+  const hold = (name: string) => withOrderLock('Member@Example.com', async () => {
+    events.push(`${name}:start`);
+    await tick();
+    events.push(`${name}:end`);
+    return name;
+  });
+
+  const results = await Promise.all([hold('a'), hold('b'), hold('c')]);
+
+  assert.deepEqual(results, ['a', 'b', 'c'].map(value => ({ acquired: true, value })));
+  assert.deepEqual(events, ['a:start', 'a:end', 'b:start', 'b:end', 'c:start', 'c:end']);
+});
+
+test('withOrderLock releases the lock when the holder throws', async () => {
+  await assert.rejects(withOrderLock('member@example.com', async () => {
+    throw new Error('boom');
+  }));
+  assert.deepEqual(await withOrderLock('member@example.com', async () => 'next'), { acquired: true, value: 'next' });
+});
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getMatchUsage, meterMatches } from '@/app/lib/finder/matches';
+import type { User } from '@/app/lib/auth/types';
+
+// The free plan allows 5 matches a month
+const member: User = {
+  id: 'session-1',
+  email: 'free@example.com',
+  firstName: 'Free',
+  lastName: 'Member',
+  activePlans: [],
+  bestPlanId: null,
+  memberstackId: 'mem_free',
+};
+
+const matches = (...ids: string[]) => ids.map(gnafId => ({ gnafId }));
+
+test('concurrent searches cannot spend more than the allowance', async () => {
+  const [first, second] = await Promise.all([
+    meterMatches(member, matches('A', 'B', 'C', 'D')),
+    meterMatches(member, matches('E', 'F', 'G', 'H')),
+  ]);
+
+  assert.equal(first.allowed.length + second.allowed.length, 5);
+  assert.equal(first.withheld + second.withheld, 3);
+  assert.equal((await getMatchUsage(member)).propertyMatchesLeft, 0);
+});
+
+test('properties already matched this period stay free', async () => {
+  const result = await meterMatches(member, matches('A', 'Z'));
+
+  assert.deepEqual(result.allowed.map(match => match.gnafId), ['A']);
+  assert.equal(result.withheld, 1);
+  assert.equal(result.usage.propertyMatchesUsed, 5);
+});
@@ -0,0 +1,67 @@
+// Runs every Flask fragment in scripts/fixtures/flask through the sanitizer and
+// compares it with the reviewed output beside it (<name>.sanitized.html).
+// `npm run sanitizer:corpus` runs just this file; with UPDATE_CORPUS=1 it rewrites
+// the reviewed outputs, so diff them before committing.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync, writeFileSync, existsSync } from 'fs';
+import path from 'path';
+import { sanitizeHtml, type FragmentDocument } from '@/app/lib/security/sanitize-html';
+import { isApprovedScriptUrl } from '@/app/lib/security/csp';
+
+const corpusDir = path.join(__dirname, '..', 'scripts', 'fixtures', 'flask');
+const update = process.env.UPDATE_CORPUS === '1';
+
+const fragments = readdirSync(corpusDir)
+  .filter(name => name.endsWith('.html') && !name.endsWith('.sanitized.html'))
+  .sort();
+
+// Properties every sanitized fragment must have, whatever its reviewed output says
+function assertSafe(output: string, documents: FragmentDocument[]): void {
+  assert.doesNotMatch(output, /\son[a-z]+\s*=/i, 'event handler attribute kept');
+  assert.doesNotMatch(output, /javascript:/i, 'javascript: URL kept');
+  assert.doesNotMatch(output, /srcdoc=/i, 'inline frame document kept');
+  assert.doesNotMatch(output, /<script[^>]*>[^<]+<\/script>/i, 'inline script kept');
+
+  for (const [, src] of output.matchAll(/<script[^>]*\ssrc="([^"]*)"/gi)) {
+    assert.ok(isApprovedScriptUrl(src.replace(/&amp;/g, '&')), `unpinned script kept: ${src}`);
+  }
+  for (const [tag] of output.matchAll(/<iframe[^>]*>/gi)) {
+    assert.match(tag, /\ssandbox="/, 'frame without sandbox');
+    if (tag.includes('src="/api/fragments/')) {
+      assert.doesNotMatch(tag, /allow-same-origin/, 'fragment frame shares the app origin');
+    }
+  }
+  for (const doc of documents) {
+    assert.ok(output.includes(`/api/fragments/${doc.id}`), 'stored document not linked');
+  }
+}
+
+for (const name of fragments) {
+  test(`sanitizer corpus: ${name}`, () => {
+    const input = readFileSync(path.join(corpusDir, name), 'utf8');
+    const documents: FragmentDocument[] = [];
+    const output = sanitizeHtml(input, documents);
+
+    assertSafe(output, documents);
+
+    const reviewedPath = path.join(corpusDir, name.replace(/\.html$/, '.sanitized.html'));
+    if (update || !existsSync(reviewedPath)) {
+      writeFileSync(reviewedPath, output);
+      if (!update) assert.fail(`No reviewed output for ${name}; wrote ${path.basename(reviewedPath)} to review`);
+      return;
+    }
+    assert.equal(output, readFileSync(reviewedPath, 'utf8'));
+  });
+}
+
+test('sanitizer corpus: folium map moves its document out and keeps its libraries', () => {
+  const input = readFileSync(path.join(corpusDir, 'property-amenities-folium.html'), 'utf8');
+  const documents: FragmentDocument[] = [];
+  sanitizeHtml(input, documents);
+
+  assert.equal(documents.length, 1);
+  for (const [, src] of documents[0].html.matchAll(/<script src="([^"]+)"/g)) {
+    assert.ok(isApprovedScriptUrl(src), `map library is not pinned: ${src}`);
+  }
+});
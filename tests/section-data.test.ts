@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toAmount, toDistanceKm } from '@/app/lib/reports/section-data';
+
+test('distances are read in kilometres', () => {
+  assert.equal(toDistanceKm('850m'), 0.85);
+  assert.equal(toDistanceKm('850 m'), 0.85);
+  assert.equal(toDistanceKm('1.2km'), 1.2);
+  assert.equal(toDistanceKm('1.2 km'), 1.2);
+  assert.equal(toDistanceKm('2.5'), 2.5);
+  assert.equal(toDistanceKm(3), 3);
+});
+
+test('amounts expand k, m and bn suffixes', () => {
+  assert.equal(toAmount('$1.2m'), 1_200_000);
+  assert.equal(toAmount('$850k'), 850_000);
+  assert.equal(toAmount('$1.1bn'), 1_100_000_000);
+  assert.equal(toAmount('1,050'), 1050);
+  assert.equal(toAmount('$2,350,000'), 2_350_000);
+});
+
+test('masked and empty values are null', () => {
+  assert.equal(toAmount('$X.Xm'), null);
+  assert.equal(toDistanceKm(''), null);
+  assert.equal(toAmount(null), null);
+  assert.equal(toAmount(Number.NaN), null);
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getReportEntitlement } from '@/app/lib/auth/entitlements';
+import {
+  allowPasswordAttempt,
+  createShare,
+  getShare,
+  hasViewGrant,
+  listShares,
+  recordShareView,
+  revokeShare,
+  saveViewGrant,
+} from '@/app/lib/shares/store';
+import { createViewGrant, verifyViewGrant } from '@/app/lib/shares/tokens';
+
+const owner = 'owner@example.com';
+
+const newShare = async (maxViews: number | null) => {
+  const link = await createShare(
+    owner,
+    { reportType: 'suburb', reportKey: 'Bondi', label: 'Bondi', expiresInDays: 7, maxViews },
+    getReportEntitlement(null)
+  );
+  return (await getShare(link.id))!;
+};
+
+test('concurrent openings cannot pass the view limit', async () => {
+  const share = await newShare(3);
+  const counted = await Promise.all(Array.from({ length: 6 }, () => recordShareView(share)));
+
+  assert.equal(counted.filter(Boolean).length, 3);
+  assert.equal((await listShares(owner)).find(link => link.id === share.id)?.views, 3);
+});
+
+test('a view counted after revoking leaves the link revoked', async () => {
+  const share = await newShare(null);
+  await revokeShare(owner, share.id);
+  await recordShareView(share); // Opened with the record read before the revoke
+
+  assert.equal((await getShare(share.id))?.revoked, true);
+});
+
+test('view grants only verify with a nonce the store issued', async () => {
+  const share = await newShare(null);
+  const { nonce, grant } = createViewGrant(share.id);
+  await saveViewGrant(share, nonce);
+
+  assert.equal(verifyViewGrant(share.id, grant), nonce);
+  assert.equal(await hasViewGrant(share.id, nonce), true);
+  assert.equal(verifyViewGrant('another-share', grant), null);
+
+  const unsaved = createViewGrant(share.id);
+  assert.notEqual(unsaved.grant, grant);
+  assert.equal(await hasViewGrant(share.id, verifyViewGrant(share.id, unsaved.grant)!), false);
+});
+
+test('password attempts are limited per client', async () => {
+  const share = await newShare(null);
+  const attempts = [];
+  for (let i = 0; i < 6; i++) attempts.push(await allowPasswordAttempt(share.id, '203.0.113.7'));
+
+  assert.deepEqual(attempts, [true, true, true, true, true, false]);
+  assert.equal(await allowPasswordAttempt(share.id, '198.51.100.2'), true);
+});